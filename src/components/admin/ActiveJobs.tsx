@@ -4,12 +4,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Play, Pause, RefreshCw, Clock, Mail, Tag } from "lucide-react";
+import { Play, Pause, RefreshCw, Clock, Mail, Tag, Square, RotateCcw, Workflow } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { toast } from 'sonner';
+
+type RunAction = 'pause' | 'resume' | 'cancel' | 'rerun';
 
 interface Job {
   id: string;
-  type: 'email_import' | 'classification';
+  type: 'email_import' | 'classification' | 'pipeline_run';
   status: string;
   workspace_id: string;
   progress: number;
@@ -22,6 +25,7 @@ interface Job {
 export function ActiveJobs() {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState<string | null>(null);
 
   useEffect(() => {
     fetchJobs();
@@ -32,7 +36,14 @@ export function ActiveJobs() {
   const fetchJobs = async () => {
     setLoading(true);
     try {
-      const [emailJobs, classificationJobs] = await Promise.all([
+      const [pipelineRuns, emailJobs, classificationJobs] = await Promise.all([
+        // Active runs, plus runs that ended badly in the last day so they can be re-run
+        supabase
+          .from('pipeline_runs')
+          .select('id, state, workspace_id, channel, mode, params, metrics, last_error, created_at, updated_at')
+          .or(`state.in.(running,paused),and(state.in.(failed,cancelled),updated_at.gte.${new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()})`)
+          .order('created_at', { ascending: false })
+          .limit(20),
         supabase
           .from('email_import_jobs')
           .select('id, status, workspace_id, bodies_fetched, total_target, created_at, updated_at, error_message')
@@ -48,6 +59,21 @@ export function ActiveJobs() {
       ]);
 
       const formattedJobs: Job[] = [
+        ...(pipelineRuns.data || []).map(run => {
+          const params = (run.params || {}) as Record<string, unknown>;
+          const metrics = (run.metrics || {}) as Record<string, unknown>;
+          return {
+            id: run.id,
+            type: 'pipeline_run' as const,
+            status: run.state,
+            workspace_id: run.workspace_id,
+            progress: Number(metrics.fetched_so_far) || 0,
+            total: Number(params.cap) || 0,
+            created_at: run.created_at,
+            updated_at: run.updated_at,
+            error_message: run.last_error ?? undefined,
+          };
+        }),
         ...(emailJobs.data || []).map(job => ({
           id: job.id,
           type: 'email_import' as const,
@@ -80,14 +106,41 @@ export function ActiveJobs() {
     }
   };
 
+  const controlRun = async (job: Job, action: RunAction) => {
+    if (action === 'cancel' && !confirm('Cancel this run? Queued work for it will be dropped.')) {
+      return;
+    }
+
+    setActing(job.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('pipeline-run-control', {
+        body: { workspace_id: job.workspace_id, run_id: job.id, action },
+      });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Request failed');
+      }
+      toast.success(action === 'rerun' ? 'Run restarted' : `Run ${data.state}`);
+      await fetchJobs();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setActing(null);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'in_progress':
+      case 'running':
         return <Badge className="bg-blue-500/10 text-blue-500 border-blue-500/20">Running</Badge>;
       case 'paused':
         return <Badge className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">Paused</Badge>;
       case 'pending':
         return <Badge className="bg-gray-500/10 text-gray-500 border-gray-500/20">Pending</Badge>;
+      case 'failed':
+        return <Badge className="bg-red-500/10 text-red-500 border-red-500/20">Failed</Badge>;
+      case 'cancelled':
+        return <Badge className="bg-gray-500/10 text-gray-500 border-gray-500/20">Cancelled</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -99,6 +152,8 @@ export function ActiveJobs() {
         return <Mail className="h-4 w-4 text-blue-500" />;
       case 'classification':
         return <Tag className="h-4 w-4 text-purple-500" />;
+      case 'pipeline_run':
+        return <Workflow className="h-4 w-4 text-green-500" />;
     }
   };
 
@@ -129,18 +184,30 @@ export function ActiveJobs() {
                       <span className="font-medium capitalize">{job.type.replace('_', ' ')}</span>
                       {getStatusBadge(job.status)}
                     </div>
-                    <div className="flex gap-2">
-                      {job.status === 'paused' && (
-                        <Button size="sm" variant="outline">
-                          <Play className="h-3 w-3" />
-                        </Button>
-                      )}
-                      {job.status === 'in_progress' && (
-                        <Button size="sm" variant="outline">
-                          <Pause className="h-3 w-3" />
-                        </Button>
-                      )}
-                    </div>
+                    {job.type === 'pipeline_run' && (
+                      <div className="flex gap-2">
+                        {job.status === 'paused' && (
+                          <Button size="sm" variant="outline" title="Resume" onClick={() => controlRun(job, 'resume')} disabled={acting === job.id}>
+                            <Play className="h-3 w-3" />
+                          </Button>
+                        )}
+                        {job.status === 'running' && (
+                          <Button size="sm" variant="outline" title="Pause" onClick={() => controlRun(job, 'pause')} disabled={acting === job.id}>
+                            <Pause className="h-3 w-3" />
+                          </Button>
+                        )}
+                        {(job.status === 'running' || job.status === 'paused') && (
+                          <Button size="sm" variant="outline" title="Cancel" onClick={() => controlRun(job, 'cancel')} disabled={acting === job.id}>
+                            <Square className="h-3 w-3" />
+                          </Button>
+                        )}
+                        {(job.status === 'failed' || job.status === 'cancelled') && (
+                          <Button size="sm" variant="outline" title="Re-run" onClick={() => controlRun(job, 'rerun')} disabled={acting === job.id}>
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
                   
                   <div className="space-y-2">
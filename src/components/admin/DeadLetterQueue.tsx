@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { RefreshCw, Inbox, ChevronDown, ChevronUp, RotateCcw, Trash2, Pencil, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { toast } from 'sonner';
+
+interface DeadLetterItem {
+  msg_id: number;
+  enqueued_at: string;
+  queue: string;
+  signature: string;
+  error: string | null;
+  attempts: number;
+  job_type: string | null;
+  run_id: string | null;
+  job: Record<string, unknown>;
+}
+
+interface DeadLetterGroup {
+  queue: string;
+  signature: string;
+  count: number;
+  latest_at: string;
+  msg_ids: number[];
+}
+
+export function DeadLetterQueue() {
+  const { workspace } = useWorkspace();
+  const [groups, setGroups] = useState<DeadLetterGroup[]>([]);
+  const [items, setItems] = useState<DeadLetterItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ msgId: number; text: string } | null>(null);
+
+  const invoke = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('pipeline-deadletter', {
+      body: { workspace_id: workspace?.id, ...body },
+    });
+    if (error || !data?.ok) {
+      throw new Error(data?.error || error?.message || 'Request failed');
+    }
+    return data;
+  }, [workspace?.id]);
+
+  const fetchDeadLetters = useCallback(async () => {
+    if (!workspace?.id) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const data = await invoke({ action: 'list' });
+      setGroups(data.groups || []);
+      setItems(data.items || []);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error fetching dead letters:', error);
+      setGroups([]);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [workspace?.id, invoke]);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const runAction = async (action: 'replay' | 'discard', msgIds: number[], payload?: Record<string, unknown>) => {
+    if (msgIds.length === 0) return;
+    if (action === 'discard' && !confirm(`Discard ${msgIds.length} dead-lettered job(s)? This cannot be undone.`)) {
+      return;
+    }
+
+    setActing(true);
+    try {
+      await invoke({ action, msg_ids: msgIds, payload });
+      toast.success(action === 'replay' ? `Replayed ${msgIds.length} job(s)` : `Discarded ${msgIds.length} job(s)`);
+      setEditing(null);
+      await fetchDeadLetters();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const replayEdited = () => {
+    if (!editing) return;
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(editing.text);
+    } catch {
+      toast.error('Payload is not valid JSON');
+      return;
+    }
+    runAction('replay', [editing.msgId], payload);
+  };
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    return next;
+  };
+
+  const toggleGroupSelection = (group: DeadLetterGroup, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      group.msg_ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const selectedIds = Array.from(selected);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Dead Letters</CardTitle>
+        <div className="flex items-center gap-2">
+          {selectedIds.length > 0 && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => runAction('replay', selectedIds)} disabled={acting}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Replay {selectedIds.length}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => runAction('discard', selectedIds)} disabled={acting}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Discard {selectedIds.length}
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={fetchDeadLetters} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Inbox className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No dead-lettered jobs</p>
+            <p className="text-xs mt-1">Jobs land here after exhausting their retries</p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[600px] overflow-y-auto">
+            {groups.map((group) => {
+              const key = `${group.queue}::${group.signature}`;
+              const groupItems = items.filter(item => group.msg_ids.includes(item.msg_id));
+              const allSelected = group.msg_ids.every(id => selected.has(id));
+
+              return (
+                <Collapsible key={key} open={expandedGroups.has(key)}>
+                  <div className="p-3 border rounded-lg">
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        className="mt-1"
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleGroupSelection(group, checked === true)}
+                      />
+                      <CollapsibleTrigger
+                        className="w-full"
+                        onClick={() => setExpandedGroups(prev => toggle(prev, key))}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="text-left">
+                            <p className="text-sm font-medium line-clamp-2">{group.signature}</p>
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                              <span className="font-mono bg-muted px-1 rounded">{group.queue}</span>
+                              <Badge className="bg-red-500/10 text-red-500 border-red-500/20">{group.count}</Badge>
+                              <span>latest {formatDistanceToNow(new Date(group.latest_at))} ago</span>
+                            </div>
+                          </div>
+                          {expandedGroups.has(key) ? (
+                            <ChevronUp className="h-4 w-4 text-muted-foreground" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                          )}
+                        </div>
+                      </CollapsibleTrigger>
+                    </div>
+
+                    <CollapsibleContent>
+                      <div className="mt-3 pt-3 border-t space-y-3">
+                        {groupItems.map((item) => (
+                          <div key={item.msg_id} className="space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="flex items-center gap-2 text-xs">
+                                <Checkbox
+                                  checked={selected.has(item.msg_id)}
+                                  onCheckedChange={() => setSelected(prev => toggle(prev, item.msg_id))}
+                                />
+                                <span className="font-mono">#{item.msg_id}</span>
+                                {item.job_type && <Badge variant="outline">{item.job_type}</Badge>}
+                                <span className="text-muted-foreground">
+                                  {item.attempts} attempts · {formatDistanceToNow(new Date(item.enqueued_at))} ago
+                                </span>
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => runAction('replay', [item.msg_id])}
+                                  disabled={acting}
+                                >
+                                  <RotateCcw className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setEditing({ msgId: item.msg_id, text: JSON.stringify(item.job, null, 2) })}
+                                  disabled={acting}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </div>
+                            {item.error && (
+                              <p className="text-xs text-red-500 break-words">{item.error}</p>
+                            )}
+                            {editing?.msgId === item.msg_id ? (
+                              <div className="space-y-2">
+                                <Textarea
+                                  className="font-mono text-xs min-h-[160px]"
+                                  value={editing.text}
+                                  onChange={(e) => setEditing({ msgId: item.msg_id, text: e.target.value })}
+                                />
+                                <div className="flex gap-2">
+                                  <Button size="sm" onClick={replayEdited} disabled={acting}>
+                                    {acting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                    Replay edited
+                                  </Button>
+                                  <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            ) : (
+                              <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">
+                                {JSON.stringify(item.job, null, 2)}
+                              </pre>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </CollapsibleContent>
+                  </div>
+                </Collapsible>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -34,7 +34,7 @@ const DELETED_FUNCTIONS = new Set([
   'process-own-website-scrape', 'process-worker', 'receive-apify-data',
   'recover-competitor-job', 'refine-competitor-faqs',
   'resume-own-website-scrape', 'save-classification-correction', 'scan-worker',
-  'send-csat-request', 'send-scheduled-summary', 'send-summary-notifications',
+  'send-csat-request', 'send-summary-notifications',
   'start-competitor-analysis', 'start-competitor-research', 'start-email-import',
   'start-own-website-scrape', 'start-website-scrape', 'sync-recent-emails',
   'test-conversation', 'test-integration',
@@ -116,6 +116,14 @@ const TRIGGERS: Trigger[] = [
     params: [],
     description: 'Generate AI summary of inbox',
   },
+  {
+    name: 'Send Summary',
+    function: 'send-scheduled-summary',
+    params: [
+      { name: 'dry_run', type: 'select', options: ['true', 'false'], default: 'true' },
+    ],
+    description: 'Build the inbox digest now (dry run skips notifications and sends)',
+  },
   {
     name: 'Draft Verify',
     function: 'draft-verify',
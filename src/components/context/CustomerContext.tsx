@@ -5,10 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { Mail, Phone, MessageSquare, Crown, Clock, CheckCircle2, UserPlus, ChevronDown } from 'lucide-react';
+import { Mail, Phone, MessageSquare, Crown, Clock, CheckCircle2, UserPlus, ChevronDown, ShieldCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { SnoozeDialog } from '@/components/conversations/SnoozeDialog';
 import { CustomerTimeline } from '@/components/conversations/CustomerTimeline';
 import { cn } from '@/lib/utils';
@@ -18,11 +18,45 @@ interface CustomerContextProps {
   onUpdate: () => void;
 }
 
+type ConsentState = 'granted' | 'withdrawn' | 'none';
+
+interface ConsentRecord {
+  channel: string;
+  consent_given: boolean | null;
+  withdrawn_date: string | null;
+  purpose: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// Same precedence as the send-reply consent gate: the latest record per purpose wins
+const latestConsentState = (records: ConsentRecord[]): ConsentState => {
+  const latest = [...records].sort((a, b) =>
+    (b.updated_at || b.created_at || '').localeCompare(a.updated_at || a.created_at || '')
+  )[0];
+  if (!latest) return 'none';
+  if (latest.withdrawn_date) return 'withdrawn';
+  return latest.consent_given ? 'granted' : 'none';
+};
+
 export const CustomerContext = ({ conversation, onUpdate }: CustomerContextProps) => {
   const customer = conversation.customer;
   const { toast } = useToast();
   const [snoozeOpen, setSnoozeOpen] = useState(false);
   const [quickActionsOpen, setQuickActionsOpen] = useState(false);
+  const [consents, setConsents] = useState<ConsentRecord[]>([]);
+
+  useEffect(() => {
+    if (!customer?.id) {
+      setConsents([]);
+      return;
+    }
+    supabase
+      .from('customer_consents')
+      .select('channel, consent_given, withdrawn_date, purpose, created_at, updated_at')
+      .eq('customer_id', customer.id)
+      .then(({ data }) => setConsents(data || []));
+  }, [customer?.id]);
 
   // Fallback to metadata if customer record is incomplete
   const metadata = conversation.metadata as any || {};
@@ -52,6 +86,29 @@ export const CustomerContext = ({ conversation, onUpdate }: CustomerContextProps
     }
   };
 
+  const consentChannels = [
+    ...(customerEmail ? ['email'] : []),
+    ...(customerPhone ? ['sms', 'whatsapp'] : []),
+  ];
+
+  const getConsentBadges = (channel: string) => {
+    const records = consents.filter((c) => c.channel === channel || c.channel === 'all');
+    const service = latestConsentState(records.filter((c) => (c.purpose || 'customer_service') !== 'marketing'));
+    const marketing = latestConsentState(records.filter((c) => c.purpose === 'marketing'));
+
+    if (service === 'withdrawn') {
+      return <Badge variant="destructive">Opted out</Badge>;
+    }
+    return (
+      <>
+        {service === 'granted' && <Badge variant="secondary">Consented</Badge>}
+        {marketing === 'granted' && <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30">Marketing</Badge>}
+        {marketing === 'withdrawn' && <Badge variant="outline">Marketing withdrawn</Badge>}
+        {marketing === 'none' && <Badge variant="outline">No marketing consent</Badge>}
+      </>
+    );
+  };
+
   return (
     <div className="space-y-5 mobile-section-spacing">
       <div className="mobile-native-card md:p-0 md:border-0 md:shadow-none md:rounded-none">
@@ -92,6 +149,22 @@ export const CustomerContext = ({ conversation, onUpdate }: CustomerContextProps
         )}
       </div>
 
+      {customer?.id && consentChannels.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-3">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Consent</h4>
+            {consentChannels.map((channel) => (
+              <div key={channel} className="flex items-center gap-3 text-sm">
+                <ShieldCheck className="h-4 w-4 text-primary flex-shrink-0" />
+                <span className="w-20 capitalize text-foreground/90">{channel === 'sms' ? 'SMS' : channel}</span>
+                <div className="flex flex-wrap gap-1">{getConsentBadges(channel)}</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       <Separator />
 
       <div className="space-y-3">
@@ -203,6 +276,7 @@ export const CustomerContext = ({ conversation, onUpdate }: CustomerContextProps
 
       <SnoozeDialog
         conversationId={conversation.id}
+        snoozedUntil={conversation.snoozed_until}
         open={snoozeOpen}
         onOpenChange={setSnoozeOpen}
         onSuccess={onUpdate}
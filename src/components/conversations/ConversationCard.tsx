@@ -11,6 +11,7 @@ import { useState, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { TriageQuickActions } from './TriageQuickActions';
+import { type SearchHit, splitSnippet } from '@/lib/searchQuery';
 
 // Status dot color based on decision bucket / status
 const getStatusDotColor = (bucket: string | null | undefined, status: string | null | undefined): string => {
@@ -40,9 +41,11 @@ interface ConversationCardProps {
   onClick: () => void;
   onUpdate?: () => void;
   showTriageActions?: boolean;
+  // Set when the list is showing search results
+  searchHit?: SearchHit;
 }
 
-const ConversationCardComponent = ({ conversation, selected, onClick, onUpdate, showTriageActions }: ConversationCardProps) => {
+const ConversationCardComponent = ({ conversation, selected, onClick, onUpdate, showTriageActions, searchHit }: ConversationCardProps) => {
   const isTablet = useIsTablet();
   const { trigger } = useHaptics();
   const { toast } = useToast();
@@ -270,9 +273,22 @@ const ConversationCardComponent = ({ conversation, selected, onClick, onUpdate,
 
       {/* Row 3: AI snippet + indicators */}
       <div className="flex items-center gap-2">
-        <p className="text-xs text-foreground/50 truncate flex-1 min-w-0">
-          {cleanSnippet}
-        </p>
+        {searchHit?.snippet ? (
+          <p className="text-xs text-foreground/50 line-clamp-2 flex-1 min-w-0">
+            {searchHit.matched_in && searchHit.matched_in !== 'message' && (
+              <span className="text-foreground/40">{searchHit.matched_in}: </span>
+            )}
+            {splitSnippet(searchHit.snippet).map((part, i) => part.highlight ? (
+              <mark key={i} className="bg-yellow-200/70 text-foreground rounded-sm px-0.5">{stripHtml(part.text)}</mark>
+            ) : (
+              <span key={i}>{stripHtml(part.text)}</span>
+            ))}
+          </p>
+        ) : (
+          <p className="text-xs text-foreground/50 truncate flex-1 min-w-0">
+            {cleanSnippet}
+          </p>
+        )}
         <div className="flex items-center gap-1.5 flex-shrink-0">
           {getStatusBadge()}
           {conversation.channel !== 'email' && (
@@ -364,6 +380,7 @@ export const ConversationCard = memo(ConversationCardComponent, (prevProps, next
     prevProps.conversation.decision_bucket === nextProps.conversation.decision_bucket &&
     prevProps.conversation.why_this_needs_you === nextProps.conversation.why_this_needs_you &&
     prevProps.selected === nextProps.selected &&
-    prevProps.showTriageActions === nextProps.showTriageActions
+    prevProps.showTriageActions === nextProps.showTriageActions &&
+    prevProps.searchHit?.snippet === nextProps.searchHit?.snippet
   );
 });
@@ -2,9 +2,10 @@ import { useState } from 'react';
 import { Conversation } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { SLABadge } from '../sla/SLABadge';
-import { ChevronLeft, Sparkles, Archive, MailOpen, Inbox } from 'lucide-react';
+import { ChevronLeft, Sparkles, Archive, MailOpen, Inbox, Layers } from 'lucide-react';
 import { useLocation } from 'react-router-dom';
 import { TeachModal } from './TeachModal';
+import { SimilarConversationsDialog } from './SimilarConversationsDialog';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -33,6 +34,7 @@ export const ConversationHeader = ({ conversation, onUpdate, onBack, hideBackBut
   const location = useLocation();
   const listName = getListName(location.pathname);
   const [showTeachModal, setShowTeachModal] = useState(false);
+  const [showSimilar, setShowSimilar] = useState(false);
   const isMobile = useIsMobile();
   const { toast } = useToast();
   const isCleared = conversation.status === 'resolved';
@@ -94,6 +96,15 @@ export const ConversationHeader = ({ conversation, onUpdate, onBack, hideBackBut
               </span>
             )}
 
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground" onClick={() => setShowSimilar(true)}>
+                  <Layers className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Find similar</TooltipContent>
+            </Tooltip>
+
             {/* Minimal action bar — Archive/Inbox only */}
             {isCleared ? (
               <Tooltip>
@@ -125,6 +136,12 @@ export const ConversationHeader = ({ conversation, onUpdate, onBack, hideBackBut
         conversation={conversation}
         onSuccess={onUpdate}
       />
+
+      <SimilarConversationsDialog
+        conversationId={conversation.id}
+        open={showSimilar}
+        onOpenChange={setShowSimilar}
+      />
     </>
   );
 };
\ No newline at end of file
@@ -14,6 +14,7 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import PullToRefresh from 'react-simple-pull-to-refresh';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { hasSearchCriteria, parseSearchQuery, type SearchHit } from '@/lib/searchQuery';
 
 interface ConversationListProps {
   selectedId?: string;
@@ -55,7 +56,7 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
     localStorage.setItem('conversation-sort', sortBy);
   }, [sortBy]);
 
-  const fetchConversations = async (pageNum: number = 0) => {
+  const fetchConversations = async (pageNum: number = 0): Promise<{ data: Conversation[]; count: number; hits?: Record<string, SearchHit> }> => {
     const { data: { user } } = await supabase.auth.getUser();
     console.log('🔍 [ConversationList] Fetching conversations for user:', user?.id);
     
@@ -80,7 +81,7 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
       });
 
       console.log('✅ [ConversationList] Sent conversations fetched:', activeConversations.length);
-      return { data: activeConversations, count: activeConversations.length };
+      return { data: activeConversations as unknown as Conversation[], count: activeConversations.length };
     }
 
     // Get workspace from user
@@ -104,13 +105,57 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
     
     console.log('✅ [ConversationList] Using workspace_id:', userData.workspace_id);
 
-    let query = supabase
-      .from('conversations')
-      .select(`
+    const conversationSelect = `
         *,
         customer:customers(*),
         assigned_user:users!conversations_assigned_to_fkey(*)
-      `, { count: 'exact' })
+      `;
+
+    // Search covers the whole workspace, ranked by relevance; the view filter does not apply
+    const search = parseSearchQuery(debouncedSearch || '');
+    if (hasSearchCriteria(search)) {
+      const channels = search.channels.length > 0 ? search.channels : channelFilter;
+      const categories = search.categories.length > 0 ? search.categories : categoryFilter;
+      const { data: hits, error: searchError } = await supabase.rpc('bb_search_conversations', {
+        p_workspace_id: userData.workspace_id,
+        p_query: search.text || undefined,
+        p_from: search.from ?? undefined,
+        p_channels: channels.length > 0 ? channels : undefined,
+        p_categories: categories.length > 0 ? categories : undefined,
+        p_statuses: statusFilter.length > 0 ? statusFilter : undefined,
+        p_priorities: priorityFilter.length > 0 ? priorityFilter : undefined,
+        p_before: search.before ?? undefined,
+        p_after: search.after ?? undefined,
+        p_limit: PAGE_SIZE,
+        p_offset: pageNum * PAGE_SIZE,
+      });
+
+      if (searchError) {
+        console.error('❌ [ConversationList] Search error:', searchError);
+        throw searchError;
+      }
+      if (!hits || hits.length === 0) {
+        return { data: [], count: 0, hits: {} };
+      }
+
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(conversationSelect)
+        .in('id', hits.map((hit) => hit.conversation_id));
+
+      if (error) throw error;
+
+      const byId = new Map((data || []).map((conv) => [conv.id, conv]));
+      return {
+        data: hits.map((hit) => byId.get(hit.conversation_id)).filter(Boolean) as unknown as Conversation[],
+        count: Number(hits[0].total_count) || 0,
+        hits: Object.fromEntries(hits.map((hit) => [hit.conversation_id, hit as SearchHit])),
+      };
+    }
+
+    let query = supabase
+      .from('conversations')
+      .select(conversationSelect, { count: 'exact' })
       .eq('workspace_id', userData.workspace_id);
 
     // Apply sorting
@@ -183,6 +228,11 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
       query = query.eq('requires_reply', false);
     }
     
+    // bb_wake_due_snoozes clears snoozed_until when a snooze ends
+    if (filter !== 'snoozed') {
+      query = query.is('snoozed_until', null);
+    }
+
     console.log('🔎 [ConversationList] Applied filter:', filter);
 
     // Apply additional filters
@@ -199,12 +249,6 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
       query = query.in('category', categoryFilter);
     }
 
-    // Add server-side search if search query provided
-    if (debouncedSearch && debouncedSearch.trim().length > 0) {
-      const searchTerm = debouncedSearch.trim();
-      query = query.or(`title.ilike.%${searchTerm}%,summary_for_human.ilike.%${searchTerm}%`);
-    }
-
     // Add pagination
     query = query.range(pageNum * PAGE_SIZE, (pageNum + 1) * PAGE_SIZE - 1);
 
@@ -220,14 +264,8 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
       firstConv: data?.[0]
     });
 
-    const conversationData = data as any;
-    const activeConversations = conversationData.filter((conv: any) => {
-      if (!conv.snoozed_until) return true;
-      return new Date(conv.snoozed_until) <= new Date();
-    });
-
-    console.log('✅ [ConversationList] Active conversations after filtering:', activeConversations.length);
-    return { data: activeConversations, count: count || 0 };
+    console.log('✅ [ConversationList] Active conversations:', data?.length);
+    return { data: (data || []) as unknown as Conversation[], count: count || 0 };
   };
 
   // Track last update time
@@ -407,6 +445,7 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
               onClick={() => onSelect(conversation)}
               onUpdate={handleRefresh}
               showTriageActions={filter === 'triaged' || filter === 'cleared'}
+              searchHit={queryData?.hits?.[conversation.id]}
             />
           ))}
           {isFetching && (
@@ -459,7 +498,7 @@ export const ConversationList = ({ selectedId, onSelect, filter = 'all-open', on
         <SearchInput 
           value={searchQuery} 
           onChange={setSearchQuery}
-          placeholder="Search by name, email, or content..."
+          placeholder="Search messages... try from: channel: category: before:"
         />
         
         <div className="flex gap-2">
@@ -8,6 +8,7 @@ import { CustomerIntelligence } from '@/components/customers/CustomerIntelligenc
 import { Loader2, Brain, Sparkles, ChevronRight, TrendingUp, Reply } from 'lucide-react';
 import { CategoryLabel } from '@/components/shared/CategoryLabel';
 import { useToast } from '@/hooks/use-toast';
+import { sendReply, SendCancelledError } from '@/lib/sendReply';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -105,82 +106,52 @@ export const ConversationThread = ({ conversation, onUpdate, onBack, hideBackBut
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
 
-    const { data: userData } = await supabase
-      .from('users')
-      .select('name')
-      .eq('id', user.id)
-      .single();
-
-    const { data: newMessage, error: insertError } = await supabase
-      .from('messages')
-      .insert({
-        conversation_id: conversation.id,
-        actor_type: isInternal ? 'system' : 'human_agent',
-        actor_id: user.id,
-        actor_name: userData?.name || 'Agent',
-        direction: 'outbound',
-        channel: conversation.channel,
-        body,
-        is_internal: isInternal
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      console.error('Error sending message:', insertError);
-      toast({
-        title: "Error sending message",
-        description: insertError.message,
-        variant: "destructive"
-      });
-      return;
-    }
+    if (isInternal) {
+      const { data: userData } = await supabase
+        .from('users')
+        .select('name')
+        .eq('id', user.id)
+        .single();
 
-    if (!isInternal) {
+      const { error: insertError } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversation.id,
+          actor_type: 'system',
+          actor_id: user.id,
+          actor_name: userData?.name || 'Agent',
+          direction: 'outbound',
+          channel: conversation.channel,
+          body,
+          is_internal: true
+        });
+
+      if (insertError) {
+        console.error('Error sending message:', insertError);
+        toast({
+          title: "Error sending message",
+          description: insertError.message,
+          variant: "destructive"
+        });
+        return;
+      }
+    } else {
+      // send-reply resolves the recipient, runs the consent gate and logs the outbound message
       try {
-        let customerData = conversation.customer;
-        if (!customerData && conversation.customer_id) {
-          const { data: fetched } = await supabase
-            .from('customers')
-            .select('*')
-            .eq('id', conversation.customer_id)
-            .single();
-          customerData = fetched as typeof conversation.customer;
-        }
-
-        if (customerData) {
-          let recipient = '';
-          if (conversation.channel === 'email') {
-            recipient = customerData.email || '';
-          } else if (conversation.channel === 'sms' || conversation.channel === 'whatsapp') {
-            recipient = customerData.phone || '';
-          }
-
-          if (recipient) {
-            const { error: sendError } = await supabase.functions.invoke('email-send', {
-              body: {
-                conversationId: conversation.id,
-                channel: conversation.channel,
-                to: recipient,
-                message: body,
-                skipMessageLog: true,
-                metadata: {
-                  actorType: 'human_agent',
-                  actorName: userData?.name || 'Agent',
-                  actorId: user.id
-                }
-              }
-            });
-
-            if (sendError) {
-              toast({ title: "Delivery failed", description: sendError.message, variant: "destructive" });
-            }
-          } else {
-            toast({ title: "No recipient", description: `No ${conversation.channel === 'email' ? 'email' : 'phone'} for customer`, variant: "destructive" });
-          }
-        }
-      } catch (error: any) {
-        toast({ title: "Send failed", description: error.message, variant: "destructive" });
+        await sendReply({
+          conversationId: conversation.id,
+          workspaceId: conversation.workspace_id,
+          content: body,
+        });
+      } catch (sendError) {
+        toast({
+          title: sendError instanceof SendCancelledError ? "Not sent" : "Delivery failed",
+          description: sendError instanceof SendCancelledError
+            ? "The reply was not delivered to the customer."
+            : sendError instanceof Error ? sendError.message : 'Please try again.',
+          variant: "destructive"
+        });
+        return;
       }
     }
 
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { supabase } from '@/integrations/supabase/client';
 import { Conversation } from '@/lib/types';
+import { snoozeConversation } from '@/lib/snooze';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 
@@ -25,14 +26,15 @@ export const InboxQuickActions = ({ conversation }: InboxQuickActionsProps) => {
 
   const handleSnooze = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    const snoozeUntil = new Date();
-    snoozeUntil.setHours(snoozeUntil.getHours() + 4);
-    await supabase
-      .from('conversations')
-      .update({ snoozed_until: snoozeUntil.toISOString() })
-      .eq('id', conversation.id);
-    toast.success('Snoozed for 4 hours');
-    queryClient.invalidateQueries({ queryKey: ['jace-inbox'] });
+    try {
+      await snoozeConversation(conversation.workspace_id, conversation.id, {
+        until: new Date(Date.now() + 4 * 60 * 60 * 1000),
+      });
+      toast.success('Snoozed for 4 hours');
+      queryClient.invalidateQueries({ queryKey: ['jace-inbox'] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to snooze');
+    }
   };
 
   const handleMarkRead = async (e: React.MouseEvent) => {
@@ -131,6 +131,11 @@ export const JaceStyleInbox = ({ onSelect, selectedId, filter = 'needs-me', hide
         .in('status', ['new', 'open', 'waiting_internal', 'ai_handling', 'escalated']);
     }
 
+    // bb_wake_due_snoozes clears snoozed_until when a snooze ends
+    if (filter !== 'snoozed') {
+      query = query.is('snoozed_until', null);
+    }
+
     // When searching, fetch more items so search works beyond the first page
     const limit = debouncedSearch && debouncedSearch.trim().length > 0 ? 250 : PAGE_SIZE;
     query = query.limit(limit);
@@ -138,12 +143,7 @@ export const JaceStyleInbox = ({ onSelect, selectedId, filter = 'needs-me', hide
     const { data, error } = await query;
     if (error) throw error;
 
-    return (data || []).filter((conv: any) => {
-      // When viewing snoozed filter, don't filter out snoozed items
-      if (filter === 'snoozed') return true;
-      if (!conv.snoozed_until) return true;
-      return new Date(conv.snoozed_until) <= new Date();
-    });
+    return data || [];
   };
 
   const { data: autoHandledCount = 0 } = useQuery({
@@ -257,6 +257,7 @@ export const QuickActions = ({ conversation, onUpdate, onBack }: QuickActionsPro
 
       <SnoozeDialog
         conversationId={conversation.id}
+        snoozedUntil={conversation.snoozed_until}
         open={snoozeOpen}
         onOpenChange={setSnoozeOpen}
         onSuccess={onUpdate}
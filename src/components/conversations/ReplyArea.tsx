@@ -8,6 +8,7 @@ import { useIsTablet } from '@/hooks/use-tablet';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
+import { TemplateSelector } from '@/components/templates/TemplateSelector';
 
 interface ReplyAreaProps {
   conversationId: string;
@@ -318,6 +319,20 @@ export const ReplyArea = ({ conversationId, channel, aiDraftResponse, onSend, ex
                   <Paperclip className="h-3 w-3 mr-1" />
                   Attach
                 </Button>
+                <TemplateSelector
+                  conversationId={conversationId}
+                  channel={selectedChannel}
+                  onSelect={(body) => {
+                    // Insert at the cursor so a template can follow a greeting
+                    const textarea = replyTextareaRef.current;
+                    const start = textarea?.selectionStart ?? replyBody.length;
+                    const end = textarea?.selectionEnd ?? replyBody.length;
+                    const newValue = replyBody.slice(0, start) + body + replyBody.slice(end);
+                    setReplyBody(newValue);
+                    localStorage.setItem(`draft-${conversationId}`, newValue);
+                    onDraftChange?.(newValue);
+                  }}
+                />
                 <span className="text-[10px] text-muted-foreground/60 ml-auto">
                   ⌘+Enter to send
                 </span>
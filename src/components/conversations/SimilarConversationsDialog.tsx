@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { Loader2 } from 'lucide-react';
+
+interface SimilarConversation {
+  conversation_id: string;
+  title: string | null;
+  status: string | null;
+  category: string | null;
+  customer_name: string | null;
+  updated_at: string;
+  similarity: number;
+}
+
+interface SimilarConversationsDialogProps {
+  conversationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SimilarConversationsDialog = ({ conversationId, open, onOpenChange }: SimilarConversationsDialogProps) => {
+  const { workspace } = useWorkspace();
+  const navigate = useNavigate();
+  const [results, setResults] = useState<SimilarConversation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !workspace?.id) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    supabase.functions
+      .invoke('find-similar-conversations', {
+        body: { workspace_id: workspace.id, conversation_id: conversationId, limit: 10 },
+      })
+      .then(({ data, error: invokeError }) => {
+        if (cancelled) return;
+        if (invokeError || !data?.ok) {
+          setError(data?.error || invokeError?.message || 'Could not load similar conversations');
+          setResults([]);
+        } else {
+          setResults(data.results || []);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspace?.id, conversationId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Similar conversations</DialogTitle>
+          <DialogDescription>Past conversations about the same thing, closest first</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">{error}</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No similar conversations found yet.</p>
+        ) : (
+          <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+            {results.map((result) => (
+              <button
+                key={result.conversation_id}
+                onClick={() => {
+                  onOpenChange(false);
+                  navigate(`/conversation/${result.conversation_id}`);
+                }}
+                className="w-full text-left rounded-lg px-3 py-2 hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">{result.title || 'No subject'}</span>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">
+                    {Math.round(result.similarity * 100)}%
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mt-0.5 text-xs text-muted-foreground">
+                  {result.customer_name && <span className="truncate">{result.customer_name}</span>}
+                  <span>{new Date(result.updated_at).toLocaleDateString()}</span>
+                  {result.category && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 font-normal">
+                      {result.category}
+                    </Badge>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
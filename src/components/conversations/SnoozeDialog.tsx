@@ -1,54 +1,96 @@
 import { useState } from 'react';
+import { format } from 'date-fns';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { useToast } from '@/hooks/use-toast';
-import { Clock } from 'lucide-react';
+import { snoozeConversation, type SnoozeRequest, unsnoozeConversation } from '@/lib/snooze';
+import { AlarmClockOff, Briefcase, Clock, MessageCircleReply } from 'lucide-react';
 
 interface SnoozeDialogProps {
   conversationId: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
+  snoozedUntil?: string | null;
 }
 
-export const SnoozeDialog = ({ conversationId, open, onOpenChange, onSuccess }: SnoozeDialogProps) => {
+const snoozeOptions = [
+  { label: '1 hour', hours: 1 },
+  { label: '4 hours', hours: 4 },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '1 week', hours: 168 },
+];
+
+// datetime-local wants local wall-clock time without a zone
+function toLocalInputValue(date: Date) {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+export const SnoozeDialog = ({ conversationId, open, onOpenChange, onSuccess, snoozedUntil }: SnoozeDialogProps) => {
+  const { workspace } = useWorkspace();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [customUntil, setCustomUntil] = useState('');
 
-  const snoozeOptions = [
-    { label: '1 hour', hours: 1 },
-    { label: '4 hours', hours: 4 },
-    { label: '1 day', hours: 24 },
-    { label: '3 days', hours: 72 },
-    { label: '1 week', hours: 168 },
-  ];
+  const isSnoozed = !!snoozedUntil && new Date(snoozedUntil) > new Date();
 
-  const handleSnooze = async (hours: number) => {
-    setLoading(true);
-    const snoozeUntil = new Date();
-    snoozeUntil.setHours(snoozeUntil.getHours() + hours);
+  const handleSnooze = async (request: SnoozeRequest) => {
+    if (!workspace?.id) return;
 
-    const { error } = await supabase
-      .from('conversations')
-      .update({ snoozed_until: snoozeUntil.toISOString() })
-      .eq('id', conversationId);
-
-    if (error) {
+    setLoading(true);
+    try {
+      const result = await snoozeConversation(workspace.id, conversationId, request);
       toast({
-        title: "Error",
-        description: "Failed to snooze conversation",
-        variant: "destructive",
+        title: 'Conversation snoozed',
+        description: result.until_reply
+          ? 'It will come back when the customer replies'
+          : `It will come back ${format(new Date(result.snoozed_until!), "EEE d MMM 'at' HH:mm")}, or sooner if the customer replies`,
       });
-    } else {
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
       toast({
-        title: "Conversation snoozed",
-        description: `This conversation will return in ${hours} ${hours === 1 ? 'hour' : 'hours'}`,
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to snooze conversation',
+        variant: 'destructive',
       });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnsnooze = async () => {
+    if (!workspace?.id) return;
+
+    setLoading(true);
+    try {
+      await unsnoozeConversation(workspace.id, conversationId);
+      toast({ title: 'Conversation is back in your queue' });
       onOpenChange(false);
       onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to unsnooze conversation',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCustomSnooze = () => {
+    const until = new Date(customUntil);
+    if (Number.isNaN(until.getTime()) || until <= new Date()) {
+      toast({ title: 'Pick a time in the future', variant: 'destructive' });
+      return;
     }
-    setLoading(false);
+    handleSnooze({ until });
   };
 
   return (
@@ -60,25 +102,71 @@ export const SnoozeDialog = ({ conversationId, open, onOpenChange, onSuccess }:
             Snooze Conversation
           </DialogTitle>
           <DialogDescription>
-            Hide this conversation from your queue until the selected time
+            {isSnoozed
+              ? `Snoozed until ${format(new Date(snoozedUntil!), "EEE d MMM 'at' HH:mm")}`
+              : 'Hide this conversation from your queue until the selected time'}
           </DialogDescription>
         </DialogHeader>
-        
+
         <div className="grid gap-2">
-          {snoozeOptions.map((option) => (
-            <Button
-              key={option.hours}
-              variant="outline"
-              onClick={() => handleSnooze(option.hours)}
-              disabled={loading}
-              className="justify-start"
-            >
-              {option.label}
+          <Button
+            variant="outline"
+            onClick={() => handleSnooze({ preset: 'next_business_morning' })}
+            disabled={loading}
+            className="justify-start"
+          >
+            <Briefcase className="h-4 w-4 mr-2" />
+            Next business morning
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleSnooze({ untilReply: true })}
+            disabled={loading}
+            className="justify-start"
+          >
+            <MessageCircleReply className="h-4 w-4 mr-2" />
+            Until the customer replies
+          </Button>
+          <div className="grid grid-cols-3 gap-2">
+            {snoozeOptions.map((option) => (
+              <Button
+                key={option.hours}
+                variant="outline"
+                size="sm"
+                onClick={() => handleSnooze({ until: new Date(Date.now() + option.hours * 60 * 60 * 1000) })}
+                disabled={loading}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="snooze-custom">Pick a date and time</Label>
+          <div className="flex gap-2">
+            <Input
+              id="snooze-custom"
+              type="datetime-local"
+              min={toLocalInputValue(new Date())}
+              value={customUntil}
+              onChange={(e) => setCustomUntil(e.target.value)}
+            />
+            <Button onClick={handleCustomSnooze} disabled={loading || !customUntil}>
+              Snooze
             </Button>
-          ))}
+          </div>
         </div>
 
         <DialogFooter>
+          {isSnoozed && (
+            <Button variant="outline" onClick={handleUnsnooze} disabled={loading} className="mr-auto">
+              <AlarmClockOff className="h-4 w-4 mr-2" />
+              Unsnooze now
+            </Button>
+          )}
           <Button variant="ghost" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
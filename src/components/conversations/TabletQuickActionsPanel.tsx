@@ -178,6 +178,7 @@ export const TabletQuickActionsPanel = ({
 
       <SnoozeDialog
         conversationId={conversation.id}
+        snoozedUntil={conversation.snoozed_until}
         open={snoozeDialogOpen}
         onOpenChange={setSnoozeDialogOpen}
         onSuccess={onUpdate}
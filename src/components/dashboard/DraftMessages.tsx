@@ -15,6 +15,7 @@ import {
 import { cn } from '@/lib/utils';
 import { useNavigate } from 'react-router-dom';
 import { CategoryLabel } from '@/components/shared/CategoryLabel';
+import { sendReply, SendCancelledError } from '@/lib/sendReply';
 
 interface DraftMessage {
   id: string;
@@ -125,7 +126,7 @@ export function DraftMessages({ onNavigate, maxItems = 5 }: DraftMessagesProps)
   };
 
   const handleSendSelected = async () => {
-    if (selectedIds.size === 0) return;
+    if (selectedIds.size === 0 || !workspace?.id) return;
 
     setSending(true);
     let successCount = 0;
@@ -145,16 +146,13 @@ export function DraftMessages({ onNavigate, maxItems = 5 }: DraftMessagesProps)
 
         if (!conv?.ai_draft_response) continue;
 
-        // Send via edge function
-        const { error } = await supabase.functions.invoke('email-send', {
-          body: {
-            conversationId: id,
-            response: conv.ai_draft_response,
-          },
+        // Send via edge function (asks before sending past a consent warning)
+        await sendReply({
+          conversationId: id,
+          workspaceId: workspace.id,
+          content: conv.ai_draft_response,
         });
 
-        if (error) throw error;
-
         // Update conversation status
         await supabase
           .from('conversations')
@@ -172,6 +170,7 @@ export function DraftMessages({ onNavigate, maxItems = 5 }: DraftMessagesProps)
 
         successCount++;
       } catch (error) {
+        if (error instanceof SendCancelledError) continue;
         console.error('Error sending draft:', id, error);
         errorCount++;
       }
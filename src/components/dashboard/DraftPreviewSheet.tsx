@@ -16,6 +16,7 @@ import { Separator } from '@/components/ui/separator';
 import { Send, Loader2, User, Bot, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { CategoryLabel } from '@/components/shared/CategoryLabel';
+import { sendReply, SendCancelledError } from '@/lib/sendReply';
 
 interface Message {
   id: string;
@@ -28,6 +29,7 @@ interface Message {
 
 interface ConversationDetails {
   id: string;
+  workspace_id: string;
   title: string;
   ai_draft_response: string;
   email_classification?: string;
@@ -73,6 +75,7 @@ export function DraftPreviewSheet({
           .from('conversations')
           .select(`
             id,
+            workspace_id,
             title,
             ai_draft_response,
             email_classification,
@@ -95,6 +98,7 @@ export function DraftPreviewSheet({
 
         setConversation({
           id: convData.id,
+          workspace_id: convData.workspace_id,
           title: convData.title || 'Untitled',
           ai_draft_response: convData.ai_draft_response || '',
           email_classification: convData.email_classification,
@@ -123,16 +127,13 @@ export function DraftPreviewSheet({
 
     setSending(true);
     try {
-      // Send via edge function
-      const { error: sendError } = await supabase.functions.invoke('email-send', {
-        body: {
-          conversationId: conversation.id,
-          response: draftText,
-        },
+      // Send via edge function (asks before sending past a consent warning)
+      await sendReply({
+        conversationId: conversation.id,
+        workspaceId: conversation.workspace_id,
+        content: draftText,
       });
 
-      if (sendError) throw sendError;
-
       // Update conversation
       await supabase
         .from('conversations')
@@ -158,10 +159,11 @@ export function DraftPreviewSheet({
       onOpenChange(false);
       onSent?.();
     } catch (error) {
+      if (error instanceof SendCancelledError) return;
       console.error('Error sending message:', error);
       toast({
         title: 'Failed to send',
-        description: 'Could not send your message. Please try again.',
+        description: error instanceof Error ? error.message : 'Could not send your message. Please try again.',
         variant: 'destructive',
       });
     } finally {
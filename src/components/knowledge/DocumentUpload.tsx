@@ -59,13 +59,16 @@ export const DocumentUpload = ({ workspaceId, onDocumentProcessed }: DocumentUpl
       'text/plain',
       'text/markdown',
       'text/csv',
-      'application/json'
+      'text/html',
+      'application/json',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
     ];
-    const allowedExtensions = ['pdf', 'txt', 'md', 'csv', 'json'];
+    const allowedExtensions = ['pdf', 'docx', 'xlsx', 'html', 'htm', 'txt', 'md', 'csv', 'json'];
     const fileExt = file.name.split('.').pop()?.toLowerCase();
 
     if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExt || '')) {
-      toast.error('Supported formats: PDF, TXT, MD, CSV, JSON');
+      toast.error('Supported formats: PDF, DOCX, XLSX, HTML, TXT, MD, CSV, JSON');
       return;
     }
 
@@ -222,7 +225,7 @@ export const DocumentUpload = ({ workspaceId, onDocumentProcessed }: DocumentUpl
             ref={fileInputRef}
             type="file"
             className="sr-only"
-            accept=".pdf,.txt,.md,.csv,.json"
+            accept=".pdf,.docx,.xlsx,.html,.htm,.txt,.md,.csv,.json"
             onChange={handleUpload}
             disabled={uploading || !!processing}
           />
@@ -237,7 +240,7 @@ export const DocumentUpload = ({ workspaceId, onDocumentProcessed }: DocumentUpl
                 {uploading ? 'Uploading...' : 'Click to upload document'}
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                PDF, TXT, MD, CSV, JSON (max 10MB)
+                PDF, DOCX, XLSX, HTML, TXT, MD, CSV, JSON (max 10MB)
               </p>
             </div>
           </div>
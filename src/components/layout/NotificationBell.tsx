@@ -115,6 +115,8 @@ export const NotificationBell = () => {
         return '🚨';
       case 'sla_warning':
         return '⏰';
+      case 'snooze_wake':
+        return '💤';
       default:
         return '🔔';
     }
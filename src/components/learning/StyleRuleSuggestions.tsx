@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Loader2, PenLine, Search, X } from 'lucide-react';
+
+interface StyleRule {
+  id: string;
+  kind: string;
+  instruction: string;
+  support_count: number;
+  status: string;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  greeting: 'Greeting',
+  signoff: 'Sign-off',
+  avoid_phrase: 'Avoid',
+  add_phrase: 'Add',
+  include_link: 'Link',
+  price_correction: 'Price',
+};
+
+export function StyleRuleSuggestions() {
+  const { workspace } = useWorkspace();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<StyleRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mining, setMining] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    if (!workspace?.id) {
+      setLoading(false);
+      return;
+    }
+    const { data } = await supabase
+      .from('style_rules')
+      .select('id, kind, instruction, support_count, status')
+      .eq('workspace_id', workspace.id)
+      .in('status', ['proposed', 'accepted'])
+      .order('support_count', { ascending: false })
+      .limit(50);
+    setRules((data as StyleRule[]) || []);
+    setLoading(false);
+  }, [workspace?.id]);
+
+  useEffect(() => { fetchRules(); }, [fetchRules]);
+
+  const decide = async (rule: StyleRule, status: 'accepted' | 'dismissed') => {
+    setUpdatingId(rule.id);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase.from('style_rules').update({
+      status,
+      decided_by: user?.id ?? null,
+      decided_at: new Date().toISOString(),
+    }).eq('id', rule.id);
+    setUpdatingId(null);
+
+    if (error) {
+      toast({ title: 'Could not update rule', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: status === 'accepted' ? 'Drafts will follow this rule' : 'Suggestion dismissed' });
+    fetchRules();
+  };
+
+  const findPatterns = async () => {
+    if (!workspace?.id) return;
+    setMining(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('draft-style-miner', {
+        body: { workspace_id: workspace.id },
+      });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Request failed');
+      }
+      await fetchRules();
+    } catch (error) {
+      toast({
+        title: 'Could not look for patterns',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setMining(false);
+    }
+  };
+
+  const proposed = rules.filter(rule => rule.status === 'proposed');
+  const accepted = rules.filter(rule => rule.status === 'accepted');
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-3xl ring-1 ring-slate-900/5 shadow-sm p-6">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-3xl ring-1 ring-slate-900/5 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <PenLine className="h-4 w-4 text-slate-500" />
+          <h2 className="font-semibold text-slate-900">Writing style</h2>
+        </div>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={findPatterns} disabled={mining}>
+          {mining ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Search className="h-3 w-3 mr-1" />}
+          Look for patterns
+        </Button>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-8 text-center">
+          <p className="text-sm text-slate-500">
+            No suggestions yet. When you keep making the same change to drafts, BizzyBee will suggest a rule here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {proposed.length > 0 && (
+            <div className="space-y-0.5">
+              <p className="text-xs font-medium text-slate-500 mb-1">Suggested from your edits</p>
+              {proposed.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between rounded-lg px-3 py-2.5 hover:bg-slate-50">
+                  <div className="flex items-center gap-2 min-w-0 flex-1">
+                    <Badge variant="outline" className="text-xs shrink-0">{KIND_LABELS[rule.kind] || rule.kind}</Badge>
+                    <p className="text-sm text-slate-700 truncate">{rule.instruction}</p>
+                    <span className="text-xs text-slate-400 shrink-0">{rule.support_count} edits</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0 ml-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={updatingId === rule.id}
+                      onClick={() => decide(rule, 'dismissed')}
+                    >
+                      <X className="h-3 w-3 mr-1" /> Dismiss
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={updatingId === rule.id}
+                      onClick={() => decide(rule, 'accepted')}
+                    >
+                      <Check className="h-3 w-3 mr-1" /> Accept
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {accepted.length > 0 && (
+            <div className="space-y-0.5">
+              <p className="text-xs font-medium text-slate-500 mb-1">Drafts always follow</p>
+              {accepted.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between rounded-lg px-3 py-2.5 hover:bg-slate-50 group">
+                  <div className="flex items-center gap-2 min-w-0 flex-1">
+                    <Badge variant="outline" className="text-xs shrink-0 bg-emerald-50 text-emerald-700 border-emerald-200">
+                      {KIND_LABELS[rule.kind] || rule.kind}
+                    </Badge>
+                    <p className="text-sm text-slate-700 truncate">{rule.instruction}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs opacity-0 group-hover:opacity-100 transition-opacity shrink-0 ml-2"
+                    disabled={updatingId === rule.id}
+                    onClick={() => decide(rule, 'dismissed')}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
@@ -11,6 +11,9 @@ import {
   RotateCcw,
   Mail,
   Sparkles,
+  Pause,
+  Play,
+  Square,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
@@ -25,6 +28,11 @@ interface EmailPipelineProgressProps {
 
 type StageStatus = 'pending' | 'in_progress' | 'done' | 'error';
 
+interface PipelineRun {
+  id: string;
+  state: string;
+}
+
 function StageCard({
   stage,
   title,
@@ -176,6 +184,49 @@ export function EmailPipelineProgress({
   const [startTime] = useState(Date.now());
   const [showSlowMessage, setShowSlowMessage] = useState(false);
   const classificationTriggeredRef = useRef(false);
+  const [run, setRun] = useState<PipelineRun | null>(null);
+  const [runActionPending, setRunActionPending] = useState(false);
+
+  // Latest email pipeline run, for pause/resume/cancel controls
+  const fetchRun = useCallback(async () => {
+    const { data } = await supabase
+      .from('pipeline_runs')
+      .select('id, state')
+      .eq('workspace_id', workspaceId)
+      .eq('channel', 'email')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    setRun(data);
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    fetchRun();
+    const interval = setInterval(fetchRun, 10000);
+    return () => clearInterval(interval);
+  }, [workspaceId, fetchRun]);
+
+  const controlRun = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!run) return;
+    if (action === 'cancel' && !confirm('Stop importing emails? You can start a new import later.')) return;
+
+    setRunActionPending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('pipeline-run-control', {
+        body: { workspace_id: workspaceId, run_id: run.id, action },
+      });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Request failed');
+      }
+      setRun({ id: run.id, state: data.state });
+      toast.success(action === 'pause' ? 'Import paused' : action === 'resume' ? 'Import resumed' : 'Import cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update the import');
+    } finally {
+      setRunActionPending(false);
+    }
+  };
 
   // Poll raw_emails for real-time progress every 3 seconds
   useEffect(() => {
@@ -458,6 +509,35 @@ export function EmailPipelineProgress({
         </StageCard>
       </div>
 
+      {/* Run Controls */}
+      {run && (run.state === 'running' || run.state === 'paused') && (
+        <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+          <span className="text-muted-foreground">
+            {run.state === 'paused' ? 'Import paused' : 'Import running'}
+          </span>
+          <div className="flex gap-2">
+            {run.state === 'running' ? (
+              <Button size="sm" variant="outline" className="gap-1.5" onClick={() => controlRun('pause')} disabled={runActionPending}>
+                <Pause className="h-3.5 w-3.5" />
+                Pause
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" className="gap-1.5" onClick={() => controlRun('resume')} disabled={runActionPending}>
+                <Play className="h-3.5 w-3.5" />
+                Resume
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" className="gap-1.5 text-muted-foreground" onClick={() => controlRun('cancel')} disabled={runActionPending}>
+              <Square className="h-3.5 w-3.5" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      {run?.state === 'cancelled' && (
+        <p className="text-xs text-center text-muted-foreground">Import cancelled</p>
+      )}
+
       {/* Progress Line */}
       <ProgressLine currentStage={getCurrentStage()} />
 
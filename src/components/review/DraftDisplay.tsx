@@ -5,7 +5,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Loader2, CheckCircle, AlertTriangle, XCircle, RefreshCw, Info } from 'lucide-react';
+import { Loader2, CheckCircle, AlertTriangle, XCircle, RefreshCw, Info, BookOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface DraftDisplayProps {
@@ -26,6 +26,15 @@ interface VerificationIssue {
   suggestion?: string;
 }
 
+interface DraftCitation {
+  ref: string;
+  kind: 'faq' | 'price_list' | 'document';
+  source_id: string;
+  title: string;
+  snippet: string;
+  page?: number | null;
+}
+
 interface VerificationResult {
   status: VerificationStatus;
   confidence_score: number;
@@ -44,6 +53,7 @@ export const DraftDisplay = ({
 }: DraftDisplayProps) => {
   const [verification, setVerification] = useState<VerificationResult | null>(null);
   const [verifying, setVerifying] = useState(false);
+  const [citations, setCitations] = useState<DraftCitation[]>([]);
 
   useEffect(() => {
     if (draftText && autoVerify) {
@@ -51,6 +61,19 @@ export const DraftDisplay = ({
     }
   }, [draftText, autoVerify]);
 
+  useEffect(() => {
+    const fetchCitations = async () => {
+      const { data } = await supabase
+        .from('conversations')
+        .select('ai_draft_citations')
+        .eq('id', conversationId)
+        .maybeSingle();
+      setCitations(Array.isArray(data?.ai_draft_citations) ? (data.ai_draft_citations as unknown as DraftCitation[]) : []);
+    };
+
+    if (conversationId) fetchCitations();
+  }, [conversationId, draftText]);
+
   const verifyDraft = async () => {
     if (!draftText || !customerMessage) return;
 
@@ -124,6 +147,15 @@ export const DraftDisplay = ({
     }
   };
 
+  const getCitationLabel = (citation: DraftCitation) => {
+    switch (citation.kind) {
+      case 'faq': return 'FAQ';
+      case 'price_list': return 'Price list';
+      case 'document': return citation.page ? `Document p.${citation.page}` : 'Document';
+      default: return citation.kind;
+    }
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'high': return 'text-destructive';
@@ -216,6 +248,22 @@ export const DraftDisplay = ({
         <div className="rounded-lg bg-muted/50 p-4 border">
           <p className="whitespace-pre-wrap text-sm">{draftText}</p>
         </div>
+
+        {/* Knowledge Sources */}
+        {citations.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <BookOpen className="h-3.5 w-3.5" />
+              Sources used
+            </div>
+            {citations.map((citation) => (
+              <div key={`${citation.kind}-${citation.source_id}`} className="text-sm" title={citation.snippet}>
+                <Badge variant="outline" className="mr-2 text-xs">{getCitationLabel(citation)}</Badge>
+                <span className="text-foreground">{citation.title}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -13,6 +13,10 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Send, Loader2, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { computeDraftDiff, editRatio } from '@/lib/draftDiff';
+import { sendReply, SendCancelledError } from '@/lib/sendReply';
+import type { Json } from '@/integrations/supabase/types';
 import { DraftVerificationBadge } from './DraftVerificationBadge';
 
 interface DraftReplyEditorProps {
@@ -40,6 +44,7 @@ export function DraftReplyEditor({
   const [verificationStatus, setVerificationStatus] = useState<'pending' | 'passed' | 'failed' | 'needs_review' | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspace } = useWorkspace();
 
   // Reset draft when opened
   const handleOpenChange = (isOpen: boolean) => {
@@ -52,16 +57,15 @@ export function DraftReplyEditor({
 
   const sendMutation = useMutation({
     mutationFn: async () => {
-      // Call edge function to send response
-      const { error: sendError } = await supabase.functions.invoke('email-send', {
-        body: {
-          conversationId,
-          response: draft,
-          channel: 'email',
-        },
-      });
+      const replyWorkspaceId = workspaceId || workspace?.id;
+      if (!replyWorkspaceId) throw new Error('No workspace selected');
 
-      if (sendError) throw sendError;
+      // Call edge function to send response (asks before sending past a consent warning)
+      await sendReply({
+        conversationId,
+        workspaceId: replyWorkspaceId,
+        content: draft,
+      });
 
       // Update conversation status
       const { error: updateError } = await supabase
@@ -76,6 +80,21 @@ export function DraftReplyEditor({
         .eq('id', conversationId);
 
       if (updateError) throw updateError;
+
+      // Record what the reviewer changed so draft-style-miner can learn from it
+      if (aiDraft.trim() && draft.trim() !== aiDraft.trim()) {
+        const diff = computeDraftDiff(aiDraft, draft);
+        const { error: editError } = await supabase.from('draft_edits').insert({
+          workspace_id: replyWorkspaceId,
+          conversation_id: conversationId,
+          original_draft: aiDraft,
+          edited_draft: draft,
+          edit_distance: editRatio(diff),
+          edit_type: 'manual',
+          diff: diff as unknown as Json,
+        });
+        if (editError) console.error('Failed to record draft edit:', editError);
+      }
     },
     onSuccess: () => {
       toast({
@@ -88,6 +107,7 @@ export function DraftReplyEditor({
       onSent?.();
     },
     onError: (error) => {
+      if (error instanceof SendCancelledError) return;
       toast({
         title: 'Failed to send',
         description: error instanceof Error ? error.message : 'Please try again.',
@@ -0,0 +1,485 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Trash2, UserCheck } from 'lucide-react';
+import type { UserStatus } from '@/lib/types';
+
+type Strategy = 'round_robin' | 'load_balanced';
+
+interface AssignmentRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number;
+  categories: string[];
+  channels: string[];
+  customer_tiers: string[];
+  sender_domains: string[];
+  decision_buckets: string[];
+  strategy: Strategy;
+  assignee_ids: string[];
+  reassign_when_away: boolean;
+}
+
+interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+  status: string | null;
+}
+
+type RuleDraft = Omit<AssignmentRule, 'id' | 'priority' | 'categories' | 'sender_domains'> & {
+  id?: string;
+  // Comma-separated in the editor
+  categories: string;
+  sender_domains: string;
+};
+
+const CHANNELS = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'web_chat', label: 'Web chat' },
+];
+
+const TIERS = [
+  { value: 'vip', label: 'VIP' },
+  { value: 'regular', label: 'Regular' },
+  { value: 'trial', label: 'Trial' },
+  { value: 'prospect', label: 'Prospect' },
+  { value: 'at_risk', label: 'At risk' },
+];
+
+const BUCKETS = [
+  { value: 'act_now', label: 'Act now' },
+  { value: 'quick_win', label: 'Quick win' },
+  { value: 'wait', label: 'Wait' },
+];
+
+const STATUS_OPTIONS: Array<{ value: UserStatus; label: string; color: string }> = [
+  { value: 'available', label: 'Available', color: 'bg-green-500' },
+  { value: 'busy', label: 'Busy', color: 'bg-red-500' },
+  { value: 'away', label: 'Away', color: 'bg-yellow-500' },
+];
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  enabled: true,
+  categories: '',
+  channels: [],
+  customer_tiers: [],
+  sender_domains: '',
+  decision_buckets: ['act_now', 'quick_win'],
+  strategy: 'round_robin',
+  assignee_ids: [],
+  reassign_when_away: true,
+};
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim().toLowerCase().replace(/^@/, '')).filter(Boolean);
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+function statusColor(status: string | null) {
+  return STATUS_OPTIONS.find((option) => option.value === status)?.color ?? 'bg-gray-400';
+}
+
+export const AssignmentRulesPanel = () => {
+  const { workspace } = useWorkspace();
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!workspace?.id) return;
+
+    setLoading(true);
+    const [{ data: { user } }, rulesResult, teamResult] = await Promise.all([
+      supabase.auth.getUser(),
+      supabase
+        .from('assignment_rules')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('users')
+        .select('id, name, email, status')
+        .eq('workspace_id', workspace.id)
+        .order('name'),
+    ]);
+
+    if (rulesResult.error || teamResult.error) {
+      toast.error('Failed to load assignment rules');
+    } else {
+      setRules((rulesResult.data || []) as AssignmentRule[]);
+      setTeam(teamResult.data || []);
+    }
+    setCurrentUserId(user?.id ?? null);
+    setLoading(false);
+  }, [workspace?.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const memberName = (id: string) => team.find((member) => member.id === id)?.name ?? 'Removed member';
+
+  const handleStatusChange = async (status: UserStatus) => {
+    if (!currentUserId) return;
+
+    const { error } = await supabase.from('users').update({ status }).eq('id', currentUserId);
+    if (error) {
+      toast.error('Failed to update your status');
+      return;
+    }
+    toast.success(status === 'away'
+      ? 'Marked as away. Your rule-assigned conversations have been handed on.'
+      : `Status set to ${status}`);
+    loadData();
+  };
+
+  const openEditor = (rule?: AssignmentRule) => {
+    setDraft(rule
+      ? {
+          ...rule,
+          categories: rule.categories.join(', '),
+          sender_domains: rule.sender_domains.join(', '),
+        }
+      : { ...EMPTY_DRAFT });
+  };
+
+  const handleSave = async () => {
+    if (!workspace?.id || !draft) return;
+    if (!draft.name.trim()) {
+      toast.error('Give the rule a name');
+      return;
+    }
+    if (draft.assignee_ids.length === 0) {
+      toast.error('Pick at least one team member');
+      return;
+    }
+
+    const payload = {
+      workspace_id: workspace.id,
+      name: draft.name.trim(),
+      enabled: draft.enabled,
+      categories: splitList(draft.categories),
+      channels: draft.channels,
+      customer_tiers: draft.customer_tiers,
+      sender_domains: splitList(draft.sender_domains),
+      decision_buckets: draft.decision_buckets,
+      strategy: draft.strategy,
+      assignee_ids: draft.assignee_ids,
+      reassign_when_away: draft.reassign_when_away,
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      if (draft.id) {
+        const { error } = await supabase.from('assignment_rules').update(payload).eq('id', draft.id);
+        if (error) throw error;
+      } else {
+        const lastPriority = rules.length > 0 ? Math.max(...rules.map((rule) => rule.priority)) : 0;
+        const { error } = await supabase
+          .from('assignment_rules')
+          .insert({ ...payload, priority: lastPriority + 10, created_by: currentUserId });
+        if (error) throw error;
+      }
+      toast.success('Assignment rule saved');
+      setDraft(null);
+      loadData();
+    } catch (error) {
+      toast.error('Failed to save rule: ' + (error instanceof Error ? error.message : 'unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AssignmentRule, enabled: boolean) => {
+    const { error } = await supabase.from('assignment_rules').update({ enabled }).eq('id', rule.id);
+    if (error) {
+      toast.error('Failed to update rule');
+      return;
+    }
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled } : r)));
+  };
+
+  const handleDelete = async (rule: AssignmentRule) => {
+    const { error } = await supabase.from('assignment_rules').delete().eq('id', rule.id);
+    if (error) {
+      toast.error('Failed to delete rule');
+      return;
+    }
+    toast.success(`Deleted "${rule.name}"`);
+    loadData();
+  };
+
+  // Swaps priorities with the neighbouring rule
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const rule = rules[index];
+    const other = rules[index + direction];
+    if (!rule || !other) return;
+
+    const rulePriority = other.priority === rule.priority ? rule.priority + direction : other.priority;
+    const [first, second] = await Promise.all([
+      supabase.from('assignment_rules').update({ priority: rulePriority }).eq('id', rule.id),
+      supabase.from('assignment_rules').update({ priority: rule.priority }).eq('id', other.id),
+    ]);
+    if (first.error || second.error) {
+      toast.error('Failed to reorder rules');
+    }
+    loadData();
+  };
+
+  const conditionBadges = (rule: AssignmentRule) => [
+    ...rule.categories.map((value) => `Category: ${value}`),
+    ...rule.channels.map((value) => CHANNELS.find((c) => c.value === value)?.label ?? value),
+    ...rule.customer_tiers.map((value) => `${TIERS.find((t) => t.value === value)?.label ?? value} customers`),
+    ...rule.sender_domains.map((value) => `@${value}`),
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const currentUser = team.find((member) => member.id === currentUserId);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium">Team availability</p>
+          {currentUser && (
+            <Select value={currentUser.status ?? 'available'} onValueChange={(value) => handleStatusChange(value as UserStatus)}>
+              <SelectTrigger className="h-8 w-[150px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">
+                    Me: {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {team.map((member) => (
+            <div key={member.id} className="flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs">
+              <span className={`h-2 w-2 rounded-full ${statusColor(member.status)}`} />
+              {member.name}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Only available members get new conversations. Going away hands your rule-assigned conversations to someone else.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            New conversations are assigned by the first matching rule, top to bottom.
+          </p>
+          <Button size="sm" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Rule
+          </Button>
+        </div>
+
+        {rules.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            <UserCheck className="h-8 w-8 mx-auto mb-2 opacity-40" />
+            No assignment rules yet. Conversations stay unassigned until someone picks them up.
+          </div>
+        ) : (
+          rules.map((rule, index) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 rounded-lg border px-3 py-2">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium truncate">{rule.name}</p>
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 font-normal">
+                    {rule.strategy === 'round_robin' ? 'Round-robin' : 'Load-balanced'}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {conditionBadges(rule).length === 0 ? (
+                    <span className="text-xs text-muted-foreground">All conversations</span>
+                  ) : (
+                    conditionBadges(rule).map((label) => (
+                      <Badge key={label} variant="secondary" className="text-[10px] px-1.5 py-0 h-4 font-normal">
+                        {label}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  To {rule.assignee_ids.map(memberName).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Switch checked={rule.enabled} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === rules.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(rule)}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(rule)}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Assignment Rule' : 'New Assignment Rule'}</DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={draft.name}
+                  placeholder="e.g. Billing questions"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="rule-categories">Categories</Label>
+                  <Input
+                    id="rule-categories"
+                    value={draft.categories}
+                    placeholder="Any, or e.g. billing, complaint"
+                    onChange={(e) => setDraft({ ...draft, categories: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rule-domains">Sender domains</Label>
+                  <Input
+                    id="rule-domains"
+                    value={draft.sender_domains}
+                    placeholder="Any, or e.g. acme.com"
+                    onChange={(e) => setDraft({ ...draft, sender_domains: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              {[
+                { label: 'Channels', options: CHANNELS, key: 'channels' as const },
+                { label: 'Customer tiers', options: TIERS, key: 'customer_tiers' as const },
+                { label: 'Decision buckets', options: BUCKETS, key: 'decision_buckets' as const },
+              ].map((group) => (
+                <div key={group.key} className="space-y-1.5">
+                  <Label>{group.label}</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {group.options.map((option) => (
+                      <label key={option.value} className="flex items-center gap-1.5 text-sm">
+                        <Checkbox
+                          checked={draft[group.key].includes(option.value)}
+                          onCheckedChange={() => setDraft({ ...draft, [group.key]: toggle(draft[group.key], option.value) })}
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                  {group.key !== 'decision_buckets' && draft[group.key].length === 0 && (
+                    <p className="text-xs text-muted-foreground">None ticked means any</p>
+                  )}
+                </div>
+              ))}
+
+              <div className="space-y-1.5">
+                <Label>Assign to</Label>
+                <div className="flex flex-wrap gap-3">
+                  {team.map((member) => (
+                    <label key={member.id} className="flex items-center gap-1.5 text-sm">
+                      <Checkbox
+                        checked={draft.assignee_ids.includes(member.id)}
+                        onCheckedChange={() => setDraft({ ...draft, assignee_ids: toggle(draft.assignee_ids, member.id) })}
+                      />
+                      <span className={`h-2 w-2 rounded-full ${statusColor(member.status)}`} />
+                      {member.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+                <div>
+                  <Label>Distribution</Label>
+                  <Select value={draft.strategy} onValueChange={(value) => setDraft({ ...draft, strategy: value as Strategy })}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="round_robin">Round-robin (take turns)</SelectItem>
+                      <SelectItem value="load_balanced">Load-balanced (fewest open conversations)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm pb-2">
+                  <Switch
+                    checked={draft.reassign_when_away}
+                    onCheckedChange={(checked) => setDraft({ ...draft, reassign_when_away: checked })}
+                  />
+                  Reassign when the assignee goes away
+                </label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,212 +1,385 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
-import { AlertCircle, CheckCircle, Loader2, Users, MessagesSquare } from "lucide-react";
-import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Separator } from "@/components/ui/separator";
-
-interface MergeResult {
-  identifier: string;
-  type: 'phone' | 'email';
-  keptCustomerId: string;
-  mergedCustomerIds: string[];
-  conversationsMoved: number;
+import { ArrowRight, CheckCircle, History, Loader2, RefreshCw, Undo2, Users } from "lucide-react";
+
+interface MergeCustomer {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  created_at: string | null;
+  conversation_count?: number;
+}
+
+interface MergeCandidate {
+  reasons: string[];
+  score: number;
+  customers: [MergeCustomer, MergeCustomer];
+}
+
+interface MergePreview {
+  winner: MergeCustomer;
+  loser: MergeCustomer;
+  result: { name: string | null; email: string | null; phone: string | null };
+  conversations: Array<{ id: string; title: string | null; channel: string | null; status: string | null }>;
+  conversation_count: number;
+  identities: Array<{ identifier_type: string; identifier_value: string }>;
 }
 
-interface MergeResponse {
-  success: boolean;
-  totalDuplicatesMerged: number;
-  totalConversationsMoved: number;
-  details: MergeResult[];
+interface MergeRecord {
+  id: string;
+  match_reason: string | null;
+  created_at: string;
+  unmerged_at: string | null;
+  moved_conversations: number;
+  winner: Partial<MergeCustomer> & { id: string };
+  loser: Partial<MergeCustomer> & { id: string };
+}
+
+const REASON_LABELS: Record<string, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Same name",
+};
+
+function customerLabel(customer: Partial<MergeCustomer>) {
+  return customer.name || customer.email || customer.phone || "Unknown customer";
+}
+
+async function invokeMerge<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("customer-merge", { body });
+  if (error || !data?.ok) {
+    throw new Error(data?.error || error?.message || "Customer merge request failed");
+  }
+  return data as T;
 }
 
 export function CustomerMergePanel() {
-  const [isLoadingCustomers, setIsLoadingCustomers] = useState(false);
-  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
-  const [customerResults, setCustomerResults] = useState<MergeResponse | null>(null);
-  const [conversationResults, setConversationResults] = useState<any | null>(null);
-
-  const handleMergeCustomers = async () => {
-    // Function removed - duplicate prevention now handled by DB constraints
-    toast.info('Duplicate prevention is now automatic via database constraints');
+  const { workspace } = useWorkspace();
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([]);
+  const [history, setHistory] = useState<MergeRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reviewing, setReviewing] = useState<MergeCandidate | null>(null);
+  const [keepIndex, setKeepIndex] = useState(0);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [unmergingId, setUnmergingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!workspace?.id) return;
+
+    setLoading(true);
+    try {
+      const [candidateData, historyData] = await Promise.all([
+        invokeMerge<{ candidates: MergeCandidate[] }>({ workspace_id: workspace.id, action: "candidates" }),
+        invokeMerge<{ merges: MergeRecord[] }>({ workspace_id: workspace.id, action: "history" }),
+      ]);
+      setCandidates(candidateData.candidates);
+      setHistory(historyData.merges);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load duplicate customers");
+    } finally {
+      setLoading(false);
+    }
+  }, [workspace?.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Default to keeping the customer with more history
+  const openReview = (candidate: MergeCandidate) => {
+    const [a, b] = candidate.customers;
+    setKeepIndex((b.conversation_count ?? 0) > (a.conversation_count ?? 0) ? 1 : 0);
+    setPreview(null);
+    setReviewing(candidate);
   };
 
-  const handleMergeConversations = async () => {
-    // Function removed - duplicate prevention now handled by DB constraints
-    toast.info('Duplicate prevention is now automatic via database constraints');
+  useEffect(() => {
+    if (!reviewing || !workspace?.id) return;
+
+    const winner = reviewing.customers[keepIndex];
+    const loser = reviewing.customers[1 - keepIndex];
+    let cancelled = false;
+
+    setPreviewLoading(true);
+    invokeMerge<{ preview: MergePreview }>({
+      workspace_id: workspace.id,
+      action: "preview",
+      winner_id: winner.id,
+      loser_id: loser.id,
+    })
+      .then((data) => {
+        if (!cancelled) setPreview(data.preview);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(error instanceof Error ? error.message : "Failed to preview merge");
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reviewing, keepIndex, workspace?.id]);
+
+  const handleMerge = async () => {
+    if (!workspace?.id || !reviewing) return;
+
+    const winner = reviewing.customers[keepIndex];
+    const loser = reviewing.customers[1 - keepIndex];
+    setMerging(true);
+    try {
+      const result = await invokeMerge<{ moved_conversations: number }>({
+        workspace_id: workspace.id,
+        action: "merge",
+        winner_id: winner.id,
+        loser_id: loser.id,
+        reason: reviewing.reasons.join(", "),
+      });
+      toast.success(`Merged into ${customerLabel(winner)} (${result.moved_conversations} conversations moved)`);
+      setReviewing(null);
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to merge customers");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleUnmerge = async (merge: MergeRecord) => {
+    if (!workspace?.id) return;
+
+    setUnmergingId(merge.id);
+    try {
+      const result = await invokeMerge<{ restored_conversations: number }>({
+        workspace_id: workspace.id,
+        action: "unmerge",
+        merge_id: merge.id,
+      });
+      toast.success(`Restored ${customerLabel(merge.loser)} (${result.restored_conversations} conversations moved back)`);
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to undo merge");
+    } finally {
+      setUnmergingId(null);
+    }
   };
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="h-5 w-5" />
-            Merge Duplicate Customers
-          </CardTitle>
-          <CardDescription>
-            Consolidate duplicate customer records based on phone numbers and email addresses.
-          </CardDescription>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Possible Duplicate Customers
+              </CardTitle>
+              <CardDescription>
+                Customers sharing an email address, phone number or full name. Review each pair before merging.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+              <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+            </Button>
+          </div>
         </CardHeader>
-        <CardContent className="space-y-4">
-        <Alert>
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            This operation will:
-            <ul className="list-disc list-inside mt-2 space-y-1">
-              <li>Find customers with matching phone numbers or emails</li>
-              <li>Keep the oldest customer record for each duplicate group</li>
-              <li>Move all conversations to the kept customer record</li>
-              <li>Delete the duplicate customer records</li>
-            </ul>
-          </AlertDescription>
-        </Alert>
-
-        <Button 
-          onClick={handleMergeCustomers} 
-          disabled={isLoadingCustomers}
-          className="w-full"
-        >
-          {isLoadingCustomers ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Merging Customers...
-            </>
+        <CardContent className="space-y-3">
+          {loading && candidates.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
+              <CheckCircle className="h-4 w-4" />
+              No likely duplicates found
+            </div>
           ) : (
-            'Merge Duplicate Customers'
-          )}
-        </Button>
-
-        {customerResults && customerResults.totalDuplicatesMerged > 0 && (
-          <div className="space-y-3">
-            <Alert className="border-success">
-              <CheckCircle className="h-4 w-4 text-success" />
-              <AlertDescription>
-                <strong>Merge Complete!</strong>
-                <div className="mt-2">
-                  <div>Merged {customerResults.totalDuplicatesMerged} duplicate customers</div>
-                  <div>Moved {customerResults.totalConversationsMoved} conversations</div>
-                </div>
-              </AlertDescription>
-            </Alert>
-
-            <div className="space-y-2">
-              <h4 className="text-sm font-medium">Merge Details:</h4>
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {customerResults.details.map((detail, idx) => (
-                  <div key={idx} className="text-sm p-3 bg-muted rounded-md">
-                    <div className="font-medium">
-                      {detail.type === 'phone' ? '📱' : '📧'} {detail.identifier}
-                    </div>
-                    <div className="text-muted-foreground mt-1">
-                      Merged {detail.mergedCustomerIds.length} duplicates into customer {detail.keptCustomerId.slice(0, 8)}...
-                    </div>
-                    <div className="text-muted-foreground">
-                      Moved {detail.conversationsMoved} conversations
+            candidates.map((candidate) => (
+              <div
+                key={`${candidate.customers[0].id}-${candidate.customers[1].id}`}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0 flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {candidate.customers.map((customer) => (
+                    <div key={customer.id} className="min-w-0 text-sm">
+                      <p className="font-medium truncate">{customerLabel(customer)}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[customer.email, customer.phone].filter(Boolean).join(" · ") || "No contact details"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {customer.conversation_count ?? 0} conversations
+                      </p>
                     </div>
+                  ))}
+                </div>
+                <div className="flex flex-col items-end gap-2 shrink-0">
+                  <div className="flex gap-1">
+                    {candidate.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary" className="text-xs font-normal">
+                        {REASON_LABELS[reason] ?? reason}
+                      </Badge>
+                    ))}
                   </div>
-                ))}
+                  <Button size="sm" variant="outline" onClick={() => openReview(candidate)}>
+                    Review
+                  </Button>
+                </div>
               </div>
-            </div>
-          </div>
-        )}
-
-        {customerResults && customerResults.totalDuplicatesMerged === 0 && (
-          <Alert>
-            <CheckCircle className="h-4 w-4" />
-            <AlertDescription>
-              No duplicate customers found. All customer records are unique!
-            </AlertDescription>
-          </Alert>
-        )}
-      </CardContent>
-    </Card>
+            ))
+          )}
+        </CardContent>
+      </Card>
 
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <MessagesSquare className="h-5 w-5" />
-            Merge Duplicate Conversations
+            <History className="h-5 w-5" />
+            Merge History
           </CardTitle>
           <CardDescription>
-            Consolidate multiple open conversations from the same customer on the same channel into one conversation.
+            Every merge can be undone. Conversations and contact details move back to the original customer.
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <Alert>
-            <AlertCircle className="h-4 w-4" />
-            <AlertDescription>
-              This operation will:
-              <ul className="list-disc list-inside mt-2 space-y-1">
-                <li>Find conversations with the same customer and channel</li>
-                <li>Keep the oldest conversation for each group</li>
-                <li>Move all messages to the kept conversation</li>
-                <li>Delete the duplicate conversation records</li>
-              </ul>
-            </AlertDescription>
-          </Alert>
-
-          <Button 
-            onClick={handleMergeConversations} 
-            disabled={isLoadingConversations}
-            className="w-full"
-          >
-            {isLoadingConversations ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Merging Conversations...
-              </>
-            ) : (
-              'Merge Duplicate Conversations'
-            )}
-          </Button>
-
-          {conversationResults && conversationResults.totalConversationsMerged > 0 && (
-            <div className="space-y-3">
-              <Alert className="border-success">
-                <CheckCircle className="h-4 w-4 text-success" />
-                <AlertDescription>
-                  <strong>Merge Complete!</strong>
-                  <div className="mt-2">
-                    <div>Merged {conversationResults.totalConversationsMerged} duplicate conversations</div>
-                    <div>Moved {conversationResults.totalMessagesMoved} messages</div>
-                  </div>
-                </AlertDescription>
-              </Alert>
-
-              <div className="space-y-2">
-                <h4 className="text-sm font-medium">Merge Details:</h4>
-                <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {conversationResults.details.map((detail: any, idx: number) => (
-                    <div key={idx} className="text-sm p-3 bg-muted rounded-md">
-                      <div className="font-medium">
-                        Customer: {detail.customerId.slice(0, 8)}... • {detail.channel}
-                      </div>
-                      <div className="text-muted-foreground mt-1">
-                        Merged {detail.mergedConversationIds.length} conversations into {detail.keptConversationId.slice(0, 8)}...
-                      </div>
-                      <div className="text-muted-foreground">
-                        Moved {detail.messagesMoved} messages
-                      </div>
-                    </div>
-                  ))}
+        <CardContent className="space-y-2">
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No customers have been merged yet</p>
+          ) : (
+            history.map((merge) => (
+              <div key={merge.id} className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate">
+                    <span className="font-medium">{customerLabel(merge.loser)}</span>
+                    <ArrowRight className="inline h-3 w-3 mx-1.5 text-muted-foreground" />
+                    <span className="font-medium">{customerLabel(merge.winner)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {merge.moved_conversations} conversations moved ·{" "}
+                    {formatDistanceToNow(new Date(merge.created_at), { addSuffix: true })}
+                    {merge.match_reason && ` · ${merge.match_reason}`}
+                  </p>
                 </div>
+                {merge.unmerged_at ? (
+                  <Badge variant="outline" className="shrink-0 font-normal">Undone</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="shrink-0"
+                    onClick={() => handleUnmerge(merge)}
+                    disabled={unmergingId !== null}
+                  >
+                    {unmergingId === merge.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Undo2 className="h-4 w-4 mr-1" />
+                    )}
+                    Unmerge
+                  </Button>
+                )}
               </div>
-            </div>
-          )}
-
-          {conversationResults && conversationResults.totalConversationsMerged === 0 && (
-            <Alert>
-              <CheckCircle className="h-4 w-4" />
-              <AlertDescription>
-                No duplicate conversations found. All conversations are unique!
-              </AlertDescription>
-            </Alert>
+            ))
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Merge Customers</DialogTitle>
+            <DialogDescription>Choose the record to keep. The other customer's conversations move to it.</DialogDescription>
+          </DialogHeader>
+
+          {reviewing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {reviewing.customers.map((customer, index) => (
+                  <button
+                    key={customer.id}
+                    type="button"
+                    onClick={() => setKeepIndex(index)}
+                    className={cn(
+                      "rounded-lg border p-3 text-left text-sm transition-colors",
+                      keepIndex === index ? "border-primary bg-primary/5" : "hover:bg-muted/50",
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{customerLabel(customer)}</p>
+                      <Badge variant={keepIndex === index ? "default" : "outline"} className="text-xs font-normal">
+                        {keepIndex === index ? "Keep" : "Merge in"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate mt-1">{customer.email || "No email"}</p>
+                    <p className="text-xs text-muted-foreground truncate">{customer.phone || "No phone"}</p>
+                  </button>
+                ))}
+              </div>
+
+              {previewLoading || !preview ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="space-y-3 text-sm">
+                  <div className="rounded-md bg-muted/50 p-3">
+                    <p className="text-xs font-medium text-muted-foreground mb-1">After merging</p>
+                    <p>{preview.result.name || "No name"}</p>
+                    <p className="text-muted-foreground">
+                      {[preview.result.email, preview.result.phone].filter(Boolean).join(" · ") || "No contact details"}
+                    </p>
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">
+                      {preview.conversation_count} conversations will move
+                      {preview.identities.length > 0 && `, plus ${preview.identities.length} contact identities`}
+                    </p>
+                    {preview.conversations.length > 0 && (
+                      <ScrollArea className="h-40 rounded-md border">
+                        <div className="divide-y">
+                          {preview.conversations.map((conversation) => (
+                            <div key={conversation.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                              <span className="truncate">{conversation.title || "Untitled conversation"}</span>
+                              <span className="text-xs text-muted-foreground shrink-0">
+                                {[conversation.channel, conversation.status].filter(Boolean).join(" · ")}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    )}
+                    {preview.conversation_count > preview.conversations.length && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        and {preview.conversation_count - preview.conversations.length} more
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+            <Button onClick={handleMerge} disabled={merging || previewLoading || !preview}>
+              {merging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge Customers
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
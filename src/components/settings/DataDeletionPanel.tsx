@@ -2,15 +2,19 @@ import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Trash2, CheckCircle, XCircle, Clock, FileCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useWorkspace } from '@/hooks/useWorkspace';
 
 export const DataDeletionPanel = () => {
   const [requests, setRequests] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
+  const [eraseRemote, setEraseRemote] = useState<Record<string, boolean>>({});
   const { isAdmin } = useUserRole();
+  const { workspace } = useWorkspace();
 
   useEffect(() => {
     loadRequests();
@@ -33,42 +37,30 @@ export const DataDeletionPanel = () => {
     }
   };
 
-  const handleApprove = async (requestId: string, customerId: string) => {
-    if (!confirm('Are you sure you want to approve this deletion request? This will anonymize all customer data.')) {
+  const handleApprove = async (requestId: string) => {
+    if (!workspace?.id) return;
+    if (!confirm('Are you sure you want to approve this deletion request? This permanently erases the customer\'s messages, attachments and records.')) {
       return;
     }
 
     setLoading(true);
     try {
-      // Anonymize customer data
-      const anonymizedName = `Deleted User ${Date.now()}`;
-      await supabase
-        .from('customers')
-        .update({
-          name: anonymizedName,
-          email: `deleted_${Date.now()}@anonymized.local`,
-          phone: null,
-          notes: '[Data deleted per GDPR request]',
-        })
-        .eq('id', customerId);
-
-      // Update request status
-      await supabase
-        .from('data_deletion_requests')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', requestId);
-
-      // Log the deletion
-      await supabase.from('data_access_logs').insert({
-        customer_id: customerId,
-        action: 'anonymize',
-        metadata: { request_id: requestId }
+      // Erasure runs server-side so it can reach every table, storage and the mailbox
+      const { data, error } = await supabase.functions.invoke('execute-deletion', {
+        body: { workspace_id: workspace.id, request_id: requestId, erase_remote: !!eraseRemote[requestId] },
       });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Erasure failed');
+      }
 
-      toast.success('Customer data anonymized successfully');
+      if (data.completed) {
+        const failedRemote = data.report?.remote?.failed ?? 0;
+        toast.success(failedRemote > 0
+          ? `Customer data erased. ${failedRemote} mailbox copies could not be deleted.`
+          : 'Customer data erased and certificate recorded');
+      } else {
+        toast.warning('Erasure is not finished yet. Run it again to continue.');
+      }
       loadRequests();
     } catch (error: any) {
       toast.error('Failed to process deletion: ' + error.message);
@@ -77,6 +69,19 @@ export const DataDeletionPanel = () => {
     }
   };
 
+  const downloadCertificate = (request: { id: string; certificate: unknown; certificate_signature: string | null }) => {
+    const blob = new Blob(
+      [JSON.stringify({ certificate: request.certificate, signature: request.certificate_signature }, null, 2)],
+      { type: 'application/json' },
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `erasure-certificate-${request.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleReject = async (requestId: string) => {
     setLoading(true);
     try {
@@ -137,29 +142,49 @@ export const DataDeletionPanel = () => {
                 {request.reason && (
                   <p className="text-sm mt-2 italic">Reason: {request.reason}</p>
                 )}
+                {request.status === 'approved' && request.last_report && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Partially erased. Run it again to finish.
+                  </p>
+                )}
               </div>
               
               <div className="flex items-center gap-2">
                 {getStatusBadge(request.status)}
-                {request.status === 'pending' && isAdmin && (
+                {request.status === 'completed' && request.certificate && (
+                  <Button size="sm" variant="outline" onClick={() => downloadCertificate(request)}>
+                    <FileCheck className="h-4 w-4 mr-2" />
+                    Certificate
+                  </Button>
+                )}
+                {(request.status === 'pending' || request.status === 'approved') && isAdmin && (
                   <>
+                    <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Checkbox
+                        checked={!!eraseRemote[request.id]}
+                        onCheckedChange={(checked) => setEraseRemote((prev) => ({ ...prev, [request.id]: checked === true }))}
+                      />
+                      Also delete from mailbox
+                    </label>
                     <Button
                       size="sm"
                       variant="destructive"
-                      onClick={() => handleApprove(request.id, request.customer_id)}
+                      onClick={() => handleApprove(request.id)}
                       disabled={loading}
                     >
                       <Trash2 className="h-4 w-4 mr-2" />
-                      Approve & Anonymize
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleReject(request.id)}
-                      disabled={loading}
-                    >
-                      Reject
+                      {request.status === 'approved' ? 'Resume Erasure' : 'Approve & Erase'}
                     </Button>
+                    {request.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReject(request.id)}
+                        disabled={loading}
+                      >
+                        Reject
+                      </Button>
+                    )}
                   </>
                 )}
               </div>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,11 +6,40 @@ import { Label } from '@/components/ui/label';
 import { Download, Search } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useWorkspace } from '@/hooks/useWorkspace';
+
+interface DsarExportRow {
+  id: string;
+  created_at: string;
+  expires_at: string;
+  size_bytes: number;
+  source: string;
+  download_count: number;
+  customer: { name: string | null; email: string | null } | null;
+}
 
 export const DataExportPanel = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
   const [customers, setCustomers] = useState<any[]>([]);
+  const [exports, setExports] = useState<DsarExportRow[]>([]);
+  const { workspace } = useWorkspace();
+
+  const loadExports = useCallback(async () => {
+    if (!workspace?.id) return;
+
+    const { data } = await supabase
+      .from('dsar_exports')
+      .select('id, created_at, expires_at, size_bytes, source, download_count, customer:customers(name, email)')
+      .eq('workspace_id', workspace.id)
+      .order('created_at', { ascending: false })
+      .limit(10);
+    setExports((data || []) as DsarExportRow[]);
+  }, [workspace?.id]);
+
+  useEffect(() => {
+    loadExports();
+  }, [loadExports]);
 
   const handleSearch = async () => {
     if (!searchTerm.trim()) {
@@ -18,11 +47,15 @@ export const DataExportPanel = () => {
       return;
     }
 
+    if (!workspace?.id) return;
+
     setLoading(true);
     try {
       const { data, error } = await supabase
         .from('customers')
         .select('*')
+        .eq('workspace_id', workspace.id)
+        .is('merged_into_id', null)
         .or(`name.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%`)
         .limit(10);
 
@@ -39,58 +72,25 @@ export const DataExportPanel = () => {
     }
   };
 
-  const handleExport = async (customerId: string, customerName: string) => {
+  const handleExport = async (customerId: string) => {
+    if (!workspace?.id) return;
+
     setLoading(true);
     try {
-      // Fetch all customer data
-      const [conversationsRes, consentsRes, deletionReqRes] = await Promise.all([
-        supabase
-          .from('conversations')
-          .select('*, messages(*)')
-          .eq('customer_id', customerId),
-        supabase
-          .from('customer_consents')
-          .select('*')
-          .eq('customer_id', customerId),
-        supabase
-          .from('data_deletion_requests')
-          .select('*')
-          .eq('customer_id', customerId),
-      ]);
-
-      const customerData = await supabase
-        .from('customers')
-        .select('*')
-        .eq('id', customerId)
-        .single();
-
-      const exportData = {
-        customer: customerData.data,
-        conversations: conversationsRes.data || [],
-        consents: consentsRes.data || [],
-        deletion_requests: deletionReqRes.data || [],
-        exported_at: new Date().toISOString(),
-      };
-
-      // Log the export action
-      await supabase.from('data_access_logs').insert({
-        customer_id: customerId,
-        action: 'export',
-        metadata: { exported_records: conversationsRes.data?.length || 0 }
+      // The bundle is built server-side; the link goes through dsar-download so each download is logged
+      const { data, error } = await supabase.functions.invoke('export-customer-data', {
+        body: { workspace_id: workspace.id, customer_id: customerId },
       });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Export failed');
+      }
 
-      // Create and download JSON file
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `customer-${customerName.replace(/\s/g, '_')}-${Date.now()}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      toast.success('Customer data exported successfully');
+      // Content-Disposition makes this a download rather than a navigation
+      window.location.href = data.export.download_url;
+      toast.success(data.export.attachments_skipped > 0
+        ? `Export ready. ${data.export.attachments_skipped} attachments were too large or unavailable and are listed in the bundle.`
+        : 'Export ready. The download link expires in a few days.');
+      loadExports();
     } catch (error: any) {
       toast.error('Failed to export data: ' + error.message);
     } finally {
@@ -104,7 +104,7 @@ export const DataExportPanel = () => {
         <div>
           <h3 className="text-lg font-semibold mb-2">Export Customer Data</h3>
           <p className="text-sm text-muted-foreground">
-            GDPR compliance: Export all data associated with a customer (Right to Data Portability - Article 20)
+            GDPR compliance: Build a ZIP with all data held about a customer, including messages, attachments and the audit trail (Right of Access - Article 15, Data Portability - Article 20)
           </p>
         </div>
 
@@ -136,7 +136,7 @@ export const DataExportPanel = () => {
                 </div>
                 <Button
                   size="sm"
-                  onClick={() => handleExport(customer.id, customer.name)}
+                  onClick={() => handleExport(customer.id)}
                   disabled={loading}
                 >
                   <Download className="h-4 w-4 mr-2" />
@@ -146,6 +146,31 @@ export const DataExportPanel = () => {
             ))}
           </div>
         )}
+
+        {exports.length > 0 && (
+          <div className="space-y-2 mt-4">
+            <h4 className="font-medium">Recent Exports</h4>
+            {exports.map((item) => {
+              const expired = new Date(item.expires_at) < new Date();
+              return (
+                <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">{item.customer?.name || item.customer?.email || 'Unknown customer'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(item.created_at).toLocaleString()} · {(item.size_bytes / 1024 / 1024).toFixed(1)} MB
+                      {item.source === 'portal' ? ' · requested via portal' : ''}
+                    </p>
+                  </div>
+                  <p className="text-xs text-muted-foreground text-right">
+                    Downloaded {item.download_count}×
+                    <br />
+                    {expired ? 'Link expired' : `Link expires ${new Date(item.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </Card>
   );
@@ -8,6 +8,33 @@ import { toast } from 'sonner';
 import { AlertCircle, CheckCircle, Clock, Database, FileText, Shield, Trash2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
+interface RetentionReport {
+  mode: 'anonymize' | 'delete';
+  dry_run: boolean;
+  cutoff: string;
+  counts: {
+    conversations: number;
+    messages: number;
+    message_events: number;
+    raw_emails: number;
+    attachments: number;
+    transcripts: number;
+  };
+  skipped: { open: number; legal_hold: number; vip: number };
+  truncated: boolean;
+  errors: Array<{ conversation_id?: string; error: string }>;
+  generated_at: string;
+}
+
+const REPORT_ROWS: Array<[keyof RetentionReport['counts'], string]> = [
+  ['conversations', 'Conversations'],
+  ['messages', 'Messages'],
+  ['message_events', 'Raw message events'],
+  ['attachments', 'Attachments'],
+  ['transcripts', 'Voicemail transcripts'],
+  ['raw_emails', 'Imported raw emails'],
+];
+
 export const GDPRDashboard = () => {
   const { workspace } = useWorkspace();
   const { isAdmin } = useUserRole();
@@ -20,6 +47,9 @@ export const GDPRDashboard = () => {
     autoDeleteEnabled: false,
   });
   const [loading, setLoading] = useState(false);
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+  const [lastRun, setLastRun] = useState<{ at: string; report: RetentionReport } | null>(null);
+  const [retentionRunning, setRetentionRunning] = useState(false);
 
   useEffect(() => {
     if (workspace?.id) {
@@ -95,6 +125,9 @@ export const GDPRDashboard = () => {
         retentionDays: policy?.retention_days || 365,
         autoDeleteEnabled: policy?.auto_delete_enabled || false,
       });
+      setLastRun(policy?.last_run_at && policy.last_run_report
+        ? { at: policy.last_run_at, report: policy.last_run_report as unknown as RetentionReport }
+        : null);
     } catch (error) {
       console.error('Error loading GDPR stats:', error);
       toast.error('Failed to load GDPR statistics');
@@ -103,9 +136,35 @@ export const GDPRDashboard = () => {
     }
   };
 
-  const runManualCleanup = async () => {
-    // cleanup-old-data edge function has been removed
-    toast.info('Data cleanup migrated to n8n');
+  const runRetention = async (dryRun: boolean) => {
+    if (!workspace?.id) return;
+
+    if (!dryRun && !window.confirm('Apply the retention policy now? Old conversations will be permanently anonymised or deleted.')) {
+      return;
+    }
+
+    setRetentionRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('data-retention', {
+        body: { workspace_id: workspace.id, dry_run: dryRun },
+      });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Retention run failed');
+      }
+
+      const report = data.reports?.[0] as RetentionReport | undefined;
+      if (dryRun) {
+        setRetentionReport(report || null);
+      } else {
+        setRetentionReport(null);
+        toast.success(`Retention policy applied to ${report?.counts.conversations ?? 0} conversations`);
+        loadStats();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Retention run failed');
+    } finally {
+      setRetentionRunning(false);
+    }
   };
 
   if (!isAdmin) {
@@ -223,12 +282,12 @@ export const GDPRDashboard = () => {
             </Button>
             
             <Button 
-              onClick={runManualCleanup}
+              onClick={() => runRetention(true)}
               variant="outline"
-              disabled={loading}
+              disabled={loading || retentionRunning}
             >
               <Trash2 className="h-4 w-4 mr-2" />
-              Run Manual Cleanup
+              Preview Retention Run
             </Button>
             
             <Button 
@@ -249,6 +308,42 @@ export const GDPRDashboard = () => {
           </div>
         </div>
 
+        {/* Retention Report */}
+        {(retentionReport || lastRun) && (
+          <Card className="p-4 space-y-3">
+            {retentionReport ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-semibold">Retention preview</p>
+                    <p className="text-xs text-muted-foreground">
+                      Closed conversations inactive since {new Date(retentionReport.cutoff).toLocaleDateString()} will be{' '}
+                      {retentionReport.mode === 'delete' ? 'deleted' : 'anonymised'}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => runRetention(false)}
+                    disabled={retentionRunning || retentionReport.counts.conversations + retentionReport.counts.raw_emails === 0}
+                  >
+                    Apply Now
+                  </Button>
+                </div>
+                <RetentionCounts report={retentionReport} />
+              </>
+            ) : lastRun && (
+              <>
+                <p className="font-semibold">Last retention run</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(lastRun.at).toLocaleString()} ({lastRun.report.mode === 'delete' ? 'deleted' : 'anonymised'})
+                </p>
+                <RetentionCounts report={lastRun.report} />
+              </>
+            )}
+          </Card>
+        )}
+
         {/* Compliance Status */}
         <Card className="p-4 bg-muted/50">
           <div className="flex items-start gap-3">
@@ -269,3 +364,23 @@ export const GDPRDashboard = () => {
     </Card>
   );
 };
+
+const RetentionCounts = ({ report }: { report: RetentionReport }) => (
+  <div className="space-y-2 text-sm">
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+      {REPORT_ROWS.map(([key, label]) => (
+        <div key={key} className="flex justify-between rounded bg-muted/50 px-3 py-1.5">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-medium">{report.counts[key]}</span>
+        </div>
+      ))}
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Kept: {report.skipped.open} still open, {report.skipped.legal_hold} on legal hold, {report.skipped.vip} VIP
+      {report.truncated && ' · more remain for the next run'}
+    </p>
+    {report.errors.length > 0 && (
+      <p className="text-xs text-destructive">{report.errors.length} conversations failed: {report.errors[0].error}</p>
+    )}
+  </div>
+);
@@ -34,6 +34,8 @@ export const NotificationPreferencesPanel = () => {
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
   const [workspaceId, setWorkspaceId] = useState<string | null>(null);
 
   useEffect(() => {
@@ -111,6 +113,28 @@ export const NotificationPreferencesPanel = () => {
     }
   };
 
+  // Dry run: builds the digest from saved preferences without notifying or sending anything
+  const handlePreview = async () => {
+    if (!workspaceId) return;
+    setPreviewing(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('send-scheduled-summary', {
+        body: { workspace_id: workspaceId, dry_run: true },
+      });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Request failed');
+      }
+      const result = data.results?.[0];
+      setPreview(result ? `${result.title}\n\n${result.preview?.text || ''}` : null);
+    } catch (error) {
+      console.error('Error previewing summary:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to preview summary');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const toggleChannel = (channel: string) => {
     setPreferences(prev => ({
       ...prev,
@@ -343,6 +367,20 @@ export const NotificationPreferencesPanel = () => {
               'Save Preferences'
             )}
           </Button>
+
+          {preferences.summary_enabled && (
+            <div className="space-y-2">
+              <Button variant="outline" onClick={handlePreview} disabled={previewing} className="w-full">
+                {previewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview Summary
+              </Button>
+              {preview && (
+                <pre className="whitespace-pre-wrap rounded-lg bg-muted p-3 text-xs text-muted-foreground">
+                  {preview}
+                </pre>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -9,6 +9,14 @@ import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useWorkspace } from '@/hooks/useWorkspace';
 
+interface LegalHold {
+  id: string;
+  reason: string;
+  created_at: string;
+  conversation_id: string | null;
+  customers: { name: string | null; email: string | null } | null;
+}
+
 export const RetentionPolicyPanel = () => {
   const [policy, setPolicy] = useState<any>(null);
   const [retentionDays, setRetentionDays] = useState(365);
@@ -16,15 +24,85 @@ export const RetentionPolicyPanel = () => {
   const [anonymize, setAnonymize] = useState(true);
   const [excludeVip, setExcludeVip] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [holdEmail, setHoldEmail] = useState('');
+  const [holdReason, setHoldReason] = useState('');
   const { isAdmin } = useUserRole();
   const { workspace } = useWorkspace();
 
   useEffect(() => {
     if (workspace?.id) {
       loadPolicy();
+      loadHolds();
     }
   }, [workspace]);
 
+  const loadHolds = async () => {
+    if (!workspace?.id) return;
+
+    const { data, error } = await supabase
+      .from('legal_holds')
+      .select('id, reason, created_at, conversation_id, customers(name, email)')
+      .eq('workspace_id', workspace.id)
+      .is('released_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading legal holds:', error);
+      return;
+    }
+    setHolds((data || []) as unknown as LegalHold[]);
+  };
+
+  const handleAddHold = async () => {
+    if (!workspace?.id || !holdEmail.trim() || !holdReason.trim()) return;
+
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('workspace_id', workspace.id)
+      .ilike('email', holdEmail.trim())
+      .is('merged_into_id', null)
+      .maybeSingle();
+
+    if (!customer) {
+      toast.error('No customer found with that email');
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase.from('legal_holds').insert({
+      workspace_id: workspace.id,
+      customer_id: customer.id,
+      reason: holdReason.trim(),
+      created_by: user?.id ?? null,
+    });
+
+    if (error) {
+      toast.error('Failed to add legal hold: ' + error.message);
+      return;
+    }
+    setHoldEmail('');
+    setHoldReason('');
+    toast.success('Legal hold added');
+    loadHolds();
+  };
+
+  const handleReleaseHold = async (holdId: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('legal_holds')
+      .update({ released_at: new Date().toISOString(), released_by: user?.id ?? null })
+      .eq('id', holdId);
+
+    if (error) {
+      toast.error('Failed to release legal hold: ' + error.message);
+      return;
+    }
+    toast.success('Legal hold released');
+    loadHolds();
+  };
+
   const loadPolicy = async () => {
     if (!workspace?.id) return;
 
@@ -156,6 +234,51 @@ export const RetentionPolicyPanel = () => {
             Save Retention Policy
           </Button>
         </div>
+
+        <div className="space-y-3 border-t pt-6">
+          <div>
+            <h4 className="font-semibold">Legal Holds</h4>
+            <p className="text-xs text-muted-foreground">
+              Customers on hold are never anonymised or deleted by the retention policy
+            </p>
+          </div>
+
+          {holds.map((hold) => (
+            <div key={hold.id} className="flex items-center justify-between rounded border px-3 py-2 text-sm">
+              <div>
+                <p className="font-medium">
+                  {hold.customers?.name || hold.customers?.email || `Conversation ${hold.conversation_id?.slice(0, 8)}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {hold.reason} · since {new Date(hold.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleReleaseHold(hold.id)}>
+                Release
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex flex-col gap-2 md:flex-row">
+            <Input
+              placeholder="Customer email"
+              value={holdEmail}
+              onChange={(e) => setHoldEmail(e.target.value)}
+            />
+            <Input
+              placeholder="Reason (e.g. pending dispute)"
+              value={holdReason}
+              onChange={(e) => setHoldReason(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={handleAddHold}
+              disabled={!holdEmail.trim() || !holdReason.trim()}
+            >
+              Add Hold
+            </Button>
+          </div>
+        </div>
       </div>
     </Card>
   );
@@ -0,0 +1,440 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Loader2, GitBranch, Plus, Trash2, FlaskConical } from 'lucide-react';
+
+interface RoutingPolicyCardProps {
+  workspaceId: string;
+}
+
+type Bucket = 'auto_handled' | 'needs_human' | 'act_now' | 'quick_win';
+
+interface CategoryRule {
+  category: string;
+  threshold: number | null;
+  bucket: Bucket | null;
+}
+
+interface PolicyState {
+  noise_categories: string[];
+  default_confidence_threshold: number;
+  category_rules: CategoryRule[];
+  // Not editable here, but carried through so saves and simulations keep them
+  bucket_statuses: Record<Bucket, string>;
+  vip_escalation: boolean;
+  vip_bucket: Bucket;
+  vip_senders: string[];
+  after_hours_bucket: Bucket | null;
+}
+
+interface SimulationResult {
+  evaluated: number;
+  changed: number;
+  skipped_sender_rule: number;
+  before: Record<Bucket, number>;
+  after: Record<Bucket, number>;
+  samples: Array<{
+    conversation_id: string;
+    title: string | null;
+    category: string | null;
+    from_bucket: Bucket | null;
+    to_bucket: Bucket;
+    reason: string;
+  }>;
+}
+
+const BUCKETS: { value: Bucket; label: string }[] = [
+  { value: 'act_now', label: 'Act Now' },
+  { value: 'quick_win', label: 'Quick Win' },
+  { value: 'needs_human', label: 'Needs Human' },
+  { value: 'auto_handled', label: 'Auto Handled' },
+];
+
+const bucketLabel = (bucket: Bucket | null) =>
+  BUCKETS.find((b) => b.value === bucket)?.label ?? 'Unrouted';
+
+const DEFAULT_POLICY: PolicyState = {
+  noise_categories: ['notification', 'newsletter', 'spam'],
+  default_confidence_threshold: 0.7,
+  category_rules: [],
+  // Same defaults as DEFAULT_ROUTING_POLICY in supabase/functions/_shared/routing.ts
+  bucket_statuses: {
+    auto_handled: 'resolved',
+    needs_human: 'escalated',
+    act_now: 'ai_handling',
+    quick_win: 'open',
+  },
+  vip_escalation: false,
+  vip_bucket: 'needs_human',
+  vip_senders: [],
+  after_hours_bucket: null,
+};
+
+const splitList = (value: string) =>
+  value.split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+
+const toPayload = (policy: PolicyState) => {
+  const category_thresholds: Record<string, number> = {};
+  const category_buckets: Record<string, Bucket> = {};
+  for (const rule of policy.category_rules) {
+    const category = rule.category.trim().toLowerCase();
+    if (!category) continue;
+    if (rule.threshold !== null) category_thresholds[category] = rule.threshold;
+    if (rule.bucket) category_buckets[category] = rule.bucket;
+  }
+
+  return {
+    noise_categories: policy.noise_categories,
+    default_confidence_threshold: policy.default_confidence_threshold,
+    category_thresholds,
+    category_buckets,
+    bucket_statuses: policy.bucket_statuses,
+    vip_escalation: policy.vip_escalation,
+    vip_bucket: policy.vip_bucket,
+    vip_senders: policy.vip_senders,
+    after_hours_bucket: policy.after_hours_bucket,
+  };
+};
+
+export const RoutingPolicyCard = ({ workspaceId }: RoutingPolicyCardProps) => {
+  const [policy, setPolicy] = useState<PolicyState>(DEFAULT_POLICY);
+  const [noiseInput, setNoiseInput] = useState(DEFAULT_POLICY.noise_categories.join(', '));
+  const [vipInput, setVipInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      const { data } = await supabase
+        .from('routing_policies')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (data) {
+        const thresholds = (data.category_thresholds || {}) as Record<string, number>;
+        const buckets = (data.category_buckets || {}) as Record<string, Bucket>;
+        const categories = Array.from(new Set([...Object.keys(thresholds), ...Object.keys(buckets)]));
+        const loaded: PolicyState = {
+          noise_categories: data.noise_categories ?? DEFAULT_POLICY.noise_categories,
+          default_confidence_threshold: Number(data.default_confidence_threshold ?? 0.7),
+          category_rules: categories.map((category) => ({
+            category,
+            threshold: thresholds[category] ?? null,
+            bucket: buckets[category] ?? null,
+          })),
+          bucket_statuses: {
+            ...DEFAULT_POLICY.bucket_statuses,
+            ...((data.bucket_statuses || {}) as Partial<Record<Bucket, string>>),
+          },
+          vip_escalation: data.vip_escalation ?? false,
+          vip_bucket: (data.vip_bucket as Bucket) ?? 'needs_human',
+          vip_senders: data.vip_senders ?? [],
+          after_hours_bucket: (data.after_hours_bucket as Bucket | null) ?? null,
+        };
+        setPolicy(loaded);
+        setNoiseInput(loaded.noise_categories.join(', '));
+        setVipInput(loaded.vip_senders.join(', '));
+      }
+      setLoading(false);
+    };
+
+    if (workspaceId) fetchPolicy();
+  }, [workspaceId]);
+
+  const update = (patch: Partial<PolicyState>) => {
+    setPolicy((prev) => ({ ...prev, ...patch }));
+    setSimulation(null);
+  };
+
+  const updateRule = (index: number, patch: Partial<CategoryRule>) => {
+    update({
+      category_rules: policy.category_rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    });
+  };
+
+  const savePolicy = async () => {
+    setSaving(true);
+    const { data: userData } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('routing_policies')
+      .upsert({
+        workspace_id: workspaceId,
+        ...toPayload(policy),
+        updated_by: userData.user?.id ?? null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'workspace_id' });
+
+    setSaving(false);
+    if (error) {
+      toast.error('Failed to save routing policy');
+      console.error('Routing policy save error:', error);
+    } else {
+      toast.success('Routing policy saved');
+    }
+  };
+
+  const runSimulation = async () => {
+    setSimulating(true);
+    const { data, error } = await supabase.functions.invoke('routing-policy-simulate', {
+      body: { workspace_id: workspaceId, policy: toPayload(policy) },
+    });
+    setSimulating(false);
+
+    if (error || !data?.ok) {
+      toast.error('Simulation failed');
+      console.error('Routing simulation error:', error || data?.error);
+      return;
+    }
+    setSimulation(data as SimulationResult);
+  };
+
+  if (loading) {
+    return (
+      <Card className="flex items-center justify-center h-48">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5 text-primary" />
+          <CardTitle>Routing Policy</CardTitle>
+        </div>
+        <CardDescription>
+          Decide which bucket each classified conversation lands in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Noise categories */}
+        <div className="space-y-2">
+          <Label className="text-base">Noise categories</Label>
+          <Input
+            value={noiseInput}
+            onChange={(e) => setNoiseInput(e.target.value)}
+            onBlur={() => update({ noise_categories: splitList(noiseInput) })}
+            placeholder="notification, newsletter, spam"
+          />
+          <p className="text-sm text-muted-foreground">
+            Comma-separated categories that are auto-handled without review
+          </p>
+        </div>
+
+        {/* Default confidence threshold */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <Label className="text-base">Confidence threshold</Label>
+            <span className="text-sm font-medium text-primary">
+              {(policy.default_confidence_threshold * 100).toFixed(0)}%
+            </span>
+          </div>
+          <Slider
+            value={[policy.default_confidence_threshold]}
+            onValueChange={([v]) => update({ default_confidence_threshold: v })}
+            min={0.3}
+            max={0.99}
+            step={0.01}
+          />
+          <p className="text-xs text-muted-foreground">
+            Classifications below this confidence go to Needs Human
+          </p>
+        </div>
+
+        {/* Per-category overrides */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-base">Category overrides</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ category_rules: [...policy.category_rules, { category: '', threshold: null, bucket: null }] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {policy.category_rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No overrides — every category uses the default threshold
+            </p>
+          )}
+          {policy.category_rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                className="text-sm"
+                value={rule.category}
+                onChange={(e) => updateRule(index, { category: e.target.value })}
+                placeholder="category"
+              />
+              <Input
+                className="text-sm w-24"
+                type="number"
+                min={0}
+                max={100}
+                value={rule.threshold === null ? '' : Math.round(rule.threshold * 100)}
+                onChange={(e) => updateRule(index, {
+                  threshold: e.target.value === '' ? null : Math.min(100, Math.max(0, Number(e.target.value))) / 100,
+                })}
+                placeholder="min %"
+              />
+              <Select
+                value={rule.bucket ?? 'none'}
+                onValueChange={(v) => updateRule(index, { bucket: v === 'none' ? null : v as Bucket })}
+              >
+                <SelectTrigger className="text-sm w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No forced bucket</SelectItem>
+                  {BUCKETS.map((b) => (
+                    <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ category_rules: policy.category_rules.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* VIP escalation */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="text-base">Escalate VIP senders</Label>
+            <p className="text-sm text-muted-foreground">
+              VIP customers, VIP domains and the senders below skip the normal buckets
+            </p>
+          </div>
+          <Switch
+            checked={policy.vip_escalation}
+            onCheckedChange={(v) => update({ vip_escalation: v })}
+          />
+        </div>
+        {policy.vip_escalation && (
+          <div className="space-y-3 pl-4 border-l-2 border-primary/20">
+            <Input
+              value={vipInput}
+              onChange={(e) => setVipInput(e.target.value)}
+              onBlur={() => update({ vip_senders: splitList(vipInput) })}
+              placeholder="ceo@client.com, @bigcustomer.co.uk"
+            />
+            <div className="flex items-center gap-2">
+              <Label className="text-sm">Send VIPs to</Label>
+              <Select value={policy.vip_bucket} onValueChange={(v) => update({ vip_bucket: v as Bucket })}>
+                <SelectTrigger className="text-sm w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUCKETS.map((b) => (
+                    <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {/* After hours */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Outside business hours</Label>
+            <p className="text-sm text-muted-foreground">
+              Where replies-needed conversations go when they arrive out of hours
+            </p>
+          </div>
+          <Select
+            value={policy.after_hours_bucket ?? 'none'}
+            onValueChange={(v) => update({ after_hours_bucket: v === 'none' ? null : v as Bucket })}
+          >
+            <SelectTrigger className="text-sm w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Act Now (unchanged)</SelectItem>
+              {BUCKETS.filter((b) => b.value !== 'act_now').map((b) => (
+                <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button onClick={savePolicy} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save policy
+          </Button>
+          <Button variant="outline" onClick={runSimulation} disabled={simulating}>
+            {simulating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+            Simulate against last 500 conversations
+          </Button>
+        </div>
+
+        {simulation && (
+          <div className="space-y-3 rounded-md border p-4">
+            <p className="text-sm">
+              <span className="font-medium">{simulation.changed}</span> of {simulation.evaluated} conversations would move
+              {simulation.skipped_sender_rule > 0 && (
+                <span className="text-muted-foreground"> ({simulation.skipped_sender_rule} sender-rule matches skipped)</span>
+              )}
+            </p>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {BUCKETS.map((b) => {
+                const delta = simulation.after[b.value] - simulation.before[b.value];
+                return (
+                  <div key={b.value} className="rounded bg-muted/50 p-2 text-sm">
+                    <div className="text-muted-foreground">{b.label}</div>
+                    <div className="font-medium">
+                      {simulation.before[b.value]} → {simulation.after[b.value]}
+                      {delta !== 0 && (
+                        <span className={delta > 0 ? 'text-amber-600' : 'text-green-600'}>
+                          {' '}({delta > 0 ? '+' : ''}{delta})
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {simulation.samples.length > 0 && (
+              <div className="space-y-1">
+                {simulation.samples.map((sample) => (
+                  <div key={sample.conversation_id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate">{sample.title || sample.category || sample.conversation_id}</span>
+                    <span className="flex shrink-0 items-center gap-1">
+                      {bucketLabel(sample.from_bucket)} → {bucketLabel(sample.to_bucket)}
+                      <Badge variant="outline" className="text-[10px]">{sample.reason}</Badge>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2 } from 'lucide-react';
+import { testTriageRule, type RuleTestResult } from '@/lib/triageRules';
+
+interface SenderRuleTestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string | undefined;
+  title: string;
+  rule: { ruleId: string } | { draft: Record<string, unknown> } | null;
+}
+
+export function SenderRuleTestDialog({ open, onOpenChange, workspaceId, title, rule }: SenderRuleTestDialogProps) {
+  const [result, setResult] = useState<RuleTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !rule || !workspaceId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    testTriageRule(workspaceId, rule)
+      .then((data) => {
+        if (!cancelled) setResult(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not test rule');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, rule, workspaceId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Test rule</DialogTitle>
+          <DialogDescription className="font-mono text-xs break-all">{title}</DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Matches {result.matched} of the last {result.scanned} inbound messages
+              {result.shadowed > 0 && ` (${result.shadowed} would be decided by a higher-priority rule)`}
+            </p>
+            {result.samples.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No recent messages match this rule.</p>
+            ) : (
+              <ScrollArea className="h-[360px] pr-3">
+                <div className="space-y-2">
+                  {result.samples.map((sample) => (
+                    <div key={sample.event_id} className="border rounded-lg px-3 py-2 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{sample.subject || '(no subject)'}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {format(new Date(sample.timestamp), 'dd MMM yyyy')}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{sample.from}</p>
+                      {sample.snippet && <p className="text-xs line-clamp-2">{sample.snippet}</p>}
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        {sample.current_category && (
+                          <Badge variant="outline" className="text-xs">{sample.current_category}</Badge>
+                        )}
+                        {sample.current_bucket && (
+                          <Badge variant="secondary" className="text-xs">{sample.current_bucket}</Badge>
+                        )}
+                        {sample.won_by && (
+                          <Badge variant="secondary" className="text-xs bg-amber-500/10 text-amber-600">
+                            Decided by {sample.won_by.source === 'system' ? 'built-in rule' : 'rule'}: {sample.won_by.name}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
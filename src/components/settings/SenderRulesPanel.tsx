@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,8 +13,22 @@ import {
   SelectValue 
 } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
-import { Filter, Plus, Trash2, Loader2, Zap, Pencil, Check, X } from 'lucide-react';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { Filter, Plus, Trash2, Loader2, Zap, Pencil, Check, X, FlaskConical, SlidersHorizontal } from 'lucide-react';
+import {
+  DEFAULT_RULE_PRIORITY,
+  RULE_FIELDS,
+  RULE_HEADERS,
+  RULE_OPERATORS,
+  describeConditions,
+  isRuleGroup,
+  validateConditions,
+  type RuleCondition,
+  type RuleGroup,
+} from '@/lib/triageRules';
+import { SenderRuleTestDialog } from './SenderRuleTestDialog';
 
 interface SenderRule {
   id: string;
@@ -25,8 +40,16 @@ interface SenderRule {
   override_requires_reply: boolean | null;
   is_active: boolean;
   hit_count: number;
+  conditions: Json | null;
+  priority: number;
+  last_hit_at: string | null;
 }
 
+type TestTarget = {
+  title: string;
+  rule: { ruleId: string } | { draft: Record<string, unknown> };
+};
+
 const CLASSIFICATIONS = [
   { value: 'customer_inquiry', label: 'Customer Inquiry' },
   { value: 'automated_notification', label: 'Auto Notification' },
@@ -37,8 +60,124 @@ const CLASSIFICATIONS = [
   { value: 'internal_system', label: 'System' },
 ];
 
+const emptyCondition = (): RuleCondition => ({ field: 'sender', operator: 'contains', value: '' });
+
+function ConditionsEditor({ value, onChange }: { value: RuleGroup; onChange: (value: RuleGroup) => void }) {
+  const conditions = value.conditions.filter((c): c is RuleCondition => !isRuleGroup(c));
+
+  const updateCondition = (index: number, patch: Partial<RuleCondition>) => {
+    onChange({ ...value, conditions: conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select value={value.match} onValueChange={(match) => onChange({ ...value, match: match as RuleGroup['match'] })}>
+          <SelectTrigger className="h-8 text-xs w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">all</SelectItem>
+            <SelectItem value="any">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these conditions</span>
+      </div>
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <Select
+            value={condition.negate ? 'not' : 'is'}
+            onValueChange={(v) => updateCondition(index, { negate: v === 'not' || undefined })}
+          >
+            <SelectTrigger className="h-8 text-xs w-[70px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="is">if</SelectItem>
+              <SelectItem value="not">not</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={condition.field}
+            onValueChange={(field) => updateCondition(index, { field: field as RuleCondition['field'] })}
+          >
+            <SelectTrigger className="h-8 text-xs w-[100px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_FIELDS.map((f) => (
+                <SelectItem key={f.value} value={f.value}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {condition.field === 'header' && (
+            <Select
+              value={condition.header?.toLowerCase() || ''}
+              onValueChange={(header) => updateCondition(index, { header })}
+            >
+              <SelectTrigger className="h-8 text-xs w-[190px]">
+                <SelectValue placeholder="Header" />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_HEADERS.map((h) => (
+                  <SelectItem key={h.value} value={h.value}>
+                    {h.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) => updateCondition(index, { operator: operator as RuleCondition['operator'] })}
+          >
+            <SelectTrigger className="h-8 text-xs w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_OPERATORS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {condition.operator !== 'exists' && (
+            <Input
+              placeholder={condition.operator === 'matches' ? '^invoice #?\\d+' : 'value'}
+              value={condition.value || ''}
+              onChange={(e) => updateCondition(index, { value: e.target.value })}
+              className="h-8 text-xs flex-1 min-w-[140px]"
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, conditions: conditions.filter((_, i) => i !== index) })}
+            disabled={conditions.length === 1}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...value, conditions: [...conditions, emptyCondition()] })}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Condition
+      </Button>
+    </div>
+  );
+}
+
 export function SenderRulesPanel() {
   const { toast } = useToast();
+  const { workspace } = useWorkspace();
   const [rules, setRules] = useState<SenderRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -47,11 +186,17 @@ export function SenderRulesPanel() {
   const [newPattern, setNewPattern] = useState('');
   const [newClassification, setNewClassification] = useState('automated_notification');
   const [newRequiresReply, setNewRequiresReply] = useState(false);
+  const [newPriority, setNewPriority] = useState(String(DEFAULT_RULE_PRIORITY));
+  const [useConditions, setUseConditions] = useState(false);
+  const [newConditions, setNewConditions] = useState<RuleGroup>({ match: 'all', conditions: [emptyCondition()] });
   
   // Editing state
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editClassification, setEditClassification] = useState('');
   const [editRequiresReply, setEditRequiresReply] = useState(false);
+  const [editPriority, setEditPriority] = useState('');
+
+  const [testTarget, setTestTarget] = useState<TestTarget | null>(null);
 
   useEffect(() => {
     fetchRules();
@@ -62,6 +207,7 @@ export function SenderRulesPanel() {
       const { data, error } = await supabase
         .from('sender_rules')
         .select('*')
+        .order('priority', { ascending: true })
         .order('hit_count', { ascending: false });
 
       if (error) throw error;
@@ -73,11 +219,38 @@ export function SenderRulesPanel() {
     }
   };
 
-  const addRule = async () => {
-    if (!newPattern.trim()) {
-      toast({ title: 'Please enter a sender pattern', variant: 'destructive' });
-      return;
+  const parsePriority = (value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : DEFAULT_RULE_PRIORITY;
+  };
+
+  // Condition rules keep a readable summary in sender_pattern, which other screens list
+  const newRuleFields = () => ({
+    sender_pattern: useConditions ? describeConditions(newConditions) : newPattern.trim().toLowerCase(),
+    conditions: useConditions ? (newConditions as unknown as Json) : null,
+    priority: parsePriority(newPriority),
+    default_classification: newClassification,
+    default_requires_reply: newRequiresReply,
+  });
+
+  const validateNewRule = () => {
+    const problem = useConditions
+      ? validateConditions(newConditions)
+      : newPattern.trim() ? null : 'Please enter a sender pattern';
+    if (problem) {
+      toast({ title: problem, variant: 'destructive' });
     }
+    return !problem;
+  };
+
+  const testNewRule = () => {
+    if (!validateNewRule()) return;
+    const draft = newRuleFields();
+    setTestTarget({ title: draft.sender_pattern, rule: { draft: { ...draft, is_active: true } } });
+  };
+
+  const addRule = async () => {
+    if (!validateNewRule()) return;
 
     setSaving(true);
     try {
@@ -92,9 +265,7 @@ export function SenderRulesPanel() {
         .from('sender_rules')
         .insert({
           workspace_id: userData?.workspace_id,
-          sender_pattern: newPattern.trim().toLowerCase(),
-          default_classification: newClassification,
-          default_requires_reply: newRequiresReply,
+          ...newRuleFields(),
           is_active: true,
         });
 
@@ -104,6 +275,8 @@ export function SenderRulesPanel() {
       setNewPattern('');
       setNewClassification('automated_notification');
       setNewRequiresReply(false);
+      setNewPriority(String(DEFAULT_RULE_PRIORITY));
+      setNewConditions({ match: 'all', conditions: [emptyCondition()] });
       fetchRules();
     } catch (error) {
       console.error('Error adding rule:', error);
@@ -152,6 +325,7 @@ export function SenderRulesPanel() {
     setEditingId(rule.id);
     setEditClassification(rule.default_classification);
     setEditRequiresReply(rule.default_requires_reply);
+    setEditPriority(String(rule.priority ?? DEFAULT_RULE_PRIORITY));
   };
 
   const cancelEditing = () => {
@@ -161,23 +335,28 @@ export function SenderRulesPanel() {
   };
 
   const saveEdit = async (id: string) => {
+    const priority = parsePriority(editPriority);
     try {
       const { error } = await supabase
         .from('sender_rules')
         .update({ 
           default_classification: editClassification,
           default_requires_reply: editRequiresReply,
+          priority,
           updated_at: new Date().toISOString() 
         })
         .eq('id', id);
 
       if (error) throw error;
       
-      setRules(rules.map(r => r.id === id ? { 
-        ...r, 
-        default_classification: editClassification,
-        default_requires_reply: editRequiresReply 
-      } : r));
+      setRules(rules
+        .map(r => r.id === id ? { 
+          ...r, 
+          default_classification: editClassification,
+          default_requires_reply: editRequiresReply,
+          priority,
+        } : r)
+        .sort((a, b) => a.priority - b.priority || b.hit_count - a.hit_count));
       setEditingId(null);
       toast({ title: 'Rule updated' });
     } catch (error) {
@@ -204,21 +383,26 @@ export function SenderRulesPanel() {
           Sender Rules
         </CardTitle>
         <CardDescription>
-          Create rules to automatically classify emails from specific senders.
-          Rules are checked before AI classification.
+          Create rules to automatically classify emails from specific senders, or match on subject,
+          body and headers. Rules run in priority order (lowest first) before AI classification and
+          before the built-in rules.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Add New Rule */}
         <div className="bg-muted/50 rounded-lg p-4 space-y-3">
           <h4 className="font-medium text-sm">Add New Rule</h4>
-          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
-            <Input
-              placeholder="@stripe.com or noreply@*"
-              value={newPattern}
-              onChange={(e) => setNewPattern(e.target.value)}
-              className="text-sm"
-            />
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            {useConditions ? (
+              <p className="text-xs text-muted-foreground self-center">Matches the conditions below</p>
+            ) : (
+              <Input
+                placeholder="@stripe.com or noreply@*"
+                value={newPattern}
+                onChange={(e) => setNewPattern(e.target.value)}
+                className="text-sm"
+              />
+            )}
             <Select value={newClassification} onValueChange={setNewClassification}>
               <SelectTrigger className="text-sm">
                 <SelectValue />
@@ -241,11 +425,31 @@ export function SenderRulesPanel() {
                 Needs Reply
               </label>
             </div>
+            <Input
+              type="number"
+              min={0}
+              value={newPriority}
+              onChange={(e) => setNewPriority(e.target.value)}
+              className="text-sm"
+              aria-label="Priority"
+              title="Priority (lower runs first)"
+            />
             <Button onClick={addRule} disabled={saving} className="w-full sm:w-auto">
               <Plus className="h-4 w-4 mr-1" />
               Add Rule
             </Button>
           </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setUseConditions(!useConditions)}>
+              <SlidersHorizontal className="h-4 w-4 mr-1" />
+              {useConditions ? 'Use a sender pattern' : 'Advanced conditions'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={testNewRule}>
+              <FlaskConical className="h-4 w-4 mr-1" />
+              Test
+            </Button>
+          </div>
+          {useConditions && <ConditionsEditor value={newConditions} onChange={setNewConditions} />}
         </div>
 
         {/* Existing Rules */}
@@ -266,7 +470,9 @@ export function SenderRulesPanel() {
                     onCheckedChange={(checked) => toggleRule(rule.id, checked)}
                   />
                   <div>
-                    <p className="font-mono text-sm">{rule.sender_pattern}</p>
+                    <p className="font-mono text-sm">
+                      {isRuleGroup(rule.conditions) ? describeConditions(rule.conditions) : rule.sender_pattern}
+                    </p>
                     {editingId === rule.id ? (
                       <div className="flex items-center gap-2 mt-2">
                         <Select value={editClassification} onValueChange={setEditClassification}>
@@ -291,9 +497,20 @@ export function SenderRulesPanel() {
                             Reply
                           </label>
                         </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={editPriority}
+                          onChange={(e) => setEditPriority(e.target.value)}
+                          className="h-8 text-xs w-[80px]"
+                          aria-label="Priority"
+                        />
                       </div>
                     ) : (
                       <div className="flex items-center gap-2 mt-1">
+                        <Badge variant="outline" className="text-xs" title="Priority (lower runs first)">
+                          #{rule.priority}
+                        </Badge>
                         <Badge variant="outline" className="text-xs">
                           {CLASSIFICATIONS.find(c => c.value === rule.default_classification)?.label}
                         </Badge>
@@ -312,6 +529,11 @@ export function SenderRulesPanel() {
                             {rule.hit_count} hits
                           </Badge>
                         )}
+                        {rule.last_hit_at && (
+                          <span className="text-xs text-muted-foreground">
+                            last {formatDistanceToNow(new Date(rule.last_hit_at), { addSuffix: true })}
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
@@ -337,6 +559,17 @@ export function SenderRulesPanel() {
                     </>
                   ) : (
                     <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Test against recent messages"
+                        onClick={() => setTestTarget({
+                          title: isRuleGroup(rule.conditions) ? describeConditions(rule.conditions) : rule.sender_pattern,
+                          rule: { ruleId: rule.id },
+                        })}
+                      >
+                        <FlaskConical className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -360,6 +593,13 @@ export function SenderRulesPanel() {
           )}
         </div>
       </CardContent>
+      <SenderRuleTestDialog
+        open={testTarget !== null}
+        onOpenChange={(open) => !open && setTestTarget(null)}
+        workspaceId={workspace?.id}
+        title={testTarget?.title || ''}
+        rule={testTarget?.rule || null}
+      />
     </Card>
   );
 }
@@ -0,0 +1,319 @@
+import { useCallback, useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { toast } from 'sonner';
+import { Archive, FileText, Loader2, Pencil, Plus } from 'lucide-react';
+import {
+  previewTemplate,
+  type ReplyTemplate,
+  TEMPLATE_CHANNELS,
+  TEMPLATE_FIELDS,
+  unknownTemplateFields,
+} from '@/lib/templates';
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  folder: string;
+  subject: string;
+  body: string;
+  channel_variants: Record<string, string>;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { name: '', folder: '', subject: '', body: '', channel_variants: {} };
+
+export const TemplatesPanel = () => {
+  const { workspace } = useWorkspace();
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  // 'default' edits body; otherwise a channel variant
+  const [activeTab, setActiveTab] = useState('default');
+
+  const loadTemplates = useCallback(async () => {
+    if (!workspace?.id) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('templates')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .is('archived_at', null)
+      .order('folder', { ascending: true, nullsFirst: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      toast.error('Failed to load templates');
+    } else {
+      setTemplates((data || []) as unknown as ReplyTemplate[]);
+    }
+    setLoading(false);
+  }, [workspace?.id]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const openEditor = (template?: ReplyTemplate) => {
+    setActiveTab('default');
+    setDraft(template
+      ? {
+          id: template.id,
+          name: template.name,
+          folder: template.folder || template.category || '',
+          subject: template.subject || '',
+          body: template.body,
+          channel_variants: { ...(template.channel_variants || {}) },
+        }
+      : { ...EMPTY_DRAFT, channel_variants: {} });
+  };
+
+  const activeText = !draft ? '' : activeTab === 'default' ? draft.body : draft.channel_variants[activeTab] || '';
+
+  const setActiveText = (value: string) => {
+    if (!draft) return;
+    if (activeTab === 'default') {
+      setDraft({ ...draft, body: value });
+    } else {
+      setDraft({ ...draft, channel_variants: { ...draft.channel_variants, [activeTab]: value } });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!workspace?.id || !draft) return;
+    if (!draft.name.trim() || !draft.body.trim()) {
+      toast.error('Name and default text are required');
+      return;
+    }
+
+    const variants = Object.fromEntries(
+      Object.entries(draft.channel_variants).filter(([, text]) => text.trim()),
+    );
+    const payload = {
+      workspace_id: workspace.id,
+      name: draft.name.trim(),
+      folder: draft.folder.trim() || null,
+      subject: draft.subject.trim() || null,
+      body: draft.body,
+      channel_variants: variants,
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      if (draft.id) {
+        const { error } = await supabase.from('templates').update(payload).eq('id', draft.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase.from('templates').insert({ ...payload, created_by: user?.id ?? null });
+        if (error) throw error;
+      }
+      toast.success('Template saved');
+      setDraft(null);
+      loadTemplates();
+    } catch (error) {
+      toast.error('Failed to save template: ' + (error instanceof Error ? error.message : 'unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (template: ReplyTemplate) => {
+    const { error } = await supabase
+      .from('templates')
+      .update({ archived_at: new Date().toISOString() })
+      .eq('id', template.id);
+
+    if (error) {
+      toast.error('Failed to archive template');
+      return;
+    }
+    toast.success(`Archived "${template.name}"`);
+    loadTemplates();
+  };
+
+  const folders = [...new Set(templates.map((t) => t.folder || t.category || 'General'))];
+  const unknownFields = draft
+    ? unknownTemplateFields([draft.subject, draft.body, ...Object.values(draft.channel_variants)].join('\n'))
+    : [];
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Saved replies with merge fields like <code className="text-xs">{'{{customer.first_name}}'}</code>
+        </p>
+        <Button size="sm" onClick={() => openEditor()}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Template
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          <FileText className="h-8 w-8 mx-auto mb-2 opacity-40" />
+          No templates yet
+        </div>
+      ) : (
+        folders.map((folder) => (
+          <div key={folder} className="space-y-1">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{folder}</p>
+            {templates
+              .filter((t) => (t.folder || t.category || 'General') === folder)
+              .map((template) => (
+                <div key={template.id} className="flex items-center justify-between rounded-lg border px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{template.name}</p>
+                    <div className="flex items-center gap-1.5 mt-0.5">
+                      {Object.keys(template.channel_variants || {}).map((channel) => (
+                        <Badge key={channel} variant="outline" className="text-[10px] px-1.5 py-0 h-4 font-normal">
+                          {channel}
+                        </Badge>
+                      ))}
+                      <span className="text-xs text-muted-foreground">Used {template.usage_count || 0} times</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(template)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleArchive(template)}>
+                      <Archive className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+          </div>
+        ))
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Template' : 'New Template'}</DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template-folder">Folder</Label>
+                  <Input
+                    id="template-folder"
+                    list="template-folders"
+                    placeholder="General"
+                    value={draft.folder}
+                    onChange={(e) => setDraft({ ...draft, folder: e.target.value })}
+                    className="mt-1"
+                  />
+                  <datalist id="template-folders">
+                    {folders.map((folder) => <option key={folder} value={folder} />)}
+                  </datalist>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="template-subject">Email subject (optional)</Label>
+                <Input
+                  id="template-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+
+              <Tabs value={activeTab} onValueChange={setActiveTab}>
+                <div className="flex items-center justify-between gap-2">
+                  <TabsList className="h-8">
+                    <TabsTrigger value="default" className="text-xs">Default</TabsTrigger>
+                    {TEMPLATE_CHANNELS.filter((c) => c.value !== 'email').map((channel) => (
+                      <TabsTrigger key={channel.value} value={channel.value} className="text-xs">
+                        {channel.label}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  <Select value="" onValueChange={(key) => setActiveText(`${activeText}{{${key}}}`)}>
+                    <SelectTrigger className="h-8 w-[170px] text-xs">
+                      <SelectValue placeholder="Insert field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPLATE_FIELDS.map((field) => (
+                        <SelectItem key={field.key} value={field.key} className="text-xs">
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <TabsContent value={activeTab} className="mt-2 space-y-2">
+                  <Textarea
+                    rows={7}
+                    value={activeText}
+                    placeholder={activeTab === 'default' ? 'Hi {{customer.first_name}},' : 'Leave empty to use the default text'}
+                    onChange={(e) => setActiveText(e.target.value)}
+                  />
+                  {activeText && (
+                    <div className="rounded-md bg-muted/50 p-3 text-xs whitespace-pre-wrap text-muted-foreground">
+                      {previewTemplate(activeText)}
+                    </div>
+                  )}
+                  {activeTab === 'sms' && activeText && (
+                    <p className="text-xs text-muted-foreground">
+                      About {previewTemplate(activeText).length} characters with example values
+                    </p>
+                  )}
+                </TabsContent>
+              </Tabs>
+
+              <p className="text-xs text-muted-foreground">
+                Use <code>{'{{field | fallback}}'}</code> for text to use when a value is missing, e.g.{' '}
+                <code>{'{{customer.first_name | there}}'}</code>.
+              </p>
+
+              {unknownFields.length > 0 && (
+                <p className="text-xs text-destructive">
+                  Unknown fields: {unknownFields.map((key) => `{{${key}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useWorkspace } from '@/hooks/useWorkspace';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -41,6 +42,7 @@ interface GDPRSettings {
   company_address: string | null;
   data_protection_officer_email: string | null;
   sub_processors: SubProcessor[];
+  marketing_consent_mode: string;
 }
 
 export const WorkspaceGDPRSettingsPanel = () => {
@@ -94,6 +96,7 @@ export const WorkspaceGDPRSettingsPanel = () => {
           company_address: null,
           data_protection_officer_email: null,
           sub_processors: [],
+          marketing_consent_mode: 'block',
         });
       }
     } catch (error) {
@@ -123,6 +126,7 @@ export const WorkspaceGDPRSettingsPanel = () => {
         company_address: settings.company_address,
         data_protection_officer_email: settings.data_protection_officer_email,
         sub_processors: JSON.parse(JSON.stringify(settings.sub_processors)),
+        marketing_consent_mode: settings.marketing_consent_mode,
         updated_at: new Date().toISOString(),
       } as any;
 
@@ -341,6 +345,33 @@ export const WorkspaceGDPRSettingsPanel = () => {
           </div>
         </div>
 
+        {/* Outbound consent */}
+        <div className="space-y-4">
+          <h4 className="font-semibold flex items-center gap-2">
+            <Mail className="h-4 w-4" />
+            Marketing Consent
+          </h4>
+
+          <div className="space-y-2">
+            <Label htmlFor="marketing_consent_mode">Marketing sends without consent</Label>
+            <Select
+              value={settings?.marketing_consent_mode || 'block'}
+              onValueChange={(value) => setSettings(s => s ? { ...s, marketing_consent_mode: value } : s)}
+            >
+              <SelectTrigger id="marketing_consent_mode" className="md:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="block">Block the send</SelectItem>
+                <SelectItem value="warn">Warn and ask the agent to confirm</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Withdrawn marketing consent always blocks, whatever this is set to. A withdrawn service consent or STOP reply blocks SMS and WhatsApp replies, and asks the agent to confirm on email
+            </p>
+          </div>
+        </div>
+
         {/* Sub-processors */}
         <div className="space-y-4">
           <h4 className="font-semibold">Sub-processors</h4>
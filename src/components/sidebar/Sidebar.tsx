@@ -41,7 +41,8 @@ export const Sidebar = ({ forceCollapsed = false, onNavigate, onFiltersClick, is
           .select('id', { count: 'exact', head: true })
           .eq('workspace_id', userData.workspace_id)
           .eq('requires_reply', true)
-          .in('status', ['new', 'open', 'waiting_internal', 'ai_handling', 'escalated']),
+          .in('status', ['new', 'open', 'waiting_internal', 'ai_handling', 'escalated'])
+          .is('snoozed_until', null),
         supabase
           .from('conversations')
           .select('id', { count: 'exact', head: true })
@@ -65,7 +66,8 @@ export const Sidebar = ({ forceCollapsed = false, onNavigate, onFiltersClick, is
           .select('id', { count: 'exact', head: true })
           .eq('workspace_id', userData.workspace_id)
           .eq('requires_reply', true)
-          .eq('status', 'new'),
+          .eq('status', 'new')
+          .is('snoozed_until', null),
         supabase
           .from('conversations')
           .select('id', { count: 'exact', head: true })
@@ -73,7 +75,8 @@ export const Sidebar = ({ forceCollapsed = false, onNavigate, onFiltersClick, is
           .not('ai_draft_response', 'is', null)
           .is('final_response', null)
           .in('status', ['new', 'open', 'ai_handling'])
-          .eq('requires_reply', true),
+          .eq('requires_reply', true)
+          .is('snoozed_until', null),
       ]);
 
       return {
@@ -15,7 +15,10 @@ export const SLABadge = ({ conversation, compact = false }: SLABadgeProps) => {
 
   const now = new Date();
   const dueDate = new Date(conversation.sla_due_at);
-  const isOverdue = now > dueDate;
+  const isOverdue = now > dueDate || conversation.sla_status === 'breached';
+  // sla_due_at is whichever target comes first: a reply, or resolving the conversation
+  const target = conversation.sla_response_due_at === conversation.sla_due_at ? 'Reply' : 'Resolve';
+  const title = `${target} ${isOverdue ? 'overdue' : 'due'} ${dueDate.toLocaleString()}`;
 
   if (compact) {
     // Mobile compact version - just a colored dot
@@ -24,22 +27,24 @@ export const SLABadge = ({ conversation, compact = false }: SLABadgeProps) => {
         className={cn(
           "h-2 w-2 rounded-full",
           isOverdue && "bg-destructive",
-          !isOverdue && "bg-success"
+          !isOverdue && conversation.sla_status === 'warning' && "bg-warning",
+          !isOverdue && conversation.sla_status !== 'warning' && "bg-success"
         )}
-        title={isOverdue ? 'Overdue' : 'On time'}
+        title={title}
       />
     );
   }
 
   return (
     <Badge 
+      title={title}
       variant={isOverdue ? "destructive" : "secondary"}
       className={cn(
         "text-xs font-medium",
         isOverdue && "text-destructive-foreground"
       )}
     >
-      {isOverdue ? 'Overdue' : <SLACountdown slaDueAt={conversation.sla_due_at} />}
+      {isOverdue ? `${target} overdue` : <SLACountdown slaDueAt={conversation.sla_due_at} label={target} />}
     </Badge>
   );
 };
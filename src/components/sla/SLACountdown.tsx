@@ -5,10 +5,12 @@ import { cn } from '@/lib/utils';
 
 interface SLACountdownProps {
   slaDueAt: string | null;
+  // Which target is counting down, e.g. 'Reply' or 'Resolve'
+  label?: string;
   className?: string;
 }
 
-export const SLACountdown = ({ slaDueAt, className }: SLACountdownProps) => {
+export const SLACountdown = ({ slaDueAt, label, className }: SLACountdownProps) => {
   const [timeRemaining, setTimeRemaining] = useState<string>('');
   const [isOverdue, setIsOverdue] = useState(false);
   const [isUrgent, setIsUrgent] = useState(false);
@@ -52,7 +54,7 @@ export const SLACountdown = ({ slaDueAt, className }: SLACountdownProps) => {
       className
     )}>
       <Icon className="h-3 w-3" />
-      {timeRemaining}
+      {label && !isOverdue ? `${label} · ${timeRemaining}` : timeRemaining}
     </div>
   );
 };
@@ -1,56 +1,96 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
-import { FileText } from 'lucide-react';
-
-interface Template {
-  id: string;
-  name: string;
-  body: string;
-  category: string | null;
-}
+import { FileText, Loader2 } from 'lucide-react';
+import { fieldLabel, type ReplyTemplate } from '@/lib/templates';
 
 interface TemplateSelectorProps {
   onSelect: (body: string) => void;
+  conversationId?: string;
+  channel?: string;
 }
 
-export const TemplateSelector = ({ onSelect }: TemplateSelectorProps) => {
-  const [templates, setTemplates] = useState<Template[]>([]);
+export const TemplateSelector = ({ onSelect, conversationId, channel }: TemplateSelectorProps) => {
+  const { workspace } = useWorkspace();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
   const [open, setOpen] = useState(false);
+  const [renderingId, setRenderingId] = useState<string | null>(null);
 
   useEffect(() => {
+    if (!workspace?.id || !open) return;
+
     const fetchTemplates = async () => {
       const { data } = await supabase
         .from('templates')
         .select('*')
+        .eq('workspace_id', workspace.id)
+        .is('archived_at', null)
         .order('usage_count', { ascending: false });
-      
+
       if (data) {
-        setTemplates(data);
+        setTemplates(data as unknown as ReplyTemplate[]);
       }
     };
 
     fetchTemplates();
-  }, []);
+  }, [workspace?.id, open]);
+
+  const handleSelect = async (template: ReplyTemplate) => {
+    if (!workspace?.id) return;
 
-  const handleSelect = async (template: Template) => {
-    onSelect(template.body);
-    setOpen(false);
+    setRenderingId(template.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('render-template', {
+        body: {
+          workspace_id: workspace.id,
+          template_id: template.id,
+          conversation_id: conversationId,
+          channel,
+        },
+      });
+      if (error || !data?.ok) {
+        throw new Error(data?.error || error?.message || 'Could not fill in template');
+      }
 
-    // Update usage count
-    await supabase
-      .from('templates')
-      .update({ usage_count: (template as any).usage_count + 1 })
-      .eq('id', template.id);
+      onSelect(data.body);
+      setOpen(false);
+
+      const notes: string[] = [];
+      if (data.missing?.length > 0) {
+        notes.push(`No value for ${data.missing.map(fieldLabel).join(', ')}.`);
+      }
+      if (data.unknown?.length > 0) {
+        notes.push(`${data.unknown.map((key: string) => `{{${key}}}`).join(', ')} ${data.unknown.length === 1 ? 'is not a merge field' : 'are not merge fields'}; check the template for typos.`);
+      }
+      if (notes.length > 0) {
+        toast({
+          title: 'Some fields need filling in',
+          description: `${notes.join(' ')} The placeholders were left in the reply.`,
+        });
+      }
+    } catch (err) {
+      toast({
+        title: 'Template failed',
+        description: err instanceof Error ? err.message : 'Could not fill in template',
+        variant: 'destructive',
+      });
+    } finally {
+      setRenderingId(null);
+    }
   };
 
+  const folders = [...new Set(templates.map((t) => t.folder || t.category || 'General'))].sort();
+
   return (
     <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
-        <Button variant="outline" size="sm">
-          <FileText className="h-4 w-4 mr-2" />
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+          <FileText className="h-3 w-3 mr-1" />
           Templates
         </Button>
       </PopoverTrigger>
@@ -59,22 +99,30 @@ export const TemplateSelector = ({ onSelect }: TemplateSelectorProps) => {
           <CommandInput placeholder="Search templates..." />
           <CommandList>
             <CommandEmpty>No templates found.</CommandEmpty>
-            <CommandGroup>
-              {templates.map((template) => (
-                <CommandItem
-                  key={template.id}
-                  onSelect={() => handleSelect(template)}
-                  className="cursor-pointer"
-                >
-                  <div className="flex flex-col">
-                    <span className="font-medium">{template.name}</span>
-                    {template.category && (
-                      <span className="text-xs text-muted-foreground">{template.category}</span>
-                    )}
-                  </div>
-                </CommandItem>
-              ))}
-            </CommandGroup>
+            {folders.map((folder) => (
+              <CommandGroup key={folder} heading={folder}>
+                {templates
+                  .filter((t) => (t.folder || t.category || 'General') === folder)
+                  .map((template) => (
+                    <CommandItem
+                      key={template.id}
+                      value={`${template.name} ${folder}`}
+                      onSelect={() => handleSelect(template)}
+                      disabled={renderingId !== null}
+                      className="cursor-pointer"
+                    >
+                      <div className="flex flex-1 items-center justify-between gap-2">
+                        <span className="font-medium">{template.name}</span>
+                        {renderingId === template.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : channel && template.channel_variants?.[channel] ? (
+                          <span className="text-[10px] uppercase text-muted-foreground">{channel}</span>
+                        ) : null}
+                      </div>
+                    </CommandItem>
+                  ))}
+              </CommandGroup>
+            ))}
           </CommandList>
         </Command>
       </PopoverContent>
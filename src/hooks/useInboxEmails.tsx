@@ -85,7 +85,8 @@ export const useInboxEmails = ({ folder, categoryFilter, search, page }: UseInbo
         case 'inbox':
           query = query
             .neq('decision_bucket', 'auto_handled')
-            .in('status', ['new', 'open', 'waiting_internal', 'ai_handling', 'escalated']);
+            .in('status', ['new', 'open', 'waiting_internal', 'ai_handling', 'escalated'])
+            .is('snoozed_until', null);
           break;
         case 'sent':
           query = query.eq('status', 'resolved');
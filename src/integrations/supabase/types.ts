@@ -49,6 +49,95 @@ export type Database = {
           },
         ]
       }
+      analytics_daily_rollups: {
+        Row: {
+          ai_handled: number
+          computed_at: string
+          conversations: number
+          csat_count: number
+          csat_sum: number
+          day: string
+          dimension: string
+          dimension_value: string
+          drafts_edited: number
+          drafts_generated: number
+          drafts_sent: number
+          escalated: number
+          first_response_count: number
+          first_response_histogram: number[]
+          first_response_seconds_sum: number
+          human_handled: number
+          human_only: number
+          id: string
+          resolution_count: number
+          resolution_histogram: number[]
+          resolution_seconds_sum: number
+          resolved: number
+          sla_breaches: number
+          workspace_id: string
+        }
+        Insert: {
+          ai_handled?: number
+          computed_at?: string
+          conversations?: number
+          csat_count?: number
+          csat_sum?: number
+          day: string
+          dimension: string
+          dimension_value?: string
+          drafts_edited?: number
+          drafts_generated?: number
+          drafts_sent?: number
+          escalated?: number
+          first_response_count?: number
+          first_response_histogram?: number[]
+          first_response_seconds_sum?: number
+          human_handled?: number
+          human_only?: number
+          id?: string
+          resolution_count?: number
+          resolution_histogram?: number[]
+          resolution_seconds_sum?: number
+          resolved?: number
+          sla_breaches?: number
+          workspace_id: string
+        }
+        Update: {
+          ai_handled?: number
+          computed_at?: string
+          conversations?: number
+          csat_count?: number
+          csat_sum?: number
+          day?: string
+          dimension?: string
+          dimension_value?: string
+          drafts_edited?: number
+          drafts_generated?: number
+          drafts_sent?: number
+          escalated?: number
+          first_response_count?: number
+          first_response_histogram?: number[]
+          first_response_seconds_sum?: number
+          human_handled?: number
+          human_only?: number
+          id?: string
+          resolution_count?: number
+          resolution_histogram?: number[]
+          resolution_seconds_sum?: number
+          resolved?: number
+          sla_breaches?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analytics_daily_rollups_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_usage: {
         Row: {
           cost_estimate: number | null
@@ -90,8 +179,91 @@ export type Database = {
           },
         ]
       }
+      assignment_rules: {
+        Row: {
+          assignee_ids: string[]
+          categories: string[]
+          channels: string[]
+          created_at: string
+          created_by: string | null
+          customer_tiers: string[]
+          decision_buckets: string[]
+          enabled: boolean
+          id: string
+          last_assigned_user_id: string | null
+          name: string
+          priority: number
+          reassign_when_away: boolean
+          sender_domains: string[]
+          strategy: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          assignee_ids?: string[]
+          categories?: string[]
+          channels?: string[]
+          created_at?: string
+          created_by?: string | null
+          customer_tiers?: string[]
+          decision_buckets?: string[]
+          enabled?: boolean
+          id?: string
+          last_assigned_user_id?: string | null
+          name: string
+          priority?: number
+          reassign_when_away?: boolean
+          sender_domains?: string[]
+          strategy?: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          assignee_ids?: string[]
+          categories?: string[]
+          channels?: string[]
+          created_at?: string
+          created_by?: string | null
+          customer_tiers?: string[]
+          decision_buckets?: string[]
+          enabled?: boolean
+          id?: string
+          last_assigned_user_id?: string | null
+          name?: string
+          priority?: number
+          reassign_when_away?: boolean
+          sender_domains?: string[]
+          strategy?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_rules_last_assigned_user_id_fkey"
+            columns: ["last_assigned_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_rules_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       automation_settings: {
         Row: {
+          ai_model_routing: Json
           always_verify: boolean | null
           auto_send_enabled: boolean | null
           auto_send_threshold: number | null
@@ -104,6 +276,7 @@ export type Database = {
           workspace_id: string
         }
         Insert: {
+          ai_model_routing?: Json
           always_verify?: boolean | null
           auto_send_enabled?: boolean | null
           auto_send_threshold?: number | null
@@ -116,6 +289,7 @@ export type Database = {
           workspace_id: string
         }
         Update: {
+          ai_model_routing?: Json
           always_verify?: boolean | null
           auto_send_enabled?: boolean | null
           auto_send_threshold?: number | null
@@ -137,6 +311,27 @@ export type Database = {
           },
         ]
       }
+      bank_holidays: {
+        Row: {
+          fetched_at: string
+          holiday_date: string
+          region: string
+          title: string
+        }
+        Insert: {
+          fetched_at?: string
+          holiday_date: string
+          region: string
+          title: string
+        }
+        Update: {
+          fetched_at?: string
+          holiday_date?: string
+          region?: string
+          title?: string
+        }
+        Relationships: []
+      }
       business_context: {
         Row: {
           active_insurance_claim: boolean | null
@@ -1205,6 +1400,7 @@ export type Database = {
       conversations: {
         Row: {
           ai_confidence: number | null
+          ai_draft_citations: Json
           ai_draft_response: string | null
           ai_message_count: number | null
           ai_reason_for_escalation: string | null
@@ -1212,6 +1408,8 @@ export type Database = {
           ai_resolution_summary: string | null
           ai_sentiment: string | null
           ai_why_flagged: string | null
+          assigned_at: string | null
+          assigned_by_rule_id: string | null
           assigned_to: string | null
           auto_handled_at: string | null
           auto_responded: boolean | null
@@ -1230,6 +1428,7 @@ export type Database = {
           decision_bucket: string | null
           email_classification: string | null
           embedding: string | null
+          embedding_attempted_at: string | null
           escalated_at: string | null
           evidence: Json | null
           external_conversation_id: string | null
@@ -1256,13 +1455,23 @@ export type Database = {
           priority: string | null
           requires_reply: boolean | null
           resolved_at: string | null
+          retention_processed_at: string | null
           review_outcome: string | null
           reviewed_at: string | null
           reviewed_by: string | null
           risk_level: string | null
+          search_vector: unknown
+          sla_calculated_at: string | null
           sla_due_at: string | null
+          sla_resolution_due_at: string | null
+          sla_response_due_at: string | null
           sla_status: string | null
           sla_target_minutes: number | null
+          sla_warning_at: string | null
+          snooze_until_reply: boolean
+          snoozed_at: string | null
+          snoozed_by: string | null
+          snoozed_from_bucket: string | null
           snoozed_until: string | null
           source_id: string | null
           status: string | null
@@ -1282,6 +1491,7 @@ export type Database = {
         }
         Insert: {
           ai_confidence?: number | null
+          ai_draft_citations?: Json
           ai_draft_response?: string | null
           ai_message_count?: number | null
           ai_reason_for_escalation?: string | null
@@ -1289,6 +1499,8 @@ export type Database = {
           ai_resolution_summary?: string | null
           ai_sentiment?: string | null
           ai_why_flagged?: string | null
+          assigned_at?: string | null
+          assigned_by_rule_id?: string | null
           assigned_to?: string | null
           auto_handled_at?: string | null
           auto_responded?: boolean | null
@@ -1307,6 +1519,7 @@ export type Database = {
           decision_bucket?: string | null
           email_classification?: string | null
           embedding?: string | null
+          embedding_attempted_at?: string | null
           escalated_at?: string | null
           evidence?: Json | null
           external_conversation_id?: string | null
@@ -1333,13 +1546,23 @@ export type Database = {
           priority?: string | null
           requires_reply?: boolean | null
           resolved_at?: string | null
+          retention_processed_at?: string | null
           review_outcome?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           risk_level?: string | null
+          search_vector?: unknown
+          sla_calculated_at?: string | null
           sla_due_at?: string | null
+          sla_resolution_due_at?: string | null
+          sla_response_due_at?: string | null
           sla_status?: string | null
           sla_target_minutes?: number | null
+          sla_warning_at?: string | null
+          snooze_until_reply?: boolean
+          snoozed_at?: string | null
+          snoozed_by?: string | null
+          snoozed_from_bucket?: string | null
           snoozed_until?: string | null
           source_id?: string | null
           status?: string | null
@@ -1359,6 +1582,7 @@ export type Database = {
         }
         Update: {
           ai_confidence?: number | null
+          ai_draft_citations?: Json
           ai_draft_response?: string | null
           ai_message_count?: number | null
           ai_reason_for_escalation?: string | null
@@ -1366,6 +1590,8 @@ export type Database = {
           ai_resolution_summary?: string | null
           ai_sentiment?: string | null
           ai_why_flagged?: string | null
+          assigned_at?: string | null
+          assigned_by_rule_id?: string | null
           assigned_to?: string | null
           auto_handled_at?: string | null
           auto_responded?: boolean | null
@@ -1384,6 +1610,7 @@ export type Database = {
           decision_bucket?: string | null
           email_classification?: string | null
           embedding?: string | null
+          embedding_attempted_at?: string | null
           escalated_at?: string | null
           evidence?: Json | null
           external_conversation_id?: string | null
@@ -1410,13 +1637,23 @@ export type Database = {
           priority?: string | null
           requires_reply?: boolean | null
           resolved_at?: string | null
+          retention_processed_at?: string | null
           review_outcome?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           risk_level?: string | null
+          search_vector?: unknown
+          sla_calculated_at?: string | null
           sla_due_at?: string | null
+          sla_resolution_due_at?: string | null
+          sla_response_due_at?: string | null
           sla_status?: string | null
           sla_target_minutes?: number | null
+          sla_warning_at?: string | null
+          snooze_until_reply?: boolean
+          snoozed_at?: string | null
+          snoozed_by?: string | null
+          snoozed_from_bucket?: string | null
           snoozed_until?: string | null
           source_id?: string | null
           status?: string | null
@@ -1435,6 +1672,13 @@ export type Database = {
           workspace_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "conversations_assigned_by_rule_id_fkey"
+            columns: ["assigned_by_rule_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_rules"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversations_assigned_to_fkey"
             columns: ["assigned_to"]
@@ -1456,6 +1700,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversations_snoozed_by_fkey"
+            columns: ["snoozed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversations_workspace_id_fkey"
             columns: ["workspace_id"]
@@ -1668,6 +1919,84 @@ export type Database = {
           },
         ]
       }
+      customer_merges: {
+        Row: {
+          created_at: string
+          id: string
+          loser_id: string
+          match_reason: string | null
+          merged_by: string | null
+          moved: Json
+          unmerged_at: string | null
+          unmerged_by: string | null
+          winner_before: Json
+          winner_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          loser_id: string
+          match_reason?: string | null
+          merged_by?: string | null
+          moved?: Json
+          unmerged_at?: string | null
+          unmerged_by?: string | null
+          winner_before?: Json
+          winner_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          loser_id?: string
+          match_reason?: string | null
+          merged_by?: string | null
+          moved?: Json
+          unmerged_at?: string | null
+          unmerged_by?: string | null
+          winner_before?: Json
+          winner_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_merges_loser_id_fkey"
+            columns: ["loser_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_merged_by_fkey"
+            columns: ["merged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_unmerged_by_fkey"
+            columns: ["unmerged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_winner_id_fkey"
+            columns: ["winner_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string | null
@@ -1683,6 +2012,8 @@ export type Database = {
           last_analyzed_at: string | null
           last_updated: string | null
           lifetime_value: number | null
+          merged_at: string | null
+          merged_into_id: string | null
           name: string | null
           next_appointment: string | null
           notes: string | null
@@ -1714,6 +2045,8 @@ export type Database = {
           last_analyzed_at?: string | null
           last_updated?: string | null
           lifetime_value?: number | null
+          merged_at?: string | null
+          merged_into_id?: string | null
           name?: string | null
           next_appointment?: string | null
           notes?: string | null
@@ -1745,6 +2078,8 @@ export type Database = {
           last_analyzed_at?: string | null
           last_updated?: string | null
           lifetime_value?: number | null
+          merged_at?: string | null
+          merged_into_id?: string | null
           name?: string | null
           next_appointment?: string | null
           notes?: string | null
@@ -1763,6 +2098,13 @@ export type Database = {
           workspace_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "customers_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "customers_workspace_id_fkey"
             columns: ["workspace_id"]
@@ -1845,10 +2187,15 @@ export type Database = {
       }
       data_deletion_requests: {
         Row: {
+          certificate: Json | null
+          certificate_signature: string | null
           completed_at: string | null
           customer_id: string | null
           deletion_type: string | null
+          erase_remote: boolean
+          executed_by: string | null
           id: string
+          last_report: Json | null
           notes: string | null
           reason: string | null
           requested_at: string | null
@@ -1857,10 +2204,15 @@ export type Database = {
           status: string | null
         }
         Insert: {
+          certificate?: Json | null
+          certificate_signature?: string | null
           completed_at?: string | null
           customer_id?: string | null
           deletion_type?: string | null
+          erase_remote?: boolean
+          executed_by?: string | null
           id?: string
+          last_report?: Json | null
           notes?: string | null
           reason?: string | null
           requested_at?: string | null
@@ -1869,10 +2221,15 @@ export type Database = {
           status?: string | null
         }
         Update: {
+          certificate?: Json | null
+          certificate_signature?: string | null
           completed_at?: string | null
           customer_id?: string | null
           deletion_type?: string | null
+          erase_remote?: boolean
+          executed_by?: string | null
           id?: string
+          last_report?: Json | null
           notes?: string | null
           reason?: string | null
           requested_at?: string | null
@@ -1888,6 +2245,13 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "data_deletion_requests_executed_by_fkey"
+            columns: ["executed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "data_deletion_requests_requested_by_fkey"
             columns: ["requested_by"]
@@ -1904,6 +2268,9 @@ export type Database = {
           created_at: string | null
           exclude_vip_customers: boolean | null
           id: string
+          last_dry_run_report: Json | null
+          last_run_at: string | null
+          last_run_report: Json | null
           retention_days: number
           updated_at: string | null
           workspace_id: string
@@ -1914,6 +2281,9 @@ export type Database = {
           created_at?: string | null
           exclude_vip_customers?: boolean | null
           id?: string
+          last_dry_run_report?: Json | null
+          last_run_at?: string | null
+          last_run_report?: Json | null
           retention_days?: number
           updated_at?: string | null
           workspace_id: string
@@ -1924,6 +2294,9 @@ export type Database = {
           created_at?: string | null
           exclude_vip_customers?: boolean | null
           id?: string
+          last_dry_run_report?: Json | null
+          last_run_at?: string | null
+          last_run_report?: Json | null
           retention_days?: number
           updated_at?: string | null
           workspace_id?: string
@@ -1938,6 +2311,72 @@ export type Database = {
           },
         ]
       }
+      digest_deliveries: {
+        Row: {
+          channel: string
+          created_at: string
+          error: string | null
+          external_id: string | null
+          id: string
+          notification_id: string | null
+          period_end: string | null
+          period_start: string | null
+          provider: string | null
+          recipient: string | null
+          sent_at: string | null
+          slot_key: string
+          status: string
+          workspace_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          error?: string | null
+          external_id?: string | null
+          id?: string
+          notification_id?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          provider?: string | null
+          recipient?: string | null
+          sent_at?: string | null
+          slot_key: string
+          status?: string
+          workspace_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          error?: string | null
+          external_id?: string | null
+          id?: string
+          notification_id?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          provider?: string | null
+          recipient?: string | null
+          sent_at?: string | null
+          slot_key?: string
+          status?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "digest_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "digest_deliveries_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       directory_blocklist: {
         Row: {
           created_at: string | null
@@ -2067,6 +2506,7 @@ export type Database = {
         Row: {
           conversation_id: string | null
           created_at: string | null
+          diff: Json | null
           edit_distance: number | null
           edit_type: string | null
           edited_draft: string
@@ -2077,6 +2517,7 @@ export type Database = {
         Insert: {
           conversation_id?: string | null
           created_at?: string | null
+          diff?: Json | null
           edit_distance?: number | null
           edit_type?: string | null
           edited_draft: string
@@ -2087,6 +2528,7 @@ export type Database = {
         Update: {
           conversation_id?: string | null
           created_at?: string | null
+          diff?: Json | null
           edit_distance?: number | null
           edit_type?: string | null
           edited_draft?: string
@@ -2182,6 +2624,76 @@ export type Database = {
           },
         ]
       }
+      dsar_exports: {
+        Row: {
+          created_at: string
+          customer_id: string | null
+          download_count: number
+          expires_at: string
+          file_count: number
+          id: string
+          last_downloaded_at: string | null
+          requested_by: string | null
+          size_bytes: number
+          source: string
+          storage_path: string | null
+          token_hash: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id?: string | null
+          download_count?: number
+          expires_at: string
+          file_count?: number
+          id?: string
+          last_downloaded_at?: string | null
+          requested_by?: string | null
+          size_bytes?: number
+          source?: string
+          storage_path?: string | null
+          token_hash: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string | null
+          download_count?: number
+          expires_at?: string
+          file_count?: number
+          id?: string
+          last_downloaded_at?: string | null
+          requested_by?: string | null
+          size_bytes?: number
+          source?: string
+          storage_path?: string | null
+          token_hash?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dsar_exports_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dsar_exports_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dsar_exports_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_fetch_retries: {
         Row: {
           attempt_count: number | null
@@ -2757,6 +3269,11 @@ export type Database = {
           automation_level: string | null
           connected_at: string | null
           created_at: string | null
+          delta_deleted_token: string | null
+          delta_sync_enqueued_at: string | null
+          delta_sync_error: string | null
+          delta_synced_at: string | null
+          delta_updated_token: string | null
           email_address: string
           encryption_key_id: string | null
           id: string
@@ -2792,6 +3309,11 @@ export type Database = {
           automation_level?: string | null
           connected_at?: string | null
           created_at?: string | null
+          delta_deleted_token?: string | null
+          delta_sync_enqueued_at?: string | null
+          delta_sync_error?: string | null
+          delta_synced_at?: string | null
+          delta_updated_token?: string | null
           email_address: string
           encryption_key_id?: string | null
           id?: string
@@ -2827,6 +3349,11 @@ export type Database = {
           automation_level?: string | null
           connected_at?: string | null
           created_at?: string | null
+          delta_deleted_token?: string | null
+          delta_sync_enqueued_at?: string | null
+          delta_sync_error?: string | null
+          delta_synced_at?: string | null
+          delta_updated_token?: string | null
           email_address?: string
           encryption_key_id?: string | null
           id?: string
@@ -4041,6 +4568,64 @@ export type Database = {
           },
         ]
       }
+      legal_holds: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          created_by: string | null
+          customer_id: string | null
+          id: string
+          reason: string
+          released_at: string | null
+          released_by: string | null
+          workspace_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          reason: string
+          released_at?: string | null
+          released_by?: string | null
+          workspace_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          reason?: string
+          released_at?: string | null
+          released_by?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "legal_holds_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "legal_holds_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "legal_holds_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       make_progress: {
         Row: {
           completed_at: string | null
@@ -4088,6 +4673,113 @@ export type Database = {
           },
         ]
       }
+      message_attachments: {
+        Row: {
+          analysis: Json | null
+          config_id: string | null
+          content_type: string | null
+          conversation_id: string | null
+          created_at: string
+          event_id: string | null
+          external_attachment_id: string
+          external_message_id: string
+          extracted_text: string | null
+          filename: string
+          id: string
+          is_inline: boolean
+          kind: string
+          last_error: string | null
+          message_id: string
+          processed_at: string | null
+          search_vector: unknown
+          size_bytes: number | null
+          skip_reason: string | null
+          status: string
+          storage_path: string | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          analysis?: Json | null
+          config_id?: string | null
+          content_type?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          event_id?: string | null
+          external_attachment_id: string
+          external_message_id: string
+          extracted_text?: string | null
+          filename: string
+          id?: string
+          is_inline?: boolean
+          kind?: string
+          last_error?: string | null
+          message_id: string
+          processed_at?: string | null
+          search_vector?: unknown
+          size_bytes?: number | null
+          skip_reason?: string | null
+          status?: string
+          storage_path?: string | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          analysis?: Json | null
+          config_id?: string | null
+          content_type?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          event_id?: string | null
+          external_attachment_id?: string
+          external_message_id?: string
+          extracted_text?: string | null
+          filename?: string
+          id?: string
+          is_inline?: boolean
+          kind?: string
+          last_error?: string | null
+          message_id?: string
+          processed_at?: string | null
+          search_vector?: unknown
+          size_bytes?: number | null
+          skip_reason?: string | null
+          status?: string
+          storage_path?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "message_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_events: {
         Row: {
           body: string | null
@@ -4278,6 +4970,7 @@ export type Database = {
           is_internal: boolean | null
           is_voicemail: boolean | null
           raw_payload: Json | null
+          search_vector: unknown
           verification_id: string | null
           verification_status: string | null
         }
@@ -4301,6 +4994,7 @@ export type Database = {
           is_internal?: boolean | null
           is_voicemail?: boolean | null
           raw_payload?: Json | null
+          search_vector?: unknown
           verification_id?: string | null
           verification_status?: string | null
         }
@@ -4324,6 +5018,7 @@ export type Database = {
           is_internal?: boolean | null
           is_voicemail?: boolean | null
           raw_payload?: Json | null
+          search_vector?: unknown
           verification_id?: string | null
           verification_status?: string | null
         }
@@ -5156,6 +5851,65 @@ export type Database = {
           },
         ]
       }
+      routing_policies: {
+        Row: {
+          after_hours_bucket: string | null
+          bucket_statuses: Json
+          category_buckets: Json
+          category_thresholds: Json
+          created_at: string
+          default_confidence_threshold: number
+          id: string
+          noise_categories: string[]
+          updated_at: string
+          updated_by: string | null
+          vip_bucket: string
+          vip_escalation: boolean
+          vip_senders: string[]
+          workspace_id: string
+        }
+        Insert: {
+          after_hours_bucket?: string | null
+          bucket_statuses?: Json
+          category_buckets?: Json
+          category_thresholds?: Json
+          created_at?: string
+          default_confidence_threshold?: number
+          id?: string
+          noise_categories?: string[]
+          updated_at?: string
+          updated_by?: string | null
+          vip_bucket?: string
+          vip_escalation?: boolean
+          vip_senders?: string[]
+          workspace_id: string
+        }
+        Update: {
+          after_hours_bucket?: string | null
+          bucket_statuses?: Json
+          category_buckets?: Json
+          category_thresholds?: Json
+          created_at?: string
+          default_confidence_threshold?: number
+          id?: string
+          noise_categories?: string[]
+          updated_at?: string
+          updated_by?: string | null
+          vip_bucket?: string
+          vip_escalation?: boolean
+          vip_senders?: string[]
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_policies_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scraped_pages: {
         Row: {
           content_length: number | null
@@ -5405,18 +6159,22 @@ export type Database = {
       sender_rules: {
         Row: {
           automation_level: string | null
+          conditions: Json | null
           confidence_adjustment: number | null
           created_at: string | null
           created_from_correction: string | null
+          decision_bucket: string | null
           default_classification: string
           default_lane: string | null
           default_requires_reply: boolean | null
           hit_count: number | null
           id: string
           is_active: boolean | null
+          last_hit_at: string | null
           override_classification: string | null
           override_keywords: string[] | null
           override_requires_reply: boolean | null
+          priority: number
           sender_pattern: string
           skip_llm: boolean | null
           tone_preference: string | null
@@ -5425,18 +6183,22 @@ export type Database = {
         }
         Insert: {
           automation_level?: string | null
+          conditions?: Json | null
           confidence_adjustment?: number | null
           created_at?: string | null
           created_from_correction?: string | null
+          decision_bucket?: string | null
           default_classification: string
           default_lane?: string | null
           default_requires_reply?: boolean | null
           hit_count?: number | null
           id?: string
           is_active?: boolean | null
+          last_hit_at?: string | null
           override_classification?: string | null
           override_keywords?: string[] | null
           override_requires_reply?: boolean | null
+          priority?: number
           sender_pattern: string
           skip_llm?: boolean | null
           tone_preference?: string | null
@@ -5445,18 +6207,22 @@ export type Database = {
         }
         Update: {
           automation_level?: string | null
+          conditions?: Json | null
           confidence_adjustment?: number | null
           created_at?: string | null
           created_from_correction?: string | null
+          decision_bucket?: string | null
           default_classification?: string
           default_lane?: string | null
           default_requires_reply?: boolean | null
           hit_count?: number | null
           id?: string
           is_active?: boolean | null
+          last_hit_at?: string | null
           override_classification?: string | null
           override_keywords?: string[] | null
           override_requires_reply?: boolean | null
+          priority?: number
           sender_pattern?: string
           skip_llm?: boolean | null
           tone_preference?: string | null
@@ -5486,6 +6252,7 @@ export type Database = {
           id: string
           pause_outside_hours: boolean | null
           priority: string
+          resolution_minutes: number | null
           workspace_id: string | null
         }
         Insert: {
@@ -5493,6 +6260,7 @@ export type Database = {
           id?: string
           pause_outside_hours?: boolean | null
           priority: string
+          resolution_minutes?: number | null
           workspace_id?: string | null
         }
         Update: {
@@ -5500,6 +6268,7 @@ export type Database = {
           id?: string
           pause_outside_hours?: boolean | null
           priority?: string
+          resolution_minutes?: number | null
           workspace_id?: string | null
         }
         Relationships: [
@@ -5512,6 +6281,65 @@ export type Database = {
           },
         ]
       }
+      style_rules: {
+        Row: {
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          example_edit_ids: string[]
+          id: string
+          instruction: string
+          kind: string
+          last_seen_at: string
+          pattern: Json
+          rule_key: string
+          status: string
+          support_count: number
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          example_edit_ids?: string[]
+          id?: string
+          instruction: string
+          kind: string
+          last_seen_at?: string
+          pattern?: Json
+          rule_key: string
+          status?: string
+          support_count?: number
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          example_edit_ids?: string[]
+          id?: string
+          instruction?: string
+          kind?: string
+          last_seen_at?: string
+          pattern?: Json
+          rule_key?: string
+          status?: string
+          support_count?: number
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "style_rules_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sync_logs: {
         Row: {
           completed_at: string | null
@@ -5658,29 +6486,50 @@ export type Database = {
       }
       templates: {
         Row: {
+          archived_at: string | null
           body: string
           category: string | null
+          channel_variants: Json
           created_at: string | null
+          created_by: string | null
+          folder: string | null
           id: string
+          last_used_at: string | null
           name: string
+          subject: string | null
+          updated_at: string
           usage_count: number | null
           workspace_id: string | null
         }
         Insert: {
+          archived_at?: string | null
           body: string
           category?: string | null
+          channel_variants?: Json
           created_at?: string | null
+          created_by?: string | null
+          folder?: string | null
           id?: string
+          last_used_at?: string | null
           name: string
+          subject?: string | null
+          updated_at?: string
           usage_count?: number | null
           workspace_id?: string | null
         }
         Update: {
+          archived_at?: string | null
           body?: string
           category?: string | null
+          channel_variants?: Json
           created_at?: string | null
+          created_by?: string | null
+          folder?: string | null
           id?: string
+          last_used_at?: string | null
           name?: string
+          subject?: string | null
+          updated_at?: string
           usage_count?: number | null
           workspace_id?: string | null
         }
@@ -6396,6 +7245,7 @@ export type Database = {
           dpa_accepted_by: string | null
           dpa_version: string | null
           id: string
+          marketing_consent_mode: string
           privacy_policy_url: string | null
           sub_processors: Json | null
           updated_at: string | null
@@ -6411,6 +7261,7 @@ export type Database = {
           dpa_accepted_by?: string | null
           dpa_version?: string | null
           id?: string
+          marketing_consent_mode?: string
           privacy_policy_url?: string | null
           sub_processors?: Json | null
           updated_at?: string | null
@@ -6426,6 +7277,7 @@ export type Database = {
           dpa_accepted_by?: string | null
           dpa_version?: string | null
           id?: string
+          marketing_consent_mode?: string
           privacy_policy_url?: string | null
           sub_processors?: Json | null
           updated_at?: string | null
@@ -6450,6 +7302,7 @@ export type Database = {
       }
       workspaces: {
         Row: {
+          bank_holiday_region: string
           business_days: number[] | null
           business_hours_end: string | null
           business_hours_start: string | null
@@ -6467,6 +7320,7 @@ export type Database = {
           website_url: string | null
         }
         Insert: {
+          bank_holiday_region?: string
           business_days?: number[] | null
           business_hours_end?: string | null
           business_hours_start?: string | null
@@ -6484,6 +7338,7 @@ export type Database = {
           website_url?: string | null
         }
         Update: {
+          bank_holiday_region?: string
           business_days?: number[] | null
           business_hours_end?: string | null
           business_hours_start?: string | null
@@ -6742,7 +7597,44 @@ export type Database = {
           threads_analyzed: number
         }[]
       }
+      bb_analytics_compare: {
+        Args: { p_end: string; p_start: string; p_workspace_id: string }
+        Returns: Json
+      }
+      bb_analytics_summary: {
+        Args: { p_end: string; p_start: string; p_workspace_id: string }
+        Returns: Json
+      }
       bb_cleanup_old_queue_jobs: { Args: never; Returns: Json }
+      bb_customer_merge_candidates: {
+        Args: { p_limit?: number; p_workspace_id: string }
+        Returns: {
+          customer_a: string
+          customer_b: string
+          reasons: string[]
+          score: number
+        }[]
+      }
+      bb_deadletter_peek: {
+        Args: { p_limit?: number; p_workspace_id: string }
+        Returns: {
+          enqueued_at: string
+          message: Json
+          msg_id: number
+        }[]
+      }
+      bb_enqueue_delta_syncs: {
+        Args: { p_limit?: number; p_min_interval_minutes?: number }
+        Returns: number
+      }
+      bb_enqueue_sla_recalc: {
+        Args: {
+          p_conversation_id: string
+          p_reason: string
+          p_workspace_id: string
+        }
+        Returns: undefined
+      }
       bb_ingest_unified_messages: {
         Args: {
           p_channel: string
@@ -6774,6 +7666,8 @@ export type Database = {
       bb_merge_customers: {
         Args: {
           p_loser_id: string
+          p_merged_by?: string
+          p_reason?: string
           p_winner_id: string
           p_workspace_id: string
         }
@@ -6783,6 +7677,10 @@ export type Database = {
         Args: { p_type: string; p_value: string }
         Returns: string
       }
+      bb_pick_assignee: {
+        Args: { p_exclude_user_id?: string; p_rule_id: string }
+        Returns: string
+      }
       bb_purge_archived_queues: { Args: never; Returns: undefined }
       bb_queue_archive: {
         Args: { msg_id: number; queue_name: string }
@@ -6814,6 +7712,18 @@ export type Database = {
         Args: { p_queue_name: string }
         Returns: number
       }
+      bb_reassign_from_user: { Args: { p_user_id: string }; Returns: number }
+      bb_reconcile_provider_deletions: {
+        Args: {
+          p_config_id: string
+          p_external_ids: string[]
+          p_workspace_id: string
+        }
+        Returns: {
+          conversations_resolved: number
+          events_marked: number
+        }[]
+      }
       bb_record_incident: {
         Args: {
           p_context?: Json
@@ -6825,7 +7735,55 @@ export type Database = {
         }
         Returns: string
       }
+      bb_record_sender_rule_hit: {
+        Args: { p_rule_id: string }
+        Returns: undefined
+      }
+      bb_refresh_analytics_rollups: {
+        Args: { p_days?: number; p_workspace_id?: string }
+        Returns: number
+      }
+      bb_refresh_sla_statuses: { Args: never; Returns: number }
       bb_schedule_pipeline_crons: { Args: never; Returns: undefined }
+      bb_search_conversations: {
+        Args: {
+          p_after?: string
+          p_before?: string
+          p_categories?: string[]
+          p_channels?: string[]
+          p_from?: string
+          p_limit?: number
+          p_offset?: number
+          p_priorities?: string[]
+          p_query?: string
+          p_statuses?: string[]
+          p_workspace_id: string
+        }
+        Returns: {
+          conversation_id: string
+          matched_in: string
+          rank: number
+          snippet: string
+          total_count: number
+        }[]
+      }
+      bb_similar_conversations: {
+        Args: {
+          p_embedding: string
+          p_exclude_id?: string
+          p_match_count?: number
+          p_workspace_id: string
+        }
+        Returns: {
+          category: string
+          conversation_id: string
+          customer_name: string
+          similarity: number
+          status: string
+          title: string
+          updated_at: string
+        }[]
+      }
       bb_touch_pipeline_run: {
         Args: {
           p_last_error?: string
@@ -6841,11 +7799,20 @@ export type Database = {
         Returns: number
       }
       bb_try_timestamptz: { Args: { p_value: string }; Returns: string }
+      bb_unmerge_customers: {
+        Args: { p_merge_id: string; p_unmerged_by?: string }
+        Returns: Json
+      }
       bb_unschedule_pipeline_crons: { Args: never; Returns: number }
       bb_user_in_workspace: {
         Args: { p_workspace_id: string }
         Returns: boolean
       }
+      bb_wake_conversation: {
+        Args: { p_conversation_id: string; p_reason: string }
+        Returns: boolean
+      }
+      bb_wake_due_snoozes: { Args: { p_limit?: number }; Returns: number }
       bb_wake_worker: {
         Args: { p_url_secret_name: string }
         Returns: undefined
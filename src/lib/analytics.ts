@@ -0,0 +1,149 @@
+// Analytics are read from analytics_daily_rollups, which pg_cron refreshes
+// hourly (bb_refresh_analytics_rollups). Dates are workspace-local days in
+// yyyy-MM-dd form; bb_analytics_compare also returns the preceding period
+// of the same length.
+import { format, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type DailyRollup = Tables<'analytics_daily_rollups'>;
+
+export interface DurationStats {
+  count: number;
+  avg_seconds: number | null;
+  p50_seconds: number | null;
+  p90_seconds: number | null;
+}
+
+export interface BreakdownItem {
+  value: string;
+  conversations: number;
+}
+
+export interface AnalyticsSummary {
+  start: string;
+  end: string;
+  computed_at: string | null;
+  conversations: number;
+  ai_handled: number;
+  human_handled: number;
+  // Neither AI handled nor escalated; with ai_handled and escalated it adds up to conversations
+  human_only: number;
+  escalated: number;
+  resolved: number;
+  first_response: DurationStats;
+  resolution: DurationStats;
+  drafts: { generated: number; sent: number; edited: number; acceptance_rate: number | null };
+  sla_breaches: number;
+  csat: { count: number; avg: number | null };
+  by_channel: BreakdownItem[];
+  by_category: BreakdownItem[];
+  by_bucket: BreakdownItem[];
+}
+
+export interface AnalyticsComparison {
+  current: AnalyticsSummary;
+  previous: AnalyticsSummary;
+}
+
+export async function fetchAnalyticsComparison(workspaceId: string, start: string, end: string) {
+  const { data, error } = await supabase.rpc('bb_analytics_compare', {
+    p_workspace_id: workspaceId,
+    p_start: start,
+    p_end: end,
+  });
+  if (error) throw error;
+  return data as unknown as AnalyticsComparison;
+}
+
+export async function fetchDailyRollups(
+  workspaceId: string,
+  start: string,
+  end: string,
+  dimension?: DailyRollup['dimension'],
+) {
+  let query = supabase
+    .from('analytics_daily_rollups')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .gte('day', start)
+    .lte('day', end)
+    .order('day')
+    .order('dimension')
+    .order('dimension_value');
+  if (dimension) {
+    query = query.eq('dimension', dimension);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+/** Today's date (yyyy-MM-dd) in the workspace timezone, which is what rollup days use. */
+export function workspaceToday(timezone: string | null | undefined, now = new Date()): string {
+  try {
+    // en-CA formats dates as yyyy-MM-dd
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone || 'Europe/London' }).format(now);
+  } catch {
+    return format(now, 'yyyy-MM-dd');
+  }
+}
+
+/** The last `days` workspace-local days, oldest first, ending today. */
+export function workspaceDays(timezone: string | null | undefined, days: number): string[] {
+  const today = parseISO(workspaceToday(timezone));
+  return Array.from({ length: days }, (_, i) => format(subDays(today, days - 1 - i), 'yyyy-MM-dd'));
+}
+
+/** Relative change from previous to current, or null when there is no baseline. */
+export function percentChange(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+const CSV_COLUMNS: Array<keyof DailyRollup> = [
+  'day',
+  'dimension',
+  'dimension_value',
+  'conversations',
+  'ai_handled',
+  'human_handled',
+  'human_only',
+  'escalated',
+  'resolved',
+  'first_response_count',
+  'first_response_seconds_sum',
+  'resolution_count',
+  'resolution_seconds_sum',
+  'drafts_generated',
+  'drafts_sent',
+  'drafts_edited',
+  'sla_breaches',
+  'csat_count',
+  'csat_sum',
+];
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function rollupsToCsv(rows: DailyRollup[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(','));
+  }
+  return lines.join('\n');
+}
+
+export async function exportRollupsCsv(workspaceId: string, start: string, end: string) {
+  const rows = await fetchDailyRollups(workspaceId, start, end);
+  const blob = new Blob([rollupsToCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `analytics-${start}-to-${end}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return rows.length;
+}
@@ -0,0 +1,144 @@
+// Structured diff between an AI draft and the reply that was actually sent.
+// Stored on draft_edits.diff and mined into style_rules by draft-style-miner.
+
+export interface DraftDiffHunk {
+  removed: string;
+  added: string;
+}
+
+export interface DraftDiff {
+  version: 1;
+  hunks: DraftDiffHunk[];
+  greeting: { before: string | null; after: string | null };
+  signoff: { before: string | null; after: string | null };
+  links_added: string[];
+  links_removed: string[];
+  prices: Array<{ before: string; after: string }>;
+  words_before: number;
+  words_after: number;
+  words_changed: number;
+}
+
+// Beyond this the word-level LCS gets slow; compare line by line instead
+const MAX_DIFF_TOKENS = 1500;
+
+const GREETING_RE = /^(hi|hello|hey|dear|good (morning|afternoon|evening)|morning|afternoon)\b/i;
+const SIGNOFF_RE = /^(kind|best|warm|many)?\s*(regards|wishes|thanks|thank you|cheers|sincerely|speak soon|all the best|take care)\b/i;
+const URL_RE = /https?:\/\/[^\s<>"')]+/gi;
+const PRICE_RE = /£\s?\d[\d,]*(\.\d{1,2})?/g;
+
+function lines(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+function findGreeting(text: string): string | null {
+  const first = lines(text)[0];
+  return first && first.split(/\s+/).length <= 8 && GREETING_RE.test(first) ? first : null;
+}
+
+function findSignoff(text: string): string | null {
+  // The closer sits in the last few lines, usually above the sender's name
+  const tail = lines(text).slice(-4).reverse();
+  return tail.find((line) => line.split(/\s+/).length <= 6 && SIGNOFF_RE.test(line)) || null;
+}
+
+function urls(text: string): string[] {
+  return Array.from(new Set((text.match(URL_RE) || []).map((url) => url.replace(/[.,;:]+$/, ''))));
+}
+
+function prices(text: string): string[] {
+  return (text.match(PRICE_RE) || []).map((price) => price.replace(/\s/g, ''));
+}
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return byLine ? text.split(/\r?\n/) : text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Longest-common-subsequence diff, collapsed into hunks of consecutive
+ * removed/added tokens.
+ */
+function diffHunks(before: string, after: string): DraftDiffHunk[] {
+  const wordCount = before.split(/\s+/).length + after.split(/\s+/).length;
+  const byLine = wordCount > MAX_DIFF_TOKENS * 2;
+  const a = tokenize(before, byLine);
+  const b = tokenize(after, byLine);
+  const joiner = byLine ? '\n' : ' ';
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const hunks: DraftDiffHunk[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    if (removed.length || added.length) {
+      hunks.push({ removed: removed.join(joiner), added: added.join(joiner) });
+      removed = [];
+      added = [];
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+export function computeDraftDiff(original: string, edited: string): DraftDiff {
+  const before = original.trim();
+  const after = edited.trim();
+  const hunks = diffHunks(before, after);
+  const linksBefore = urls(before);
+  const linksAfter = urls(after);
+
+  // Pair prices inside the same hunk: "£45" → "£55" is a correction, not an addition
+  const pricePairs: Array<{ before: string; after: string }> = [];
+  for (const hunk of hunks) {
+    const removedPrices = prices(hunk.removed);
+    const addedPrices = prices(hunk.added);
+    for (let k = 0; k < Math.min(removedPrices.length, addedPrices.length); k++) {
+      if (removedPrices[k] !== addedPrices[k]) {
+        pricePairs.push({ before: removedPrices[k], after: addedPrices[k] });
+      }
+    }
+  }
+
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return {
+    version: 1,
+    hunks,
+    greeting: { before: findGreeting(before), after: findGreeting(after) },
+    signoff: { before: findSignoff(before), after: findSignoff(after) },
+    links_added: linksAfter.filter((url) => !linksBefore.includes(url)),
+    links_removed: linksBefore.filter((url) => !linksAfter.includes(url)),
+    prices: pricePairs,
+    words_before: countWords(before),
+    words_after: countWords(after),
+    words_changed: hunks.reduce((sum, hunk) => sum + countWords(hunk.removed) + countWords(hunk.added), 0),
+  };
+}
+
+// Share of the draft that changed, 0–1; stored as draft_edits.edit_distance
+export function editRatio(diff: DraftDiff): number {
+  return Math.min(1, diff.words_changed / Math.max(1, diff.words_before + diff.words_after));
+}
@@ -0,0 +1,91 @@
+// Parses inbox search input into free text plus operators for
+// bb_search_conversations, e.g. `refund from:jane channel:email before:2026-01-31`.
+// Unknown operators stay in the free text so "re: invoice" still searches.
+
+export interface ParsedSearch {
+  text: string;
+  from: string | null;
+  channels: string[];
+  categories: string[];
+  before: string | null;
+  after: string | null;
+}
+
+export const SEARCH_OPERATORS = ['from', 'channel', 'category', 'before', 'after'] as const;
+
+const OPERATOR_RE = /\b(from|channel|category|before|after):(?:"([^"]*)"|(\S+))/gi;
+
+// YYYY-MM-DD, or a relative "7d" / "2w" meaning that long ago
+function parseDate(value: string, now: Date): string | null {
+  const relative = value.match(/^(\d+)([dw])$/i);
+  if (relative) {
+    const days = Number(relative[1]) * (relative[2].toLowerCase() === 'w' ? 7 : 1);
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function parseSearchQuery(input: string, now = new Date()): ParsedSearch {
+  const parsed: ParsedSearch = { text: '', from: null, channels: [], categories: [], before: null, after: null };
+
+  const text = input.replace(OPERATOR_RE, (match, key: string, quoted: string | undefined, bare: string | undefined) => {
+    const value = (quoted ?? bare ?? '').trim();
+    if (!value) return ' ';
+
+    switch (key.toLowerCase()) {
+      case 'from':
+        parsed.from = value;
+        return ' ';
+      case 'channel':
+        parsed.channels.push(...value.toLowerCase().split(','));
+        return ' ';
+      case 'category':
+        parsed.categories.push(...value.toLowerCase().split(','));
+        return ' ';
+      case 'before':
+      case 'after': {
+        const date = parseDate(value, now);
+        if (!date) return match;
+        parsed[key.toLowerCase() as 'before' | 'after'] = date;
+        return ' ';
+      }
+      default:
+        return match;
+    }
+  });
+
+  parsed.text = text.replace(/\s+/g, ' ').trim();
+  return parsed;
+}
+
+export function hasSearchCriteria(search: ParsedSearch): boolean {
+  return Boolean(
+    search.text || search.from || search.channels.length || search.categories.length || search.before || search.after,
+  );
+}
+
+// One row of bb_search_conversations
+export interface SearchHit {
+  conversation_id: string;
+  rank: number;
+  matched_in: 'conversation' | 'message' | 'attachment' | 'customer' | null;
+  snippet: string | null;
+  total_count: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+// bb_search_conversations wraps matched words in « »
+export function splitSnippet(snippet: string): SnippetPart[] {
+  return snippet
+    .split(/(«[^»]*»)/)
+    .filter(Boolean)
+    .map((part) => part.startsWith('«') && part.endsWith('»')
+      ? { text: part.slice(1, -1), highlight: true }
+      : { text: part, highlight: false });
+}
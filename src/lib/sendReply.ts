@@ -0,0 +1,78 @@
+// Replies go through the send-reply function, which sends on the conversation's
+// own channel (email, SMS or WhatsApp) and runs the consent gate
+// (supabase/functions/_shared/consent.ts) first: 403 means the customer opted
+// out and the send is refused, 409 is a warning the agent may acknowledge,
+// after which the same send is retried. send-reply also logs the outbound message.
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type SendPurpose = 'customer_service' | 'marketing';
+
+export interface ConsentCheck {
+  decision: 'allow' | 'warn' | 'block';
+  reason: string | null;
+  channel: string;
+  purpose: SendPurpose;
+}
+
+/** The agent chose not to send after a consent warning. */
+export class SendCancelledError extends Error {
+  constructor(message = 'Reply not sent') {
+    super(message);
+    this.name = 'SendCancelledError';
+  }
+}
+
+export interface ReplyRequest {
+  conversationId: string;
+  workspaceId: string;
+  content: string;
+}
+
+interface SendOptions {
+  purpose?: SendPurpose;
+  /** Asked on a consent warning; resolves true to send anyway. Defaults to window.confirm. */
+  confirmWarning?: (reason: string) => boolean | Promise<boolean>;
+}
+
+const defaultConfirm = (reason: string) => window.confirm(`${reason}\n\nSend anyway?`);
+
+async function errorBody(error: FunctionsHttpError): Promise<{ status: number; error?: string; consent?: ConsentCheck }> {
+  const response = error.context as Response;
+  try {
+    return { status: response.status, ...(await response.clone().json()) };
+  } catch {
+    return { status: response.status };
+  }
+}
+
+export async function sendReply(reply: ReplyRequest, options: SendOptions = {}) {
+  const payload = {
+    conversation_id: reply.conversationId,
+    workspace_id: reply.workspaceId,
+    content: reply.content,
+    purpose: options.purpose || 'customer_service',
+  };
+  const { data, error } = await supabase.functions.invoke('send-reply', { body: payload });
+  if (!error) return data;
+
+  if (!(error instanceof FunctionsHttpError)) throw error;
+
+  const details = await errorBody(error);
+  if (details.status === 409 && details.consent) {
+    const reason = details.consent.reason || 'The customer has withdrawn consent for this channel.';
+    const confirmed = await (options.confirmWarning || defaultConfirm)(reason);
+    if (!confirmed) throw new SendCancelledError();
+
+    const { data: retried, error: retryError } = await supabase.functions.invoke('send-reply', {
+      body: { ...payload, acknowledge_consent_warning: true },
+    });
+    if (retryError) {
+      const retryDetails = retryError instanceof FunctionsHttpError ? await errorBody(retryError) : null;
+      throw new Error(retryDetails?.error || retryError.message);
+    }
+    return retried;
+  }
+
+  throw new Error(details.error || error.message);
+}
@@ -0,0 +1,36 @@
+// Snoozing goes through the snooze-conversation function so business-hours
+// presets use the workspace calendar and the pre-snooze decision bucket is
+// kept for bb_wake_conversation, which wakes it on time or on a customer reply.
+import { supabase } from '@/integrations/supabase/client';
+
+export type SnoozeRequest =
+  | { until: Date; untilReply?: boolean }
+  | { preset: 'next_business_morning' }
+  | { untilReply: true };
+
+export interface SnoozeResult {
+  snoozed_until: string | null;
+  until_reply?: boolean;
+}
+
+async function invokeSnooze(body: Record<string, unknown>): Promise<SnoozeResult> {
+  const { data, error } = await supabase.functions.invoke('snooze-conversation', { body });
+  if (error || !data?.ok) {
+    throw new Error(data?.error || error?.message || 'Could not snooze conversation');
+  }
+  return data as SnoozeResult;
+}
+
+export function snoozeConversation(workspaceId: string, conversationId: string, request: SnoozeRequest) {
+  return invokeSnooze({
+    workspace_id: workspaceId,
+    conversation_id: conversationId,
+    until: 'until' in request ? request.until.toISOString() : undefined,
+    preset: 'preset' in request ? request.preset : undefined,
+    until_reply: 'untilReply' in request ? request.untilReply : undefined,
+  });
+}
+
+export function unsnoozeConversation(workspaceId: string, conversationId: string) {
+  return invokeSnooze({ workspace_id: workspaceId, conversation_id: conversationId, unsnooze: true });
+}
@@ -0,0 +1,72 @@
+// Merge fields available in reply templates. Rendering happens server-side in
+// render-template (supabase/functions/_shared/templates.ts); this list drives
+// the editor's field picker and its unknown-field warnings.
+
+export const TEMPLATE_FIELDS: Array<{ key: string; label: string; example: string }> = [
+  { key: 'customer.name', label: 'Customer name', example: 'Jane Smith' },
+  { key: 'customer.first_name', label: 'Customer first name', example: 'Jane' },
+  { key: 'customer.last_name', label: 'Customer last name', example: 'Smith' },
+  { key: 'customer.email', label: 'Customer email', example: 'jane@example.com' },
+  { key: 'customer.phone', label: 'Customer phone', example: '07700 900123' },
+  { key: 'business.name', label: 'Business name', example: 'Acme Cleaning' },
+  { key: 'business.phone', label: 'Business phone', example: '020 7946 0000' },
+  { key: 'business.email', label: 'Business email', example: 'hello@acme.co.uk' },
+  { key: 'business.website', label: 'Business website', example: 'acme.co.uk' },
+  { key: 'business.address', label: 'Business address', example: '1 High Street, London' },
+  { key: 'conversation.reference', label: 'Conversation reference', example: 'BB-1A2B3C4D' },
+  { key: 'conversation.subject', label: 'Conversation subject', example: 'Quote request' },
+  { key: 'conversation.channel', label: 'Channel', example: 'email' },
+  { key: 'agent.name', label: 'Your name', example: 'Sam Taylor' },
+  { key: 'agent.first_name', label: 'Your first name', example: 'Sam' },
+  { key: 'today', label: "Today's date", example: '2 March 2026' },
+];
+
+// Placeholders used by the original seeded templates, e.g. {{customer_name}}
+export const TEMPLATE_FIELD_ALIASES: Record<string, string> = {
+  customer_name: 'customer.name',
+  date: 'today',
+};
+
+export const TEMPLATE_CHANNELS = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'web_chat', label: 'Web chat' },
+] as const;
+
+export interface ReplyTemplate {
+  id: string;
+  workspace_id: string | null;
+  name: string;
+  folder: string | null;
+  category: string | null;
+  subject: string | null;
+  body: string;
+  channel_variants: Record<string, string>;
+  usage_count: number | null;
+  last_used_at: string | null;
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([a-z_.]+)(?:\s*\|[^}]*)?\s*\}\}/gi;
+const FIELD_KEYS = new Set(TEMPLATE_FIELDS.map((field) => field.key));
+
+const fieldKey = (key: string) => TEMPLATE_FIELD_ALIASES[key.toLowerCase()] ?? key.toLowerCase();
+
+export function unknownTemplateFields(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_RE)) {
+    const key = fieldKey(match[1]);
+    if (!FIELD_KEYS.has(key)) unknown.add(key);
+  }
+  return [...unknown];
+}
+
+// Editor preview with example values; the real values come from render-template
+export function previewTemplate(text: string): string {
+  const examples = new Map(TEMPLATE_FIELDS.map((field) => [field.key, field.example]));
+  return text.replace(PLACEHOLDER_RE, (match, key: string) => examples.get(fieldKey(key)) ?? match);
+}
+
+export function fieldLabel(key: string): string {
+  return TEMPLATE_FIELDS.find((field) => field.key === key)?.label ?? key;
+}
@@ -0,0 +1,129 @@
+// Client side of the triage rules engine (supabase/functions/_shared/triage-rules.ts).
+// sender_rules.conditions holds the condition tree; the panel edits a single
+// all/any group and keeps sender_pattern as a readable summary of it.
+import { supabase } from '@/integrations/supabase/client';
+
+export type RuleField = 'sender' | 'domain' | 'subject' | 'body' | 'header';
+export type RuleOperator = 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'matches' | 'exists';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value?: string;
+  header?: string;
+  negate?: boolean;
+}
+
+export interface RuleGroup {
+  match: 'all' | 'any';
+  conditions: Array<RuleCondition | RuleGroup>;
+}
+
+export const RULE_FIELDS: Array<{ value: RuleField; label: string }> = [
+  { value: 'sender', label: 'Sender' },
+  { value: 'domain', label: 'Domain' },
+  { value: 'subject', label: 'Subject' },
+  { value: 'body', label: 'Body' },
+  { value: 'header', label: 'Header' },
+];
+
+// Only these headers are kept on messages (RULE_HEADER_NAMES on the server)
+export const RULE_HEADERS: Array<{ value: string; label: string }> = [
+  { value: 'list-unsubscribe', label: 'List-Unsubscribe' },
+  { value: 'list-id', label: 'List-Id' },
+  { value: 'auto-submitted', label: 'Auto-Submitted' },
+  { value: 'precedence', label: 'Precedence' },
+  { value: 'x-auto-response-suppress', label: 'X-Auto-Response-Suppress' },
+];
+
+export const RULE_OPERATORS: Array<{ value: RuleOperator; label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'starts_with', label: 'starts with' },
+  { value: 'ends_with', label: 'ends with' },
+  { value: 'matches', label: 'matches regex' },
+  { value: 'exists', label: 'is present' },
+];
+
+export const DEFAULT_RULE_PRIORITY = 100;
+
+export function isRuleGroup(value: unknown): value is RuleGroup {
+  return Boolean(value) && Array.isArray((value as RuleGroup).conditions);
+}
+
+function describeNode(node: RuleCondition | RuleGroup): string {
+  if (isRuleGroup(node)) {
+    const inner = node.conditions.map(describeNode).join(node.match === 'any' ? ' OR ' : ' AND ');
+    return node.conditions.length > 1 ? `(${inner})` : inner;
+  }
+  const field = node.field === 'header' ? `header ${node.header || '?'}` : node.field;
+  const operator = RULE_OPERATORS.find((o) => o.value === node.operator)?.label || node.operator;
+  const value = node.operator === 'exists' ? '' : ` "${node.value || ''}"`;
+  return `${node.negate ? 'NOT ' : ''}${field} ${operator}${value}`;
+}
+
+/** One-line summary, stored as sender_pattern for condition rules. */
+export function describeConditions(group: RuleGroup): string {
+  const inner = group.conditions.map(describeNode).join(group.match === 'any' ? ' OR ' : ' AND ');
+  return inner.length > 200 ? `${inner.slice(0, 197)}...` : inner;
+}
+
+/** Returns a message for the first invalid condition, or null. The server re-validates on test. */
+export function validateConditions(group: RuleGroup): string | null {
+  if (group.conditions.length === 0) return 'Add at least one condition';
+  for (const node of group.conditions) {
+    if (isRuleGroup(node)) continue;
+    if (node.field === 'header' && !node.header?.trim()) return 'Header conditions need a header name';
+    if (node.field === 'header' && !RULE_HEADERS.some((h) => h.value === node.header?.trim().toLowerCase())) {
+      return `Header "${node.header}" cannot be tested; pick one of the listed headers`;
+    }
+    if (node.operator !== 'exists' && !node.value?.trim()) return `The ${node.field} condition needs a value`;
+    if (node.operator === 'matches') {
+      try {
+        new RegExp(node.value || '', 'i');
+      } catch {
+        return `Invalid regular expression: ${node.value}`;
+      }
+    }
+  }
+  return null;
+}
+
+export interface RuleTestSample {
+  event_id: string;
+  conversation_id: string | null;
+  from: string;
+  subject: string | null;
+  timestamp: string;
+  snippet: string;
+  current_category: string | null;
+  current_bucket: string | null;
+  won_by: { id: string; name: string; source: 'workspace' | 'system' } | null;
+}
+
+export interface RuleTestResult {
+  scanned: number;
+  matched: number;
+  shadowed: number;
+  samples: RuleTestSample[];
+}
+
+/** Runs a saved rule (by id) or an unsaved draft against recent inbound messages. */
+export async function testTriageRule(
+  workspaceId: string,
+  rule: { ruleId: string } | { draft: Record<string, unknown> },
+  limit?: number,
+): Promise<RuleTestResult> {
+  const { data, error } = await supabase.functions.invoke('triage-rule-test', {
+    body: {
+      workspace_id: workspaceId,
+      rule_id: 'ruleId' in rule ? rule.ruleId : undefined,
+      rule: 'draft' in rule ? rule.draft : undefined,
+      limit,
+    },
+  });
+  if (error || !data?.ok) {
+    throw new Error(data?.error || error?.message || 'Could not test rule');
+  }
+  return data as RuleTestResult;
+}
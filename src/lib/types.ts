@@ -20,6 +20,7 @@ export interface Workspace {
   business_hours_start: string;
   business_hours_end: string;
   business_days: number[];
+  bank_holiday_region?: string;
   created_at: string;
 }
 
@@ -73,6 +74,12 @@ export interface Conversation {
   sla_target_minutes: number;
   sla_due_at: string | null;
   sla_status: SLAStatus;
+  // Set by pipeline-worker-sla; sla_due_at is the sooner of the two
+  sla_response_due_at?: string | null;
+  sla_resolution_due_at?: string | null;
+  snoozed_until?: string | null;
+  // Wakes on the next customer reply; snoozed_until is only the fallback
+  snooze_until_reply?: boolean;
   first_response_at: string | null;
   resolved_at: string | null;
   customer_satisfaction: number | null;
@@ -142,5 +149,6 @@ export interface SLAConfig {
   workspace_id: string;
   priority: Priority;
   first_response_minutes: number;
+  resolution_minutes: number | null;
   pause_outside_hours: boolean;
 }
@@ -1,7 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
 import { Sidebar } from '@/components/sidebar/Sidebar';
 import { 
   PieChart, Pie, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, 
@@ -9,174 +7,148 @@ import {
 } from 'recharts';
 import { 
   MessageSquare, Bot, Clock, CheckCircle, Star, 
-  TrendingUp, MessageCircle, Menu
+  TrendingUp, MessageCircle, Menu, Download, PenLine, AlertTriangle, Layers
 } from 'lucide-react';
-import { format, subDays, startOfDay, endOfDay } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { toast } from 'sonner';
 import { MobileSidebarSheet } from '@/components/sidebar/MobileSidebarSheet';
 import { BackButton } from '@/components/shared/BackButton';
+import {
+  AnalyticsComparison,
+  BreakdownItem,
+  DailyRollup,
+  exportRollupsCsv,
+  fetchAnalyticsComparison,
+  fetchDailyRollups,
+  percentChange,
+  workspaceDays,
+} from '@/lib/analytics';
 
 type TimeRange = 'today' | '7days' | '30days';
 
-interface AnalyticsData {
-  totalConversations: number;
-  aiHandled: number;
-  humanHandled: number;
-  escalated: number;
-  avgResponseTimeSeconds: number;
-  resolutionRate: number;
-  avgCSAT: number | null;
-  csatCount: number;
-  byChannel: { name: string; value: number; color: string }[];
-  volumeOverTime: { date: string; total: number; ai: number; escalated: number }[];
-}
+const channelColors: Record<string, string> = {
+  sms: '#8b5cf6',
+  whatsapp: '#10b981',
+  email: '#3b82f6',
+  web_chat: '#a855f7',
+  web: '#a855f7',
+};
 
 export default function AnalyticsDashboard() {
+  const { workspace } = useWorkspace();
   const [timeRange, setTimeRange] = useState<TimeRange>('7days');
-  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [comparison, setComparison] = useState<AnalyticsComparison | null>(null);
+  const [daily, setDaily] = useState<DailyRollup[]>([]);
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
-    fetchAnalytics();
-  }, [timeRange]);
+    if (workspace?.id) {
+      fetchAnalytics();
+    }
+  }, [timeRange, workspace?.id, workspace?.timezone]);
 
+  // Rollup days are local to the workspace, not the browser
   const getDateRange = () => {
-    const now = new Date();
-    switch (timeRange) {
-      case 'today':
-        return { start: startOfDay(now), end: endOfDay(now), days: 1 };
-      case '7days':
-        return { start: startOfDay(subDays(now, 7)), end: endOfDay(now), days: 7 };
-      case '30days':
-        return { start: startOfDay(subDays(now, 30)), end: endOfDay(now), days: 30 };
-    }
+    const count = timeRange === 'today' ? 1 : timeRange === '7days' ? 7 : 30;
+    const days = workspaceDays(workspace?.timezone, count);
+    return { start: days[0], end: days[days.length - 1], days };
   };
 
   const fetchAnalytics = async () => {
+    if (!workspace?.id) return;
     setLoading(true);
-    const { start, end, days } = getDateRange();
+    const { start, end } = getDateRange();
 
     try {
-      // Fetch all conversations in range
-      const { data: conversations, error } = await supabase
-        .from('conversations')
-        .select('id, channel, status, is_escalated, auto_responded, human_edited, first_response_at, created_at, resolved_at, customer_satisfaction, conversation_type')
-        .gte('created_at', start.toISOString())
-        .lte('created_at', end.toISOString());
-
-      if (error) throw error;
-
-      const total = conversations?.length || 0;
-      
-      // Count AI handled vs human handled vs escalated
-      const aiHandled = conversations?.filter(c => 
-        c.conversation_type === 'ai_handled' || (c.auto_responded && !c.is_escalated)
-      ).length || 0;
-      
-      const escalated = conversations?.filter(c => c.is_escalated).length || 0;
-      const humanHandled = total - aiHandled;
-
-      // Calculate average response time
-      const withResponse = conversations?.filter(c => c.first_response_at && c.created_at) || [];
-      const avgResponseTimeSeconds = withResponse.length > 0
-        ? withResponse.reduce((acc, c) => {
-            const created = new Date(c.created_at).getTime();
-            const responded = new Date(c.first_response_at!).getTime();
-            return acc + (responded - created) / 1000;
-          }, 0) / withResponse.length
-        : 0;
-
-      // Resolution rate
-      const resolved = conversations?.filter(c => c.status === 'resolved').length || 0;
-      const resolutionRate = total > 0 ? (resolved / total) * 100 : 0;
-
-      // CSAT
-      const withCSAT = conversations?.filter(c => c.customer_satisfaction !== null) || [];
-      const avgCSAT = withCSAT.length > 0
-        ? withCSAT.reduce((acc, c) => acc + (c.customer_satisfaction || 0), 0) / withCSAT.length
-        : null;
-
-      // By channel
-      const channelCounts: Record<string, number> = {};
-      conversations?.forEach(c => {
-        const ch = c.channel || 'unknown';
-        channelCounts[ch] = (channelCounts[ch] || 0) + 1;
-      });
-
-      const channelColors: Record<string, string> = {
-        sms: '#8b5cf6',
-        whatsapp: '#10b981',
-        email: '#3b82f6',
-        web_chat: '#a855f7',
-        web: '#a855f7',
-      };
-
-      const byChannel = Object.entries(channelCounts).map(([name, value]) => ({
-        name: name.replace('_', ' ').toUpperCase(),
-        value,
-        color: channelColors[name] || 'hsl(var(--muted))',
-      }));
-
-      // Volume over time
-      const volumeMap: Record<string, { total: number; ai: number; escalated: number }> = {};
-      
-      for (let i = 0; i < days; i++) {
-        const date = format(subDays(new Date(), days - 1 - i), 'MMM dd');
-        volumeMap[date] = { total: 0, ai: 0, escalated: 0 };
-      }
-
-      conversations?.forEach(c => {
-        const date = format(new Date(c.created_at), 'MMM dd');
-        if (volumeMap[date]) {
-          volumeMap[date].total++;
-          if (c.conversation_type === 'ai_handled' || (c.auto_responded && !c.is_escalated)) {
-            volumeMap[date].ai++;
-          }
-          if (c.is_escalated) {
-            volumeMap[date].escalated++;
-          }
-        }
-      });
-
-      const volumeOverTime = Object.entries(volumeMap).map(([date, counts]) => ({
-        date,
-        ...counts,
-      }));
-
-      setData({
-        totalConversations: total,
-        aiHandled,
-        humanHandled,
-        escalated,
-        avgResponseTimeSeconds,
-        resolutionRate,
-        avgCSAT,
-        csatCount: withCSAT.length,
-        byChannel,
-        volumeOverTime,
-      });
+      // Totals come from the daily rollups, so this stays two small queries however busy the workspace is
+      const [summary, rows] = await Promise.all([
+        fetchAnalyticsComparison(workspace.id, start, end),
+        fetchDailyRollups(workspace.id, start, end, 'all'),
+      ]);
+      setComparison(summary);
+      setDaily(rows);
     } catch (err) {
       console.error('Failed to fetch analytics:', err);
+      setComparison(null);
     } finally {
       setLoading(false);
     }
   };
 
-  const formatResponseTime = (seconds: number) => {
+  const handleExport = async () => {
+    if (!workspace?.id) return;
+    setExporting(true);
+    try {
+      const { start, end } = getDateRange();
+      const count = await exportRollupsCsv(workspace.id, start, end);
+      toast.success(`Exported ${count} rows`);
+    } catch (err) {
+      toast.error('Export failed: ' + (err instanceof Error ? err.message : 'unknown error'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatResponseTime = (seconds: number | null) => {
+    if (seconds === null) return 'N/A';
     if (seconds < 60) return `${Math.round(seconds)}s`;
     if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
     return `${(seconds / 3600).toFixed(1)}h`;
   };
 
-  const handledData = data ? [
-    { name: 'AI Handled', value: data.aiHandled, color: '#10b981' },
-    { name: 'Human Handled', value: data.humanHandled - data.escalated, color: '#3b82f6' },
-    { name: 'Escalated', value: data.escalated, color: '#f97316' },
+  const current = comparison?.current;
+  const previous = comparison?.previous;
+
+  // lowerIsBetter flips the colour for metrics like response time and breaches
+  const renderDelta = (now: number | null, before: number | null, lowerIsBetter = false) => {
+    const change = percentChange(now, before);
+    if (change === null) {
+      return <p className="text-xs text-slate-400">No previous data</p>;
+    }
+    const good = lowerIsBetter ? change <= 0 : change >= 0;
+    return (
+      <p className={`text-xs font-medium ${good ? 'text-emerald-600' : 'text-red-600'}`}>
+        {change >= 0 ? '▲' : '▼'} {Math.abs(change).toFixed(1)}% vs previous period
+      </p>
+    );
+  };
+
+  const handledData = current ? [
+    { name: 'AI Handled', value: current.ai_handled, color: '#10b981' },
+    { name: 'Human Handled', value: current.human_only, color: '#3b82f6' },
+    { name: 'Escalated', value: current.escalated, color: '#f97316' },
   ].filter(d => d.value > 0) : [];
 
-  const containmentRate = data && data.totalConversations > 0
-    ? ((data.aiHandled / data.totalConversations) * 100).toFixed(1)
-    : '0';
+  const byChannel = (current?.by_channel || []).map((item) => ({
+    name: item.value.replace('_', ' ').toUpperCase(),
+    value: item.conversations,
+    color: channelColors[item.value] || 'hsl(var(--muted))',
+  }));
+
+  // Days without conversations have no rollup row
+  const volumeOverTime = (() => {
+    const { days } = getDateRange();
+    const byDay = new Map(daily.map((row) => [row.day, row]));
+    return days.map((day) => {
+      const row = byDay.get(day);
+      return {
+        date: format(parseISO(day), 'MMM dd'),
+        total: row?.conversations || 0,
+        ai: row?.ai_handled || 0,
+        escalated: row?.escalated || 0,
+      };
+    });
+  })();
+
+  const rate = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : null);
+  const containmentRate = current ? rate(current.ai_handled, current.conversations) : null;
+  const previousContainment = previous ? rate(previous.ai_handled, previous.conversations) : null;
+  const resolutionRate = current ? rate(current.resolved, current.conversations) : null;
+  const previousResolution = previous ? rate(previous.resolved, previous.conversations) : null;
+  const acceptanceRate = current?.drafts.acceptance_rate ?? null;
 
   const isMobile = useIsMobile();
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -210,6 +182,41 @@ export default function AnalyticsDashboard() {
     </div>
   );
 
+  function renderBreakdown(title: string, items: BreakdownItem[]) {
+    const top = items.slice(0, 8);
+    const max = Math.max(1, ...top.map((item) => item.conversations));
+    return (
+      <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2 mb-4">
+          <Layers className="h-5 w-5 text-slate-600" />
+          {title}
+        </h3>
+        {top.length > 0 ? (
+          <div className="space-y-3">
+            {top.map((item) => (
+              <div key={item.value} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="capitalize text-slate-700">{item.value.replace(/_/g, ' ')}</span>
+                  <span className="font-medium text-slate-900">{item.conversations}</span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-100">
+                  <div
+                    className="h-2 rounded-full bg-blue-500"
+                    style={{ width: `${(item.conversations / max) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="h-[120px] flex items-center justify-center text-slate-400">
+            No data available
+          </div>
+        )}
+      </div>
+    );
+  }
+
   function renderContent() {
     return (
       <div className="space-y-6">
@@ -218,7 +225,10 @@ export default function AnalyticsDashboard() {
           <div>
             <BackButton to="/" label="Back to Dashboard" />
             <h1 className="text-2xl font-bold mt-2">Analytics Dashboard</h1>
-            <p className="text-muted-foreground">AI performance and conversation insights</p>
+            <p className="text-muted-foreground">
+              AI performance and conversation insights
+              {current?.computed_at && ` · updated ${format(new Date(current.computed_at), 'HH:mm')}`}
+            </p>
           </div>
           <div className="flex gap-2">
             <Button
@@ -242,6 +252,10 @@ export default function AnalyticsDashboard() {
             >
               30 Days
             </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || !workspace?.id}>
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </Button>
           </div>
         </div>
 
@@ -249,7 +263,7 @@ export default function AnalyticsDashboard() {
           <div className="flex items-center justify-center h-64">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
           </div>
-        ) : data ? (
+        ) : current && previous ? (
           <>
             {/* Key Metrics */}
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
@@ -257,33 +271,38 @@ export default function AnalyticsDashboard() {
                 <div className="bg-blue-100 text-blue-600 rounded-2xl w-12 h-12 flex items-center justify-center">
                   <MessageSquare className="h-5 w-5" />
                 </div>
-                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{data.totalConversations}</p>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{current.conversations}</p>
                 <p className="text-xs text-slate-500 font-medium mt-1">Total Conversations</p>
+                {renderDelta(current.conversations, previous.conversations)}
               </div>
 
               <div className="bg-gradient-to-b from-emerald-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
                 <div className="bg-emerald-100 text-emerald-600 rounded-2xl w-12 h-12 flex items-center justify-center">
                   <Bot className="h-5 w-5" />
                 </div>
-                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{containmentRate}%</p>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{(containmentRate ?? 0).toFixed(1)}%</p>
                 <p className="text-xs text-slate-500 font-medium mt-1">AI Containment</p>
-                <p className="text-xs text-slate-400">{data.aiHandled} of {data.totalConversations}</p>
+                <p className="text-xs text-slate-400">{current.ai_handled} of {current.conversations}</p>
+                {renderDelta(containmentRate, previousContainment)}
               </div>
 
               <div className="bg-gradient-to-b from-amber-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
                 <div className="bg-amber-100 text-amber-600 rounded-2xl w-12 h-12 flex items-center justify-center">
                   <Clock className="h-5 w-5" />
                 </div>
-                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{formatResponseTime(data.avgResponseTimeSeconds)}</p>
-                <p className="text-xs text-slate-500 font-medium mt-1">Avg Response Time</p>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{formatResponseTime(current.first_response.p50_seconds)}</p>
+                <p className="text-xs text-slate-500 font-medium mt-1">Median First Response</p>
+                <p className="text-xs text-slate-400">90th percentile {formatResponseTime(current.first_response.p90_seconds)}</p>
+                {renderDelta(current.first_response.p50_seconds, previous.first_response.p50_seconds, true)}
               </div>
 
               <div className="bg-gradient-to-b from-purple-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
                 <div className="bg-purple-100 text-purple-600 rounded-2xl w-12 h-12 flex items-center justify-center">
                   <CheckCircle className="h-5 w-5" />
                 </div>
-                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{data.resolutionRate.toFixed(1)}%</p>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{(resolutionRate ?? 0).toFixed(1)}%</p>
                 <p className="text-xs text-slate-500 font-medium mt-1">Resolution Rate</p>
+                {renderDelta(resolutionRate, previousResolution)}
               </div>
 
               <div className="bg-gradient-to-b from-blue-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
@@ -291,10 +310,49 @@ export default function AnalyticsDashboard() {
                   <Star className="h-5 w-5" />
                 </div>
                 <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">
-                  {data.avgCSAT ? `${data.avgCSAT.toFixed(1)}` : 'N/A'}
+                  {current.csat.avg !== null ? current.csat.avg.toFixed(1) : 'N/A'}
                 </p>
                 <p className="text-xs text-slate-500 font-medium mt-1">Avg CSAT</p>
-                <p className="text-xs text-slate-400">{data.csatCount} ratings</p>
+                <p className="text-xs text-slate-400">{current.csat.count} ratings</p>
+                {renderDelta(current.csat.avg, previous.csat.avg)}
+              </div>
+            </div>
+
+            {/* Drafts, SLA and resolution time */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-gradient-to-b from-emerald-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
+                <div className="bg-emerald-100 text-emerald-600 rounded-2xl w-12 h-12 flex items-center justify-center">
+                  <PenLine className="h-5 w-5" />
+                </div>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">
+                  {acceptanceRate !== null ? `${(acceptanceRate * 100).toFixed(1)}%` : 'N/A'}
+                </p>
+                <p className="text-xs text-slate-500 font-medium mt-1">Draft Acceptance</p>
+                <p className="text-xs text-slate-400">
+                  {current.drafts.sent - current.drafts.edited} sent unedited of {current.drafts.generated} drafts
+                </p>
+                {renderDelta(acceptanceRate, previous.drafts.acceptance_rate)}
+              </div>
+
+              <div className="bg-gradient-to-b from-amber-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
+                <div className="bg-amber-100 text-amber-600 rounded-2xl w-12 h-12 flex items-center justify-center">
+                  <AlertTriangle className="h-5 w-5" />
+                </div>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">{current.sla_breaches}</p>
+                <p className="text-xs text-slate-500 font-medium mt-1">SLA Breaches</p>
+                {renderDelta(current.sla_breaches, previous.sla_breaches, true)}
+              </div>
+
+              <div className="bg-gradient-to-b from-purple-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
+                <div className="bg-purple-100 text-purple-600 rounded-2xl w-12 h-12 flex items-center justify-center">
+                  <Clock className="h-5 w-5" />
+                </div>
+                <p className="text-4xl font-extrabold tracking-tight text-slate-900 mt-2">
+                  {formatResponseTime(current.resolution.p50_seconds)}
+                </p>
+                <p className="text-xs text-slate-500 font-medium mt-1">Median Resolution Time</p>
+                <p className="text-xs text-slate-400">90th percentile {formatResponseTime(current.resolution.p90_seconds)}</p>
+                {renderDelta(current.resolution.p50_seconds, previous.resolution.p50_seconds, true)}
               </div>
             </div>
 
@@ -340,11 +398,11 @@ export default function AnalyticsDashboard() {
                   <MessageCircle className="h-5 w-5 text-slate-600" />
                   Conversations by Channel
                 </h3>
-                {data.byChannel.length > 0 ? (
+                {byChannel.length > 0 ? (
                   <ResponsiveContainer width="100%" height={250}>
                     <PieChart>
                       <Pie
-                        data={data.byChannel}
+                        data={byChannel}
                         cx="50%"
                         cy="50%"
                         innerRadius={60}
@@ -353,7 +411,7 @@ export default function AnalyticsDashboard() {
                         dataKey="value"
                         label={({ name, value }) => `${name}: ${value}`}
                       >
-                        {data.byChannel.map((entry, index) => (
+                        {byChannel.map((entry, index) => (
                           <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                       </Pie>
@@ -376,7 +434,7 @@ export default function AnalyticsDashboard() {
                 Conversation Volume Over Time
               </h3>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={data.volumeOverTime}>
+                <LineChart data={volumeOverTime}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#f8fafc" />
                   <XAxis dataKey="date" className="text-xs" />
                   <YAxis className="text-xs" />
@@ -417,25 +475,31 @@ export default function AnalyticsDashboard() {
               </ResponsiveContainer>
             </div>
 
+            {/* Category and bucket breakdowns */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {renderBreakdown('Conversations by Category', current.by_category)}
+              {renderBreakdown('Conversations by Bucket', current.by_bucket)}
+            </div>
+
             {/* Escalation Stats */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="bg-gradient-to-b from-emerald-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
                 <div className="text-center">
-                  <p className="text-4xl font-extrabold tracking-tight text-slate-900">{data.aiHandled}</p>
+                  <p className="text-4xl font-extrabold tracking-tight text-slate-900">{current.ai_handled}</p>
                   <p className="text-sm text-slate-500 font-medium mt-1">AI Handled</p>
                   <p className="text-xs text-slate-400">Fully automated responses</p>
                 </div>
               </div>
               <div className="bg-gradient-to-b from-amber-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
                 <div className="text-center">
-                  <p className="text-4xl font-extrabold tracking-tight text-slate-900">{data.escalated}</p>
+                  <p className="text-4xl font-extrabold tracking-tight text-slate-900">{current.escalated}</p>
                   <p className="text-sm text-slate-500 font-medium mt-1">Escalated</p>
                   <p className="text-xs text-slate-400">Required human review</p>
                 </div>
               </div>
               <div className="bg-gradient-to-b from-blue-50/80 to-white border border-slate-100 rounded-3xl shadow-sm p-6">
                 <div className="text-center">
-                  <p className="text-4xl font-extrabold tracking-tight text-slate-900">{data.humanHandled - data.escalated}</p>
+                  <p className="text-4xl font-extrabold tracking-tight text-slate-900">{current.human_only}</p>
                   <p className="text-sm text-slate-500 font-medium mt-1">Human Handled</p>
                   <p className="text-xs text-slate-400">Agent responses</p>
                 </div>
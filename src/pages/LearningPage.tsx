@@ -6,6 +6,7 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { HowBizzyBeeIsDoing } from '@/components/learning/HowBizzyBeeIsDoing';
 import { YourRules } from '@/components/learning/YourRules';
 import { RecentLearning } from '@/components/learning/RecentLearning';
+import { StyleRuleSuggestions } from '@/components/learning/StyleRuleSuggestions';
 import { useRef, useCallback } from 'react';
 
 export default function LearningPage() {
@@ -27,6 +28,8 @@ export default function LearningPage() {
           <YourRules ref={rulesRef} />
           <RecentLearning onHighlightRule={handleHighlightRule} />
         </div>
+
+        <StyleRuleSuggestions />
       </div>
     </ScrollArea>
   );
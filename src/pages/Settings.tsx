@@ -13,6 +13,8 @@ import { WorkspaceGDPRSettingsPanel } from '@/components/settings/WorkspaceGDPRS
 import { CustomerMergePanel } from '@/components/settings/CustomerMergePanel';
 import { ChannelManagementPanel } from '@/components/settings/ChannelManagementPanel';
 import { AISettingsCard } from '@/components/settings/AISettingsCard';
+import { RoutingPolicyCard } from '@/components/settings/RoutingPolicyCard';
+import { AssignmentRulesPanel } from '@/components/settings/AssignmentRulesPanel';
 import { ConversationOrderingPanel } from '@/components/settings/ConversationOrderingPanel';
 import { KnowledgeBasePanel } from '@/components/settings/KnowledgeBasePanel';
 import { IntegrationsPanel } from '@/components/settings/IntegrationsPanel';
@@ -23,6 +25,7 @@ import { TriageLearningPanel } from '@/components/settings/TriageLearningPanel';
 import { LearningSystemPanel } from '@/components/settings/LearningSystemPanel';
 import { BehaviorStatsPanel } from '@/components/settings/BehaviorStatsPanel';
 import { NotificationPreferencesPanel } from '@/components/settings/NotificationPreferencesPanel';
+import { TemplatesPanel } from '@/components/settings/TemplatesPanel';
 import { LowConfidenceWizard } from '@/components/settings/LowConfidenceWizard';
 import { LearningAnalyticsDashboard } from '@/components/settings/LearningAnalyticsDashboard';
 import { InboxLearningInsightsPanel } from '@/components/settings/InboxLearningInsightsPanel';
@@ -65,6 +68,14 @@ export default function Settings() {
               <AISettingsCard workspaceId={workspace.id} />
             </SettingsSection>
           )}
+          {workspace?.id && (
+            <SettingsSection title="Routing Policy" description="Noise, confidence thresholds, VIP and after-hours routing">
+              <RoutingPolicyCard workspaceId={workspace.id} />
+            </SettingsSection>
+          )}
+          <SettingsSection title="Assignment Rules" description="Route new conversations to team members automatically">
+            <AssignmentRulesPanel />
+          </SettingsSection>
           <SettingsSection title="Knowledge Base" description="FAQs, pricing, and business facts">
             <KnowledgeBasePanel />
           </SettingsSection>
@@ -165,7 +176,7 @@ export default function Settings() {
       id: 'display',
       icon: Layout,
       title: 'Display & Behavior',
-      description: 'Ordering preferences and notifications',
+      description: 'Ordering, notifications, and reply templates',
       content: (
         <div className="space-y-3">
           <SettingsSection title="Conversation Ordering" description="Sort and prioritize conversations" defaultOpen>
@@ -174,6 +185,9 @@ export default function Settings() {
           <SettingsSection title="Notifications" description="Notification preferences">
             <NotificationPreferencesPanel />
           </SettingsSection>
+          <SettingsSection title="Reply Templates" description="Saved replies with merge fields and channel variants">
+            <TemplatesPanel />
+          </SettingsSection>
         </div>
       )
     },
@@ -6,6 +6,7 @@ import { HealthCards } from "@/components/admin/HealthCards";
 import { DataStats } from "@/components/admin/DataStats";
 import { ActiveJobs } from "@/components/admin/ActiveJobs";
 import { ErrorLog } from "@/components/admin/ErrorLog";
+import { DeadLetterQueue } from "@/components/admin/DeadLetterQueue";
 import { ManualTriggers } from "@/components/admin/ManualTriggers";
 import { WorkspaceInspector } from "@/components/admin/WorkspaceInspector";
 import { QuotaMonitor } from "@/components/admin/QuotaMonitor";
@@ -85,10 +86,11 @@ export default function DevOpsDashboard() {
 
         {/* Tabbed sections */}
         <Tabs defaultValue="triggers" className="mt-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="triggers">Manual Triggers</TabsTrigger>
             <TabsTrigger value="jobs">Active Jobs</TabsTrigger>
             <TabsTrigger value="errors">Error Log</TabsTrigger>
+            <TabsTrigger value="deadletters">Dead Letters</TabsTrigger>
             <TabsTrigger value="inspector">Workspace Inspector</TabsTrigger>
             <TabsTrigger value="quotas">API Quotas</TabsTrigger>
           </TabsList>
@@ -105,6 +107,10 @@ export default function DevOpsDashboard() {
             <ErrorLog key={`errors-${refreshKey}`} />
           </TabsContent>
 
+          <TabsContent value="deadletters" className="mt-4">
+            <DeadLetterQueue key={`deadletters-${refreshKey}`} />
+          </TabsContent>
+
           <TabsContent value="inspector" className="mt-4">
             <WorkspaceInspector key={`inspector-${refreshKey}`} />
           </TabsContent>
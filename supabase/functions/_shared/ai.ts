@@ -1,5 +1,8 @@
-import { extractJsonFromText, fetchWithTimeout, getOptionalEnv, getRequiredEnv } from "./pipeline.ts";
+import type { LlmClient } from "./llm.ts";
+import { extractJsonFromText } from "./pipeline.ts";
+import { type DraftCitation, extractCitations, type KnowledgeSnippet } from "./retrieval.ts";
 import type { ClassificationResult } from "./types.ts";
+import { type DraftExample, type VoiceProfile, voiceInstructions } from "./voice.ts";
 
 export interface ClassifyItemInput {
   item_id: string;
@@ -10,6 +13,8 @@ export interface ClassifyItemInput {
   subject: string;
   body: string;
   recent_messages: Array<{ direction: string; body: string }>;
+  // Image descriptions, transcripts and document text from the message's attachments
+  attachments?: Array<{ filename: string; kind: string; text: string }>;
 }
 
 export interface WorkspaceAiContext {
@@ -73,6 +78,7 @@ function classificationSystemPrompt(context: WorkspaceAiContext): string {
     "Confidence must be in [0,1].",
     "Categories should be concise labels such as billing, complaint, booking, refund, order_update, spam, newsletter, notification, sales, general.",
     "Use the provided business context, FAQ snippets, and historical correction examples to improve consistency.",
+    "When an item has attachments, treat their text as part of the customer's message (e.g. a photo of damage, an invoice PDF).",
     `Business context: ${JSON.stringify(context.business_context || {})}`,
     `FAQ snippets: ${JSON.stringify(context.faq_entries.slice(0, 30))}`,
   ];
@@ -85,7 +91,8 @@ function classificationSystemPrompt(context: WorkspaceAiContext): string {
   return parts.join("\n");
 }
 
-export async function classifyBatchWithLovable(params: {
+export async function classifyBatch(params: {
+  llm: LlmClient;
   items: ClassifyItemInput[];
   context: WorkspaceAiContext;
 }): Promise<Map<string, ClassificationResult>> {
@@ -93,49 +100,14 @@ export async function classifyBatchWithLovable(params: {
     return new Map();
   }
 
-  const endpoint = getRequiredEnv("LOVABLE_AI_GATEWAY_URL");
-  const model = getOptionalEnv("LOVABLE_CLASSIFY_MODEL", "gemini-2.5-flash");
-  const apiKey = getOptionalEnv("LOVABLE_AI_GATEWAY_KEY");
-
-  const payload = {
-    model,
+  const completion = await params.llm.complete({
+    system: classificationSystemPrompt(params.context),
+    messages: [{ role: "user", content: JSON.stringify({ items: params.items }) }],
     temperature: 0,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: classificationSystemPrompt(params.context) },
-      {
-        role: "user",
-        content: JSON.stringify({ items: params.items }),
-      },
-    ],
-  };
-
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-  if (apiKey) {
-    headers.Authorization = `Bearer ${apiKey}`;
-  }
-
-  const response = await fetchWithTimeout(endpoint, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  }, 25_000);
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Lovable classify request failed (${response.status}): ${text}`);
-  }
-
-  const data = await response.json();
-  const content = data?.choices?.[0]?.message?.content || data?.output_text || data?.content || "{}";
-  const contentText = typeof content === "string"
-    ? content
-    : Array.isArray(content)
-      ? content.map((part) => part?.text || "").join("\n")
-      : JSON.stringify(content);
+    jsonMode: true,
+  });
 
+  const contentText = completion.text || "{}";
   const parsed = extractJsonFromText(contentText) as { results?: unknown[] } | null;
   const results = Array.isArray(parsed?.results) ? parsed.results : [];
 
@@ -156,23 +128,38 @@ export async function classifyBatchWithLovable(params: {
   return mapped;
 }
 
-export async function generateDraftWithAnthropic(params: {
+export async function generateDraft(params: {
+  llm: LlmClient;
   conversationId: string;
   subject: string;
   latestInboundBody: string;
   recentMessages: Array<{ direction: string; body: string }>;
   businessContext: Record<string, unknown> | null;
-  faqEntries: Array<Record<string, unknown>>;
-}): Promise<string> {
-  const apiKey = getRequiredEnv("ANTHROPIC_API_KEY");
-  const model = getOptionalEnv("ANTHROPIC_MODEL", "claude-3-5-sonnet-latest");
-  const endpoint = getOptionalEnv("ANTHROPIC_API_URL", "https://api.anthropic.com/v1/messages");
-
+  knowledge: KnowledgeSnippet[];
+  voice?: VoiceProfile | null;
+  examples?: DraftExample[];
+  styleRules?: string[];
+}): Promise<{ text: string; citations: DraftCitation[] }> {
+  const voiceLines = voiceInstructions(params.voice ?? null);
+  const examples = params.examples || [];
   const systemPrompt = [
-    "You write concise, professional customer support replies for UK SMBs.",
+    voiceLines.length > 0
+      ? "You write customer support replies for a UK SMB, as the owner would write them."
+      : "You write concise, professional customer support replies for UK SMBs.",
     "Follow UK English spelling and tone.",
     "Do not invent policy details. If uncertain, ask a clear clarifying question.",
-    "Use context and FAQ when relevant.",
+    "Use context and knowledge entries when relevant.",
+    "When a sentence relies on a knowledge entry, put its ref in square brackets right after it, e.g. [F1] or [P2, D1].",
+    ...voiceLines,
+    ...(params.styleRules?.length
+      ? ["House style rules approved by the owner (always follow, they override examples):", ...params.styleRules.map((rule) => `- ${rule}`)]
+      : []),
+    ...(examples.length > 0
+      ? [
+        "style_examples are real replies from this business. Match their wording, length, greeting and sign-off, not their facts.",
+        "Where an example has ai_draft, the owner rewrote that AI draft into reply: avoid what they removed and keep what they added.",
+      ]
+      : []),
   ].join("\n");
 
   const userPrompt = JSON.stringify({
@@ -181,45 +168,38 @@ export async function generateDraftWithAnthropic(params: {
     latest_inbound: params.latestInboundBody,
     recent_messages: params.recentMessages,
     business_context: params.businessContext || {},
-    faq_entries: params.faqEntries.slice(0, 40),
+    knowledge: params.knowledge.map((snippet) => ({
+      ref: snippet.ref,
+      type: snippet.kind,
+      title: snippet.title,
+      content: snippet.content.slice(0, 1500),
+    })),
+    style_examples: examples.map((example) => ({
+      source: example.source,
+      category: example.category,
+      ...(example.customer ? { customer: example.customer } : {}),
+      ...(example.ai_draft ? { ai_draft: example.ai_draft } : {}),
+      reply: example.reply,
+    })),
     output_instructions: {
       format: "plain text",
       max_paragraphs: 3,
       include_signoff: true,
+      cite_knowledge_refs: true,
     },
   });
 
-  const response = await fetchWithTimeout(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 700,
-      temperature: 0.2,
-      system: systemPrompt,
-      messages: [{ role: "user", content: userPrompt }],
-    }),
-  }, 25_000);
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Anthropic draft request failed (${response.status}): ${text}`);
-  }
-
-  const data = await response.json();
-  const content = Array.isArray(data?.content) ? data.content : [];
-  const text = content
-    .map((part: { type?: string; text?: string }) => part?.type === "text" ? part.text || "" : "")
-    .join("\n")
-    .trim();
+  const completion = await params.llm.complete({
+    system: systemPrompt,
+    messages: [{ role: "user", content: userPrompt }],
+    maxTokens: 700,
+    temperature: 0.2,
+  });
 
+  const { text, citations } = extractCitations(completion.text.trim(), params.knowledge);
   if (!text) {
-    throw new Error("Anthropic draft response was empty");
+    throw new Error(`Draft response from ${completion.provider} was empty`);
   }
 
-  return text;
+  return { text, citations };
 }
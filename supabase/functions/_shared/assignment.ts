@@ -0,0 +1,123 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export interface AssignmentRule {
+  id: string;
+  name: string;
+  priority: number;
+  categories: string[];
+  channels: string[];
+  customer_tiers: string[];
+  sender_domains: string[];
+  decision_buckets: string[];
+}
+
+export interface AssignmentFacts {
+  category: string | null;
+  channel: string | null;
+  customerTier: string | null;
+  sender: string;
+  decisionBucket: string;
+}
+
+export interface AssignmentOutcome {
+  ruleId: string;
+  ruleName: string;
+  userId: string | null;
+}
+
+function normalizeList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.map((item) => String(item).trim().toLowerCase()).filter(Boolean)
+    : [];
+}
+
+export function senderDomain(sender: string): string {
+  const address = sender.trim().toLowerCase();
+  return address.includes("@") ? address.split("@").pop() || "" : "";
+}
+
+export async function loadAssignmentRules(client: SupabaseClient, workspaceId: string): Promise<AssignmentRule[]> {
+  const { data, error } = await client
+    .from("assignment_rules")
+    .select("id, name, priority, categories, channels, customer_tiers, sender_domains, decision_buckets")
+    .eq("workspace_id", workspaceId)
+    .eq("enabled", true)
+    .order("priority", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.warn("assignment_rules load failed:", error.message);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: String(row.id),
+    name: String(row.name || ""),
+    priority: Number(row.priority) || 0,
+    categories: normalizeList(row.categories),
+    channels: normalizeList(row.channels),
+    customer_tiers: normalizeList(row.customer_tiers),
+    sender_domains: normalizeList(row.sender_domains).map((domain) => domain.replace(/^@/, "")),
+    decision_buckets: normalizeList(row.decision_buckets),
+  }));
+}
+
+function listMatches(list: string[], value: string | null): boolean {
+  return list.length === 0 || (value !== null && list.includes(value.trim().toLowerCase()));
+}
+
+/**
+ * Every non-empty condition must match. Sender domains also match
+ * subdomains, so "acme.com" covers "mail.acme.com".
+ */
+export function ruleMatches(rule: AssignmentRule, facts: AssignmentFacts): boolean {
+  const domain = senderDomain(facts.sender);
+  const domainMatches = rule.sender_domains.length === 0 ||
+    rule.sender_domains.some((ruleDomain) => domain === ruleDomain || domain.endsWith(`.${ruleDomain}`));
+
+  return domainMatches &&
+    listMatches(rule.categories, facts.category) &&
+    listMatches(rule.channels, facts.channel) &&
+    listMatches(rule.customer_tiers, facts.customerTier) &&
+    listMatches(rule.decision_buckets, facts.decisionBucket);
+}
+
+/**
+ * Assigns an unassigned conversation using the first matching rule. Returns
+ * null when no rule matches; userId is null when the rule matched but nobody
+ * in it is available, and the conversation stays unassigned.
+ */
+export async function applyAssignmentRules(
+  client: SupabaseClient,
+  params: { conversationId: string; rules: AssignmentRule[]; facts: AssignmentFacts },
+): Promise<AssignmentOutcome | null> {
+  const rule = params.rules.find((candidate) => ruleMatches(candidate, params.facts));
+  if (!rule) {
+    return null;
+  }
+
+  const { data: userId, error } = await client.rpc("bb_pick_assignee", { p_rule_id: rule.id });
+  if (error) {
+    throw new Error(`bb_pick_assignee failed: ${error.message}`);
+  }
+  if (!userId) {
+    return { ruleId: rule.id, ruleName: rule.name, userId: null };
+  }
+
+  // Someone may have picked it up by hand while the job ran
+  const { error: updateError } = await client
+    .from("conversations")
+    .update({
+      assigned_to: userId,
+      assigned_by_rule_id: rule.id,
+      assigned_at: new Date().toISOString(),
+    })
+    .eq("id", params.conversationId)
+    .is("assigned_to", null);
+
+  if (updateError) {
+    throw new Error(`conversation assignment failed: ${updateError.message}`);
+  }
+
+  return { ruleId: rule.id, ruleName: rule.name, userId: String(userId) };
+}
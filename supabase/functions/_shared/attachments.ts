@@ -0,0 +1,300 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { normalizeFileType } from "./document-extract.ts";
+import { fetchWithTimeout, getOptionalEnv, queueSendBatch } from "./pipeline.ts";
+import type { AttachmentJob } from "./types.ts";
+
+export const ATTACHMENT_QUEUE = "bb_attachment_jobs";
+export const ATTACHMENT_BUCKET = "message-attachments";
+
+export type AttachmentKind = "image" | "audio" | "document" | "other";
+
+export interface AttachmentDescriptor {
+  externalId: string;
+  filename: string;
+  contentType: string | null;
+  sizeBytes: number | null;
+  isInline: boolean;
+}
+
+export interface AttachmentScanResult {
+  clean: boolean;
+  threat: string | null;
+}
+
+const DOCUMENT_FORMATS = new Set(["pdf", "docx", "xlsx", "xls", "csv", "txt", "text", "html", "htm", "md"]);
+
+// Inline images under this size are almost always logos and signature icons
+const DEFAULT_MIN_INLINE_BYTES = 15_000;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+export function maxAttachmentBytes(): number {
+  return Number(getOptionalEnv("BB_ATTACHMENT_MAX_BYTES", String(DEFAULT_MAX_BYTES)));
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Reads the attachment list Aurinko puts on a message (stored on
+ * message_events.metadata.attachments). Entries without an id can't be
+ * downloaded and are dropped.
+ */
+export function parseAurinkoAttachments(value: unknown): AttachmentDescriptor[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const descriptors: AttachmentDescriptor[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+
+    const raw = item as Record<string, unknown>;
+    const externalId = asString(raw.id) || asString(raw.attachmentId);
+    if (!externalId) {
+      continue;
+    }
+
+    const size = Number(raw.size ?? raw.sizeBytes);
+    descriptors.push({
+      externalId,
+      filename: asString(raw.name) || asString(raw.fileName) || "attachment",
+      contentType: (asString(raw.mimeType) || asString(raw.contentType))?.toLowerCase() || null,
+      sizeBytes: Number.isFinite(size) && size >= 0 ? size : null,
+      isInline: raw.inline === true || raw.isInline === true,
+    });
+  }
+
+  return descriptors;
+}
+
+export function attachmentKind(contentType: string | null, filename: string): AttachmentKind {
+  const type = String(contentType || "").toLowerCase();
+  if (type.startsWith("image/")) {
+    return "image";
+  }
+  if (type.startsWith("audio/")) {
+    return "audio";
+  }
+  if (DOCUMENT_FORMATS.has(normalizeFileType(type, filename))) {
+    return "document";
+  }
+  return "other";
+}
+
+/**
+ * Size/type limits applied before anything is downloaded. Returns the skip
+ * reason, or null when the attachment should be fetched.
+ */
+export function attachmentSkipReason(attachment: AttachmentDescriptor, kind: AttachmentKind): string | null {
+  if (kind === "other") {
+    return "unsupported_type";
+  }
+
+  if (attachment.sizeBytes !== null && attachment.sizeBytes > maxAttachmentBytes()) {
+    return "too_large";
+  }
+
+  const minInlineBytes = Number(getOptionalEnv("BB_ATTACHMENT_MIN_INLINE_BYTES", String(DEFAULT_MIN_INLINE_BYTES)));
+  if (
+    kind === "image" && attachment.isInline && attachment.sizeBytes !== null &&
+    attachment.sizeBytes < minInlineBytes
+  ) {
+    return "inline_image";
+  }
+
+  return null;
+}
+
+/**
+ * Virus-scan hook. When BB_ATTACHMENT_SCAN_URL is set the raw bytes are
+ * POSTed there and the scanner must answer {"clean": boolean, "threat"?: string};
+ * without it every file is treated as clean. Scanner errors throw so the job
+ * retries rather than storing an unscanned file.
+ */
+export async function scanAttachment(
+  bytes: Uint8Array,
+  meta: { filename: string; contentType: string | null },
+): Promise<AttachmentScanResult> {
+  const scanUrl = getOptionalEnv("BB_ATTACHMENT_SCAN_URL");
+  if (!scanUrl) {
+    return { clean: true, threat: null };
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": meta.contentType || "application/octet-stream",
+    "X-Filename": encodeURIComponent(meta.filename),
+  };
+  const scanToken = getOptionalEnv("BB_ATTACHMENT_SCAN_TOKEN");
+  if (scanToken) {
+    headers.Authorization = `Bearer ${scanToken}`;
+  }
+
+  const response = await fetchWithTimeout(scanUrl, { method: "POST", headers, body: bytes }, 30_000);
+  if (!response.ok) {
+    throw new Error(`Attachment scan failed (${response.status}): ${await response.text()}`);
+  }
+
+  const result = (await response.json()) as { clean?: unknown; threat?: unknown };
+  return {
+    clean: result.clean === true,
+    threat: typeof result.threat === "string" ? result.threat : null,
+  };
+}
+
+/**
+ * Creates a message_attachments row per file on a materialised inbound
+ * message and enqueues ATTACHMENT_FETCH for the ones within limits. Safe to
+ * call again for the same message: existing rows are left untouched and not
+ * re-enqueued.
+ */
+export async function registerAttachments(client: SupabaseClient, params: {
+  workspaceId: string;
+  runId?: string | null;
+  configId: string | null;
+  eventId: string;
+  conversationId: string | null;
+  messageId: string;
+  externalMessageId: string;
+  attachments: AttachmentDescriptor[];
+  // false records the files without downloading them (historical imports)
+  fetch?: boolean;
+}): Promise<{ registered: number; enqueued: number; skipped: number }> {
+  if (params.attachments.length === 0) {
+    return { registered: 0, enqueued: 0, skipped: 0 };
+  }
+
+  const rows = params.attachments.map((attachment) => {
+    const kind = attachmentKind(attachment.contentType, attachment.filename);
+    const skipReason = params.fetch === false ? "historical_import" : attachmentSkipReason(attachment, kind);
+    return {
+      workspace_id: params.workspaceId,
+      conversation_id: params.conversationId,
+      message_id: params.messageId,
+      event_id: params.eventId,
+      config_id: params.configId,
+      external_message_id: params.externalMessageId,
+      external_attachment_id: attachment.externalId,
+      filename: attachment.filename,
+      content_type: attachment.contentType,
+      size_bytes: attachment.sizeBytes,
+      is_inline: attachment.isInline,
+      kind,
+      status: skipReason ? "skipped" : "pending",
+      skip_reason: skipReason,
+    };
+  });
+
+  const { data: inserted, error } = await client
+    .from("message_attachments")
+    .upsert(rows, { onConflict: "message_id,external_attachment_id", ignoreDuplicates: true })
+    .select("id, status");
+
+  if (error) {
+    throw new Error(`message_attachments insert failed: ${error.message}`);
+  }
+
+  const pending = (inserted || []).filter((row) => row.status === "pending");
+  if (pending.length > 0) {
+    const jobs: AttachmentJob[] = pending.map((row) => ({
+      job_type: "ATTACHMENT_FETCH",
+      workspace_id: params.workspaceId,
+      run_id: params.runId ?? null,
+      attachment_id: row.id,
+    }));
+    await queueSendBatch(client, ATTACHMENT_QUEUE, jobs as unknown as Record<string, unknown>[], 0);
+  }
+
+  await client
+    .from("messages")
+    .update({ has_attachments: true })
+    .eq("id", params.messageId);
+
+  return {
+    registered: (inserted || []).length,
+    enqueued: pending.length,
+    skipped: (inserted || []).length - pending.length,
+  };
+}
+
+/**
+ * Rebuilds messages.attachments (the list MessageTimeline renders) from the
+ * stored files, so concurrent workers converge on the same value.
+ */
+export async function syncMessageAttachments(client: SupabaseClient, messageId: string): Promise<void> {
+  const { data, error } = await client
+    .from("message_attachments")
+    .select("filename, storage_path, content_type, size_bytes")
+    .eq("message_id", messageId)
+    .not("storage_path", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`message_attachments lookup failed: ${error.message}`);
+  }
+
+  const { error: updateError } = await client
+    .from("messages")
+    .update({
+      has_attachments: true,
+      attachments: (data || []).map((row) => ({
+        name: row.filename,
+        path: row.storage_path,
+        type: row.content_type,
+        size: row.size_bytes,
+      })),
+    })
+    .eq("id", messageId);
+
+  if (updateError) {
+    throw new Error(`messages attachments update failed: ${updateError.message}`);
+  }
+}
+
+export interface AttachmentContext {
+  // Attachments still being fetched/analysed, so classification should wait
+  pending: boolean;
+  items: Array<{ filename: string; kind: string; text: string }>;
+}
+
+/**
+ * Attachment content for one message, for the classifier. Anything still
+ * in flight after BB_ATTACHMENT_WAIT_SECONDS is ignored so a slow or broken
+ * attachment never blocks triage.
+ */
+export async function loadAttachmentContext(
+  client: SupabaseClient,
+  params: { messageId: string; expectedCount: number; eventCreatedAt: string | null },
+): Promise<AttachmentContext> {
+  const { data, error } = await client
+    .from("message_attachments")
+    .select("filename, kind, status, extracted_text, created_at")
+    .eq("message_id", params.messageId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`message_attachments lookup failed: ${error.message}`);
+  }
+
+  const rows = data || [];
+  const waitMs = Number(getOptionalEnv("BB_ATTACHMENT_WAIT_SECONDS", "120")) * 1000;
+  const withinWait = (since: string | null) => !since || Date.now() - Date.parse(since) < waitMs;
+
+  // Rows are registered just after materialisation, so they can lag the classify job
+  const notRegisteredYet = rows.length === 0 && params.expectedCount > 0 && withinWait(params.eventCreatedAt);
+  const inFlight = rows.some((row) =>
+    (row.status === "pending" || row.status === "stored") && withinWait(row.created_at)
+  );
+
+  const items = rows
+    .filter((row) => row.status === "processed" && row.extracted_text)
+    .map((row) => ({
+      filename: row.filename,
+      kind: row.kind,
+      text: String(row.extracted_text).slice(0, 2000),
+    }));
+
+  return { pending: notRegisteredYet || inFlight, items };
+}
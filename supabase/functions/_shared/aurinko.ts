@@ -1,4 +1,5 @@
 import { fetchWithTimeout, getOptionalEnv, getRequiredEnv, parseRetryAfterSeconds, RateLimitError } from "./pipeline.ts";
+import { pickRuleHeaders } from "./triage-rules.ts";
 import type { Direction, UnifiedMessage } from "./types.ts";
 
 export interface AurinkoMessage {
@@ -117,6 +118,8 @@ export function aurinkoToUnifiedMessage(
   const sysLabels = Array.isArray(message.sysLabels)
     ? message.sysLabels.map((x) => String(x).toLowerCase())
     : [];
+  // Only the headers triage rules can test (List-Unsubscribe, Auto-Submitted, ...)
+  const headers = pickRuleHeaders(message.headers);
 
   return {
     external_id: String(message.id),
@@ -136,6 +139,7 @@ export function aurinkoToUnifiedMessage(
     metadata: {
       attachments: message.attachments || [],
       sysLabels,
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
     },
     raw_payload: message as Record<string, unknown>,
   };
@@ -211,3 +215,198 @@ export async function fetchAurinkoMessageById(params: {
 
   return payload as AurinkoMessage;
 }
+
+/**
+ * Deletes a message from the connected mailbox. Returns false when the
+ * provider no longer has it, which counts as deleted for erasure.
+ */
+export async function deleteAurinkoMessage(params: {
+  accessToken: string;
+  messageId: string;
+}): Promise<boolean> {
+  const baseUrl = getRequiredEnv("AURINKO_API_BASE_URL").replace(/\/$/, "");
+  const url = `${baseUrl}/v1/email/messages/${encodeURIComponent(params.messageId)}`;
+
+  const response = await fetchWithTimeout(url, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${params.accessToken}`,
+      Accept: "application/json",
+    },
+  }, 20_000);
+
+  if (response.status === 429) {
+    throw new RateLimitError("Aurinko rate limited", parseRetryAfterSeconds(response, 20));
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    return false;
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Aurinko message delete failed (${response.status}): ${text}`);
+  }
+
+  return true;
+}
+
+function decodeBase64(value: string): Uint8Array {
+  // Providers return both standard and URL-safe base64
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/").replace(/\s+/g, "");
+  const binary = atob(normalized);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Downloads one attachment's content. Aurinko returns JSON with base64
+ * `content`; a raw binary body is accepted as well.
+ */
+export async function fetchAurinkoAttachment(params: {
+  accessToken: string;
+  messageId: string;
+  attachmentId: string;
+}): Promise<Uint8Array> {
+  const baseUrl = getRequiredEnv("AURINKO_API_BASE_URL").replace(/\/$/, "");
+  const url = `${baseUrl}/v1/email/messages/${encodeURIComponent(params.messageId)}/attachments/${
+    encodeURIComponent(params.attachmentId)
+  }`;
+
+  const response = await fetchWithTimeout(url, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${params.accessToken}`,
+      Accept: "application/json",
+    },
+  }, 60_000);
+
+  if (response.status === 429) {
+    throw new RateLimitError("Aurinko rate limited", parseRetryAfterSeconds(response, 30));
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Aurinko attachment fetch failed (${response.status}): ${text}`);
+  }
+
+  if (!(response.headers.get("content-type") || "").includes("application/json")) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const payload = (await response.json()) as Record<string, unknown>;
+  const content = payload.content || payload.contentBytes;
+  if (typeof content !== "string") {
+    throw new Error("Aurinko attachment response has no content");
+  }
+
+  return decodeBase64(content);
+}
+
+export interface AurinkoSyncStart {
+  ready: boolean;
+  syncUpdatedToken: string | null;
+  syncDeletedToken: string | null;
+}
+
+export interface AurinkoSyncPage<T> {
+  records: T[];
+  nextPageToken: string | null;
+  nextDeltaToken: string | null;
+}
+
+// Delta tokens expire (HTTP 410); the caller must start a fresh sync
+export class AurinkoSyncTokenExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AurinkoSyncTokenExpiredError";
+  }
+}
+
+async function aurinkoSyncRequest(
+  accessToken: string,
+  path: string,
+  params: Record<string, string>,
+  method: "GET" | "POST",
+): Promise<Record<string, unknown>> {
+  const baseUrl = getRequiredEnv("AURINKO_API_BASE_URL").replace(/\/$/, "");
+  const url = new URL(`${baseUrl}${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  const response = await fetchWithTimeout(url.toString(), {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+    },
+  }, 25_000);
+
+  if (response.status === 429) {
+    throw new RateLimitError("Aurinko rate limited", parseRetryAfterSeconds(response, 30));
+  }
+
+  if (response.status === 410) {
+    throw new AurinkoSyncTokenExpiredError(`Aurinko sync token expired: ${await response.text()}`);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Aurinko sync ${path} failed (${response.status}): ${errorText}`);
+  }
+
+  return (await response.json()) as Record<string, unknown>;
+}
+
+/**
+ * Starts (or resumes) an Aurinko email sync and returns the initial delta
+ * tokens. Aurinko prepares the sync asynchronously, so callers must retry
+ * later while `ready` is false.
+ */
+export async function startAurinkoSync(params: {
+  accessToken: string;
+  daysWithin: number;
+}): Promise<AurinkoSyncStart> {
+  const raw = await aurinkoSyncRequest(params.accessToken, "/v1/email/sync", {
+    daysWithin: String(params.daysWithin),
+  }, "POST");
+
+  return {
+    ready: raw.ready === true,
+    syncUpdatedToken: (raw.syncUpdatedToken || null) as string | null,
+    syncDeletedToken: (raw.syncDeletedToken || null) as string | null,
+  };
+}
+
+/**
+ * One page of changes since a delta token. Pass `deltaToken` for the first
+ * page and `pageToken` for the rest; `nextDeltaToken` only arrives on the
+ * last page and is what the next sync starts from.
+ */
+export async function fetchAurinkoSyncPage<T = AurinkoMessage>(params: {
+  accessToken: string;
+  kind: "updated" | "deleted";
+  deltaToken?: string | null;
+  pageToken?: string | null;
+}): Promise<AurinkoSyncPage<T>> {
+  const query: Record<string, string> = {};
+  if (params.pageToken) {
+    query.pageToken = params.pageToken;
+  } else if (params.deltaToken) {
+    query.deltaToken = params.deltaToken;
+  } else {
+    throw new Error("fetchAurinkoSyncPage needs a deltaToken or pageToken");
+  }
+
+  const raw = await aurinkoSyncRequest(params.accessToken, `/v1/email/sync/${params.kind}`, query, "GET");
+
+  return {
+    records: (raw.records || []) as T[],
+    nextPageToken: (raw.nextPageToken || null) as string | null,
+    nextDeltaToken: (raw.nextDeltaToken || null) as string | null,
+  };
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export interface BusinessHours {
+  timezone: string;
+  // Minutes since local midnight
+  startMinutes: number;
+  endMinutes: number;
+  // 0 = Sunday … 6 = Saturday, matching workspaces.business_days ({1,2,3,4,5} = Mon–Fri)
+  days: number[];
+}
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  timezone: "Europe/London",
+  startMinutes: 9 * 60,
+  endMinutes: 17 * 60,
+  days: [1, 2, 3, 4, 5],
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function parseTimeToMinutes(value: unknown, fallback: number): number {
+  const match = String(value || "").match(/^(\d{1,2}):(\d{2})/);
+  if (!match) {
+    return fallback;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function businessHoursFromWorkspace(row: Record<string, unknown> | null | undefined): BusinessHours {
+  if (!row) {
+    return DEFAULT_BUSINESS_HOURS;
+  }
+
+  const days = Array.isArray(row.business_days)
+    ? (row.business_days as unknown[]).map(Number).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    : DEFAULT_BUSINESS_HOURS.days;
+
+  return {
+    timezone: String(row.timezone || "").trim() || DEFAULT_BUSINESS_HOURS.timezone,
+    startMinutes: parseTimeToMinutes(row.business_hours_start, DEFAULT_BUSINESS_HOURS.startMinutes),
+    endMinutes: parseTimeToMinutes(row.business_hours_end, DEFAULT_BUSINESS_HOURS.endMinutes),
+    days: days.length > 0 ? days : DEFAULT_BUSINESS_HOURS.days,
+  };
+}
+
+export async function loadBusinessHours(client: SupabaseClient, workspaceId: string): Promise<BusinessHours> {
+  const { data, error } = await client
+    .from("workspaces")
+    .select("timezone, business_hours_start, business_hours_end, business_days")
+    .eq("id", workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("workspaces business hours load failed:", error.message);
+  }
+
+  return businessHoursFromWorkspace(data as Record<string, unknown> | null);
+}
+
+/**
+ * Wall-clock parts of an instant in the workspace timezone.
+ */
+export function localParts(date: Date, timezone: string): { day: number; minutes: number; isoDate: string } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  return {
+    day: WEEKDAYS.indexOf(get("weekday")),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+    isoDate: `${get("year")}-${get("month")}-${get("day")}`,
+  };
+}
+
+export function isWithinBusinessHours(
+  date: Date,
+  hours: BusinessHours,
+  closedDates: Set<string> = new Set(),
+): boolean {
+  const local = localParts(date, hours.timezone);
+  if (closedDates.has(local.isoDate) || !hours.days.includes(local.day)) {
+    return false;
+  }
+  return local.minutes >= hours.startMinutes && local.minutes < hours.endMinutes;
+}
+
+/**
+ * Opening time of the next business day: today's opening if it is still
+ * ahead, otherwise the first open day after today that is not in
+ * closedDates (local ISO dates).
+ */
+export function nextBusinessOpening(
+  after: Date,
+  hours: BusinessHours,
+  closedDates: Set<string> = new Set(),
+): Date {
+  const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60_000);
+  let cursor = new Date(after);
+  cursor.setUTCSeconds(0, 0);
+
+  for (let step = 0; step < 60 && hours.days.length > 0; step++) {
+    const local = localParts(cursor, hours.timezone);
+    const openDay = hours.days.includes(local.day) && !closedDates.has(local.isoDate);
+
+    if (openDay && local.minutes < hours.startMinutes) {
+      const opening = addMinutes(cursor, hours.startMinutes - local.minutes);
+      // A DST change before opening lands an hour off
+      const drift = hours.startMinutes - localParts(opening, hours.timezone).minutes;
+      return Math.abs(drift) <= 120 ? addMinutes(opening, drift) : opening;
+    }
+
+    // Local midnight of the following day
+    cursor = addMinutes(cursor, 24 * 60 - local.minutes);
+  }
+
+  return addMinutes(after, 24 * 60);
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type SendPurpose = "customer_service" | "marketing";
+export type ConsentDecision = "allow" | "warn" | "block";
+export type ConsentState = "granted" | "withdrawn" | "none";
+
+export interface ConsentCheck {
+  decision: ConsentDecision;
+  reason: string | null;
+  channel: string;
+  purpose: SendPurpose;
+  // Latest record per purpose on the channel (or the 'all' channel)
+  service: ConsentState;
+  marketing: ConsentState;
+}
+
+export class ConsentError extends Error {
+  readonly status: number;
+  readonly check: ConsentCheck;
+
+  constructor(check: ConsentCheck) {
+    super(check.reason || "Consent check failed");
+    // 409 can be retried with acknowledge_consent_warning, 403 cannot
+    this.status = check.decision === "warn" ? 409 : 403;
+    this.check = check;
+    this.name = "ConsentError";
+  }
+}
+
+interface ConsentRow {
+  consent_given: boolean | null;
+  withdrawn_date: string | null;
+  purpose: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// Channels where an opt-out is a carrier/regulatory stop, not just a preference
+const HARD_OPT_OUT_CHANNELS = new Set(["sms", "whatsapp"]);
+
+export function normalizeSendPurpose(value: unknown): SendPurpose {
+  return value === "marketing" ? "marketing" : "customer_service";
+}
+
+function latestState(rows: ConsentRow[]): ConsentState {
+  const latest = [...rows].sort((a, b) =>
+    String(b.updated_at || b.created_at || "").localeCompare(String(a.updated_at || a.created_at || ""))
+  )[0];
+  if (!latest) {
+    return "none";
+  }
+  if (latest.withdrawn_date) {
+    return "withdrawn";
+  }
+  return latest.consent_given ? "granted" : "none";
+}
+
+export async function evaluateSendConsent(
+  client: SupabaseClient,
+  params: { workspaceId: string; customerId: string; channel: string; purpose: SendPurpose },
+): Promise<ConsentCheck> {
+  const { workspaceId, customerId, channel, purpose } = params;
+
+  // Read on every send so a withdrawal applies to the very next message
+  const { data: rows, error } = await client
+    .from("customer_consents")
+    .select("consent_given, withdrawn_date, purpose, created_at, updated_at")
+    .eq("customer_id", customerId)
+    .in("channel", [channel, "all"]);
+  if (error) {
+    throw new Error(`customer_consents lookup failed: ${error.message}`);
+  }
+
+  const consents = (rows || []) as ConsentRow[];
+  const service = latestState(consents.filter((row) => (row.purpose || "customer_service") !== "marketing"));
+  const marketing = latestState(consents.filter((row) => row.purpose === "marketing"));
+  const result: ConsentCheck = { decision: "allow", reason: null, channel, purpose, service, marketing };
+
+  if (service === "withdrawn") {
+    const hard = HARD_OPT_OUT_CHANNELS.has(channel) || purpose === "marketing";
+    return {
+      ...result,
+      decision: hard ? "block" : "warn",
+      reason: hard
+        ? `The customer has opted out of ${channel} messages`
+        : `The customer has withdrawn consent for ${channel}. Only send if this reply is needed to handle their request.`,
+    };
+  }
+
+  if (purpose !== "marketing" || marketing === "granted") {
+    return result;
+  }
+
+  if (marketing === "withdrawn") {
+    return { ...result, decision: "block", reason: `The customer has withdrawn marketing consent for ${channel}` };
+  }
+
+  const { data: settings, error: settingsError } = await client
+    .from("workspace_gdpr_settings")
+    .select("marketing_consent_mode")
+    .eq("workspace_id", workspaceId)
+    .maybeSingle();
+  if (settingsError) {
+    throw new Error(`workspace_gdpr_settings lookup failed: ${settingsError.message}`);
+  }
+
+  const mode = settings?.marketing_consent_mode === "warn" ? "warn" : "block";
+  return {
+    ...result,
+    decision: mode,
+    reason: `No marketing consent on record for ${channel}`,
+  };
+}
+
+/** Throws ConsentError unless the send may go ahead; a warning passes once acknowledged. */
+export async function assertSendConsent(
+  client: SupabaseClient,
+  params: { workspaceId: string; customerId: string; channel: string; purpose: SendPurpose; acknowledged?: boolean },
+): Promise<ConsentCheck> {
+  const check = await evaluateSendConsent(client, params);
+  if (check.decision === "block" || (check.decision === "warn" && !params.acknowledged)) {
+    throw new ConsentError(check);
+  }
+  return check;
+}
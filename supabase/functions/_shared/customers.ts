@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// Merges can chain (A into B, then B into C); bounded in case of a bad cycle
+const MAX_MERGE_HOPS = 5;
+
+type CustomerRow = Record<string, unknown> & { id: string; merged_into_id: string | null };
+
+/**
+ * Finds a customer by email or phone and follows merged_into_id to the
+ * surviving customer. After a merge the loser's identifiers may only exist on
+ * the merged row, so lookups resolve through it instead of excluding it.
+ */
+export async function findCustomerByIdentifier(
+  client: SupabaseClient,
+  params: {
+    identifier: string;
+    workspaceId?: string | null;
+    columns?: Array<"email" | "phone">;
+    select?: string;
+  },
+): Promise<CustomerRow | null> {
+  const select = `${params.select || "id"}, merged_into_id`;
+
+  for (const column of params.columns || ["email", "phone"]) {
+    let query = client
+      .from("customers")
+      .select(select)
+      .eq(column, params.identifier);
+    if (params.workspaceId) {
+      query = query.eq("workspace_id", params.workspaceId);
+    }
+
+    // Prefer a live row when both the survivor and a merged row carry the identifier
+    const { data, error } = await query
+      .order("merged_into_id", { ascending: true, nullsFirst: true })
+      .limit(1);
+    if (error) {
+      throw new Error(`customers lookup failed: ${error.message}`);
+    }
+
+    let row = (data?.[0] ?? null) as CustomerRow | null;
+    if (!row) {
+      continue;
+    }
+
+    for (let hop = 0; row.merged_into_id && hop < MAX_MERGE_HOPS; hop += 1) {
+      const { data: survivor, error: survivorError } = await client
+        .from("customers")
+        .select(select)
+        .eq("id", row.merged_into_id)
+        .maybeSingle();
+      if (survivorError) {
+        throw new Error(`customers lookup failed: ${survivorError.message}`);
+      }
+      if (!survivor) {
+        break;
+      }
+      row = survivor as unknown as CustomerRow;
+    }
+
+    return row;
+  }
+
+  return null;
+}
@@ -0,0 +1,303 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import {
+  type AurinkoMessage,
+  AurinkoSyncTokenExpiredError,
+  aurinkoToUnifiedMessage,
+  fetchAurinkoSyncPage,
+  inferDirectionFromOwner,
+  startAurinkoSync,
+} from "./aurinko.ts";
+import { auditJob, getOptionalEnv, nowIso, queueDelete, queueSend, RateLimitError } from "./pipeline.ts";
+import type { DeltaSyncJob, QueueRecord } from "./types.ts";
+
+const QUEUE_NAME = "bb_import_jobs";
+const NOT_READY_RETRY_SECONDS = 30;
+
+// Messages in these folders count as deleted for reconciliation; drafts are never ingested
+const DELETED_LABELS = new Set(["trash", "deleted"]);
+const SKIPPED_LABELS = new Set(["draft", "drafts"]);
+
+interface DeltaSyncConfig {
+  id: string;
+  workspace_id: string;
+  email_address: string;
+  aliases: string[] | null;
+  delta_updated_token: string | null;
+  delta_deleted_token: string | null;
+}
+
+function labelsOf(message: AurinkoMessage): Set<string> {
+  return new Set(
+    (Array.isArray(message.sysLabels) ? message.sysLabels : []).map((label) => String(label).toLowerCase()),
+  );
+}
+
+async function updateConfig(client: SupabaseClient, configId: string, patch: Record<string, unknown>) {
+  const { error } = await client
+    .from("email_provider_configs")
+    .update({ ...patch, updated_at: nowIso() })
+    .eq("id", configId);
+
+  if (error) {
+    throw new Error(`Failed to update email_provider_configs ${configId}: ${error.message}`);
+  }
+}
+
+async function reconcileDeletions(client: SupabaseClient, config: DeltaSyncConfig, externalIds: string[]) {
+  if (externalIds.length === 0) {
+    return { events_marked: 0, conversations_resolved: 0 };
+  }
+
+  const { data, error } = await client.rpc("bb_reconcile_provider_deletions", {
+    p_workspace_id: config.workspace_id,
+    p_config_id: config.id,
+    p_external_ids: externalIds,
+  });
+
+  if (error) {
+    throw new Error(`bb_reconcile_provider_deletions failed: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    events_marked: Number(row?.events_marked || 0),
+    conversations_resolved: Number(row?.conversations_resolved || 0),
+  };
+}
+
+/**
+ * Ingests new and changed messages (the upsert refreshes read state on
+ * existing events) and reconciles messages that were moved to trash.
+ */
+async function applyUpdatedMessages(client: SupabaseClient, config: DeltaSyncConfig, messages: AurinkoMessage[]) {
+  const ownerEmail = String(config.email_address || "").trim().toLowerCase();
+  const aliases = (config.aliases || []).map((alias) => String(alias).trim().toLowerCase()).filter(Boolean);
+
+  const trashed: string[] = [];
+  const live: AurinkoMessage[] = [];
+  for (const message of messages) {
+    const labels = labelsOf(message);
+    if ([...labels].some((label) => DELETED_LABELS.has(label))) {
+      trashed.push(String(message.id));
+    } else if (![...labels].some((label) => SKIPPED_LABELS.has(label))) {
+      live.push(message);
+    }
+  }
+
+  let ingested = 0;
+  if (live.length > 0) {
+    const unified = live.map((message) => aurinkoToUnifiedMessage({
+      message,
+      channel: "email",
+      direction: inferDirectionFromOwner(message, ownerEmail, aliases),
+      defaultToIdentifier: ownerEmail,
+    }));
+
+    const { error: ingestError } = await client.rpc("bb_ingest_unified_messages", {
+      p_workspace_id: config.workspace_id,
+      p_config_id: config.id,
+      p_run_id: null,
+      p_channel: "email",
+      p_messages: unified,
+    });
+
+    if (ingestError) {
+      throw new Error(`bb_ingest_unified_messages failed: ${ingestError.message}`);
+    }
+    ingested = unified.length;
+
+    // Read elsewhere (e.g. on a phone): move untouched conversations out of "new", as aurinko-webhook does
+    const readIds = unified.filter((message) => message.is_read).map((message) => message.external_id);
+    if (readIds.length > 0) {
+      const { data: readEvents } = await client
+        .from("message_events")
+        .select("materialized_conversation_id")
+        .eq("workspace_id", config.workspace_id)
+        .eq("config_id", config.id)
+        .in("external_id", readIds)
+        .not("materialized_conversation_id", "is", null);
+
+      const conversationIds = Array.from(new Set((readEvents || []).map((event) => event.materialized_conversation_id)));
+      if (conversationIds.length > 0) {
+        await client
+          .from("conversations")
+          .update({ status: "open", updated_at: nowIso() })
+          .in("id", conversationIds)
+          .eq("status", "new");
+      }
+    }
+  }
+
+  const reconciled = await reconcileDeletions(client, config, trashed);
+  return { ingested, trashed: trashed.length, ...reconciled };
+}
+
+/**
+ * Processes one DELTA_SYNC page. The job walks the "updated" stream, then the
+ * "deleted" stream, one page per job, and stores each stream's
+ * nextDeltaToken on the config row once its last page is applied. Errors are
+ * recorded on the config and rethrown so the worker's retry/DLQ path applies.
+ */
+export async function processDeltaSyncJob(
+  client: SupabaseClient,
+  record: QueueRecord<DeltaSyncJob>,
+): Promise<Record<string, unknown>> {
+  const job = record.message;
+
+  const { data: config, error: configError } = await client
+    .from("email_provider_configs")
+    .select("id, workspace_id, email_address, aliases, delta_updated_token, delta_deleted_token")
+    .eq("id", job.config_id)
+    .eq("workspace_id", job.workspace_id)
+    .maybeSingle();
+
+  if (configError) {
+    throw new Error(`email_provider_configs lookup failed: ${configError.message}`);
+  }
+
+  if (!config) {
+    // Mailbox was disconnected since the job was enqueued
+    await queueDelete(client, QUEUE_NAME, record.msg_id);
+    await auditJob(client, {
+      workspaceId: job.workspace_id,
+      queueName: QUEUE_NAME,
+      jobPayload: job as unknown as Record<string, unknown>,
+      outcome: "discarded",
+      error: "Email provider config no longer exists",
+      attempts: record.read_ct,
+    });
+    return { skipped: "config_missing" };
+  }
+
+  const typedConfig = config as DeltaSyncConfig;
+
+  try {
+    // Tokens are stored encrypted; only the RPC returns the usable value
+    const { data: token, error: tokenError } = await client.rpc("get_decrypted_access_token", {
+      p_config_id: typedConfig.id,
+    });
+    if (tokenError) {
+      throw new Error(`access token decryption failed: ${tokenError.message}`);
+    }
+
+    const accessToken = String(token || "").trim();
+    if (!accessToken) {
+      throw new Error("Missing Aurinko access token for provider config");
+    }
+
+    if (!typedConfig.delta_updated_token || !typedConfig.delta_deleted_token) {
+      const start = await startAurinkoSync({
+        accessToken,
+        daysWithin: Number(getOptionalEnv("BB_DELTA_SYNC_DAYS", "3")),
+      });
+
+      if (!start.ready || !start.syncUpdatedToken || !start.syncDeletedToken) {
+        await queueSend(client, QUEUE_NAME, job as unknown as Record<string, unknown>, NOT_READY_RETRY_SECONDS);
+        await queueDelete(client, QUEUE_NAME, record.msg_id);
+        await auditJob(client, {
+          workspaceId: job.workspace_id,
+          queueName: QUEUE_NAME,
+          jobPayload: job as unknown as Record<string, unknown>,
+          outcome: "requeued",
+          error: `sync_not_ready delay=${NOT_READY_RETRY_SECONDS}`,
+          attempts: record.read_ct,
+        });
+        return { skipped: "sync_not_ready" };
+      }
+
+      typedConfig.delta_updated_token = start.syncUpdatedToken;
+      typedConfig.delta_deleted_token = start.syncDeletedToken;
+      await updateConfig(client, typedConfig.id, {
+        delta_updated_token: start.syncUpdatedToken,
+        delta_deleted_token: start.syncDeletedToken,
+      });
+    }
+
+    let summary: Record<string, unknown>;
+    let nextJob: DeltaSyncJob | null = null;
+    const pages = Math.max(0, Math.floor(Number(job.pages ?? 0))) + 1;
+
+    if (job.phase === "updated") {
+      const page = await fetchAurinkoSyncPage<AurinkoMessage>({
+        accessToken,
+        kind: "updated",
+        deltaToken: typedConfig.delta_updated_token,
+        pageToken: job.pageToken || null,
+      });
+      summary = await applyUpdatedMessages(client, typedConfig, page.records);
+
+      if (page.nextPageToken) {
+        nextJob = { ...job, pageToken: page.nextPageToken, pages };
+      } else {
+        if (page.nextDeltaToken) {
+          await updateConfig(client, typedConfig.id, { delta_updated_token: page.nextDeltaToken });
+        }
+        nextJob = { ...job, phase: "deleted", pageToken: null, pages };
+      }
+    } else {
+      const page = await fetchAurinkoSyncPage<{ id: string }>({
+        accessToken,
+        kind: "deleted",
+        deltaToken: typedConfig.delta_deleted_token,
+        pageToken: job.pageToken || null,
+      });
+      summary = await reconcileDeletions(
+        client,
+        typedConfig,
+        page.records.map((item) => String(item.id)).filter(Boolean),
+      );
+
+      if (page.nextPageToken) {
+        nextJob = { ...job, pageToken: page.nextPageToken, pages };
+      } else {
+        await updateConfig(client, typedConfig.id, {
+          ...(page.nextDeltaToken ? { delta_deleted_token: page.nextDeltaToken } : {}),
+          delta_synced_at: nowIso(),
+          delta_sync_error: null,
+        });
+      }
+    }
+
+    if (nextJob) {
+      await queueSend(client, QUEUE_NAME, nextJob as unknown as Record<string, unknown>, 0);
+    }
+
+    await queueDelete(client, QUEUE_NAME, record.msg_id);
+    await auditJob(client, {
+      workspaceId: job.workspace_id,
+      queueName: QUEUE_NAME,
+      jobPayload: { ...job, ...summary } as unknown as Record<string, unknown>,
+      outcome: "processed",
+      attempts: record.read_ct,
+    });
+
+    return { phase: job.phase, pages, ...summary };
+  } catch (error) {
+    if (error instanceof AurinkoSyncTokenExpiredError) {
+      // Drop both tokens and start over; the next sync re-reads the BB_DELTA_SYNC_DAYS window
+      await updateConfig(client, typedConfig.id, {
+        delta_updated_token: null,
+        delta_deleted_token: null,
+        delta_sync_error: error.message,
+      });
+      await queueSend(client, QUEUE_NAME, { ...job, phase: "updated", pageToken: null, pages: 0 }, 0);
+      await queueDelete(client, QUEUE_NAME, record.msg_id);
+      await auditJob(client, {
+        workspaceId: job.workspace_id,
+        queueName: QUEUE_NAME,
+        jobPayload: job as unknown as Record<string, unknown>,
+        outcome: "requeued",
+        error: error.message,
+        attempts: record.read_ct,
+      });
+      return { skipped: "token_expired" };
+    }
+
+    if (!(error instanceof RateLimitError)) {
+      await updateConfig(client, typedConfig.id, {
+        delta_sync_error: error instanceof Error ? error.message : String(error),
+      }).catch((updateError) => console.error("delta_sync_error update failed", updateError));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,329 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { localParts } from "./business-hours.ts";
+import { resolveOutboundProvider } from "./outbound.ts";
+import { fetchWithTimeout, getOptionalEnv, getRequiredEnv } from "./pipeline.ts";
+
+export interface DigestItem {
+  conversation_id: string;
+  title: string;
+  customer: string | null;
+  detail: string | null;
+}
+
+export interface Digest {
+  workspace_id: string;
+  period_start: string;
+  period_end: string;
+  act_now: { count: number; items: DigestItem[] };
+  sla_risks: { breached: number; warning: number; items: DigestItem[] };
+  auto_handled: number;
+  drafts_awaiting: number;
+}
+
+export type DigestChannel = "email" | "sms";
+
+export interface DigestMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestSendResult {
+  provider: string;
+  external_id: string;
+}
+
+export interface DigestSender {
+  readonly name: string;
+  readonly channel: DigestChannel;
+  send(message: DigestMessage): Promise<DigestSendResult>;
+}
+
+const OPEN_STATUSES = ["new", "open", "waiting_internal", "ai_handling", "escalated"];
+const ITEM_LIMIT = 5;
+const SMS_MAX_CHARS = 320;
+
+type ConversationRow = {
+  id: string;
+  title: string | null;
+  sla_due_at?: string | null;
+  sla_status?: string | null;
+  customers: { name?: string | null; email?: string | null } | null;
+};
+
+function toItem(row: ConversationRow, detail: string | null = null): DigestItem {
+  return {
+    conversation_id: row.id,
+    title: row.title?.trim() || "(no subject)",
+    customer: row.customers?.name || row.customers?.email || null,
+    detail,
+  };
+}
+
+export async function buildDigest(
+  client: SupabaseClient,
+  workspaceId: string,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<Digest> {
+  const since = periodStart.toISOString();
+  const until = periodEnd.toISOString();
+
+  const [actNow, slaRisks, autoHandled, drafts] = await Promise.all([
+    client
+      .from("conversations")
+      .select("id, title, customers(name, email)", { count: "exact" })
+      .eq("workspace_id", workspaceId)
+      .eq("decision_bucket", "act_now")
+      .in("status", OPEN_STATUSES)
+      .gte("created_at", since)
+      .lt("created_at", until)
+      .order("created_at", { ascending: false })
+      .limit(ITEM_LIMIT),
+    client
+      .from("conversations")
+      .select("id, title, sla_due_at, sla_status, customers(name, email)")
+      .eq("workspace_id", workspaceId)
+      .in("sla_status", ["warning", "breached"])
+      .in("status", OPEN_STATUSES)
+      .order("sla_due_at", { ascending: true })
+      .limit(200),
+    client
+      .from("conversations")
+      .select("id", { count: "exact", head: true })
+      .eq("workspace_id", workspaceId)
+      .eq("decision_bucket", "auto_handled")
+      .gte("auto_handled_at", since)
+      .lt("auto_handled_at", until),
+    // Same filter as the Drafts view
+    client
+      .from("conversations")
+      .select("id", { count: "exact", head: true })
+      .eq("workspace_id", workspaceId)
+      .not("ai_draft_response", "is", null)
+      .is("final_response", null)
+      .in("status", ["new", "open", "ai_handling"])
+      .eq("requires_reply", true),
+  ]);
+
+  for (const result of [actNow, slaRisks, autoHandled, drafts]) {
+    if (result.error) {
+      throw new Error(`digest query failed: ${result.error.message}`);
+    }
+  }
+
+  const risks = (slaRisks.data || []) as unknown as ConversationRow[];
+  return {
+    workspace_id: workspaceId,
+    period_start: since,
+    period_end: until,
+    act_now: {
+      count: actNow.count ?? actNow.data?.length ?? 0,
+      items: ((actNow.data || []) as unknown as ConversationRow[]).map((row) => toItem(row)),
+    },
+    sla_risks: {
+      breached: risks.filter((row) => row.sla_status === "breached").length,
+      warning: risks.filter((row) => row.sla_status === "warning").length,
+      items: risks.slice(0, ITEM_LIMIT).map((row) =>
+        toItem(row, row.sla_status === "breached" ? "overdue" : "due soon")
+      ),
+    },
+    auto_handled: autoHandled.count ?? 0,
+    drafts_awaiting: drafts.count ?? 0,
+  };
+}
+
+export function isEmptyDigest(digest: Digest): boolean {
+  return digest.act_now.count === 0
+    && digest.sla_risks.breached + digest.sla_risks.warning === 0
+    && digest.auto_handled === 0
+    && digest.drafts_awaiting === 0;
+}
+
+export function digestTitle(digest: Digest): string {
+  const urgent = digest.act_now.count + digest.sla_risks.breached;
+  return urgent > 0
+    ? `Inbox summary: ${urgent} need${urgent === 1 ? "s" : ""} you now`
+    : "Inbox summary: nothing urgent";
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function itemLine(item: DigestItem): string {
+  const who = item.customer ? ` (${item.customer})` : "";
+  const detail = item.detail ? ` - ${item.detail}` : "";
+  return `- ${item.title}${who}${detail}`;
+}
+
+export function renderDigestText(digest: Digest, appUrl = ""): string {
+  const lines: string[] = [];
+
+  lines.push(`${plural(digest.act_now.count, "new urgent conversation")}`);
+  lines.push(...digest.act_now.items.map(itemLine));
+
+  const riskCount = digest.sla_risks.breached + digest.sla_risks.warning;
+  lines.push("", `${plural(riskCount, "SLA risk")} (${digest.sla_risks.breached} overdue, ${digest.sla_risks.warning} due soon)`);
+  lines.push(...digest.sla_risks.items.map(itemLine));
+
+  lines.push("", `${plural(digest.drafts_awaiting, "draft")} waiting for your approval`);
+  lines.push(`${plural(digest.auto_handled, "conversation")} handled automatically`);
+
+  if (appUrl) {
+    lines.push("", `Open BizzyBee: ${appUrl.replace(/\/$/, "")}/needs-action`);
+  }
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderDigestHtml(digest: Digest, appUrl = ""): string {
+  const base = appUrl.replace(/\/$/, "");
+  const list = (items: DigestItem[]) =>
+    items.length === 0 ? "" : `<ul>${
+      items.map((item) => {
+        const label = escapeHtml(item.title);
+        const title = base ? `<a href="${base}/conversation/${item.conversation_id}">${label}</a>` : label;
+        const who = item.customer ? ` <span style="color:#6b7280">${escapeHtml(item.customer)}</span>` : "";
+        const detail = item.detail ? ` &middot; ${escapeHtml(item.detail)}` : "";
+        return `<li>${title}${who}${detail}</li>`;
+      }).join("")
+    }</ul>`;
+
+  const riskCount = digest.sla_risks.breached + digest.sla_risks.warning;
+  return `
+    <h2>${escapeHtml(digestTitle(digest))}</h2>
+    <h3>${plural(digest.act_now.count, "new urgent conversation")}</h3>
+    ${list(digest.act_now.items)}
+    <h3>${plural(riskCount, "SLA risk")}</h3>
+    <p>${digest.sla_risks.breached} overdue, ${digest.sla_risks.warning} due soon</p>
+    ${list(digest.sla_risks.items)}
+    <p>${plural(digest.drafts_awaiting, "draft")} waiting for your approval<br />
+    ${plural(digest.auto_handled, "conversation")} handled automatically</p>
+    ${base ? `<p><a href="${base}/needs-action">Open BizzyBee</a></p>` : ""}
+  `;
+}
+
+export function renderDigestSms(digest: Digest, appUrl = ""): string {
+  const parts = [
+    `BizzyBee: ${digest.act_now.count} urgent`,
+    `${digest.sla_risks.breached} overdue`,
+    `${digest.sla_risks.warning} due soon`,
+    `${digest.drafts_awaiting} drafts to approve`,
+    `${digest.auto_handled} auto-handled`,
+  ];
+  const text = `${parts.join(", ")}.${appUrl ? ` ${appUrl.replace(/\/$/, "")}/needs-action` : ""}`;
+  return text.slice(0, SMS_MAX_CHARS);
+}
+
+export class PostmarkDigestSender implements DigestSender {
+  readonly name = "postmark";
+  readonly channel = "email" as const;
+
+  async send(message: DigestMessage): Promise<DigestSendResult> {
+    const response = await fetchWithTimeout("https://api.postmarkapp.com/email", {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "X-Postmark-Server-Token": getRequiredEnv("POSTMARK_API_KEY"),
+      },
+      body: JSON.stringify({
+        From: getOptionalEnv("BB_DIGEST_FROM_EMAIL", "noreply@bizzybee.ai"),
+        To: message.to,
+        Subject: message.subject,
+        TextBody: message.text,
+        HtmlBody: message.html,
+        MessageStream: "outbound",
+      }),
+    }, 15_000);
+
+    const raw = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!response.ok) {
+      throw new Error(`Postmark send failed (${response.status}): ${String(raw.Message || "unknown error")}`);
+    }
+    return { provider: this.name, external_id: String(raw.MessageID || "") };
+  }
+}
+
+// SMS goes through the same provider layer as customer replies (BB_OUTBOUND_PROVIDER_SMS)
+export class OutboundSmsDigestSender implements DigestSender {
+  readonly name = "outbound_sms";
+  readonly channel = "sms" as const;
+
+  async send(message: DigestMessage): Promise<DigestSendResult> {
+    const provider = resolveOutboundProvider("sms");
+    const result = await provider.send({ channel: "sms", to: message.to, body: message.text });
+    return { provider: result.provider, external_id: result.external_id };
+  }
+}
+
+/**
+ * Collects messages without delivering them. Used for dry runs and when
+ * BB_DIGEST_EMAIL_PROVIDER / BB_DIGEST_SMS_PROVIDER is "log".
+ */
+export class DryRunDigestSender implements DigestSender {
+  readonly name = "dry_run";
+  readonly sent: DigestMessage[] = [];
+
+  constructor(readonly channel: DigestChannel) {}
+
+  send(message: DigestMessage): Promise<DigestSendResult> {
+    this.sent.push(message);
+    console.log(`digest ${this.channel} (not sent)`, { to: message.to, subject: message.subject });
+    return Promise.resolve({ provider: this.name, external_id: `dry-run-${crypto.randomUUID()}` });
+  }
+}
+
+export function resolveDigestSender(channel: DigestChannel, dryRun = false): DigestSender {
+  if (dryRun) {
+    return new DryRunDigestSender(channel);
+  }
+
+  const selected = getOptionalEnv(`BB_DIGEST_${channel.toUpperCase()}_PROVIDER`).toLowerCase()
+    || (channel === "email" ? "postmark" : "outbound");
+
+  switch (selected) {
+    case "log":
+      return new DryRunDigestSender(channel);
+    case "postmark":
+      return new PostmarkDigestSender();
+    case "outbound":
+      if (channel !== "sms") {
+        throw new Error("outbound digest sender only supports sms");
+      }
+      return new OutboundSmsDigestSender();
+    default:
+      throw new Error(`Unknown digest ${channel} provider: ${selected}`);
+  }
+}
+
+/**
+ * Slot keys (local "YYYY-MM-DDTHH:MM") for summary times that fell within
+ * the last windowMinutes in the given timezone.
+ */
+export function dueSummarySlots(times: string[], timezone: string, now: Date, windowMinutes: number): string[] {
+  const local = localParts(now, timezone);
+  const due: string[] = [];
+
+  for (const time of times) {
+    const match = String(time).match(/^(\d{1,2}):(\d{2})/);
+    if (!match) {
+      continue;
+    }
+    const slotMinutes = Number(match[1]) * 60 + Number(match[2]);
+    if (local.minutes >= slotMinutes && local.minutes < slotMinutes + windowMinutes) {
+      due.push(`${local.isoDate}T${match[1].padStart(2, "0")}:${match[2]}`);
+    }
+  }
+
+  return due;
+}
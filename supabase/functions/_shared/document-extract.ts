@@ -0,0 +1,354 @@
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import mammoth from "https://esm.sh/mammoth@1.8.0";
+import * as XLSX from "https://esm.sh/xlsx@0.18.5";
+
+/**
+ * Text of one page (PDF), sheet (XLSX) or the whole file (everything else).
+ * Headings are normalised to markdown `#` lines so chunking can split on them.
+ */
+export interface ExtractedPage {
+  page: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  format: string;
+  pages: ExtractedPage[];
+  pageCount: number;
+}
+
+export interface DocumentChunk {
+  text: string;
+  page: number;
+  heading: string | null;
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+const TEXT_TYPES = new Set(["txt", "text", "plain"]);
+const MARKDOWN_TYPES = new Set(["md", "markdown"]);
+const HTML_TYPES = new Set(["html", "htm", "xhtml"]);
+const XLSX_TYPES = new Set(["xlsx", "xlsm", "xls", "ods"]);
+
+export function normalizeFileType(fileType: string | null | undefined, fileName = ""): string {
+  const raw = String(fileType || "").trim().toLowerCase();
+  const fromMime: Record<string, string> = {
+    "application/pdf": "pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+    "text/html": "html",
+    "text/markdown": "md",
+    "text/plain": "txt",
+    "text/csv": "csv",
+    "application/json": "json",
+  };
+  if (fromMime[raw]) {
+    return fromMime[raw];
+  }
+  if (raw && raw !== "unknown" && !raw.includes("/")) {
+    return raw.replace(/^\./, "");
+  }
+  return fileName.split(".").pop()?.toLowerCase() || raw;
+}
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", pound: "£", euro: "€" };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(Number(entity.slice(1)));
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Converts HTML to plain text, keeping h1–h6 as markdown headings and
+ * list items / table rows on their own lines.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|noscript|svg|head|nav|footer)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_m, level: string, inner: string) =>
+        `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]+>/g, "").trim()}\n\n`)
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<\/(td|th)>/gi, " | ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|section|article|tr|ul|ol|table|blockquote|pre)>/gi, "\n\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * PDFs carry no heading markup, so promote short standalone lines that look
+ * like section titles ("3.2 Cancellations", "PRICE LIST") to headings.
+ */
+function markPlainTextHeadings(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed.length < 3 || trimmed.length > 80 || /[.,;:]$/.test(trimmed)) {
+        return line;
+      }
+      const letters = trimmed.replace(/[^A-Za-z]/g, "");
+      const isAllCaps = letters.length >= 3 && letters === letters.toUpperCase();
+      const isNumbered = /^(\d+(\.\d+)*\.?|[IVX]+\.)\s+[A-Z]/.test(trimmed);
+      if (isAllCaps || isNumbered) {
+        const depth = isNumbered ? Math.min(3, (trimmed.match(/^\d+(\.\d+)*/)?.[0].split(".").length || 1) + 1) : 2;
+        return `${"#".repeat(depth)} ${trimmed}`;
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Rejects text that is mostly control or replacement characters, which is
+ * what decoding a binary file as UTF-8 produces.
+ */
+function assertReadableText(text: string, format: string): void {
+  const sample = text.slice(0, 5000);
+  if (!sample.trim()) {
+    return;
+  }
+  let garbage = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const code = sample.charCodeAt(i);
+    if (code === 0xfffd || code < 0x09 || (code > 0x0d && code < 0x20)) {
+      garbage++;
+    }
+  }
+  if (garbage / sample.length > 0.05) {
+    throw new UnsupportedDocumentError(`Could not extract readable text from ${format} file`);
+  }
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const pages = (text as string[]).map((pageText, index) => ({
+    page: index + 1,
+    text: markPlainTextHeadings(pageText.replace(/\r\n?/g, "\n")),
+  }));
+
+  if (pages.every((p) => !p.text.trim())) {
+    throw new UnsupportedDocumentError("PDF has no text layer (scanned image?)");
+  }
+
+  return { format: "pdf", pages, pageCount: totalPages };
+}
+
+async function extractDocx(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: bytes.buffer as ArrayBuffer });
+  return { format: "docx", pages: [{ page: 1, text: htmlToText(html) }], pageCount: 1 };
+}
+
+function extractSpreadsheet(bytes: Uint8Array, format: string): ExtractedDocument {
+  const workbook = XLSX.read(bytes, { type: "array" });
+  const pages = workbook.SheetNames.map((name, index) => {
+    const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false });
+    return { page: index + 1, text: `# ${name}\n\n${csv.trim()}` };
+  });
+  return { format, pages, pageCount: pages.length };
+}
+
+export async function extractDocument(bytes: Uint8Array, fileType: string): Promise<ExtractedDocument> {
+  const format = normalizeFileType(fileType);
+  const decode = () => new TextDecoder().decode(bytes);
+
+  if (format === "pdf") {
+    return await extractPdf(bytes);
+  }
+  if (format === "docx") {
+    return await extractDocx(bytes);
+  }
+  if (XLSX_TYPES.has(format)) {
+    return extractSpreadsheet(bytes, format);
+  }
+
+  let text: string;
+  if (HTML_TYPES.has(format)) {
+    text = htmlToText(decode());
+  } else if (MARKDOWN_TYPES.has(format) || format === "csv") {
+    text = decode();
+  } else if (TEXT_TYPES.has(format)) {
+    text = markPlainTextHeadings(decode());
+  } else if (format === "json") {
+    text = JSON.stringify(JSON.parse(decode()), null, 2);
+  } else {
+    throw new UnsupportedDocumentError(`Unsupported file type: ${format || "unknown"}`);
+  }
+
+  assertReadableText(text, format);
+  return { format, pages: [{ page: 1, text: text.replace(/\r\n?/g, "\n") }], pageCount: 1 };
+}
+
+export function documentText(doc: ExtractedDocument): string {
+  return doc.pages.map((p) => p.text).join("\n\n");
+}
+
+interface Block {
+  heading: string | null;
+  headingLevel: number;
+  text: string;
+  page: number;
+}
+
+function toBlocks(pages: ExtractedPage[]): Block[] {
+  const blocks: Block[] = [];
+  for (const { page, text } of pages) {
+    let paragraph: string[] = [];
+    const pushParagraph = () => {
+      const body = paragraph.join("\n").trim();
+      paragraph = [];
+      if (body) {
+        blocks.push({ heading: null, headingLevel: 0, text: body, page });
+      }
+    };
+
+    for (const line of text.split("\n")) {
+      const heading = line.trim().match(/^(#{1,6})\s+(.+)$/);
+      if (heading) {
+        pushParagraph();
+        blocks.push({ heading: heading[2].trim(), headingLevel: heading[1].length, text: "", page });
+      } else if (!line.trim()) {
+        pushParagraph();
+      } else {
+        paragraph.push(line);
+      }
+    }
+    pushParagraph();
+  }
+  return blocks;
+}
+
+function splitLong(text: string, maxChars: number, overlap: number): string[] {
+  if (text.length <= maxChars) {
+    return [text];
+  }
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      // Prefer to break at a sentence or line boundary in the last third of the window
+      const window = text.slice(start + Math.floor(maxChars * 0.66), end);
+      const boundary = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+      if (boundary > 0) {
+        end = start + Math.floor(maxChars * 0.66) + boundary + 1;
+      }
+    }
+    pieces.push(text.slice(start, end).trim());
+    if (end >= text.length) {
+      break;
+    }
+    // Start the overlap on a word boundary
+    const overlapStart = Math.max(end - overlap, start + 1);
+    const space = text.indexOf(" ", overlapStart);
+    start = space > 0 && space < end ? space + 1 : overlapStart;
+  }
+  return pieces;
+}
+
+/**
+ * Splits on headings first: each chunk starts at a section and is prefixed
+ * with its heading path ("Terms > Cancellations") so the embedding keeps the
+ * context. Short sections are folded into the next one, and a piece still
+ * under minChars joins the chunk before it (or after it, at the start);
+ * nothing is dropped. Sections longer than maxChars are split on paragraphs,
+ * then sentences. Each chunk records the page its text starts on.
+ */
+export function chunkDocument(
+  doc: ExtractedDocument,
+  options: { maxChars?: number; overlap?: number; minChars?: number } = {},
+): DocumentChunk[] {
+  const maxChars = options.maxChars ?? 2000;
+  const overlap = options.overlap ?? 200;
+  const minChars = options.minChars ?? 50;
+
+  const chunks: DocumentChunk[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  let buffer: string[] = [];
+  let bufferPage = 1;
+  let bufferHeading: string | null = null;
+  // A too-short piece seen before any chunk exists, waiting to lead the next one
+  let carry: { text: string; page: number } | null = null;
+
+  const currentPath = () => headingStack.map((h) => h.text).join(" > ") || null;
+
+  const flush = () => {
+    const body = buffer.join("\n\n").trim();
+    buffer = [];
+    if (!body) {
+      return;
+    }
+    const prefix = bufferHeading ? `${bufferHeading}\n\n` : "";
+    for (const piece of splitLong(body, Math.max(200, maxChars - prefix.length), overlap)) {
+      const text = `${prefix}${piece}`;
+      const previous = chunks[chunks.length - 1];
+      if (text.trim().length >= minChars) {
+        chunks.push(carry
+          ? { text: `${carry.text}\n\n${text}`, page: carry.page, heading: bufferHeading }
+          : { text, page: bufferPage, heading: bufferHeading });
+        carry = null;
+      } else if (previous) {
+        // Too short to embed on its own; keep it with the chunk before it
+        previous.text = `${previous.text}\n\n${text}`;
+      } else {
+        carry = carry ? { text: `${carry.text}\n\n${text}`, page: carry.page } : { text, page: bufferPage };
+      }
+    }
+  };
+
+  for (const block of toBlocks(doc.pages)) {
+    if (block.heading) {
+      // Fold short sections into the next one instead of emitting tiny chunks
+      const pending = buffer.join("\n\n").length;
+      if (pending > 0 && pending < maxChars / 4) {
+        buffer.push(`${"#".repeat(block.headingLevel)} ${block.heading}`);
+      } else {
+        flush();
+      }
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.headingLevel) {
+        headingStack.pop();
+      }
+      headingStack.push({ level: block.headingLevel, text: block.heading });
+      if (buffer.length === 0) {
+        bufferHeading = currentPath();
+      }
+      continue;
+    }
+
+    const pending = buffer.join("\n\n").length;
+    if (pending > 0 && pending + block.text.length + 2 > maxChars) {
+      flush();
+    }
+    if (buffer.length === 0) {
+      bufferPage = block.page;
+      bufferHeading = currentPath();
+    }
+    buffer.push(block.text);
+  }
+  flush();
+
+  // The whole document was shorter than minChars
+  if (carry) {
+    chunks.push({ text: carry.text, page: carry.page, heading: null });
+  }
+
+  return chunks;
+}
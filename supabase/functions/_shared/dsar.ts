@@ -0,0 +1,384 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { strToU8, zipSync } from "https://esm.sh/fflate@0.8.2";
+import { ATTACHMENT_BUCKET } from "./attachments.ts";
+import { getOptionalEnv, getRequiredEnv } from "./pipeline.ts";
+
+export const DSAR_BUCKET = "dsar-exports";
+
+export type DsarSource = "dashboard" | "portal";
+
+export interface DsarExport {
+  id: string;
+  download_url: string;
+  expires_at: string;
+  size_bytes: number;
+  file_count: number;
+  attachments_skipped: number;
+}
+
+type Row = Record<string, unknown>;
+
+const CONVERSATION_COLUMNS = [
+  "id",
+  "title",
+  "channel",
+  "status",
+  "created_at",
+  "updated_at",
+  "resolved_at",
+  "category",
+  "priority",
+  "urgency",
+  "urgency_reason",
+  "decision_bucket",
+  "requires_reply",
+  "ai_sentiment",
+  "ai_confidence",
+  "ai_reasoning",
+  "triage_reasoning",
+  "summary_for_human",
+  "why_this_needs_you",
+  "extracted_entities",
+  "ai_draft_response",
+  "final_response",
+].join(", ");
+
+const MESSAGE_COLUMNS = "id, conversation_id, channel, direction, actor_type, actor_name, body, is_internal, created_at";
+
+const CONVERSATION_CSV_COLUMNS = [
+  "id",
+  "title",
+  "channel",
+  "status",
+  "category",
+  "decision_bucket",
+  "ai_sentiment",
+  "created_at",
+  "resolved_at",
+];
+const MESSAGE_CSV_COLUMNS = ["id", "conversation_id", "channel", "direction", "actor_type", "is_internal", "created_at", "body"];
+const CONSENT_CSV_COLUMNS = ["channel", "purpose", "consent_given", "consent_method", "lawful_basis", "consent_date", "withdrawn_date"];
+const AUDIT_CSV_COLUMNS = ["created_at", "action", "user_id", "conversation_id"];
+
+function check(label: string, error: { message: string } | null) {
+  if (error) {
+    throw new Error(`${label} failed: ${error.message}`);
+  }
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Row[], columns: string[]): string {
+  return [columns.join(","), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(","))].join("\r\n");
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function safeFilename(name: string): string {
+  const printable = Array.from(name, (char) => (char.charCodeAt(0) < 32 ? "_" : char)).join("");
+  return printable.replace(/[\\/:*?"<>|]/g, "_").slice(0, 120) || "file";
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Everything held about one customer and the customers merged into it:
+ * profile, identities, conversations with messages and AI classification,
+ * attachments, consents, insights, deletion requests and the audit trail.
+ */
+async function collectSubjectData(client: SupabaseClient, workspaceId: string, customerId: string) {
+  const { data: customers, error } = await client
+    .from("customers")
+    .select("id, name, email, phone, address, tier, preferred_channel, notes, custom_fields, created_at, updated_at, merged_into_id")
+    .eq("workspace_id", workspaceId)
+    .or(`id.eq.${customerId},merged_into_id.eq.${customerId}`);
+  check("customers load", error);
+
+  const ids = (customers || []).map((c) => c.id as string);
+  if (ids.length === 0) {
+    return null;
+  }
+
+  const [conversations, identities, consents, insights, deletionRequests, auditTrail] = await Promise.all([
+    client.from("conversations").select(CONVERSATION_COLUMNS).eq("workspace_id", workspaceId).in("customer_id", ids)
+      .order("created_at", { ascending: true }),
+    client.from("customer_identities").select("identifier_type, identifier_value, verified, created_at").in("customer_id", ids),
+    client.from("customer_consents").select("*").in("customer_id", ids),
+    client.from("customer_insights").select("insight_type, insight_text, confidence, created_at").in("customer_id", ids),
+    client.from("data_deletion_requests").select("id, status, deletion_type, reason, requested_at, completed_at")
+      .in("customer_id", ids),
+    client.from("data_access_logs").select("created_at, action, user_id, conversation_id, metadata").in("customer_id", ids)
+      .order("created_at", { ascending: true }),
+  ]);
+  check("conversations load", conversations.error);
+  check("customer_identities load", identities.error);
+  check("customer_consents load", consents.error);
+  check("customer_insights load", insights.error);
+  check("data_deletion_requests load", deletionRequests.error);
+  check("data_access_logs load", auditTrail.error);
+
+  const conversationIds = ((conversations.data || []) as unknown as Row[]).map((c) => c.id as string);
+  let messages: Row[] = [];
+  let attachments: Row[] = [];
+  if (conversationIds.length > 0) {
+    const [messageResult, attachmentResult] = await Promise.all([
+      client.from("messages").select(MESSAGE_COLUMNS).in("conversation_id", conversationIds)
+        .order("created_at", { ascending: true }),
+      client.from("message_attachments").select("id, message_id, conversation_id, filename, content_type, size_bytes, storage_path")
+        .in("conversation_id", conversationIds),
+    ]);
+    check("messages load", messageResult.error);
+    check("message_attachments load", attachmentResult.error);
+    messages = (messageResult.data || []) as Row[];
+    attachments = (attachmentResult.data || []) as Row[];
+  }
+
+  return {
+    customers: (customers || []) as Row[],
+    identities: (identities.data || []) as Row[],
+    conversations: (conversations.data || []) as unknown as Row[],
+    messages,
+    attachments,
+    consents: (consents.data || []) as Row[],
+    insights: (insights.data || []) as Row[],
+    deletion_requests: (deletionRequests.data || []) as Row[],
+    audit_trail: (auditTrail.data || []) as Row[],
+  };
+}
+
+function renderSummaryHtml(data: NonNullable<Awaited<ReturnType<typeof collectSubjectData>>>, generatedAt: string): string {
+  const primary = data.customers.find((c) => !c.merged_into_id) ?? data.customers[0];
+  const messagesByConversation = new Map<string, Row[]>();
+  for (const message of data.messages) {
+    const list = messagesByConversation.get(message.conversation_id as string) ?? [];
+    list.push(message);
+    messagesByConversation.set(message.conversation_id as string, list);
+  }
+
+  const conversations = data.conversations.map((conversation) => {
+    const messages = (messagesByConversation.get(conversation.id as string) ?? []).map((message) => `
+      <div class="message ${escapeHtml(message.direction)}">
+        <div class="meta">${escapeHtml(message.direction === "inbound" ? "You" : message.actor_name || "Us")} · ${
+      escapeHtml(message.created_at)
+    }${message.is_internal ? " · internal note" : ""}</div>
+        <div>${escapeHtml(message.body).replace(/\n/g, "<br>")}</div>
+      </div>`).join("");
+    return `
+    <section>
+      <h3>${escapeHtml(conversation.title || "Conversation")}</h3>
+      <p class="meta">${escapeHtml(conversation.channel)} · ${escapeHtml(conversation.status)} · started ${
+      escapeHtml(conversation.created_at)
+    }${conversation.category ? ` · classified as ${escapeHtml(conversation.category)}` : ""}</p>
+      ${messages}
+    </section>`;
+  }).join("");
+
+  const consentRows = data.consents.map((consent) => `
+      <tr><td>${escapeHtml(consent.channel)}</td><td>${escapeHtml(consent.purpose)}</td><td>${
+    consent.consent_given ? "Given" : "Not given"
+  }</td><td>${escapeHtml(consent.withdrawn_date || "")}</td></tr>`).join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Your personal data</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, sans-serif; max-width: 820px; margin: 2rem auto; color: #111827; }
+  .meta { color: #6b7280; font-size: 12px; }
+  .message { border-left: 3px solid #e5e7eb; padding: 4px 10px; margin: 8px 0; }
+  .message.inbound { border-color: #3b82f6; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>Your personal data</h1>
+<p class="meta">Generated ${escapeHtml(generatedAt)}</p>
+<h2>Profile</h2>
+<table>
+  <tr><th>Name</th><td>${escapeHtml(primary?.name)}</td></tr>
+  <tr><th>Email</th><td>${escapeHtml(primary?.email)}</td></tr>
+  <tr><th>Phone</th><td>${escapeHtml(primary?.phone)}</td></tr>
+  <tr><th>Other identifiers</th><td>${
+    data.identities.map((i) => `${escapeHtml(i.identifier_type)}: ${escapeHtml(i.identifier_value)}`).join("<br>")
+  }</td></tr>
+</table>
+<h2>What this bundle contains</h2>
+<ul>
+  <li>${data.conversations.length} conversations and ${data.messages.length} messages (<code>conversations.csv</code>, <code>messages.csv</code>)</li>
+  <li>${data.attachments.length} attachments (<code>attachments/</code>)</li>
+  <li>${data.consents.length} consent records (<code>consents.csv</code>)</li>
+  <li>${data.audit_trail.length} records of who accessed or changed your data (<code>audit_log.csv</code>)</li>
+  <li>Everything above, plus automated classifications and insights, in <code>data.json</code></li>
+</ul>
+<h2>Consents</h2>
+<table><tr><th>Channel</th><th>Purpose</th><th>Status</th><th>Withdrawn</th></tr>${consentRows}</table>
+<h2>Conversations</h2>
+${conversations}
+<h2>Your rights</h2>
+<p>You can ask us to correct or delete this data, or object to how it is used, at any time.</p>
+</body>
+</html>`;
+}
+
+// Expired bundles are removed the next time the workspace generates one
+async function removeExpiredExports(client: SupabaseClient, workspaceId: string) {
+  const { data: expired } = await client
+    .from("dsar_exports")
+    .select("id, storage_path")
+    .eq("workspace_id", workspaceId)
+    .lt("expires_at", new Date().toISOString())
+    .not("storage_path", "is", null)
+    .limit(20);
+
+  const paths = (expired || []).map((row) => row.storage_path as string);
+  if (paths.length === 0) return;
+
+  const { error } = await client.storage.from(DSAR_BUCKET).remove(paths);
+  if (error) {
+    console.warn("expired DSAR bundle cleanup failed:", error.message);
+    return;
+  }
+  await client.from("dsar_exports").update({ storage_path: null }).in("id", (expired || []).map((row) => row.id));
+}
+
+/**
+ * Builds the DSAR ZIP for a customer, stores it in the dsar-exports bucket
+ * and returns a dsar-download link that expires after BB_DSAR_LINK_TTL_HOURS.
+ * Attachments beyond BB_DSAR_MAX_ATTACHMENT_BYTES in total are listed in the
+ * manifest but not copied. Returns null when the customer does not exist.
+ */
+export async function createDsarExport(
+  client: SupabaseClient,
+  params: { workspaceId: string; customerId: string; requestedBy: string | null; source: DsarSource },
+): Promise<DsarExport | null> {
+  const data = await collectSubjectData(client, params.workspaceId, params.customerId);
+  if (!data) {
+    return null;
+  }
+
+  const generatedAt = new Date().toISOString();
+  const maxAttachmentBytes = Number(getOptionalEnv("BB_DSAR_MAX_ATTACHMENT_BYTES", String(50 * 1024 * 1024)));
+  const files: Record<string, Uint8Array> = {};
+  const manifest: Array<{ id: unknown; filename: unknown; path: string | null; skipped?: string }> = [];
+  let attachmentBytes = 0;
+
+  for (const attachment of data.attachments) {
+    const path = `attachments/${attachment.id}-${safeFilename(String(attachment.filename || "file"))}`;
+    if (!attachment.storage_path) {
+      manifest.push({ id: attachment.id, filename: attachment.filename, path: null, skipped: "not_stored" });
+      continue;
+    }
+    if (attachmentBytes + Number(attachment.size_bytes || 0) > maxAttachmentBytes) {
+      manifest.push({ id: attachment.id, filename: attachment.filename, path: null, skipped: "size_limit" });
+      continue;
+    }
+
+    const { data: blob, error } = await client.storage.from(ATTACHMENT_BUCKET).download(String(attachment.storage_path));
+    if (error || !blob) {
+      manifest.push({ id: attachment.id, filename: attachment.filename, path: null, skipped: "download_failed" });
+      continue;
+    }
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    attachmentBytes += bytes.byteLength;
+    files[path] = bytes;
+    manifest.push({ id: attachment.id, filename: attachment.filename, path });
+  }
+
+  const { attachments: _attachments, ...rest } = data;
+  files["data.json"] = strToU8(JSON.stringify({
+    generated_at: generatedAt,
+    ...rest,
+    attachments: data.attachments.map(({ storage_path: _path, ...attachment }) => ({
+      ...attachment,
+      file: manifest.find((m) => m.id === attachment.id)?.path ?? null,
+    })),
+  }, null, 2));
+  files["conversations.csv"] = strToU8(toCsv(data.conversations, CONVERSATION_CSV_COLUMNS));
+  files["messages.csv"] = strToU8(toCsv(data.messages, MESSAGE_CSV_COLUMNS));
+  files["consents.csv"] = strToU8(toCsv(data.consents, CONSENT_CSV_COLUMNS));
+  files["audit_log.csv"] = strToU8(toCsv(data.audit_trail, AUDIT_CSV_COLUMNS));
+  files["attachments.json"] = strToU8(JSON.stringify(manifest, null, 2));
+  files["summary.html"] = strToU8(renderSummaryHtml(data, generatedAt));
+
+  const zip = zipSync(files, { level: 6 });
+  const exportId = crypto.randomUUID();
+  const storagePath = `${params.workspaceId}/${exportId}.zip`;
+  const { error: uploadError } = await client.storage.from(DSAR_BUCKET).upload(storagePath, zip, {
+    contentType: "application/zip",
+    upsert: false,
+  });
+  check("DSAR bundle upload", uploadError);
+
+  const token = randomToken();
+  const ttlHours = Math.max(1, Number(getOptionalEnv("BB_DSAR_LINK_TTL_HOURS", "72")));
+  const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000).toISOString();
+  const fileCount = Object.keys(files).length;
+
+  const { error: insertError } = await client.from("dsar_exports").insert({
+    id: exportId,
+    workspace_id: params.workspaceId,
+    customer_id: params.customerId,
+    requested_by: params.requestedBy,
+    source: params.source,
+    storage_path: storagePath,
+    size_bytes: zip.byteLength,
+    file_count: fileCount,
+    token_hash: await sha256Hex(token),
+    expires_at: expiresAt,
+  });
+  check("dsar_exports insert", insertError);
+
+  const { error: logError } = await client.from("data_access_logs").insert({
+    action: "export",
+    customer_id: params.customerId,
+    user_id: params.requestedBy,
+    metadata: {
+      source: params.source === "portal" ? "gdpr_portal" : "dsar_export",
+      event: "generated",
+      dsar_export_id: exportId,
+      conversations: data.conversations.length,
+      messages: data.messages.length,
+      attachments: manifest.filter((m) => m.path).length,
+      size_bytes: zip.byteLength,
+    },
+  });
+  if (logError) {
+    console.error("data_access_logs insert failed", logError.message);
+  }
+
+  await removeExpiredExports(client, params.workspaceId);
+
+  const baseUrl = getRequiredEnv("SUPABASE_URL").replace(/\/$/, "");
+  return {
+    id: exportId,
+    download_url: `${baseUrl}/functions/v1/dsar-download?id=${exportId}&token=${token}`,
+    expires_at: expiresAt,
+    size_bytes: zip.byteLength,
+    file_count: fileCount,
+    attachments_skipped: manifest.filter((m) => m.skipped).length,
+  };
+}
+
+export async function dsarTokenHash(token: string): Promise<string> {
+  return await sha256Hex(token);
+}
@@ -0,0 +1,444 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { ATTACHMENT_BUCKET } from "./attachments.ts";
+import { deleteAurinkoMessage } from "./aurinko.ts";
+import {
+  emptyCounts,
+  loadHeldEmailKeys,
+  REDACTED,
+  type RetentionCounts,
+  type RetentionMode,
+  scrubConversation,
+} from "./retention.ts";
+
+export interface ErasureCounts extends RetentionCounts {
+  import_queue: number;
+  identities: number;
+  insights: number;
+  consents: number;
+  storage_objects: number;
+}
+
+export interface ErasureReport {
+  customer_ids: string[];
+  mode: RetentionMode;
+  counts: ErasureCounts;
+  // Conversations under a legal hold are left untouched
+  held_conversations: string[];
+  // Remote failures are reported but do not block the local erasure
+  remote: { requested: boolean; deleted: number; not_found: number; failed: number; errors: string[] };
+  // The time budget ran out; running the erasure again continues from here
+  truncated: boolean;
+  errors: Array<{ conversation_id?: string; error: string }>;
+}
+
+export const ERASED_CUSTOMER_NAME = "Erased customer";
+
+const MAX_REPORTED_ERRORS = 20;
+
+function check(label: string, error: { message: string } | null) {
+  if (error) {
+    throw new Error(`${label} failed: ${error.message}`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function pushError(report: ErasureReport, error: unknown, conversationId?: string) {
+  if (report.errors.length < MAX_REPORTED_ERRORS) {
+    report.errors.push({ ...(conversationId ? { conversation_id: conversationId } : {}), error: errorMessage(error) });
+  }
+}
+
+function pushRemoteError(report: ErasureReport, error: unknown) {
+  if (report.remote.errors.length < MAX_REPORTED_ERRORS) {
+    report.remote.errors.push(errorMessage(error));
+  }
+}
+
+/**
+ * The customer plus any customers merged into it: a merge keeps the losing
+ * row, and its email and phone still belong to the same person.
+ */
+export async function loadErasureSubject(client: SupabaseClient, workspaceId: string, customerId: string) {
+  const { data: customers, error } = await client
+    .from("customers")
+    .select("id, email, phone")
+    .eq("workspace_id", workspaceId)
+    .or(`id.eq.${customerId},merged_into_id.eq.${customerId}`);
+  check("customers load", error);
+
+  const ids = (customers || []).map((c) => c.id as string);
+  const { data: identities, error: identitiesError } = await client
+    .from("customer_identities")
+    .select("identifier_type, identifier_value")
+    .in("customer_id", ids);
+  check("customer_identities load", identitiesError);
+
+  const emails = new Set<string>();
+  for (const customer of customers || []) {
+    if (customer.email) emails.add(String(customer.email).trim().toLowerCase());
+  }
+  for (const identity of identities || []) {
+    if (identity.identifier_type === "email" && identity.identifier_value) {
+      emails.add(String(identity.identifier_value).trim().toLowerCase());
+    }
+  }
+
+  return { ids, emails: Array.from(emails) };
+}
+
+async function deleteRemoteCopies(
+  client: SupabaseClient,
+  workspaceId: string,
+  conversationIds: string[],
+  report: ErasureReport,
+) {
+  const { data: messages, error } = await client
+    .from("messages")
+    .select("external_id, config_id")
+    .in("conversation_id", conversationIds)
+    .not("external_id", "is", null)
+    .not("config_id", "is", null);
+  check("messages load", error);
+
+  const byConfig = new Map<string, Set<string>>();
+  for (const message of messages || []) {
+    const ids = byConfig.get(message.config_id as string) ?? new Set<string>();
+    ids.add(message.external_id as string);
+    byConfig.set(message.config_id as string, ids);
+  }
+
+  for (const [configId, externalIds] of byConfig) {
+    const { data: config } = await client
+      .from("email_provider_configs")
+      .select("id")
+      .eq("id", configId)
+      .eq("workspace_id", workspaceId)
+      .maybeSingle();
+
+    // The stored token is encrypted; decrypt it the same way fetch-email-body does
+    let accessToken = "";
+    if (config) {
+      const { data: token, error: tokenError } = await client.rpc("get_decrypted_access_token", { p_config_id: configId });
+      // Fail the conversation so the request is not certified without the remote delete
+      check(`mailbox ${configId} token decryption`, tokenError);
+      accessToken = String(token || "").trim();
+    }
+    if (!accessToken) {
+      report.remote.failed += externalIds.size;
+      pushRemoteError(report, `mailbox ${configId} is disconnected; ${externalIds.size} remote messages were not deleted`);
+      continue;
+    }
+
+    for (const messageId of externalIds) {
+      try {
+        const deleted = await deleteAurinkoMessage({ accessToken, messageId });
+        if (deleted) {
+          report.remote.deleted += 1;
+        } else {
+          report.remote.not_found += 1;
+        }
+      } catch (err) {
+        report.remote.failed += 1;
+        pushRemoteError(report, err);
+      }
+    }
+  }
+}
+
+// Outbound uploads from the reply box sit directly under the conversation id
+async function removeConversationUploads(client: SupabaseClient, conversationId: string): Promise<number> {
+  const { data: objects, error } = await client.storage.from(ATTACHMENT_BUCKET).list(conversationId, { limit: 1000 });
+  check("attachment storage list", error);
+
+  // Folders (per-message inbound attachments) have no id; scrubConversation removes those
+  const paths = (objects || []).filter((o) => o.id).map((o) => `${conversationId}/${o.name}`);
+  if (paths.length > 0) {
+    const { error: removeError } = await client.storage.from(ATTACHMENT_BUCKET).remove(paths);
+    check("attachment storage remove", removeError);
+  }
+  return paths.length;
+}
+
+// PostgREST list values, quoted so addresses with commas or brackets stay intact
+function quotedList(values: string[]): string {
+  return values.map((v) => `"${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`).join(",");
+}
+
+// Mail the customer sent, and mail sent to them
+async function loadEmailRows(
+  client: SupabaseClient,
+  table: "raw_emails" | "email_import_queue",
+  params: { workspaceId: string; emails: string[] },
+  columns: string,
+  recipientColumn: "to_email" | "to_emails",
+): Promise<Array<Record<string, unknown>>> {
+  const list = quotedList(params.emails);
+  const recipientFilter = recipientColumn === "to_emails" ? `to_emails.ov.{${list}}` : `to_email.in.(${list})`;
+  const { data, error } = await client
+    .from(table)
+    .select(columns)
+    .eq("workspace_id", params.workspaceId)
+    .or(`from_email.in.(${list}),${recipientFilter}`);
+  check(`${table} load`, error);
+  return (data || []) as unknown as Array<Record<string, unknown>>;
+}
+
+async function writeEmailRows(
+  client: SupabaseClient,
+  table: "raw_emails" | "email_import_queue",
+  ids: string[],
+  mode: RetentionMode,
+  redacted: Record<string, unknown>,
+): Promise<number> {
+  if (ids.length === 0) {
+    return 0;
+  }
+  const { count, error } = mode === "delete"
+    ? await client.from(table).delete({ count: "exact" }).in("id", ids)
+    : await client.from(table).update(redacted, { count: "exact" }).in("id", ids);
+  check(`${table} ${mode}`, error);
+  return count ?? 0;
+}
+
+async function eraseCustomerRecords(
+  client: SupabaseClient,
+  params: { workspaceId: string; mode: RetentionMode; ids: string[]; emails: string[]; heldConversationIds: string[] },
+  counts: ErasureCounts,
+) {
+  const now = new Date().toISOString();
+
+  // Events that never became a conversation (or whose conversation is gone)
+  const { error: eventsError } = await client
+    .from("message_events")
+    .update({
+      raw_payload: null,
+      body: null,
+      body_html: null,
+      subject: null,
+      from_name: null,
+      from_identifier: REDACTED,
+      to_identifier: REDACTED,
+      updated_at: now,
+    })
+    .in("materialized_customer_id", params.ids)
+    .is("materialized_conversation_id", null);
+  check("message_events redact", eventsError);
+
+  if (params.emails.length > 0) {
+    const held = await loadHeldEmailKeys(client, params.workspaceId, params.heldConversationIds);
+
+    const rawIds = (await loadEmailRows(client, "raw_emails", params, "id, thread_id, external_id", "to_email"))
+      .filter((row) => !held.threadIds.has(row.thread_id as string) && !held.messageIds.has(row.external_id as string))
+      .map((row) => row.id as string);
+    counts.raw_emails += await writeEmailRows(client, "raw_emails", rawIds, params.mode, {
+      from_email: REDACTED,
+      from_name: null,
+      to_email: null,
+      to_name: null,
+      subject: null,
+      body_text: null,
+      body_html: null,
+    });
+
+    const queueIds = (await loadEmailRows(client, "email_import_queue", params, "id, conversation_id, thread_id", "to_emails"))
+      .filter((row) =>
+        !params.heldConversationIds.includes(row.conversation_id as string) && !held.threadIds.has(row.thread_id as string)
+      )
+      .map((row) => row.id as string);
+    counts.import_queue += await writeEmailRows(client, "email_import_queue", queueIds, params.mode, {
+      from_email: REDACTED,
+      from_name: null,
+      to_emails: null,
+      subject: null,
+      body: null,
+      body_clean: null,
+      body_html: null,
+      entities: null,
+    });
+  }
+
+  const { count: identityCount, error: identityError } = await client
+    .from("customer_identities")
+    .delete({ count: "exact" })
+    .in("customer_id", params.ids);
+  check("customer_identities delete", identityError);
+  counts.identities += identityCount ?? 0;
+
+  const { count: insightCount, error: insightError } = await client
+    .from("customer_insights")
+    .delete({ count: "exact" })
+    .in("customer_id", params.ids);
+  check("customer_insights delete", insightError);
+  counts.insights += insightCount ?? 0;
+
+  // Anonymised consents still show the lawful basis that applied
+  const { count: consentCount, error: consentError } = params.mode === "delete"
+    ? await client.from("customer_consents").delete({ count: "exact" }).in("customer_id", params.ids)
+    : await client.from("customer_consents").update({ notes: null }, { count: "exact" }).in("customer_id", params.ids);
+  check(`customer_consents ${params.mode}`, consentError);
+  counts.consents += consentCount ?? 0;
+
+  // The row itself stays as an anonymous tombstone so deletion requests,
+  // audit logs and legal holds keep pointing at something
+  const { error: customerError } = await client
+    .from("customers")
+    .update({
+      name: ERASED_CUSTOMER_NAME,
+      email: null,
+      phone: null,
+      address: null,
+      notes: null,
+      customer_id: null,
+      custom_fields: null,
+      intelligence: null,
+      topics_discussed: null,
+      embedding: null,
+      next_appointment: null,
+      payment_method: null,
+      schedule_code: null,
+      updated_at: now,
+    })
+    .in("id", params.ids);
+  check("customers anonymise", customerError);
+}
+
+/**
+ * Erases everything stored about one customer (and customers merged into
+ * it): conversations via scrubConversation, stored uploads, import rows,
+ * identities, insights and consents, then anonymises the customer row.
+ * With eraseRemote the email copies are also deleted from the connected
+ * mailbox first. Safe to run again after a partial or truncated run.
+ */
+export async function eraseCustomer(
+  client: SupabaseClient,
+  params: {
+    workspaceId: string;
+    customerId: string;
+    mode: RetentionMode;
+    eraseRemote: boolean;
+    shouldContinue: () => boolean;
+  },
+): Promise<ErasureReport> {
+  const subject = await loadErasureSubject(client, params.workspaceId, params.customerId);
+  const report: ErasureReport = {
+    customer_ids: subject.ids,
+    mode: params.mode,
+    counts: { ...emptyCounts(), import_queue: 0, identities: 0, insights: 0, consents: 0, storage_objects: 0 },
+    held_conversations: [],
+    remote: { requested: params.eraseRemote, deleted: 0, not_found: 0, failed: 0, errors: [] },
+    truncated: false,
+    errors: [],
+  };
+
+  if (subject.ids.length === 0) {
+    return report;
+  }
+
+  const [{ data: conversations, error }, { data: holds, error: holdsError }] = await Promise.all([
+    client
+      .from("conversations")
+      .select("id, retention_processed_at")
+      .eq("workspace_id", params.workspaceId)
+      .in("customer_id", subject.ids)
+      .order("created_at", { ascending: true }),
+    client
+      .from("legal_holds")
+      .select("conversation_id")
+      .eq("workspace_id", params.workspaceId)
+      .is("released_at", null)
+      .not("conversation_id", "is", null),
+  ]);
+  check("conversations load", error);
+  check("legal_holds load", holdsError);
+
+  const held = new Set((holds || []).map((h) => h.conversation_id as string));
+  const pending = (conversations || []).filter((c) => {
+    if (held.has(c.id)) {
+      report.held_conversations.push(c.id);
+      return false;
+    }
+    // Already anonymised by an earlier run or by the retention job
+    return params.mode === "delete" || !c.retention_processed_at;
+  });
+
+  for (const conversation of pending) {
+    if (!params.shouldContinue()) {
+      report.truncated = true;
+      return report;
+    }
+
+    try {
+      if (params.eraseRemote) {
+        await deleteRemoteCopies(client, params.workspaceId, [conversation.id], report);
+      }
+      report.counts.storage_objects += await removeConversationUploads(client, conversation.id);
+      const counts = await scrubConversation(client, conversation.id, params.mode);
+      for (const key of Object.keys(counts) as Array<keyof RetentionCounts>) {
+        report.counts[key] += counts[key];
+      }
+    } catch (err) {
+      pushError(report, err, conversation.id);
+    }
+  }
+
+  if (report.errors.length > 0) {
+    // Keep the customer identifiable until every conversation is done, so a retry can find them
+    return report;
+  }
+
+  await eraseCustomerRecords(client, {
+    ...params,
+    ids: subject.ids,
+    emails: subject.emails,
+    heldConversationIds: report.held_conversations,
+  }, report.counts);
+  return report;
+}
+
+// Sorted keys, so the signature does not depend on property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function signCertificate(certificate: Record<string, unknown>, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(canonicalJson(certificate)));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function verifyCertificate(
+  certificate: Record<string, unknown>,
+  signature: string,
+  secret: string,
+): Promise<boolean> {
+  const expected = await signCertificate(certificate, secret);
+  if (expected.length !== signature.length) {
+    return false;
+  }
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < expected.length; i += 1) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
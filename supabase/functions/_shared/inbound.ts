@@ -0,0 +1,469 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getOptionalEnv, HttpError } from "./pipeline.ts";
+import { normalizePhone } from "./outbound.ts";
+import type { Channel, UnifiedMessage } from "./types.ts";
+
+// ============================================================
+// Signature verification
+// ============================================================
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function hmac(hash: "SHA-1" | "SHA-256", secret: string, data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Returns the signing secret, or null when BB_ALLOW_UNSIGNED_WEBHOOKS=true
+ * (local development only). A missing secret otherwise rejects the request.
+ */
+function signingSecret(envName: string): string | null {
+  const secret = getOptionalEnv(envName);
+  if (secret) {
+    return secret;
+  }
+  if (getOptionalEnv("BB_ALLOW_UNSIGNED_WEBHOOKS") === "true") {
+    console.warn(`${envName} is not set; accepting unsigned webhook because BB_ALLOW_UNSIGNED_WEBHOOKS=true`);
+    return null;
+  }
+  throw new HttpError(500, `${envName} is not configured`);
+}
+
+/**
+ * Resolves the URL the provider signed. Behind the Supabase gateway req.url is
+ * the internal address, so the public URL is configured per function.
+ */
+export function publicWebhookUrl(req: Request, envName: string): string {
+  const configured = getOptionalEnv(envName);
+  if (!configured) {
+    return req.url;
+  }
+
+  const incoming = new URL(req.url);
+  return `${configured.replace(/\?.*$/, "")}${incoming.search}`;
+}
+
+/**
+ * Twilio signs the full request URL followed by every POST parameter,
+ * sorted by name, with HMAC-SHA1 keyed by the account auth token.
+ */
+export async function verifyTwilioSignature(params: {
+  req: Request;
+  url: string;
+  form: URLSearchParams;
+}): Promise<void> {
+  const authToken = signingSecret("TWILIO_AUTH_TOKEN");
+  if (!authToken) {
+    return;
+  }
+
+  const provided = params.req.headers.get("x-twilio-signature")?.trim();
+  if (!provided) {
+    throw new HttpError(401, "Missing Twilio signature header");
+  }
+
+  const keys = Array.from(new Set(params.form.keys())).sort();
+  const data = keys.reduce((acc, key) => acc + key + params.form.getAll(key).join(""), params.url);
+  const expected = toBase64(await hmac("SHA-1", authToken, data));
+
+  if (!timingSafeEqual(provided, expected)) {
+    throw new HttpError(401, "Invalid Twilio signature");
+  }
+}
+
+/**
+ * WhatsApp Cloud API and Messenger both sign the raw body with the Meta app
+ * secret and send it as `x-hub-signature-256: sha256=<hex>`.
+ */
+export async function verifyMetaSignature(rawBody: string, req: Request): Promise<void> {
+  const appSecret = signingSecret("META_APP_SECRET");
+  if (!appSecret) {
+    return;
+  }
+
+  const provided = req.headers.get("x-hub-signature-256")?.trim();
+  if (!provided) {
+    throw new HttpError(401, "Missing Meta signature header");
+  }
+
+  const expected = toHex(await hmac("SHA-256", appSecret, rawBody));
+  if (!timingSafeEqual(provided.toLowerCase().replace(/^sha256=/, ""), expected)) {
+    throw new HttpError(401, "Invalid Meta signature");
+  }
+}
+
+/**
+ * Handles the GET subscription handshake Meta performs when a webhook is registered.
+ */
+export function metaVerificationChallenge(req: Request): Response | null {
+  if (req.method !== "GET") {
+    return null;
+  }
+
+  const url = new URL(req.url);
+  const mode = url.searchParams.get("hub.mode");
+  const token = url.searchParams.get("hub.verify_token");
+  const challenge = url.searchParams.get("hub.challenge");
+  const expectedToken = getOptionalEnv("META_WEBHOOK_VERIFY_TOKEN");
+
+  if (mode === "subscribe" && expectedToken && token === expectedToken && challenge) {
+    return new Response(challenge, { status: 200, headers: { "Content-Type": "text/plain" } });
+  }
+
+  throw new HttpError(403, "Webhook verification failed");
+}
+
+export function twimlResponse(): Response {
+  return new Response('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+    status: 200,
+    headers: { "Content-Type": "text/xml" },
+  });
+}
+
+// ============================================================
+// Payload → UnifiedMessage mappers
+// ============================================================
+
+function formToRecord(form: URLSearchParams): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [key, value] of form.entries()) {
+    record[key] = value;
+  }
+  return record;
+}
+
+function stripWhatsAppPrefix(value: string): string {
+  return value.replace(/^whatsapp:/i, "");
+}
+
+function unixToIso(value: unknown): string {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0
+    ? new Date(seconds * 1000).toISOString()
+    : new Date().toISOString();
+}
+
+export function twilioSmsToUnifiedMessage(form: URLSearchParams): UnifiedMessage {
+  const raw = formToRecord(form);
+  const isWhatsApp = (raw.From || "").toLowerCase().startsWith("whatsapp:");
+  const from = normalizePhone(stripWhatsAppPrefix(raw.From || ""));
+  const to = normalizePhone(stripWhatsAppPrefix(raw.To || ""));
+  const mediaCount = Number(raw.NumMedia || "0");
+
+  const media: Array<{ url: string; content_type: string | null }> = [];
+  for (let i = 0; i < mediaCount; i += 1) {
+    if (raw[`MediaUrl${i}`]) {
+      media.push({ url: raw[`MediaUrl${i}`], content_type: raw[`MediaContentType${i}`] || null });
+    }
+  }
+
+  return {
+    external_id: raw.MessageSid || raw.SmsSid,
+    // SMS has no native threading: one conversation per counterparty number
+    thread_id: from,
+    channel: isWhatsApp ? "whatsapp" : "sms",
+    direction: "inbound",
+    from_identifier: from,
+    from_name: raw.ProfileName || null,
+    to_identifier: to,
+    body: raw.Body || "",
+    body_html: null,
+    subject: null,
+    timestamp: new Date().toISOString(),
+    is_read: false,
+    metadata: {
+      provider: "twilio",
+      account_sid: raw.AccountSid || null,
+      from_country: raw.FromCountry || null,
+      attachments: media,
+    },
+    raw_payload: raw,
+  };
+}
+
+export function twilioVoiceRecordingToUnifiedMessage(form: URLSearchParams): UnifiedMessage {
+  const raw = formToRecord(form);
+  const from = normalizePhone(raw.From || raw.Caller || "");
+  const to = normalizePhone(raw.To || raw.Called || "");
+  const duration = Number(raw.RecordingDuration || "0");
+  const transcript = (raw.TranscriptionText || "").trim();
+  const audioUrl = raw.RecordingUrl ? `${raw.RecordingUrl}.mp3` : null;
+
+  return {
+    external_id: raw.RecordingSid || raw.CallSid,
+    thread_id: from,
+    channel: "voice",
+    direction: "inbound",
+    from_identifier: from,
+    from_name: raw.CallerName || null,
+    to_identifier: to,
+    body: transcript || `Voicemail received (${duration}s)`,
+    body_html: null,
+    subject: null,
+    timestamp: new Date().toISOString(),
+    is_read: false,
+    metadata: {
+      provider: "twilio",
+      call_sid: raw.CallSid || null,
+      is_voicemail: true,
+      audio_url: audioUrl,
+      duration_seconds: duration,
+      has_transcript: Boolean(transcript),
+    },
+    raw_payload: raw,
+  };
+}
+
+interface WhatsAppCloudChange {
+  value?: {
+    metadata?: { display_phone_number?: string; phone_number_id?: string };
+    contacts?: Array<{ wa_id?: string; profile?: { name?: string } }>;
+    messages?: Array<Record<string, unknown>>;
+  };
+}
+
+function whatsAppMessageBody(message: Record<string, unknown>): string {
+  const type = String(message.type || "text");
+  const part = (message[type] || {}) as Record<string, unknown>;
+
+  if (type === "text") {
+    return String(part.body || "");
+  }
+  if (type === "button") {
+    return String(part.text || "");
+  }
+  if (type === "interactive") {
+    const reply = (part.button_reply || part.list_reply || {}) as { title?: string };
+    return String(reply.title || "");
+  }
+  if (type === "location") {
+    return `Location: ${part.latitude}, ${part.longitude}`;
+  }
+  return String(part.caption || `[${type}]`);
+}
+
+/**
+ * Flattens a WhatsApp Cloud API webhook into messages grouped by the
+ * business phone_number_id they were sent to. Status callbacks are ignored.
+ */
+export function whatsAppCloudToUnifiedMessages(
+  payload: Record<string, unknown>,
+): Map<string, UnifiedMessage[]> {
+  const byPhoneNumberId = new Map<string, UnifiedMessage[]>();
+  const entries = Array.isArray(payload.entry) ? payload.entry as Array<{ changes?: WhatsAppCloudChange[] }> : [];
+
+  for (const entry of entries) {
+    for (const change of entry.changes || []) {
+      const value = change.value || {};
+      const phoneNumberId = String(value.metadata?.phone_number_id || "");
+      const businessNumber = normalizePhone(String(value.metadata?.display_phone_number || phoneNumberId));
+      const names = new Map((value.contacts || []).map((c) => [String(c.wa_id || ""), c.profile?.name || null]));
+
+      for (const message of value.messages || []) {
+        const waId = String(message.from || "");
+        const type = String(message.type || "text");
+        const media = (message[type] || {}) as { id?: string; mime_type?: string };
+        const context = (message.context || {}) as { id?: string };
+
+        const unified: UnifiedMessage = {
+          external_id: String(message.id || ""),
+          thread_id: normalizePhone(waId),
+          channel: "whatsapp",
+          direction: "inbound",
+          from_identifier: normalizePhone(waId),
+          from_name: names.get(waId) || null,
+          to_identifier: businessNumber,
+          body: whatsAppMessageBody(message),
+          body_html: null,
+          subject: null,
+          timestamp: unixToIso(message.timestamp),
+          is_read: false,
+          metadata: {
+            provider: "whatsapp_cloud",
+            phone_number_id: phoneNumberId,
+            message_type: type,
+            reply_to_external_id: context.id || null,
+            attachments: media.id ? [{ media_id: media.id, content_type: media.mime_type || null }] : [],
+          },
+          raw_payload: message,
+        };
+
+        if (!byPhoneNumberId.has(phoneNumberId)) {
+          byPhoneNumberId.set(phoneNumberId, []);
+        }
+        byPhoneNumberId.get(phoneNumberId)!.push(unified);
+      }
+    }
+  }
+
+  return byPhoneNumberId;
+}
+
+interface MessengerEvent {
+  sender?: { id?: string };
+  recipient?: { id?: string };
+  timestamp?: number;
+  message?: {
+    mid?: string;
+    text?: string;
+    is_echo?: boolean;
+    attachments?: Array<{ type?: string; payload?: { url?: string } }>;
+  };
+}
+
+/**
+ * Maps Messenger page events, grouped by page id. Echoes of messages the page
+ * itself sent are mapped as outbound so replies sent from Meta's inbox still thread.
+ */
+export function messengerToUnifiedMessages(
+  payload: Record<string, unknown>,
+): Map<string, UnifiedMessage[]> {
+  const byPageId = new Map<string, UnifiedMessage[]>();
+  if (payload.object !== "page") {
+    return byPageId;
+  }
+
+  const entries = Array.isArray(payload.entry)
+    ? payload.entry as Array<{ id?: string; messaging?: MessengerEvent[] }>
+    : [];
+
+  for (const entry of entries) {
+    const pageId = String(entry.id || "");
+    for (const event of entry.messaging || []) {
+      if (!event.message?.mid) {
+        continue;
+      }
+
+      const isEcho = Boolean(event.message.is_echo);
+      const senderId = String(event.sender?.id || "");
+      const recipientId = String(event.recipient?.id || "");
+      const customerPsid = isEcho ? recipientId : senderId;
+      const attachments = (event.message.attachments || []).map((a) => ({
+        type: a.type || null,
+        url: a.payload?.url || null,
+      }));
+
+      const unified: UnifiedMessage = {
+        external_id: event.message.mid,
+        thread_id: customerPsid,
+        channel: "facebook",
+        direction: isEcho ? "outbound" : "inbound",
+        from_identifier: senderId,
+        from_name: null,
+        to_identifier: recipientId,
+        body: event.message.text || (attachments.length > 0 ? `[${attachments.map((a) => a.type).join(", ")}]` : ""),
+        body_html: null,
+        subject: null,
+        timestamp: event.timestamp ? new Date(event.timestamp).toISOString() : new Date().toISOString(),
+        is_read: isEcho,
+        metadata: {
+          provider: "messenger",
+          page_id: pageId,
+          attachments,
+        },
+        raw_payload: event as Record<string, unknown>,
+      };
+
+      if (!byPageId.has(pageId)) {
+        byPageId.set(pageId, []);
+      }
+      byPageId.get(pageId)!.push(unified);
+    }
+  }
+
+  return byPageId;
+}
+
+// ============================================================
+// Channel config resolution
+// ============================================================
+
+export interface ChannelWebhookConfig {
+  id: string;
+  workspace_id: string;
+  channel: Channel;
+}
+
+/**
+ * Finds the workspace_channels row whose config matches the provider's
+ * account identifier (business number, phone_number_id or page_id). The
+ * row id doubles as the config_id passed to bb_ingest_unified_messages.
+ */
+export async function resolveChannelConfig(
+  client: SupabaseClient,
+  params: { channel: Channel; configKey: string; value: string; workspaceChannel?: string },
+): Promise<ChannelWebhookConfig> {
+  // workspace_channels names the voice line "phone"
+  const { data, error } = await client
+    .from("workspace_channels")
+    .select("id, workspace_id, channel, enabled")
+    .eq("channel", params.workspaceChannel || params.channel)
+    .eq(`config->>${params.configKey}`, params.value)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`workspace_channels lookup failed: ${error.message}`);
+  }
+
+  if (!data || data.enabled === false) {
+    throw new HttpError(404, `No enabled ${params.channel} channel configured for ${params.configKey}=${params.value}`);
+  }
+
+  return { id: data.id, workspace_id: data.workspace_id, channel: params.channel };
+}
+
+export async function ingestChannelMessages(
+  client: SupabaseClient,
+  config: ChannelWebhookConfig,
+  messages: UnifiedMessage[],
+): Promise<Record<string, unknown> | null> {
+  const { data, error } = await client.rpc("bb_ingest_unified_messages", {
+    p_workspace_id: config.workspace_id,
+    p_config_id: config.id,
+    p_run_id: null,
+    p_channel: config.channel,
+    p_messages: messages,
+  });
+
+  if (error) {
+    throw new Error(`bb_ingest_unified_messages failed: ${error.message}`);
+  }
+
+  // Instant pg_net wake-up, same as aurinko-webhook
+  try {
+    await client.rpc("bb_trigger_worker", {
+      p_url_secret_name: "bb_worker_ingest_url",
+      p_body: {},
+    });
+  } catch (e) {
+    console.warn("pg_net wake-up failed (non-fatal):", e);
+  }
+
+  return (Array.isArray(data) ? data[0] : data) || null;
+}
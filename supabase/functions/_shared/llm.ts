@@ -0,0 +1,382 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { fetchWithTimeout, getOptionalEnv, getRequiredEnv, parseRetryAfterSeconds, RateLimitError } from "./pipeline.ts";
+
+export type LlmTask = "classify" | "draft";
+export type LlmProviderName = "openai_compatible" | "anthropic" | "stub";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  system: string;
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  timeoutMs?: number;
+}
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface ChatCompletionResult {
+  provider: LlmProviderName;
+  model: string;
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+}
+
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model?: string;
+}
+
+export class LlmProviderError extends Error {
+  readonly provider: LlmProviderName;
+  readonly status: number;
+
+  constructor(provider: LlmProviderName, status: number, message: string) {
+    super(message);
+    this.provider = provider;
+    this.status = status;
+    this.name = "LlmProviderError";
+  }
+}
+
+function contentToText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((part) => part?.text || "").join("\n");
+  }
+  return content ? JSON.stringify(content) : "";
+}
+
+/**
+ * Any endpoint speaking the OpenAI chat completions shape. The Lovable AI
+ * gateway is the default; OPENAI_COMPATIBLE_* points it elsewhere.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "openai_compatible" as const;
+  readonly defaultModel: string;
+  private readonly endpoint: string;
+  private readonly apiKey: string;
+
+  constructor(options?: { endpoint?: string; apiKey?: string; defaultModel?: string }) {
+    this.endpoint = options?.endpoint
+      || getOptionalEnv("OPENAI_COMPATIBLE_API_URL")
+      || getRequiredEnv("LOVABLE_AI_GATEWAY_URL");
+    this.apiKey = options?.apiKey
+      ?? (getOptionalEnv("OPENAI_COMPATIBLE_API_KEY") || getOptionalEnv("LOVABLE_AI_GATEWAY_KEY"));
+    this.defaultModel = options?.defaultModel || getOptionalEnv("LOVABLE_CLASSIFY_MODEL", "gemini-2.5-flash");
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const model = request.model || this.defaultModel;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const payload: Record<string, unknown> = {
+      model,
+      temperature: request.temperature ?? 0,
+      messages: [{ role: "system", content: request.system }, ...request.messages],
+    };
+    if (request.maxTokens) {
+      payload.max_tokens = request.maxTokens;
+    }
+    if (request.jsonMode) {
+      payload.response_format = { type: "json_object" };
+    }
+
+    const response = await fetchWithTimeout(this.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payload),
+    }, request.timeoutMs ?? 25_000);
+
+    if (response.status === 429) {
+      throw new RateLimitError(`${this.name} rate limited`, parseRetryAfterSeconds(response, 30));
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new LlmProviderError(this.name, response.status, `${this.name} request failed (${response.status}): ${text}`);
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content || data?.output_text || data?.content || "";
+
+    return {
+      provider: this.name,
+      model: String(data?.model || model),
+      text: contentToText(content),
+      usage: {
+        input_tokens: Number(data?.usage?.prompt_tokens || 0),
+        output_tokens: Number(data?.usage?.completion_tokens || 0),
+      },
+    };
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel: string;
+  private readonly endpoint: string;
+  private readonly apiKey: string;
+
+  constructor(options?: { endpoint?: string; apiKey?: string; defaultModel?: string }) {
+    this.apiKey = options?.apiKey || getRequiredEnv("ANTHROPIC_API_KEY");
+    this.endpoint = options?.endpoint || getOptionalEnv("ANTHROPIC_API_URL", "https://api.anthropic.com/v1/messages");
+    this.defaultModel = options?.defaultModel || getOptionalEnv("ANTHROPIC_MODEL", "claude-3-5-sonnet-latest");
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const model = request.model || this.defaultModel;
+
+    // Anthropic has no JSON response_format; ask for it in the system prompt instead
+    const system = request.jsonMode
+      ? `${request.system}\nRespond with a single JSON object and no surrounding prose.`
+      : request.system;
+
+    const response = await fetchWithTimeout(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens ?? 1024,
+        temperature: request.temperature ?? 0,
+        system,
+        messages: request.messages,
+      }),
+    }, request.timeoutMs ?? 25_000);
+
+    if (response.status === 429) {
+      throw new RateLimitError(`${this.name} rate limited`, parseRetryAfterSeconds(response, 30));
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new LlmProviderError(this.name, response.status, `${this.name} request failed (${response.status}): ${text}`);
+    }
+
+    const data = await response.json();
+    const content = Array.isArray(data?.content) ? data.content : [];
+    const text = content
+      .map((part: { type?: string; text?: string }) => part?.type === "text" ? part.text || "" : "")
+      .join("\n")
+      .trim();
+
+    return {
+      provider: this.name,
+      model: String(data?.model || model),
+      text,
+      usage: {
+        input_tokens: Number(data?.usage?.input_tokens || 0),
+        output_tokens: Number(data?.usage?.output_tokens || 0),
+      },
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider for tests and local pipeline runs. Returns
+ * an empty JSON object in JSON mode (callers fall back to their defaults)
+ * and a fixed holding reply otherwise, unless a responder is supplied.
+ */
+export class LocalStubProvider implements LlmProvider {
+  readonly name = "stub" as const;
+  readonly defaultModel = "stub-1";
+  private readonly respond?: (request: ChatCompletionRequest) => string;
+
+  constructor(options?: { respond?: (request: ChatCompletionRequest) => string }) {
+    this.respond = options?.respond;
+  }
+
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const text = this.respond
+      ? this.respond(request)
+      : request.jsonMode
+        ? "{}"
+        : "Thank you for getting in touch. We have received your message and will come back to you shortly.";
+
+    const promptChars = request.system.length + request.messages.reduce((sum, m) => sum + m.content.length, 0);
+    return Promise.resolve({
+      provider: this.name,
+      model: request.model || this.defaultModel,
+      text,
+      usage: {
+        input_tokens: Math.ceil(promptChars / 4),
+        output_tokens: Math.ceil(text.length / 4),
+      },
+    });
+  }
+}
+
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "openai_compatible":
+      return new OpenAiCompatibleProvider();
+    case "anthropic":
+      return new AnthropicProvider();
+    case "stub":
+      return new LocalStubProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+const DEFAULT_ROUTES: Record<LlmTask, LlmRoute[]> = {
+  classify: [{ provider: "openai_compatible" }, { provider: "anthropic" }],
+  draft: [{ provider: "anthropic" }, { provider: "openai_compatible" }],
+};
+
+const VALID_PROVIDERS = new Set<LlmProviderName>(["openai_compatible", "anthropic", "stub"]);
+
+function parseRoutes(value: unknown): LlmRoute[] {
+  const entries = Array.isArray(value) ? value : value ? [value] : [];
+  return entries
+    .map((entry) => (typeof entry === "string" ? { provider: entry } : entry) as Partial<LlmRoute>)
+    .filter((entry): entry is LlmRoute => Boolean(entry?.provider && VALID_PROVIDERS.has(entry.provider)))
+    .map((entry) => ({ provider: entry.provider, model: entry.model || undefined }));
+}
+
+// 429 surfaces as RateLimitError; other 4xx mean the request itself is bad
+// and would fail the same way on the next provider
+function shouldFallBack(error: unknown): boolean {
+  return !(error instanceof LlmProviderError) || error.status >= 500;
+}
+
+/**
+ * Tries each route in order and falls back to the next when a provider is
+ * unavailable (missing credentials, 5xx, rate limit, network error or
+ * timeout). Any other 4xx is thrown straight away.
+ */
+export class LlmClient {
+  readonly task: LlmTask;
+  readonly routes: LlmRoute[];
+  lastUsage: (TokenUsage & { provider: LlmProviderName; model: string }) | null = null;
+  // Provider calls made, fallbacks included
+  requestCount = 0;
+
+  constructor(task: LlmTask, routes: LlmRoute[]) {
+    if (routes.length === 0) {
+      throw new Error(`No LLM routes configured for ${task}`);
+    }
+    this.task = task;
+    this.routes = routes;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const errors: string[] = [];
+    let lastError: unknown = null;
+
+    for (const route of this.routes) {
+      let provider: LlmProvider;
+      try {
+        provider = createLlmProvider(route.provider);
+      } catch (error) {
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${route.provider}: ${message}`);
+        console.warn(`LLM ${this.task} via ${route.provider} unavailable, trying next route`, message);
+        continue;
+      }
+
+      try {
+        this.requestCount += 1;
+        const result = await provider.complete({ ...request, model: request.model || route.model });
+        this.lastUsage = { ...result.usage, provider: result.provider, model: result.model };
+        return result;
+      } catch (error) {
+        if (!shouldFallBack(error)) {
+          throw error;
+        }
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${route.provider}: ${message}`);
+        console.warn(`LLM ${this.task} via ${route.provider} failed, trying next route`, message);
+      }
+    }
+
+    if (lastError instanceof RateLimitError) {
+      throw lastError;
+    }
+
+    throw new Error(`All LLM providers failed for ${this.task}: ${errors.join(" | ")}`);
+  }
+}
+
+/**
+ * Builds the provider chain for a task. BB_LLM_PROVIDER forces a single
+ * provider for every workspace (e.g. `stub` for offline runs); otherwise
+ * automation_settings.ai_model_routing[task] wins over the defaults.
+ */
+export async function resolveLlmClient(
+  client: SupabaseClient,
+  params: { workspaceId: string; task: LlmTask },
+): Promise<LlmClient> {
+  const forced = parseRoutes(getOptionalEnv("BB_LLM_PROVIDER") || null);
+  if (forced.length > 0) {
+    return new LlmClient(params.task, forced);
+  }
+
+  let routes: LlmRoute[] = [];
+  try {
+    const { data, error } = await client
+      .from("automation_settings")
+      .select("ai_model_routing")
+      .eq("workspace_id", params.workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn("automation_settings.ai_model_routing load failed:", error.message);
+    } else {
+      const routing = (data?.ai_model_routing || {}) as Record<string, unknown>;
+      routes = parseRoutes(routing[params.task]);
+    }
+  } catch (e) {
+    console.warn("ai_model_routing load error:", e);
+  }
+
+  return new LlmClient(params.task, routes.length > 0 ? routes : DEFAULT_ROUTES[params.task]);
+}
+
+export async function recordLlmUsage(
+  client: SupabaseClient,
+  params: { workspaceId: string; functionName: string; llm: LlmClient },
+): Promise<void> {
+  const usage = params.llm.lastUsage;
+  if (!usage) {
+    return;
+  }
+
+  const { error } = await client.from("api_usage").insert({
+    workspace_id: params.workspaceId,
+    provider: `${usage.provider}:${usage.model}`,
+    function_name: `${params.functionName}:${params.llm.task}`,
+    requests: Math.max(1, params.llm.requestCount),
+    tokens_used: usage.input_tokens + usage.output_tokens,
+  });
+
+  if (error) {
+    console.warn("api_usage insert failed", error.message);
+  }
+}
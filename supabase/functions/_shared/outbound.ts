@@ -0,0 +1,222 @@
+import { fetchWithTimeout, getOptionalEnv, getRequiredEnv, parseRetryAfterSeconds, RateLimitError } from "./pipeline.ts";
+import type { Channel } from "./types.ts";
+
+export type OutboundChannel = Extract<Channel, "sms" | "whatsapp">;
+
+export interface OutboundSendParams {
+  channel: OutboundChannel;
+  to: string;
+  body: string;
+  // Per-workspace sender overrides, read from workspace_channels.config
+  channelConfig?: Record<string, unknown> | null;
+}
+
+export interface OutboundSendResult {
+  provider: string;
+  external_id: string;
+  status: string;
+  raw: Record<string, unknown>;
+}
+
+export interface OutboundProvider {
+  readonly name: string;
+  send(params: OutboundSendParams): Promise<OutboundSendResult>;
+}
+
+export class OutboundProviderError extends Error {
+  readonly provider: string;
+  readonly status: number;
+  readonly providerCode: string | null;
+
+  constructor(provider: string, status: number, message: string, providerCode: string | null = null) {
+    super(message);
+    this.provider = provider;
+    this.status = status;
+    this.providerCode = providerCode;
+    this.name = "OutboundProviderError";
+  }
+}
+
+function configString(config: Record<string, unknown> | null | undefined, key: string): string {
+  const value = config?.[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/** E.164-style number, or "" when the value has no digits (callers treat that as missing). */
+export function normalizePhone(value: string): string {
+  if (!/[0-9]/.test(value)) {
+    return "";
+  }
+  let digits = value.replace(/[^0-9+]/g, "");
+  if (digits.startsWith("00")) {
+    digits = `+${digits.slice(2)}`;
+  }
+  // UK national format: 07... → +447..., mirrors bb_norm_identifier
+  if (digits.startsWith("0") && digits.length >= 10 && digits.length <= 12) {
+    digits = `+44${digits.slice(1)}`;
+  }
+  if (!digits.startsWith("+")) {
+    digits = `+${digits.replace(/[^0-9]/g, "")}`;
+  }
+  return digits;
+}
+
+export class TwilioSmsProvider implements OutboundProvider {
+  readonly name = "twilio";
+
+  async send(params: OutboundSendParams): Promise<OutboundSendResult> {
+    const accountSid = getRequiredEnv("TWILIO_ACCOUNT_SID");
+    const authToken = getRequiredEnv("TWILIO_AUTH_TOKEN");
+    const baseUrl = getOptionalEnv("TWILIO_API_BASE_URL", "https://api.twilio.com").replace(/\/$/, "");
+
+    const channelPrefix = params.channel === "whatsapp" ? "whatsapp:" : "";
+    const from = configString(params.channelConfig, "from_number")
+      || getRequiredEnv(params.channel === "whatsapp" ? "TWILIO_WHATSAPP_FROM" : "TWILIO_SMS_FROM");
+
+    const form = new URLSearchParams();
+    form.set("To", `${channelPrefix}${normalizePhone(params.to)}`);
+    form.set("From", from.startsWith(channelPrefix) ? from : `${channelPrefix}${from}`);
+    form.set("Body", params.body);
+
+    const statusCallback = getOptionalEnv("TWILIO_STATUS_CALLBACK_URL");
+    if (statusCallback) {
+      form.set("StatusCallback", statusCallback);
+    }
+
+    const response = await fetchWithTimeout(
+      `${baseUrl}/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: form.toString(),
+      },
+      20_000,
+    );
+
+    if (response.status === 429) {
+      throw new RateLimitError("Twilio rate limited", parseRetryAfterSeconds(response, 30));
+    }
+
+    const raw = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!response.ok) {
+      throw new OutboundProviderError(
+        this.name,
+        response.status,
+        `Twilio send failed (${response.status}): ${String(raw.message || "unknown error")}`,
+        raw.code != null ? String(raw.code) : null,
+      );
+    }
+
+    return {
+      provider: this.name,
+      external_id: String(raw.sid || ""),
+      status: String(raw.status || "queued"),
+      raw,
+    };
+  }
+}
+
+export class WhatsAppCloudProvider implements OutboundProvider {
+  readonly name = "whatsapp_cloud";
+
+  async send(params: OutboundSendParams): Promise<OutboundSendResult> {
+    const accessToken = getRequiredEnv("WHATSAPP_CLOUD_ACCESS_TOKEN");
+    const apiVersion = getOptionalEnv("WHATSAPP_CLOUD_API_VERSION", "v19.0");
+    const baseUrl = getOptionalEnv("WHATSAPP_CLOUD_API_BASE_URL", "https://graph.facebook.com").replace(/\/$/, "");
+    const phoneNumberId = configString(params.channelConfig, "phone_number_id")
+      || getRequiredEnv("WHATSAPP_CLOUD_PHONE_NUMBER_ID");
+
+    const response = await fetchWithTimeout(
+      `${baseUrl}/${apiVersion}/${encodeURIComponent(phoneNumberId)}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          recipient_type: "individual",
+          // Cloud API expects the number without the leading +
+          to: normalizePhone(params.to).replace(/^\+/, ""),
+          type: "text",
+          text: { preview_url: false, body: params.body },
+        }),
+      },
+      20_000,
+    );
+
+    if (response.status === 429) {
+      throw new RateLimitError("WhatsApp Cloud API rate limited", parseRetryAfterSeconds(response, 30));
+    }
+
+    const raw = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!response.ok) {
+      const providerError = (raw.error || {}) as { message?: string; code?: number | string };
+      throw new OutboundProviderError(
+        this.name,
+        response.status,
+        `WhatsApp send failed (${response.status}): ${providerError.message || "unknown error"}`,
+        providerError.code != null ? String(providerError.code) : null,
+      );
+    }
+
+    const messages = Array.isArray(raw.messages) ? raw.messages as Array<{ id?: string }> : [];
+    return {
+      provider: this.name,
+      external_id: String(messages[0]?.id || ""),
+      status: "accepted",
+      raw,
+    };
+  }
+}
+
+/**
+ * Records sends in memory instead of calling a vendor. Selected with
+ * BB_OUTBOUND_PROVIDER=mock so local runs never text real customers.
+ * A recipient ending in "0000" simulates a provider rejection.
+ */
+export class MockOutboundProvider implements OutboundProvider {
+  readonly name = "mock";
+  readonly sent: OutboundSendParams[] = [];
+
+  send(params: OutboundSendParams): Promise<OutboundSendResult> {
+    if (normalizePhone(params.to).endsWith("0000")) {
+      return Promise.reject(
+        new OutboundProviderError(this.name, 400, "Mock provider rejected recipient", "mock_rejected"),
+      );
+    }
+
+    this.sent.push(params);
+    const externalId = `mock-${params.channel}-${crypto.randomUUID()}`;
+    return Promise.resolve({
+      provider: this.name,
+      external_id: externalId,
+      status: "delivered",
+      raw: { id: externalId, to: params.to, channel: params.channel },
+    });
+  }
+}
+
+export function resolveOutboundProvider(channel: OutboundChannel): OutboundProvider {
+  const override = getOptionalEnv(`BB_OUTBOUND_PROVIDER_${channel.toUpperCase()}`)
+    || getOptionalEnv("BB_OUTBOUND_PROVIDER");
+  const selected = override.toLowerCase() || (channel === "whatsapp" ? "whatsapp_cloud" : "twilio");
+
+  switch (selected) {
+    case "mock":
+      return new MockOutboundProvider();
+    case "twilio":
+      return new TwilioSmsProvider();
+    case "whatsapp_cloud":
+      if (channel !== "whatsapp") {
+        throw new Error("whatsapp_cloud provider only supports the whatsapp channel");
+      }
+      return new WhatsAppCloudProvider();
+    default:
+      throw new Error(`Unknown outbound provider: ${selected}`);
+  }
+}
@@ -1,7 +1,8 @@
 import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
-import type { QueueRecord } from "./types.ts";
+import type { QueueRecord, RunState } from "./types.ts";
 
 export const DEFAULT_TIME_BUDGET_MS = 50_000;
+export const PAUSED_RUN_RECHECK_SECONDS = 60;
 
 export class HttpError extends Error {
   readonly status: number;
@@ -57,6 +58,55 @@ export function assertWorkerToken(req: Request): void {
   }
 }
 
+/**
+ * Validates the caller's JWT and that they belong to the workspace, using
+ * their own token so bb_user_in_workspace evaluates as them.
+ */
+export async function assertWorkspaceMember(req: Request, workspaceId: string): Promise<{ userId: string }> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    throw new HttpError(401, "Authorization header is required");
+  }
+
+  const userClient = createClient(getRequiredEnv("SUPABASE_URL"), getRequiredEnv("SUPABASE_ANON_KEY"), {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: userData, error: userError } = await userClient.auth.getUser();
+  if (userError || !userData.user) {
+    throw new HttpError(401, "Invalid auth token");
+  }
+
+  const { data: canAccess, error: accessError } = await userClient.rpc("bb_user_in_workspace", {
+    p_workspace_id: workspaceId,
+  });
+  if (accessError) {
+    throw new Error(`Workspace access check failed: ${accessError.message}`);
+  }
+  if (!canAccess) {
+    throw new HttpError(403, "Not allowed to access this workspace");
+  }
+
+  return { userId: userData.user.id };
+}
+
+export async function assertAdmin(client: SupabaseClient, userId: string, message = "Only admins can do this"): Promise<void> {
+  const { data, error } = await client
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .eq("role", "admin")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`user_roles check failed: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(403, message);
+  }
+}
+
 export function jsonResponse(payload: unknown, status = 200): Response {
   return new Response(JSON.stringify(payload), {
     status,
@@ -175,7 +225,7 @@ export async function touchPipelineRun(
   params: {
     runId?: string | null;
     metricsPatch?: Record<string, unknown>;
-    state?: "running" | "paused" | "failed" | "completed";
+    state?: RunState;
     lastError?: string | null;
     markCompleted?: boolean;
   },
@@ -197,6 +247,63 @@ export async function touchPipelineRun(
   }
 }
 
+/**
+ * Per-invocation gate for jobs that belong to a pipeline run. Jobs of a
+ * paused run go back on the queue after PAUSED_RUN_RECHECK_SECONDS (as a new
+ * message, so a long pause never exhausts read_ct); jobs of a cancelled run
+ * are dropped. Returns true when the caller should skip the job. Jobs
+ * without a run_id always pass. Run states are cached for the invocation.
+ */
+export function createRunGate(client: SupabaseClient) {
+  const states = new Map<string, RunState | null>();
+
+  return async function holdForRunState(
+    queueName: string,
+    record: { msg_id: number; read_ct: number; message: unknown },
+  ): Promise<boolean> {
+    const job = (record.message || {}) as Record<string, unknown>;
+    const runId = typeof job.run_id === "string" ? job.run_id : null;
+    if (!runId) {
+      return false;
+    }
+
+    if (!states.has(runId)) {
+      const { data, error } = await client
+        .from("pipeline_runs")
+        .select("state")
+        .eq("id", runId)
+        .maybeSingle();
+      if (error) {
+        throw new Error(`Failed to load pipeline run ${runId}: ${error.message}`);
+      }
+      states.set(runId, (data?.state as RunState | undefined) ?? null);
+    }
+
+    const state = states.get(runId);
+    if (state === "paused") {
+      await queueSend(client, queueName, job, PAUSED_RUN_RECHECK_SECONDS);
+      await queueDelete(client, queueName, record.msg_id);
+      return true;
+    }
+
+    if (state === "cancelled") {
+      await queueDelete(client, queueName, record.msg_id);
+      await auditJob(client, {
+        workspaceId: typeof job.workspace_id === "string" ? job.workspace_id : null,
+        runId,
+        queueName,
+        jobPayload: job,
+        outcome: "discarded",
+        error: "Run cancelled",
+        attempts: record.read_ct,
+      });
+      return true;
+    }
+
+    return false;
+  };
+}
+
 export async function recordIncident(
   client: SupabaseClient,
   params: {
@@ -0,0 +1,570 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { ATTACHMENT_BUCKET } from "./attachments.ts";
+
+export type RetentionMode = "anonymize" | "delete";
+
+export interface RetentionPolicy {
+  workspace_id: string;
+  retention_days: number;
+  auto_delete_enabled: boolean | null;
+  anonymize_instead_of_delete: boolean | null;
+  exclude_vip_customers: boolean | null;
+}
+
+export interface RetentionCounts {
+  conversations: number;
+  messages: number;
+  message_events: number;
+  raw_emails: number;
+  attachments: number;
+  transcripts: number;
+}
+
+export interface RetentionReport {
+  workspace_id: string;
+  mode: RetentionMode;
+  dry_run: boolean;
+  retention_days: number;
+  cutoff: string;
+  counts: RetentionCounts;
+  skipped: { open: number; legal_hold: number; vip: number };
+  // More eligible conversations than one run processes; the next run continues
+  truncated: boolean;
+  errors: Array<{ conversation_id?: string; error: string }>;
+  generated_at: string;
+}
+
+interface CandidateConversation {
+  id: string;
+  customer_id: string | null;
+}
+
+export const REDACTED = "[removed under data retention policy]";
+
+const CLOSED_STATUSES = ["resolved", "closed"];
+
+export function emptyCounts(): RetentionCounts {
+  return { conversations: 0, messages: 0, message_events: 0, raw_emails: 0, attachments: 0, transcripts: 0 };
+}
+
+export function retentionMode(policy: Pick<RetentionPolicy, "anonymize_instead_of_delete">): RetentionMode {
+  return policy.anonymize_instead_of_delete === false ? "delete" : "anonymize";
+}
+
+function addCounts(target: RetentionCounts, source: RetentionCounts) {
+  for (const key of Object.keys(target) as Array<keyof RetentionCounts>) {
+    target[key] += source[key];
+  }
+}
+
+async function countRows(
+  query: PromiseLike<{ count: number | null; error: { message: string } | null }>,
+  label: string,
+): Promise<number> {
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`${label} count failed: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+/**
+ * Customers whose data must be kept: active legal holds, plus VIPs when the
+ * policy excludes them. Conversation-level holds are returned separately.
+ */
+async function loadProtected(client: SupabaseClient, policy: RetentionPolicy) {
+  const { data: holds, error } = await client
+    .from("legal_holds")
+    .select("customer_id, conversation_id")
+    .eq("workspace_id", policy.workspace_id)
+    .is("released_at", null);
+
+  if (error) {
+    throw new Error(`legal_holds load failed: ${error.message}`);
+  }
+
+  const heldCustomers = new Set((holds || []).map((h) => h.customer_id as string | null).filter(Boolean) as string[]);
+  const heldConversations = new Set(
+    (holds || []).map((h) => h.conversation_id as string | null).filter(Boolean) as string[],
+  );
+
+  const vipCustomers = new Set<string>();
+  if (policy.exclude_vip_customers !== false) {
+    const { data: vips, error: vipError } = await client
+      .from("customers")
+      .select("id")
+      .eq("workspace_id", policy.workspace_id)
+      .or("tier.eq.vip,vip_status.eq.true");
+    if (vipError) {
+      throw new Error(`VIP customers load failed: ${vipError.message}`);
+    }
+    for (const row of vips || []) {
+      vipCustomers.add(row.id as string);
+    }
+  }
+
+  const protectedIds = Array.from(new Set([...heldCustomers, ...vipCustomers]));
+  const protectedEmails = new Set<string>();
+  if (protectedIds.length > 0) {
+    const { data: customers, error: emailError } = await client.from("customers").select("email").in("id", protectedIds);
+    if (emailError) {
+      throw new Error(`protected customer emails load failed: ${emailError.message}`);
+    }
+    for (const row of customers || []) {
+      if (row.email) {
+        protectedEmails.add(String(row.email).toLowerCase());
+      }
+    }
+  }
+
+  return { heldCustomers, heldConversations, vipCustomers, protectedEmails };
+}
+
+/**
+ * Reports (dryRun) or applies a workspace's retention policy. Only resolved
+ * or closed conversations whose last activity is older than the cutoff are
+ * touched; open conversations, legal holds and (optionally) VIP customers
+ * are skipped and counted.
+ */
+export async function runRetention(
+  client: SupabaseClient,
+  policy: RetentionPolicy,
+  options: { dryRun: boolean; limit: number },
+): Promise<RetentionReport> {
+  const mode = retentionMode(policy);
+  const cutoff = new Date(Date.now() - policy.retention_days * 24 * 60 * 60 * 1000).toISOString();
+  const report: RetentionReport = {
+    workspace_id: policy.workspace_id,
+    mode,
+    dry_run: options.dryRun,
+    retention_days: policy.retention_days,
+    cutoff,
+    counts: emptyCounts(),
+    skipped: { open: 0, legal_hold: 0, vip: 0 },
+    truncated: false,
+    errors: [],
+    generated_at: new Date().toISOString(),
+  };
+
+  const protectedSets = await loadProtected(client, policy);
+
+  report.skipped.open = await countRows(
+    client
+      .from("conversations")
+      .select("id", { count: "exact", head: true })
+      .eq("workspace_id", policy.workspace_id)
+      .not("status", "in", `(${CLOSED_STATUSES.join(",")})`)
+      .lt("updated_at", cutoff),
+    "open conversations",
+  );
+
+  // Fetch extra rows so protected conversations do not starve the batch
+  const { data: rows, error } = await client
+    .from("conversations")
+    .select("id, customer_id")
+    .eq("workspace_id", policy.workspace_id)
+    .in("status", CLOSED_STATUSES)
+    .lt("updated_at", cutoff)
+    .is("retention_processed_at", null)
+    .order("updated_at", { ascending: true })
+    .limit(options.limit * 2 + 1);
+
+  if (error) {
+    throw new Error(`conversations load failed: ${error.message}`);
+  }
+
+  const eligible: CandidateConversation[] = [];
+  for (const row of (rows || []) as CandidateConversation[]) {
+    if (protectedSets.heldConversations.has(row.id) || (row.customer_id && protectedSets.heldCustomers.has(row.customer_id))) {
+      report.skipped.legal_hold += 1;
+    } else if (row.customer_id && protectedSets.vipCustomers.has(row.customer_id)) {
+      report.skipped.vip += 1;
+    } else if (eligible.length < options.limit) {
+      eligible.push(row);
+    } else {
+      report.truncated = true;
+    }
+  }
+  if ((rows || []).length > options.limit * 2) {
+    report.truncated = true;
+  }
+
+  for (const conversation of eligible) {
+    try {
+      const counts = options.dryRun
+        ? await countConversationData(client, conversation.id)
+        : await scrubConversation(client, conversation.id, mode);
+      addCounts(report.counts, counts);
+
+      if (!options.dryRun) {
+        await logRetentionAction(client, {
+          action: mode,
+          conversationId: mode === "delete" ? null : conversation.id,
+          customerId: conversation.customer_id,
+          metadata: {
+            source: "retention_policy",
+            conversation_id: conversation.id,
+            retention_days: policy.retention_days,
+            cutoff,
+            counts,
+          },
+        });
+      }
+    } catch (err) {
+      report.errors.push({
+        conversation_id: conversation.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  try {
+    report.counts.raw_emails = await processRawEmails(client, policy, {
+      cutoff,
+      mode,
+      dryRun: options.dryRun,
+      protectedEmails: protectedSets.protectedEmails,
+      heldConversationIds: Array.from(protectedSets.heldConversations),
+      limit: options.limit * 5,
+    });
+  } catch (err) {
+    report.errors.push({ error: err instanceof Error ? err.message : String(err) });
+  }
+
+  return report;
+}
+
+export async function countConversationData(client: SupabaseClient, conversationId: string): Promise<RetentionCounts> {
+  const { data: messages, error } = await client.from("messages").select("id").eq("conversation_id", conversationId);
+  if (error) {
+    throw new Error(`messages load failed: ${error.message}`);
+  }
+  const messageIds = (messages || []).map((m) => m.id as string);
+
+  const [events, attachments, transcripts] = await Promise.all([
+    countRows(
+      client
+        .from("message_events")
+        .select("id", { count: "exact", head: true })
+        .eq("materialized_conversation_id", conversationId),
+      "message_events",
+    ),
+    countRows(
+      client.from("message_attachments").select("id", { count: "exact", head: true }).eq("conversation_id", conversationId),
+      "message_attachments",
+    ),
+    messageIds.length === 0 ? Promise.resolve(0) : countRows(
+      client.from("voicemail_transcripts").select("id", { count: "exact", head: true }).in("message_id", messageIds),
+      "voicemail_transcripts",
+    ),
+  ]);
+
+  return {
+    conversations: 1,
+    messages: messageIds.length,
+    message_events: events,
+    raw_emails: 0,
+    attachments,
+    transcripts,
+  };
+}
+
+/**
+ * Removes or anonymises everything stored for one conversation. message_events
+ * rows are always kept (their external_id stops the mailbox re-importing the
+ * message) with their content cleared. Also used for GDPR erasure.
+ */
+export async function scrubConversation(
+  client: SupabaseClient,
+  conversationId: string,
+  mode: RetentionMode,
+): Promise<RetentionCounts> {
+  const counts = await countConversationData(client, conversationId);
+  const { data: messages } = await client.from("messages").select("id").eq("conversation_id", conversationId);
+  const messageIds = (messages || []).map((m) => m.id as string);
+
+  const check = (label: string, error: { message: string } | null) => {
+    if (error) {
+      throw new Error(`${label} failed: ${error.message}`);
+    }
+  };
+
+  const { data: attachments } = await client
+    .from("message_attachments")
+    .select("storage_path")
+    .eq("conversation_id", conversationId)
+    .not("storage_path", "is", null);
+  const paths = (attachments || []).map((a) => a.storage_path as string);
+  if (paths.length > 0) {
+    const { error } = await client.storage.from(ATTACHMENT_BUCKET).remove(paths);
+    check("attachment storage remove", error);
+  }
+
+  const { error: eventsError } = await client
+    .from("message_events")
+    .update({
+      raw_payload: null,
+      body: null,
+      body_html: null,
+      subject: null,
+      from_name: null,
+      from_identifier: REDACTED,
+      to_identifier: REDACTED,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("materialized_conversation_id", conversationId);
+  check("message_events redact", eventsError);
+
+  if (mode === "delete") {
+    if (messageIds.length > 0) {
+      const { error } = await client.from("voicemail_transcripts").delete().in("message_id", messageIds);
+      check("voicemail_transcripts delete", error);
+    }
+    // These keep copies of the message text and do not cascade
+    for (const table of ["conversation_pairs", "classification_corrections"]) {
+      const { error } = await client.from(table).delete().eq("conversation_id", conversationId);
+      check(`${table} delete`, error);
+    }
+    // Import bookkeeping and triage feedback outlive the conversation, unlinked
+    for (const table of ["email_import_queue", "email_thread_analysis", "triage_corrections"]) {
+      const { error } = await client.from(table).update({ conversation_id: null }).eq("conversation_id", conversationId);
+      check(`${table} unlink`, error);
+    }
+    // Messages and attachment rows cascade with the conversation
+    const { error } = await client.from("conversations").delete().eq("id", conversationId);
+    check("conversation delete", error);
+    return counts;
+  }
+
+  if (messageIds.length > 0) {
+    const { error } = await client
+      .from("voicemail_transcripts")
+      .update({ transcript: null, summary: null, extracted_info: null, suggested_response: null, audio_url: REDACTED })
+      .in("message_id", messageIds);
+    check("voicemail_transcripts redact", error);
+  }
+
+  const { error: attachmentsError } = await client
+    .from("message_attachments")
+    .update({
+      filename: REDACTED,
+      storage_path: null,
+      extracted_text: null,
+      analysis: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("conversation_id", conversationId);
+  check("message_attachments redact", attachmentsError);
+
+  const { error: messagesError } = await client
+    .from("messages")
+    .update({
+      body: REDACTED,
+      actor_name: null,
+      raw_payload: null,
+      attachments: null,
+      attachment_urls: null,
+      audio_url: null,
+    })
+    .eq("conversation_id", conversationId);
+  check("messages redact", messagesError);
+
+  const { error: conversationError } = await client
+    .from("conversations")
+    .update({
+      title: REDACTED,
+      summary_for_human: null,
+      ai_draft_response: null,
+      final_response: null,
+      retention_processed_at: new Date().toISOString(),
+    })
+    .eq("id", conversationId);
+  check("conversation redact", conversationError);
+
+  return counts;
+}
+
+/**
+ * External message and thread ids of raw emails that belong to a conversation
+ * which is not yet resolved or closed. Those emails are kept until the
+ * conversation itself becomes eligible.
+ */
+async function loadOpenEmailKeys(
+  client: SupabaseClient,
+  workspaceId: string,
+  rows: Array<{ external_id?: unknown; thread_id?: unknown }>,
+): Promise<{ messageIds: Set<string>; threadIds: Set<string> }> {
+  const messageIds = new Set<string>();
+  const threadIds = new Set<string>();
+  const externalIds = Array.from(new Set(rows.map((row) => row.external_id as string | null).filter(Boolean))) as string[];
+  const threads = Array.from(new Set(rows.map((row) => row.thread_id as string | null).filter(Boolean))) as string[];
+  const openFilter = `(${CLOSED_STATUSES.join(",")})`;
+
+  if (threads.length > 0) {
+    const { data, error } = await client
+      .from("conversation_refs")
+      .select("external_thread_id, conversations!inner(status)")
+      .eq("workspace_id", workspaceId)
+      .eq("channel", "email")
+      .in("external_thread_id", threads)
+      .not("conversations.status", "in", openFilter);
+    if (error) {
+      throw new Error(`conversation_refs load failed: ${error.message}`);
+    }
+    for (const row of data || []) {
+      threadIds.add(row.external_thread_id as string);
+    }
+  }
+
+  if (externalIds.length > 0) {
+    const { data, error } = await client
+      .from("messages")
+      .select("external_id, conversations!inner(status, workspace_id)")
+      .eq("conversations.workspace_id", workspaceId)
+      .in("external_id", externalIds)
+      .not("conversations.status", "in", openFilter);
+    if (error) {
+      throw new Error(`messages load failed: ${error.message}`);
+    }
+    for (const row of data || []) {
+      messageIds.add(row.external_id as string);
+    }
+  }
+
+  return { messageIds, threadIds };
+}
+
+/**
+ * Thread and message ids of conversations under a legal hold, so the mail
+ * rows behind them are kept along with the conversation.
+ */
+export async function loadHeldEmailKeys(client: SupabaseClient, workspaceId: string, conversationIds: string[]) {
+  const threadIds = new Set<string>();
+  const messageIds = new Set<string>();
+  if (conversationIds.length === 0) {
+    return { threadIds, messageIds };
+  }
+
+  const [{ data: refs, error: refsError }, { data: messages, error: messagesError }, { data: imported, error: importedError }] =
+    await Promise.all([
+      client
+        .from("conversation_refs")
+        .select("external_thread_id")
+        .eq("workspace_id", workspaceId)
+        .eq("channel", "email")
+        .in("conversation_id", conversationIds),
+      client
+        .from("messages")
+        .select("external_id")
+        .in("conversation_id", conversationIds)
+        .not("external_id", "is", null),
+      client
+        .from("email_import_queue")
+        .select("thread_id")
+        .eq("workspace_id", workspaceId)
+        .in("conversation_id", conversationIds),
+    ]);
+  const loadError = refsError || messagesError || importedError;
+  if (loadError) {
+    throw new Error(`held conversation mail keys load failed: ${loadError.message}`);
+  }
+
+  for (const row of refs || []) threadIds.add(row.external_thread_id as string);
+  for (const row of imported || []) threadIds.add(row.thread_id as string);
+  for (const row of messages || []) messageIds.add(row.external_id as string);
+  return { threadIds, messageIds };
+}
+
+async function processRawEmails(
+  client: SupabaseClient,
+  policy: RetentionPolicy,
+  params: {
+    cutoff: string;
+    mode: RetentionMode;
+    dryRun: boolean;
+    protectedEmails: Set<string>;
+    heldConversationIds: string[];
+    limit: number;
+  },
+): Promise<number> {
+  const { data, error } = await client
+    .from("raw_emails")
+    .select("id, from_email, external_id, thread_id")
+    .eq("workspace_id", policy.workspace_id)
+    .lt("created_at", params.cutoff)
+    .neq("from_email", REDACTED)
+    .limit(params.limit);
+
+  if (error) {
+    throw new Error(`raw_emails load failed: ${error.message}`);
+  }
+
+  const candidates = (data || []).filter((row) => !params.protectedEmails.has(String(row.from_email || "").toLowerCase()));
+  const [open, held] = await Promise.all([
+    loadOpenEmailKeys(client, policy.workspace_id, candidates),
+    loadHeldEmailKeys(client, policy.workspace_id, params.heldConversationIds),
+  ]);
+  const ids = candidates
+    .filter((row) => !open.messageIds.has(row.external_id as string) && !open.threadIds.has(row.thread_id as string))
+    .filter((row) => !held.messageIds.has(row.external_id as string) && !held.threadIds.has(row.thread_id as string))
+    .map((row) => row.id as string);
+
+  if (params.dryRun || ids.length === 0) {
+    return ids.length;
+  }
+
+  const { error: writeError } = params.mode === "delete"
+    ? await client.from("raw_emails").delete().in("id", ids)
+    : await client
+      .from("raw_emails")
+      .update({
+        from_email: REDACTED,
+        from_name: null,
+        to_email: null,
+        to_name: null,
+        subject: null,
+        body_text: null,
+        body_html: null,
+      })
+      .in("id", ids);
+
+  if (writeError) {
+    throw new Error(`raw_emails ${params.mode} failed: ${writeError.message}`);
+  }
+
+  await logRetentionAction(client, {
+    action: params.mode,
+    conversationId: null,
+    customerId: null,
+    metadata: {
+      source: "retention_policy",
+      workspace_id: policy.workspace_id,
+      table: "raw_emails",
+      rows: ids.length,
+      cutoff: params.cutoff,
+    },
+  });
+
+  return ids.length;
+}
+
+export async function logRetentionAction(client: SupabaseClient, params: {
+  action: RetentionMode;
+  conversationId: string | null;
+  customerId: string | null;
+  userId?: string | null;
+  metadata: Record<string, unknown>;
+}) {
+  const { error } = await client.from("data_access_logs").insert({
+    action: params.action,
+    conversation_id: params.conversationId,
+    customer_id: params.customerId,
+    user_id: params.userId || null,
+    metadata: params.metadata,
+  });
+
+  if (error) {
+    // The data is already gone, so a missing log row must be visible in function logs
+    console.error("data_access_logs insert failed", error.message, params);
+  }
+}
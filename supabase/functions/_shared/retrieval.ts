@@ -0,0 +1,318 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { fetchWithTimeout, getOptionalEnv } from "./pipeline.ts";
+
+export type KnowledgeKind = "faq" | "price_list" | "document";
+
+export interface KnowledgeSnippet {
+  // Short label the model cites inline, e.g. "F1", "P2", "D3"
+  ref: string;
+  kind: KnowledgeKind;
+  source_id: string;
+  title: string;
+  content: string;
+  score: number;
+  match: "semantic" | "keyword";
+  document_id?: string;
+  page?: number | null;
+}
+
+export type DraftCitation = Omit<KnowledgeSnippet, "content"> & { snippet: string };
+
+const REF_PREFIX: Record<KnowledgeKind, string> = { faq: "F", price_list: "P", document: "D" };
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "could", "do", "does", "for", "from", "have",
+  "hi", "hello", "how", "i", "if", "in", "is", "it", "me", "my", "of", "on", "or", "our", "please", "so", "that",
+  "the", "thanks", "there", "this", "to", "we", "what", "when", "will", "with", "would", "you", "your",
+]);
+
+/**
+ * OpenAI-compatible embeddings (text-embedding-3-small, 1536 dims, matching
+ * the vector columns). Returns null when no key is configured or the call
+ * fails so callers can fall back to keyword matching.
+ */
+export async function embedText(text: string): Promise<number[] | null> {
+  const apiKey = getOptionalEnv("OPENAI_API_KEY");
+  const input = text.trim().slice(0, 8000);
+  if (!apiKey || !input) {
+    return null;
+  }
+
+  try {
+    const response = await fetchWithTimeout(getOptionalEnv("OPENAI_EMBEDDINGS_URL", "https://api.openai.com/v1/embeddings"), {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: getOptionalEnv("OPENAI_EMBEDDING_MODEL", "text-embedding-3-small"),
+        input,
+      }),
+    }, 10_000);
+
+    if (!response.ok) {
+      console.warn("embedding request failed", response.status, await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    const embedding = data?.data?.[0]?.embedding;
+    return Array.isArray(embedding) ? embedding as number[] : null;
+  } catch (e) {
+    console.warn("embedding request error:", e);
+    return null;
+  }
+}
+
+const CONVERSATION_MESSAGE_CHARS = 1500;
+
+export interface EmbeddableConversation {
+  id: string;
+  title: string | null;
+  summary_for_human: string | null;
+}
+
+// Subject, summary and the opening customer messages describe what a conversation is about
+async function conversationText(client: SupabaseClient, conversation: EmbeddableConversation): Promise<string> {
+  const { data: messages } = await client
+    .from("messages")
+    .select("body")
+    .eq("conversation_id", conversation.id)
+    .eq("direction", "inbound")
+    .order("created_at", { ascending: true })
+    .limit(3);
+
+  return [
+    conversation.title,
+    conversation.summary_for_human,
+    ...(messages || []).map((m) => String(m.body || "").slice(0, CONVERSATION_MESSAGE_CHARS)),
+  ].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Embeds a conversation and stores it on conversations.embedding, the column
+ * bb_similar_conversations searches. Returns null when embedding fails.
+ */
+export async function embedConversation(
+  client: SupabaseClient,
+  conversation: EmbeddableConversation,
+): Promise<number[] | null> {
+  const embedding = await embedText(await conversationText(client, conversation));
+  if (embedding) {
+    const { error } = await client
+      .from("conversations")
+      .update({ embedding: JSON.stringify(embedding) })
+      .eq("id", conversation.id);
+    if (error) {
+      console.warn("conversation embedding update failed", conversation.id, error.message);
+    }
+  }
+  return embedding;
+}
+
+export function tokenize(text: string): string[] {
+  return String(text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9£€$\s-]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 2 && !STOPWORDS.has(token));
+}
+
+/**
+ * Share of query terms present in the candidate text. Cheap stand-in for
+ * rows without embeddings (price_list has no vector column).
+ */
+export function keywordScore(queryTokens: Set<string>, text: string): number {
+  if (queryTokens.size === 0) {
+    return 0;
+  }
+  const candidate = new Set(tokenize(text));
+  let hits = 0;
+  for (const token of queryTokens) {
+    if (candidate.has(token)) {
+      hits += 1;
+    }
+  }
+  return hits / queryTokens.size;
+}
+
+function priceLine(row: Record<string, unknown>): string {
+  const price = row.price_range
+    || (row.price_min != null && row.price_max != null ? `£${row.price_min}–£${row.price_max}` : null)
+    || (row.base_price != null ? `£${row.base_price}` : null)
+    || (row.price_typical != null ? `£${row.price_typical}` : null)
+    || "price on request";
+  const unit = row.unit ? ` per ${row.unit}` : "";
+  const description = row.description ? ` — ${row.description}` : "";
+  return `${row.service_name}: ${price}${unit}${description}`;
+}
+
+async function semanticFaqs(client: SupabaseClient, workspaceId: string, embedding: number[], k: number) {
+  const { data, error } = await client.rpc("match_faq_database", {
+    query_embedding: JSON.stringify(embedding),
+    match_workspace_id: workspaceId,
+    match_threshold: 0.35,
+    match_count: k,
+  });
+  if (error) {
+    console.warn("match_faq_database failed:", error.message);
+    return [];
+  }
+  return ((data || []) as Array<{ id: string; question: string; answer: string; similarity: number }>).map((row) => ({
+    kind: "faq" as const,
+    source_id: row.id,
+    title: row.question,
+    content: `Q: ${row.question}\nA: ${row.answer}`,
+    score: Number(row.similarity),
+    match: "semantic" as const,
+  }));
+}
+
+async function keywordFaqs(client: SupabaseClient, workspaceId: string, queryTokens: Set<string>, k: number) {
+  const { data, error } = await client
+    .from("faq_database")
+    .select("id, question, answer, keywords, priority")
+    .eq("workspace_id", workspaceId)
+    .or("archived.is.null,archived.eq.false")
+    .order("priority", { ascending: false, nullsFirst: false })
+    .limit(300);
+  if (error) {
+    console.warn("faq_database query failed (table may not exist):", error.message);
+    return [];
+  }
+  return (data || [])
+    .map((row) => ({
+      kind: "faq" as const,
+      source_id: String(row.id),
+      title: String(row.question),
+      content: `Q: ${row.question}\nA: ${row.answer}`,
+      score: keywordScore(queryTokens, `${row.question} ${row.answer} ${(row.keywords || []).join(" ")}`),
+      match: "keyword" as const,
+    }))
+    .filter((row) => row.score >= 0.2)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+async function keywordPrices(client: SupabaseClient, workspaceId: string, queryTokens: Set<string>, k: number) {
+  const { data, error } = await client
+    .from("price_list")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .or("is_active.is.null,is_active.eq.true")
+    .limit(500);
+  if (error) {
+    console.warn("price_list query failed (table may not exist):", error.message);
+    return [];
+  }
+  return ((data || []) as Array<Record<string, unknown>>)
+    .map((row) => ({
+      kind: "price_list" as const,
+      source_id: String(row.id),
+      title: String(row.service_name),
+      content: priceLine(row),
+      score: keywordScore(queryTokens, `${row.service_name} ${row.category || ""} ${row.description || ""} ${row.property_type || ""}`),
+      match: "keyword" as const,
+    }))
+    .filter((row) => row.score >= 0.2)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+async function semanticDocuments(client: SupabaseClient, workspaceId: string, embedding: number[], k: number) {
+  const { data, error } = await client.rpc("match_document_chunks", {
+    query_embedding: JSON.stringify(embedding),
+    match_workspace_id: workspaceId,
+    match_threshold: 0.3,
+    match_count: k,
+  });
+  if (error) {
+    console.warn("match_document_chunks failed:", error.message);
+    return [];
+  }
+
+  const rows = (data || []) as Array<{ id: string; document_id: string; content: string; page_number: number; similarity: number }>;
+  const documentIds = Array.from(new Set(rows.map((row) => row.document_id)));
+  const names = new Map<string, string>();
+  if (documentIds.length > 0) {
+    const { data: documents } = await client.from("documents").select("id, name").in("id", documentIds);
+    for (const doc of documents || []) {
+      names.set(String(doc.id), String(doc.name));
+    }
+  }
+
+  return rows.map((row) => ({
+    kind: "document" as const,
+    source_id: row.id,
+    document_id: row.document_id,
+    page: row.page_number,
+    title: `${names.get(row.document_id) || "Document"}${row.page_number ? ` (p. ${row.page_number})` : ""}`,
+    content: row.content,
+    score: Number(row.similarity),
+    match: "semantic" as const,
+  }));
+}
+
+/**
+ * Top-k knowledge for a customer message: FAQs and document chunks by
+ * embedding similarity, price list rows by keyword overlap. FAQs fall back
+ * to keyword matching when embeddings are unavailable or return nothing.
+ * Each snippet gets a short ref ("F1", "P1", "D1") for inline citation.
+ */
+export async function retrieveKnowledge(
+  client: SupabaseClient,
+  params: { workspaceId: string; query: string; k?: number },
+): Promise<KnowledgeSnippet[]> {
+  const k = params.k ?? 5;
+  const queryTokens = new Set(tokenize(params.query));
+  const embedding = await embedText(params.query);
+
+  const [semanticFaqRows, documentRows, priceRows] = await Promise.all([
+    embedding ? semanticFaqs(client, params.workspaceId, embedding, k) : Promise.resolve([]),
+    embedding ? semanticDocuments(client, params.workspaceId, embedding, k) : Promise.resolve([]),
+    keywordPrices(client, params.workspaceId, queryTokens, k),
+  ]);
+
+  const faqRows = semanticFaqRows.length > 0
+    ? semanticFaqRows
+    : await keywordFaqs(client, params.workspaceId, queryTokens, k);
+
+  const counters: Record<KnowledgeKind, number> = { faq: 0, price_list: 0, document: 0 };
+  return [...faqRows, ...priceRows, ...documentRows].map((row) => {
+    counters[row.kind] += 1;
+    return { ...row, ref: `${REF_PREFIX[row.kind]}${counters[row.kind]}` };
+  });
+}
+
+/**
+ * Pulls inline [F1]/[P2]/[D3] markers out of a draft. Returns the customer-
+ * facing text without markers and the citations that were actually used.
+ */
+export function extractCitations(
+  draft: string,
+  snippets: KnowledgeSnippet[],
+): { text: string; citations: DraftCitation[] } {
+  const byRef = new Map(snippets.map((snippet) => [snippet.ref, snippet]));
+  const used = new Set<string>();
+
+  const text = draft
+    .replace(/\s*\[((?:[FPD]\d+)(?:\s*,\s*[FPD]\d+)*)\]/g, (_match, refs: string) => {
+      for (const ref of refs.split(/\s*,\s*/)) {
+        if (byRef.has(ref)) {
+          used.add(ref);
+        }
+      }
+      return "";
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/ {2,}/g, " ")
+    .trim();
+
+  const citations = Array.from(used).map((ref) => {
+    const { content, ...rest } = byRef.get(ref)!;
+    return { ...rest, snippet: content.slice(0, 300) };
+  });
+
+  return { text, citations };
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import type { ClassificationResult } from "./types.ts";
+
+export type DecisionBucket = "auto_handled" | "needs_human" | "act_now" | "quick_win";
+
+export const DECISION_BUCKETS: DecisionBucket[] = ["auto_handled", "needs_human", "act_now", "quick_win"];
+
+export interface RoutingPolicy {
+  noise_categories: string[];
+  default_confidence_threshold: number;
+  // Per-category override of default_confidence_threshold
+  category_thresholds: Record<string, number>;
+  // Category → bucket, applied before confidence/requires_reply checks
+  category_buckets: Record<string, DecisionBucket>;
+  bucket_statuses: Record<DecisionBucket, string>;
+  vip_escalation: boolean;
+  vip_bucket: DecisionBucket;
+  // Exact addresses or "@domain" entries, on top of workspaces.vip_domains and customers.vip_status
+  vip_senders: string[];
+  // Where act_now items go when they arrive outside business hours (null = unchanged)
+  after_hours_bucket: DecisionBucket | null;
+}
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  noise_categories: ["notification", "newsletter", "spam"],
+  default_confidence_threshold: 0.7,
+  category_thresholds: {},
+  category_buckets: {},
+  bucket_statuses: {
+    auto_handled: "resolved",
+    needs_human: "escalated",
+    act_now: "ai_handling",
+    quick_win: "open",
+  },
+  vip_escalation: false,
+  vip_bucket: "needs_human",
+  vip_senders: [],
+  after_hours_bucket: null,
+};
+
+export interface RoutingContext {
+  isVip: boolean;
+  withinBusinessHours: boolean;
+}
+
+export interface RoutingDecision {
+  decisionBucket: DecisionBucket;
+  status: string;
+  reason: string;
+}
+
+function asBucket(value: unknown): DecisionBucket | null {
+  const lowered = String(value || "").trim().toLowerCase();
+  return DECISION_BUCKETS.includes(lowered as DecisionBucket) ? lowered as DecisionBucket : null;
+}
+
+function clampThreshold(value: unknown, fallback: number): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(0, Math.min(1, num)) : fallback;
+}
+
+export function normalizeRoutingPolicy(row: Record<string, unknown> | null | undefined): RoutingPolicy {
+  if (!row) {
+    return DEFAULT_ROUTING_POLICY;
+  }
+
+  const categoryThresholds: Record<string, number> = {};
+  for (const [category, threshold] of Object.entries((row.category_thresholds || {}) as Record<string, unknown>)) {
+    categoryThresholds[category.toLowerCase()] = clampThreshold(threshold, DEFAULT_ROUTING_POLICY.default_confidence_threshold);
+  }
+
+  const categoryBuckets: Record<string, DecisionBucket> = {};
+  for (const [category, bucket] of Object.entries((row.category_buckets || {}) as Record<string, unknown>)) {
+    const typed = asBucket(bucket);
+    if (typed) {
+      categoryBuckets[category.toLowerCase()] = typed;
+    }
+  }
+
+  const bucketStatuses = { ...DEFAULT_ROUTING_POLICY.bucket_statuses };
+  for (const [bucket, status] of Object.entries((row.bucket_statuses || {}) as Record<string, unknown>)) {
+    const typed = asBucket(bucket);
+    if (typed && typeof status === "string" && status.trim()) {
+      bucketStatuses[typed] = status.trim();
+    }
+  }
+
+  return {
+    noise_categories: Array.isArray(row.noise_categories)
+      ? (row.noise_categories as unknown[]).map((c) => String(c).trim().toLowerCase()).filter(Boolean)
+      : DEFAULT_ROUTING_POLICY.noise_categories,
+    default_confidence_threshold: clampThreshold(
+      row.default_confidence_threshold,
+      DEFAULT_ROUTING_POLICY.default_confidence_threshold,
+    ),
+    category_thresholds: categoryThresholds,
+    category_buckets: categoryBuckets,
+    bucket_statuses: bucketStatuses,
+    vip_escalation: row.vip_escalation === true,
+    vip_bucket: asBucket(row.vip_bucket) || DEFAULT_ROUTING_POLICY.vip_bucket,
+    vip_senders: Array.isArray(row.vip_senders)
+      ? (row.vip_senders as unknown[]).map((s) => String(s).trim().toLowerCase()).filter(Boolean)
+      : [],
+    after_hours_bucket: asBucket(row.after_hours_bucket),
+  };
+}
+
+export async function loadRoutingPolicy(client: SupabaseClient, workspaceId: string): Promise<RoutingPolicy> {
+  const { data, error } = await client
+    .from("routing_policies")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("routing_policies load failed (table may not exist):", error.message);
+  }
+
+  return normalizeRoutingPolicy(data as Record<string, unknown> | null);
+}
+
+export function isVipSender(params: {
+  sender: string;
+  customerVip: boolean;
+  policy: RoutingPolicy;
+  vipDomains: string[];
+}): boolean {
+  if (params.customerVip) {
+    return true;
+  }
+
+  const sender = params.sender.trim().toLowerCase();
+  if (!sender) {
+    return false;
+  }
+
+  const domain = sender.includes("@") ? sender.split("@").pop() || "" : "";
+  const domains = new Set(params.vipDomains.map((d) => d.trim().toLowerCase().replace(/^@/, "")).filter(Boolean));
+
+  return params.policy.vip_senders.some((entry) => entry.startsWith("@") ? entry.slice(1) === domain : entry === sender)
+    || (domain !== "" && domains.has(domain));
+}
+
+function withStatus(policy: RoutingPolicy, bucket: DecisionBucket, reason: string, forcedStatus?: string): RoutingDecision {
+  return { decisionBucket: bucket, status: forcedStatus || policy.bucket_statuses[bucket], reason };
+}
+
+/**
+ * Maps a classification to a decision bucket. Order: sender-rule force,
+ * noise, category override, VIP escalation, confidence threshold, then
+ * requires_reply (with the after-hours adjustment for act_now).
+ */
+export function decideRoute(
+  result: ClassificationResult,
+  policy: RoutingPolicy,
+  context: RoutingContext,
+  forced?: { bucket?: DecisionBucket; status?: string },
+): RoutingDecision {
+  if (forced?.bucket) {
+    return withStatus(policy, forced.bucket, "sender_rule", forced.status);
+  }
+
+  const category = (result.category || "").toLowerCase();
+
+  if (policy.noise_categories.includes(category)) {
+    return withStatus(policy, "auto_handled", "noise_category");
+  }
+
+  const override = policy.category_buckets[category];
+  if (override) {
+    return withStatus(policy, override, "category_override");
+  }
+
+  if (policy.vip_escalation && context.isVip) {
+    return withStatus(policy, policy.vip_bucket, "vip_sender");
+  }
+
+  const threshold = policy.category_thresholds[category] ?? policy.default_confidence_threshold;
+  if (result.confidence < threshold) {
+    return withStatus(policy, "needs_human", "low_confidence");
+  }
+
+  if (result.requires_reply) {
+    if (!context.withinBusinessHours && policy.after_hours_bucket) {
+      return withStatus(policy, policy.after_hours_bucket, "after_hours");
+    }
+    return withStatus(policy, "act_now", "requires_reply");
+  }
+
+  return withStatus(policy, "quick_win", "no_reply_needed");
+}
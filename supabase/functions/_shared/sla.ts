@@ -0,0 +1,289 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { type BusinessHours, businessHoursFromWorkspace, localParts } from "./business-hours.ts";
+import { fetchWithTimeout } from "./pipeline.ts";
+
+export type SlaStatus = "safe" | "warning" | "breached";
+
+export interface SlaTarget {
+  firstResponseMinutes: number;
+  // null = no resolution target for this priority
+  resolutionMinutes: number | null;
+  pauseOutsideHours: boolean;
+}
+
+export interface SlaContext {
+  hours: BusinessHours;
+  region: string;
+  targets: Record<string, SlaTarget>;
+  closedDates: Set<string>;
+}
+
+export interface SlaConversation {
+  priority: string | null;
+  status: string | null;
+  created_at: string;
+}
+
+export interface SlaResult {
+  sla_response_due_at: string | null;
+  sla_resolution_due_at: string | null;
+  sla_due_at: string | null;
+  sla_warning_at: string | null;
+  sla_target_minutes: number | null;
+  sla_status: SlaStatus;
+}
+
+// Matches the sla_configs seeded for new workspaces; resolution had no column before
+export const DEFAULT_SLA_TARGETS: Record<string, SlaTarget> = {
+  high: { firstResponseMinutes: 60, resolutionMinutes: 8 * 60, pauseOutsideHours: true },
+  medium: { firstResponseMinutes: 240, resolutionMinutes: 24 * 60, pauseOutsideHours: true },
+  low: { firstResponseMinutes: 1440, resolutionMinutes: 72 * 60, pauseOutsideHours: true },
+};
+
+export const SLA_CLOSED_STATUSES = new Set(["resolved", "closed"]);
+
+// Share of the target after which a conversation turns "warning"
+const WARNING_FRACTION = 0.75;
+const MAX_STEPS = 2000;
+const HOLIDAY_WINDOW_DAYS = 400;
+const BANK_HOLIDAYS_URL = "https://www.gov.uk/bank-holidays.json";
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+/**
+ * Adds working minutes to an instant: the clock only runs inside business
+ * hours on business days that are not in closedDates (local ISO dates).
+ * Walks a day at a time, so targets spanning weeks stay cheap.
+ */
+export function addBusinessMinutes(
+  start: Date,
+  minutes: number,
+  hours: BusinessHours,
+  closedDates: Set<string> = new Set(),
+): Date {
+  if (hours.endMinutes <= hours.startMinutes || hours.days.length === 0) {
+    return addMinutes(start, minutes);
+  }
+
+  let cursor = new Date(start);
+  cursor.setUTCSeconds(0, 0);
+  let remaining = minutes;
+
+  for (let step = 0; remaining > 0 && step < MAX_STEPS; step++) {
+    const local = localParts(cursor, hours.timezone);
+    const openDay = hours.days.includes(local.day) && !closedDates.has(local.isoDate);
+
+    if (openDay && local.minutes >= hours.startMinutes && local.minutes < hours.endMinutes) {
+      const chunk = Math.min(remaining, hours.endMinutes - local.minutes);
+      cursor = addMinutes(cursor, chunk);
+      remaining -= chunk;
+      continue;
+    }
+
+    const untilOpen = openDay && local.minutes < hours.startMinutes
+      ? hours.startMinutes - local.minutes
+      : 24 * 60 - local.minutes + hours.startMinutes;
+    cursor = addMinutes(cursor, untilOpen);
+
+    // A DST change overnight lands an hour off the opening time
+    const landed = localParts(cursor, hours.timezone);
+    const drift = hours.startMinutes - landed.minutes;
+    if (drift !== 0 && Math.abs(drift) <= 120) {
+      cursor = addMinutes(cursor, drift);
+    }
+  }
+
+  return cursor;
+}
+
+export async function loadSlaContext(client: SupabaseClient, workspaceId: string): Promise<SlaContext> {
+  const [{ data: workspace, error: workspaceError }, { data: configs, error: configsError }] = await Promise.all([
+    client
+      .from("workspaces")
+      .select("timezone, business_hours_start, business_hours_end, business_days, bank_holiday_region")
+      .eq("id", workspaceId)
+      .maybeSingle(),
+    client
+      .from("sla_configs")
+      .select("priority, first_response_minutes, resolution_minutes, pause_outside_hours")
+      .eq("workspace_id", workspaceId),
+  ]);
+
+  if (workspaceError) {
+    console.warn("workspaces SLA load failed:", workspaceError.message);
+  }
+  if (configsError) {
+    console.warn("sla_configs load failed:", configsError.message);
+  }
+
+  const targets: Record<string, SlaTarget> = { ...DEFAULT_SLA_TARGETS };
+  for (const row of configs || []) {
+    const fallback = DEFAULT_SLA_TARGETS[row.priority] || DEFAULT_SLA_TARGETS.medium;
+    targets[row.priority] = {
+      firstResponseMinutes: Number(row.first_response_minutes) || fallback.firstResponseMinutes,
+      resolutionMinutes: row.resolution_minutes === null || row.resolution_minutes === undefined
+        ? fallback.resolutionMinutes
+        : Number(row.resolution_minutes) || null,
+      pauseOutsideHours: row.pause_outside_hours !== false,
+    };
+  }
+
+  const region = String(workspace?.bank_holiday_region || "england-and-wales");
+  const today = new Date();
+  const { data: holidays, error: holidaysError } = await client
+    .from("bank_holidays")
+    .select("holiday_date")
+    .eq("region", region)
+    .gte("holiday_date", addMinutes(today, -60 * 24 * 60).toISOString().slice(0, 10))
+    .lte("holiday_date", addMinutes(today, HOLIDAY_WINDOW_DAYS * 24 * 60).toISOString().slice(0, 10));
+
+  if (holidaysError) {
+    console.warn("bank_holidays load failed:", holidaysError.message);
+  }
+
+  return {
+    hours: businessHoursFromWorkspace(workspace as Record<string, unknown> | null),
+    region,
+    targets,
+    closedDates: new Set((holidays || []).map((row) => String(row.holiday_date))),
+  };
+}
+
+function targetFor(context: SlaContext, priority: string | null): SlaTarget {
+  return context.targets[priority || "medium"] || context.targets.medium || DEFAULT_SLA_TARGETS.medium;
+}
+
+function deadline(context: SlaContext, target: SlaTarget, start: Date, minutes: number): Date {
+  return target.pauseOutsideHours
+    ? addBusinessMinutes(start, minutes, context.hours, context.closedDates)
+    : addMinutes(start, minutes);
+}
+
+/**
+ * First-response target runs from the oldest customer message still waiting
+ * for a reply; the resolution target runs from when the conversation opened.
+ * sla_due_at is whichever is sooner.
+ */
+export function computeConversationSla(
+  context: SlaContext,
+  conversation: SlaConversation,
+  awaitingReplySince: Date | null,
+  now = new Date(),
+): SlaResult {
+  if (SLA_CLOSED_STATUSES.has(conversation.status || "")) {
+    return {
+      sla_response_due_at: null,
+      sla_resolution_due_at: null,
+      sla_due_at: null,
+      sla_warning_at: null,
+      sla_target_minutes: null,
+      sla_status: "safe",
+    };
+  }
+
+  const target = targetFor(context, conversation.priority);
+  const candidates: Array<{ due: Date; warning: Date; minutes: number }> = [];
+
+  let responseDue: Date | null = null;
+  if (awaitingReplySince) {
+    responseDue = deadline(context, target, awaitingReplySince, target.firstResponseMinutes);
+    candidates.push({
+      due: responseDue,
+      warning: deadline(context, target, awaitingReplySince, Math.floor(target.firstResponseMinutes * WARNING_FRACTION)),
+      minutes: target.firstResponseMinutes,
+    });
+  }
+
+  let resolutionDue: Date | null = null;
+  if (target.resolutionMinutes) {
+    const opened = new Date(conversation.created_at);
+    resolutionDue = deadline(context, target, opened, target.resolutionMinutes);
+    candidates.push({
+      due: resolutionDue,
+      warning: deadline(context, target, opened, Math.floor(target.resolutionMinutes * WARNING_FRACTION)),
+      minutes: target.resolutionMinutes,
+    });
+  }
+
+  const next = candidates.sort((a, b) => a.due.getTime() - b.due.getTime())[0];
+  let status: SlaStatus = "safe";
+  if (next && next.due <= now) {
+    status = "breached";
+  } else if (next && next.warning <= now) {
+    status = "warning";
+  }
+
+  return {
+    sla_response_due_at: responseDue?.toISOString() ?? null,
+    sla_resolution_due_at: resolutionDue?.toISOString() ?? null,
+    sla_due_at: next?.due.toISOString() ?? null,
+    sla_warning_at: next?.warning.toISOString() ?? null,
+    sla_target_minutes: next?.minutes ?? null,
+    sla_status: status,
+  };
+}
+
+/**
+ * Oldest inbound message after the last non-internal outbound reply, or null
+ * when the customer is not waiting on us.
+ */
+export async function findAwaitingReplySince(client: SupabaseClient, conversationId: string): Promise<Date | null> {
+  const { data, error } = await client
+    .from("messages")
+    .select("direction, is_internal, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    throw new Error(`messages load failed: ${error.message}`);
+  }
+
+  let oldestUnanswered: string | null = null;
+  for (const message of data || []) {
+    if (message.is_internal) {
+      continue;
+    }
+    if (message.direction !== "inbound") {
+      break;
+    }
+    oldestUnanswered = message.created_at as string;
+  }
+
+  return oldestUnanswered ? new Date(oldestUnanswered) : null;
+}
+
+/**
+ * Pulls the gov.uk feed into bank_holidays (all three UK regions).
+ */
+export async function refreshBankHolidays(client: SupabaseClient): Promise<number> {
+  const response = await fetchWithTimeout(BANK_HOLIDAYS_URL, { headers: { Accept: "application/json" } }, 10_000);
+  if (!response.ok) {
+    throw new Error(`bank holidays fetch failed: HTTP ${response.status}`);
+  }
+
+  const feed = await response.json() as Record<string, { events?: Array<{ title?: string; date?: string }> }>;
+  const fetchedAt = new Date().toISOString();
+  const rows = Object.entries(feed).flatMap(([region, division]) =>
+    (division.events || [])
+      .filter((event) => event.date && /^\d{4}-\d{2}-\d{2}$/.test(event.date))
+      .map((event) => ({
+        region,
+        holiday_date: event.date as string,
+        title: event.title || "Bank holiday",
+        fetched_at: fetchedAt,
+      }))
+  );
+
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const { error } = await client.from("bank_holidays").upsert(rows, { onConflict: "region,holiday_date" });
+  if (error) {
+    throw new Error(`bank_holidays upsert failed: ${error.message}`);
+  }
+  return rows.length;
+}
@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type TemplateValues = Record<string, string | null>;
+
+export interface RenderedTemplate {
+  text: string;
+  // Known fields with no value for this conversation; left as-is in the text
+  missing: string[];
+  // Placeholders that are not merge fields at all (usually typos)
+  unknown: string[];
+}
+
+export interface TemplateRow {
+  id: string;
+  workspace_id: string | null;
+  name: string;
+  subject: string | null;
+  body: string;
+  channel_variants: Record<string, unknown> | null;
+  usage_count: number | null;
+}
+
+// Keep in sync with TEMPLATE_FIELDS in src/lib/templates.ts
+export const TEMPLATE_FIELDS = [
+  "customer.name",
+  "customer.first_name",
+  "customer.last_name",
+  "customer.email",
+  "customer.phone",
+  "business.name",
+  "business.phone",
+  "business.email",
+  "business.website",
+  "business.address",
+  "conversation.reference",
+  "conversation.subject",
+  "conversation.channel",
+  "agent.name",
+  "agent.first_name",
+  "today",
+] as const;
+
+// Placeholders used by the original seeded templates; keep in sync with src/lib/templates.ts
+export const TEMPLATE_FIELD_ALIASES: Record<string, (typeof TEMPLATE_FIELDS)[number]> = {
+  customer_name: "customer.name",
+  date: "today",
+};
+
+const FIELD_SET = new Set<string>(TEMPLATE_FIELDS);
+const PLACEHOLDER_RE = /\{\{\s*([a-z_.]+)(?:\s*\|\s*([^}]*?))?\s*\}\}/gi;
+
+/**
+ * Replaces {{field}} and {{field | fallback}} placeholders. Fields without a
+ * value use the fallback when given; otherwise the placeholder is kept so
+ * the agent can see what still needs filling in.
+ */
+export function renderTemplateText(text: string, values: TemplateValues): RenderedTemplate {
+  const missing = new Set<string>();
+  const unknown = new Set<string>();
+
+  const rendered = text.replace(PLACEHOLDER_RE, (match, rawField: string, fallback: string | undefined) => {
+    const field = TEMPLATE_FIELD_ALIASES[rawField.toLowerCase()] ?? rawField.toLowerCase();
+    if (!FIELD_SET.has(field)) {
+      unknown.add(field);
+      return match;
+    }
+    const value = values[field]?.trim();
+    if (value) {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback.trim();
+    }
+    missing.add(field);
+    return match;
+  });
+
+  return { text: rendered, missing: [...missing], unknown: [...unknown] };
+}
+
+export function conversationReference(conversationId: string): string {
+  return `BB-${conversationId.replace(/-/g, "").slice(0, 8).toUpperCase()}`;
+}
+
+export function templateTextForChannel(template: TemplateRow, channel: string | null): string {
+  const variant = channel ? template.channel_variants?.[channel] : null;
+  return typeof variant === "string" && variant.trim() ? variant : template.body;
+}
+
+function splitName(name: string | null | undefined): { first: string | null; last: string | null } {
+  const parts = String(name || "").trim().split(/\s+/).filter(Boolean);
+  // Customers imported from email often have the address as their name
+  if (parts.length === 0 || parts[0].includes("@")) {
+    return { first: null, last: null };
+  }
+  return { first: parts[0], last: parts.length > 1 ? parts[parts.length - 1] : null };
+}
+
+export async function loadTemplateValues(
+  client: SupabaseClient,
+  params: { workspaceId: string; conversationId?: string | null; userId?: string | null; timezone?: string },
+): Promise<TemplateValues> {
+  const [{ data: workspace }, { data: profile }, { data: agent }, { data: conversation }] = await Promise.all([
+    client.from("workspaces").select("name, website_url, timezone").eq("id", params.workspaceId).maybeSingle(),
+    client
+      .from("business_profile")
+      .select("business_name, phone, email, website, formatted_address, address")
+      .eq("workspace_id", params.workspaceId)
+      .maybeSingle(),
+    params.userId
+      ? client.from("users").select("name").eq("id", params.userId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    params.conversationId
+      ? client
+        .from("conversations")
+        .select("id, title, channel, customers(name, email, phone)")
+        .eq("id", params.conversationId)
+        .eq("workspace_id", params.workspaceId)
+        .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const customer = (conversation?.customers ?? null) as { name?: string; email?: string; phone?: string } | null;
+  const customerName = splitName(customer?.name);
+  const agentName = splitName(agent?.name);
+  const timezone = params.timezone || workspace?.timezone || "Europe/London";
+
+  return {
+    "customer.name": customer?.name && !customer.name.includes("@") ? customer.name : null,
+    "customer.first_name": customerName.first,
+    "customer.last_name": customerName.last,
+    "customer.email": customer?.email ?? null,
+    "customer.phone": customer?.phone ?? null,
+    "business.name": profile?.business_name || workspace?.name || null,
+    "business.phone": profile?.phone ?? null,
+    "business.email": profile?.email ?? null,
+    "business.website": profile?.website || workspace?.website_url || null,
+    "business.address": profile?.formatted_address || profile?.address || null,
+    "conversation.reference": conversation?.id ? conversationReference(conversation.id) : null,
+    "conversation.subject": conversation?.title ?? null,
+    "conversation.channel": conversation?.channel ?? null,
+    "agent.name": agent?.name ?? null,
+    "agent.first_name": agentName.first,
+    "today": new Intl.DateTimeFormat("en-GB", { dateStyle: "long", timeZone: timezone }).format(new Date()),
+  };
+}
@@ -0,0 +1,664 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { DECISION_BUCKETS, type DecisionBucket } from "./routing.ts";
+
+export type RuleField = "sender" | "domain" | "subject" | "body" | "header";
+export type RuleOperator = "equals" | "contains" | "starts_with" | "ends_with" | "matches" | "exists";
+
+export const RULE_FIELDS: RuleField[] = ["sender", "domain", "subject", "body", "header"];
+export const RULE_OPERATORS: RuleOperator[] = ["equals", "contains", "starts_with", "ends_with", "matches", "exists"];
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value?: string;
+  // Header name for field = "header", e.g. "List-Unsubscribe"
+  header?: string;
+  negate?: boolean;
+}
+
+export interface RuleGroup {
+  match: "all" | "any";
+  conditions: RuleNode[];
+}
+
+export type RuleNode = RuleCondition | RuleGroup;
+
+export interface TriageRuleAction {
+  classification: string;
+  requires_reply: boolean;
+  // null = auto_handled, or quick_win when a reply is needed
+  decision_bucket: DecisionBucket | null;
+  confidence: number;
+  // false = the match is a hint and the LLM still classifies
+  skip_llm: boolean;
+  reason: string;
+  // Legacy sender_rules.override_*: applies when the subject or body contains a keyword
+  override?: { keywords: string[]; classification: string | null; requires_reply: boolean | null };
+}
+
+export interface TriageRule {
+  id: string;
+  source: "workspace" | "system";
+  name: string;
+  priority: number;
+  when: RuleGroup;
+  action: TriageRuleAction;
+}
+
+export interface TriageInput {
+  sender: string;
+  subject: string;
+  body: string;
+  headers?: Record<string, string> | null;
+}
+
+export interface TriageRuleMatch {
+  rule: TriageRule;
+  classification: string;
+  requires_reply: boolean;
+  decision_bucket: DecisionBucket;
+  confidence: number;
+  skip_llm: boolean;
+  reason: string;
+}
+
+export class RuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleValidationError";
+  }
+}
+
+const MAX_DEPTH = 3;
+const MAX_CONDITIONS = 25;
+const WORKSPACE_DEFAULT_PRIORITY = 100;
+
+// Headers kept on message_events.metadata.headers so header conditions can run later
+export const RULE_HEADER_NAMES = ["list-unsubscribe", "list-id", "auto-submitted", "precedence", "x-auto-response-suppress"];
+
+function isGroup(node: RuleNode): node is RuleGroup {
+  return Array.isArray((node as RuleGroup).conditions);
+}
+
+function anyMatches(field: RuleField, patterns: RegExp[]): RuleGroup {
+  return {
+    match: "any",
+    conditions: patterns.map((pattern): RuleCondition => ({ field, operator: "matches", value: pattern.source })),
+  };
+}
+
+// ============================================
+// Built-in rules, evaluated after workspace rules (priority 1000+)
+// ============================================
+
+const ACT_NOW_BODY_PATTERNS = [
+  /\burgent\b/i,
+  /\basap\b/i,
+  /cancel.*today/i,
+  /cancel.*tomorrow/i,
+  /cancel.*immediately/i,
+  /need.*cancel/i,
+  /refund.*request/i,
+  /want.*refund/i,
+  /demand.*refund/i,
+  /complain(t|ing)?/i,
+  /disappointed/i,
+  /disgusted/i,
+  /terrible service/i,
+  /worst experience/i,
+  /never.*again/i,
+  /trading standards/i,
+  /ombudsman/i,
+  /solicitor/i,
+  /lawyer/i,
+  /legal action/i,
+  /leave.*review/i,
+  /bad review/i,
+  /social media/i,
+];
+
+const AUTO_HANDLED_SENDER_PATTERNS = [
+  // No-reply addresses (covers noreply@ at any provider, so those are not listed per domain)
+  /^noreply@/i,
+  /^no-reply@/i,
+  /^donotreply@/i,
+  /^do-not-reply@/i,
+  /^mailer-daemon@/i,
+  // Payment & financial notifications
+  /notifications?@stripe\.com$/i,
+  /receipts?@stripe\.com$/i,
+  /@mail\.stripe\.com$/i,
+  /notifications?@.*gocardless\.com$/i,
+  /messaging-service@.*xero\.com$/i,
+  /notifications?@.*freeagent\.com$/i,
+  /@.*quickbooks\.intuit\.com$/i,
+  // Shipping & logistics
+  /pkginfo@ups\.com$/i,
+  /track@.*fedex\.com$/i,
+  // System notifications
+  /alerts?@.*cloudflare\.com$/i,
+];
+
+const AUTO_HANDLED_SUBJECT_PATTERNS = [
+  // Payment confirmations
+  /^receipt for/i,
+  /^payment (received|confirmed|successful)/i,
+  /^invoice #?\d+/i,
+  /^your payment/i,
+  /^transaction (complete|confirmed)/i,
+  // Shipping notifications
+  /^your order (has shipped|is on its way)/i,
+  /^shipping confirmation/i,
+  /^delivery (update|notification)/i,
+  /^tracking number/i,
+  /^out for delivery/i,
+  /^delivered:/i,
+  // Subscriptions
+  /^subscription (confirmed|renewed|updated)/i,
+  /^welcome to/i,
+  /^thank you for (your order|signing up|subscribing)/i,
+  // Calendar
+  /^calendar (invitation|reminder)/i,
+  /^meeting (reminder|scheduled)/i,
+  /^invitation:/i,
+  // Security/auth
+  /^security (alert|notification)/i,
+  /^sign-in (attempt|notification)/i,
+  /^password (reset|changed)/i,
+  /^verify your email/i,
+  /^confirm your email/i,
+  // Reports
+  /^weekly (report|summary|digest)/i,
+  /^monthly (report|summary|digest)/i,
+  /^daily (report|summary|digest)/i,
+];
+
+const AUTO_HANDLED_BODY_PATTERNS = [
+  /unsubscribe/i,
+  /view (in|this email in) (your )?browser/i,
+  /email preferences/i,
+  /manage your (email )?preferences/i,
+  /update your (email )?preferences/i,
+  /click here to unsubscribe/i,
+  /opt[ -]?out/i,
+  /list-unsubscribe/i,
+];
+
+const QUICK_WIN_SUBJECT_PATTERNS = [
+  /^confirm(ation)?:/i,
+  /^quick question/i,
+  /^can you confirm/i,
+  /^please confirm/i,
+  /^re: (quote|booking|appointment)/i,
+];
+
+export const SYSTEM_TRIAGE_RULES: TriageRule[] = [
+  {
+    id: "system:act_now_language",
+    source: "system",
+    name: "Urgent or risky language",
+    priority: 1000,
+    when: { match: "all", conditions: [anyMatches("body", ACT_NOW_BODY_PATTERNS)] },
+    action: {
+      classification: "customer_complaint",
+      requires_reply: true,
+      decision_bucket: "act_now",
+      confidence: 0.85,
+      skip_llm: false,
+      reason: "Urgent or risky language detected",
+    },
+  },
+  {
+    id: "system:auto_submitted",
+    source: "system",
+    name: "Auto-Submitted header",
+    priority: 1010,
+    when: {
+      match: "all",
+      conditions: [
+        { field: "header", header: "auto-submitted", operator: "exists" },
+        { field: "header", header: "auto-submitted", operator: "equals", value: "no", negate: true },
+      ],
+    },
+    action: {
+      classification: "automated_notification",
+      requires_reply: false,
+      decision_bucket: "auto_handled",
+      confidence: 0.98,
+      skip_llm: true,
+      reason: "Automated notification - no action needed",
+    },
+  },
+  {
+    id: "system:automated_sender",
+    source: "system",
+    name: "Automated sender address",
+    priority: 1020,
+    when: { match: "all", conditions: [anyMatches("sender", AUTO_HANDLED_SENDER_PATTERNS)] },
+    action: {
+      classification: "automated_notification",
+      requires_reply: false,
+      decision_bucket: "auto_handled",
+      confidence: 0.98,
+      skip_llm: true,
+      reason: "Automated notification - no action needed",
+    },
+  },
+  {
+    id: "system:list_unsubscribe",
+    source: "system",
+    name: "List-Unsubscribe header",
+    priority: 1030,
+    when: { match: "all", conditions: [{ field: "header", header: "list-unsubscribe", operator: "exists" }] },
+    action: {
+      classification: "marketing_newsletter",
+      requires_reply: false,
+      decision_bucket: "auto_handled",
+      confidence: 0.95,
+      skip_llm: true,
+      reason: "Newsletter/marketing - no action needed",
+    },
+  },
+  // Subject and body patterns also hit real customer mail ("please unsubscribe me",
+  // "Invoice #123 is wrong"), so from here on rules are hints and the LLM still decides
+  {
+    id: "system:notification_subject",
+    source: "system",
+    name: "Notification subject",
+    priority: 1040,
+    when: { match: "all", conditions: [anyMatches("subject", AUTO_HANDLED_SUBJECT_PATTERNS)] },
+    action: {
+      classification: "receipt_confirmation",
+      requires_reply: false,
+      decision_bucket: "auto_handled",
+      confidence: 0.95,
+      skip_llm: false,
+      reason: "Automated notification - no action needed",
+    },
+  },
+  {
+    id: "system:newsletter",
+    source: "system",
+    name: "Newsletter wording",
+    priority: 1050,
+    when: { match: "all", conditions: [anyMatches("body", AUTO_HANDLED_BODY_PATTERNS)] },
+    action: {
+      classification: "marketing_newsletter",
+      requires_reply: false,
+      decision_bucket: "auto_handled",
+      confidence: 0.92,
+      skip_llm: false,
+      reason: "Newsletter/marketing - no action needed",
+    },
+  },
+  {
+    id: "system:quick_win_subject",
+    source: "system",
+    name: "Simple confirmation request",
+    priority: 1060,
+    when: { match: "all", conditions: [anyMatches("subject", QUICK_WIN_SUBJECT_PATTERNS)] },
+    action: {
+      classification: "customer_inquiry",
+      requires_reply: true,
+      decision_bucket: "quick_win",
+      confidence: 0.8,
+      skip_llm: false,
+      reason: "Simple confirmation request",
+    },
+  },
+];
+
+// ============================================
+// Parsing and validation
+// ============================================
+
+function parseNode(value: unknown, depth: number, counter: { count: number }): RuleNode {
+  if (!value || typeof value !== "object") {
+    throw new RuleValidationError("Each condition must be an object");
+  }
+  const raw = value as Record<string, unknown>;
+
+  if (Array.isArray(raw.conditions)) {
+    if (depth >= MAX_DEPTH) {
+      throw new RuleValidationError(`Condition groups can be nested at most ${MAX_DEPTH} deep`);
+    }
+    if (raw.conditions.length === 0) {
+      throw new RuleValidationError("A condition group needs at least one condition");
+    }
+    return {
+      match: raw.match === "any" ? "any" : "all",
+      conditions: raw.conditions.map((child) => parseNode(child, depth + 1, counter)),
+    };
+  }
+
+  counter.count += 1;
+  if (counter.count > MAX_CONDITIONS) {
+    throw new RuleValidationError(`A rule can have at most ${MAX_CONDITIONS} conditions`);
+  }
+
+  const field = String(raw.field || "").toLowerCase() as RuleField;
+  const operator = String(raw.operator || "").toLowerCase() as RuleOperator;
+  if (!RULE_FIELDS.includes(field)) {
+    throw new RuleValidationError(`Unknown condition field "${raw.field}"`);
+  }
+  if (!RULE_OPERATORS.includes(operator)) {
+    throw new RuleValidationError(`Unknown condition operator "${raw.operator}"`);
+  }
+
+  const header = String(raw.header || "").trim().toLowerCase();
+  if (field === "header" && !header) {
+    throw new RuleValidationError("Header conditions need a header name");
+  }
+  if (field === "header" && !RULE_HEADER_NAMES.includes(header)) {
+    throw new RuleValidationError(`Header "${header}" is not kept on messages; use one of ${RULE_HEADER_NAMES.join(", ")}`);
+  }
+
+  const conditionValue = String(raw.value ?? "").trim();
+  if (operator !== "exists" && !conditionValue) {
+    throw new RuleValidationError(`The ${field} condition needs a value`);
+  }
+  if (operator === "matches") {
+    try {
+      new RegExp(conditionValue, "i");
+    } catch {
+      throw new RuleValidationError(`Invalid regular expression: ${conditionValue}`);
+    }
+  }
+
+  return {
+    field,
+    operator,
+    ...(operator === "exists" ? {} : { value: conditionValue }),
+    ...(field === "header" ? { header } : {}),
+    ...(raw.negate === true ? { negate: true } : {}),
+  };
+}
+
+/** Validates a stored condition tree; throws RuleValidationError with a message for the editor. */
+export function parseRuleConditions(value: unknown): RuleGroup {
+  const node = parseNode(value, 0, { count: 0 });
+  return isGroup(node) ? node : { match: "all", conditions: [node] };
+}
+
+// sender_pattern forms: "a@b.com", "@b.com" / "*@b.com" (domain and subdomains), "noreply@*" (wildcard), "stripe" (contains)
+export function senderPatternCondition(pattern: string): RuleNode {
+  const normalized = pattern.trim().toLowerCase();
+  const domain = normalized.startsWith("*@") ? normalized.slice(2) : normalized.startsWith("@") ? normalized.slice(1) : "";
+
+  if (domain && !domain.includes("*")) {
+    return {
+      match: "any",
+      conditions: [
+        { field: "domain", operator: "equals", value: domain },
+        { field: "domain", operator: "ends_with", value: `.${domain}` },
+      ],
+    };
+  }
+  if (normalized.includes("*")) {
+    const source = normalized.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return { field: "sender", operator: "matches", value: `^${source}$` };
+  }
+  if (normalized.includes("@")) {
+    return { field: "sender", operator: "equals", value: normalized };
+  }
+  return { field: "sender", operator: "contains", value: normalized };
+}
+
+function asBucket(value: unknown): DecisionBucket | null {
+  const lowered = String(value || "").trim().toLowerCase();
+  return DECISION_BUCKETS.includes(lowered as DecisionBucket) ? lowered as DecisionBucket : null;
+}
+
+/** Builds a rule from a sender_rules row; throws RuleValidationError when its conditions are invalid. */
+export function triageRuleFromRow(row: Record<string, unknown>): TriageRule {
+  const pattern = String(row.sender_pattern || "").trim();
+  let when: RuleGroup;
+  if (row.conditions) {
+    when = parseRuleConditions(row.conditions);
+  } else if (pattern) {
+    when = { match: "all", conditions: [senderPatternCondition(pattern)] };
+  } else {
+    throw new RuleValidationError("A rule needs conditions or a sender pattern");
+  }
+
+  const keywords = Array.isArray(row.override_keywords)
+    ? (row.override_keywords as unknown[]).map((k) => String(k).trim().toLowerCase()).filter(Boolean)
+    : [];
+  const requiresReply = row.default_requires_reply === true;
+
+  return {
+    id: String(row.id || "draft"),
+    source: "workspace",
+    name: pattern || "Untitled rule",
+    priority: Number.isFinite(Number(row.priority)) ? Number(row.priority) : WORKSPACE_DEFAULT_PRIORITY,
+    when,
+    action: {
+      classification: String(row.default_classification || "automated_notification"),
+      requires_reply: requiresReply,
+      decision_bucket: asBucket(row.decision_bucket),
+      confidence: 0.99,
+      skip_llm: true,
+      reason: requiresReply ? "Known sender - review recommended" : "Known sender - auto-handled by rule",
+      ...(keywords.length > 0
+        ? {
+          override: {
+            keywords,
+            classification: row.override_classification ? String(row.override_classification) : null,
+            requires_reply: typeof row.override_requires_reply === "boolean" ? row.override_requires_reply : null,
+          },
+        }
+        : {}),
+    },
+  };
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+interface PreparedInput {
+  sender: string;
+  domain: string;
+  subject: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+function prepareInput(input: TriageInput): PreparedInput {
+  const sender = (input.sender || "").trim().toLowerCase();
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input.headers || {})) {
+    headers[name.trim().toLowerCase()] = String(value ?? "");
+  }
+  return {
+    sender,
+    domain: sender.split("@")[1] || "",
+    subject: input.subject || "",
+    body: input.body || "",
+    headers,
+  };
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compiled(source: string): RegExp | null {
+  if (!regexCache.has(source)) {
+    try {
+      regexCache.set(source, new RegExp(source, "i"));
+    } catch {
+      regexCache.set(source, null);
+    }
+  }
+  return regexCache.get(source) ?? null;
+}
+
+function conditionMatches(condition: RuleCondition, input: PreparedInput): boolean {
+  let subject: string | undefined;
+  switch (condition.field) {
+    case "sender":
+      subject = input.sender;
+      break;
+    case "domain":
+      subject = input.domain;
+      break;
+    case "subject":
+      subject = input.subject;
+      break;
+    case "body":
+      subject = input.body;
+      break;
+    case "header":
+      subject = input.headers[condition.header || ""];
+      break;
+  }
+
+  let result: boolean;
+  if (condition.operator === "exists") {
+    result = subject !== undefined && subject.trim() !== "";
+  } else if (subject === undefined) {
+    result = false;
+  } else if (condition.operator === "matches") {
+    result = compiled(condition.value || "")?.test(subject) ?? false;
+  } else {
+    const haystack = subject.toLowerCase();
+    const needle = (condition.value || "").toLowerCase();
+    result = condition.operator === "equals"
+      ? haystack.trim() === needle
+      : condition.operator === "starts_with"
+      ? haystack.startsWith(needle)
+      : condition.operator === "ends_with"
+      ? haystack.endsWith(needle)
+      : haystack.includes(needle);
+  }
+
+  return condition.negate ? !result : result;
+}
+
+function nodeMatches(node: RuleNode, input: PreparedInput): boolean {
+  if (!isGroup(node)) {
+    return conditionMatches(node, input);
+  }
+  return node.match === "any"
+    ? node.conditions.some((child) => nodeMatches(child, input))
+    : node.conditions.every((child) => nodeMatches(child, input));
+}
+
+function toMatch(rule: TriageRule, input: PreparedInput): TriageRuleMatch {
+  const { action } = rule;
+  let classification = action.classification;
+  let requiresReply = action.requires_reply;
+
+  if (action.override) {
+    const text = `${input.subject}\n${input.body}`.toLowerCase();
+    if (action.override.keywords.some((keyword) => text.includes(keyword))) {
+      classification = action.override.classification || classification;
+      requiresReply = action.override.requires_reply ?? requiresReply;
+    }
+  }
+
+  return {
+    rule,
+    classification,
+    requires_reply: requiresReply,
+    decision_bucket: action.decision_bucket || (requiresReply ? "quick_win" : "auto_handled"),
+    confidence: action.confidence,
+    skip_llm: action.skip_llm,
+    reason: action.reason,
+  };
+}
+
+export function sortTriageRules(rules: TriageRule[]): TriageRule[] {
+  // Stable, so equal priorities keep their load order (workspace rules first)
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+export function ruleMatches(rule: TriageRule, input: TriageInput): boolean {
+  return nodeMatches(rule.when, prepareInput(input));
+}
+
+/** First matching rule in priority order; rules must already be sorted. */
+export function evaluateTriageRules(rules: TriageRule[], input: TriageInput): TriageRuleMatch | null {
+  const prepared = prepareInput(input);
+  for (const rule of rules) {
+    if (nodeMatches(rule.when, prepared)) {
+      return toMatch(rule, prepared);
+    }
+  }
+  return null;
+}
+
+// ============================================
+// Loading and hit counters
+// ============================================
+
+/** Active workspace rules plus the built-in rules, sorted by priority. Invalid rows are skipped. */
+export async function loadTriageRules(client: SupabaseClient, workspaceId: string): Promise<TriageRule[]> {
+  const { data, error } = await client
+    .from("sender_rules")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .eq("is_active", true)
+    .order("priority", { ascending: true });
+
+  if (error) {
+    console.warn("sender_rules load failed (table may not exist):", error.message);
+  }
+
+  const workspaceRules: TriageRule[] = [];
+  for (const row of (data || []) as Array<Record<string, unknown>>) {
+    try {
+      workspaceRules.push(triageRuleFromRow(row));
+    } catch (e) {
+      console.warn("skipping invalid sender rule", row.id, e instanceof Error ? e.message : e);
+    }
+  }
+
+  return sortTriageRules([...workspaceRules, ...SYSTEM_TRIAGE_RULES]);
+}
+
+export async function recordTriageRuleHit(client: SupabaseClient, match: TriageRuleMatch): Promise<void> {
+  if (match.rule.source !== "workspace") {
+    return;
+  }
+  const { error } = await client.rpc("bb_record_sender_rule_hit", { p_rule_id: match.rule.id });
+  if (error) {
+    console.warn("sender rule hit counter failed (non-fatal):", error.message);
+  }
+}
+
+/** Entities recorded on the conversation so later tools can tell a rule decided it. */
+export function triageRuleEntities(match: TriageRuleMatch): Record<string, unknown> {
+  return {
+    triage_rule_id: match.rule.id,
+    triage_rule_name: match.rule.name,
+    triage_rule_source: match.rule.source,
+    ...(match.rule.source === "workspace" ? { sender_rule_id: match.rule.id } : {}),
+  };
+}
+
+/** Keeps the headers rules can test, from either [{ name, value }] or { name: value }. */
+export function pickRuleHeaders(raw: unknown): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const add = (name: unknown, value: unknown) => {
+    const key = String(name || "").trim().toLowerCase();
+    if (RULE_HEADER_NAMES.includes(key) && value !== undefined && value !== null) {
+      headers[key] = String(value).slice(0, 500);
+    }
+  };
+
+  if (Array.isArray(raw)) {
+    for (const entry of raw) {
+      if (entry && typeof entry === "object") {
+        add((entry as Record<string, unknown>).name, (entry as Record<string, unknown>).value);
+      }
+    }
+  } else if (raw && typeof raw === "object") {
+    for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+      add(name, value);
+    }
+  }
+  return headers;
+}
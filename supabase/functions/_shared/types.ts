@@ -1,5 +1,6 @@
 export type Channel = "email" | "whatsapp" | "sms" | "facebook" | "voice";
 export type Direction = "inbound" | "outbound";
+export type RunState = "running" | "paused" | "failed" | "completed" | "cancelled";
 
 export interface UnifiedMessage {
   external_id: string;
@@ -39,6 +40,20 @@ export interface ImportFetchJob {
   rate_limit_count?: number;
 }
 
+// Incremental Aurinko sync for live mailboxes; enqueued by bb_enqueue_delta_syncs
+export interface DeltaSyncJob {
+  job_type: "DELTA_SYNC";
+  workspace_id: string;
+  run_id?: null;
+  config_id: string;
+  phase: "updated" | "deleted";
+  pageToken?: string | null;
+  pages?: number;
+  rate_limit_count?: number;
+}
+
+export type ImportJob = ImportFetchJob | DeltaSyncJob;
+
 export interface MaterializeJob {
   job_type: "MATERIALIZE";
   event_id: string;
@@ -68,6 +83,22 @@ export interface DraftJob {
   event_id?: string | null;
 }
 
+// One inbound email attachment; enqueued by registerAttachments after materialisation
+export interface AttachmentJob {
+  job_type: "ATTACHMENT_FETCH";
+  workspace_id: string;
+  run_id?: string | null;
+  attachment_id: string;
+}
+
+// Recalculate one conversation's SLA; enqueued by message and conversation triggers
+export interface SlaJob {
+  job_type: "SLA_RECALC";
+  workspace_id: string;
+  conversation_id: string;
+  reason?: string;
+}
+
 export interface ClassificationResult {
   category: string;
   requires_reply: boolean;
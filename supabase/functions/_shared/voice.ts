@@ -0,0 +1,339 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { keywordScore, tokenize } from "./retrieval.ts";
+
+/**
+ * The parts of voice_profiles that shape a draft. Onboarding (VoiceLearning)
+ * and the n8n voice analysis fill different columns, so most fields are
+ * optional and the prompt only mentions what is known.
+ */
+export interface VoiceProfile {
+  tone: string | null;
+  tone_descriptors: string[];
+  formality_score: number | null;
+  warmth_level: number | null;
+  directness_level: number | null;
+  greeting_style: string | null;
+  signoff_style: string | null;
+  openers: string[];
+  closers: string[];
+  common_phrases: string[];
+  avoided_words: string[];
+  formatting_rules: string[];
+  avg_response_length: number | null;
+  uses_emojis: boolean | null;
+}
+
+export type DraftExampleSource = "sent_reply" | "draft_edit" | "playbook";
+
+export interface DraftExample {
+  source: DraftExampleSource;
+  category: string | null;
+  // Customer message the reply answered (sent replies and playbook entries)
+  customer?: string;
+  // What the AI drafted before the owner rewrote it (draft edits)
+  ai_draft?: string;
+  reply: string;
+}
+
+const EXAMPLE_CHARS = 1200;
+const CANDIDATE_CONVERSATIONS = 30;
+
+function strings(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((item) => {
+      if (typeof item === "string") {
+        return item;
+      }
+      if (item && typeof item === "object") {
+        const record = item as Record<string, unknown>;
+        return String(record.phrase || record.text || record.rule || record.value || "");
+      }
+      return "";
+    })
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function numberOrNull(value: unknown): number | null {
+  const parsed = Number(value);
+  return value === null || value === undefined || !Number.isFinite(parsed) ? null : parsed;
+}
+
+// Onboarding stores 0–10, older analyses stored 0–1, and formality_score
+// defaults to 50 on a 0–100 scale
+function scoreOutOfTen(value: unknown): number | null {
+  const score = numberOrNull(value);
+  if (score === null) {
+    return null;
+  }
+  const scaled = score > 10 ? score / 10 : score > 0 && score <= 1 ? score * 10 : score;
+  return Math.round(Math.min(10, Math.max(0, scaled)) * 10) / 10;
+}
+
+function clip(text: string | null | undefined): string {
+  return String(text || "").trim().slice(0, EXAMPLE_CHARS);
+}
+
+export async function loadVoiceProfile(client: SupabaseClient, workspaceId: string): Promise<VoiceProfile | null> {
+  const { data, error } = await client
+    .from("voice_profiles")
+    .select(
+      "tone, tone_descriptors, formality_score, warmth_level, directness_level, greeting_style, signoff_style, common_phrases, avoided_words, voice_dna, avg_response_length, uses_emojis",
+    )
+    .eq("workspace_id", workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("voice_profiles load failed:", error.message);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const dna = (data.voice_dna || {}) as Record<string, unknown>;
+  return {
+    tone: data.tone || null,
+    tone_descriptors: strings(data.tone_descriptors).length > 0
+      ? strings(data.tone_descriptors)
+      : strings(dna.tone_keywords),
+    formality_score: scoreOutOfTen(data.formality_score),
+    warmth_level: scoreOutOfTen(data.warmth_level),
+    directness_level: scoreOutOfTen(data.directness_level),
+    greeting_style: data.greeting_style || null,
+    signoff_style: data.signoff_style || null,
+    openers: strings(dna.openers).slice(0, 5),
+    closers: strings(dna.closers).slice(0, 5),
+    common_phrases: [...strings(data.common_phrases), ...strings(dna.tics)].slice(0, 10),
+    avoided_words: strings(data.avoided_words).slice(0, 20),
+    formatting_rules: strings(dna.formatting_rules).slice(0, 10),
+    avg_response_length: numberOrNull(data.avg_response_length ?? dna.avg_response_length),
+    uses_emojis: typeof data.uses_emojis === "boolean" ? data.uses_emojis : null,
+  };
+}
+
+// System-prompt lines describing the owner's voice
+export function voiceInstructions(profile: VoiceProfile | null): string[] {
+  if (!profile) {
+    return [];
+  }
+
+  const lines = ["Write in the business owner's own voice:"];
+  const tone = [profile.tone, ...profile.tone_descriptors].filter(Boolean);
+  if (tone.length > 0) {
+    lines.push(`- Tone: ${Array.from(new Set(tone)).join(", ")}.`);
+  }
+  if (profile.formality_score !== null) {
+    lines.push(`- Formality ${profile.formality_score}/10 (0 = very casual, 10 = very formal).`);
+  }
+  if (profile.warmth_level !== null) {
+    lines.push(`- Warmth ${profile.warmth_level}/10.`);
+  }
+  if (profile.directness_level !== null) {
+    lines.push(`- Directness ${profile.directness_level}/10.`);
+  }
+  const greetings = [profile.greeting_style, ...profile.openers].filter(Boolean);
+  if (greetings.length > 0) {
+    lines.push(`- Open with a greeting like: ${greetings.map((g) => `"${g}"`).join(", ")}.`);
+  }
+  const signoffs = [profile.signoff_style, ...profile.closers].filter(Boolean);
+  if (signoffs.length > 0) {
+    lines.push(`- Sign off like: ${signoffs.map((s) => `"${s}"`).join(", ")}.`);
+  }
+  if (profile.common_phrases.length > 0) {
+    lines.push(`- Phrases the owner often uses: ${profile.common_phrases.map((p) => `"${p}"`).join(", ")}.`);
+  }
+  if (profile.avoided_words.length > 0) {
+    lines.push(`- Never use: ${profile.avoided_words.map((w) => `"${w}"`).join(", ")}.`);
+  }
+  for (const rule of profile.formatting_rules) {
+    lines.push(`- ${rule}`);
+  }
+  if (profile.avg_response_length) {
+    lines.push(`- Typical reply length is about ${Math.round(profile.avg_response_length)} words.`);
+  }
+  if (profile.uses_emojis === false) {
+    lines.push("- Do not use emojis.");
+  }
+
+  return lines.length > 1 ? lines : [];
+}
+
+// Rules the owner accepted on the Learning page (mined by draft-style-miner)
+export async function loadStyleRules(client: SupabaseClient, workspaceId: string): Promise<string[]> {
+  const { data, error } = await client
+    .from("style_rules")
+    .select("instruction")
+    .eq("workspace_id", workspaceId)
+    .eq("status", "accepted")
+    .order("support_count", { ascending: false })
+    .limit(30);
+
+  if (error) {
+    console.warn("style_rules load failed:", error.message);
+    return [];
+  }
+
+  return (data || []).map((row) => String(row.instruction || "").trim()).filter(Boolean);
+}
+
+function rankByQuery<T>(items: T[], query: Set<string>, text: (item: T) => string, limit: number): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: keywordScore(query, text(item)) }))
+    // Ties keep recency order
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map((entry) => entry.item);
+}
+
+async function sentReplyExamples(client: SupabaseClient, params: {
+  workspaceId: string;
+  category: string | null;
+  excludeConversationId: string;
+}): Promise<DraftExample[]> {
+  let conversationsQuery = client
+    .from("conversations")
+    .select("id, category")
+    .eq("workspace_id", params.workspaceId)
+    .neq("id", params.excludeConversationId)
+    .order("updated_at", { ascending: false })
+    .limit(CANDIDATE_CONVERSATIONS);
+  if (params.category) {
+    conversationsQuery = conversationsQuery.eq("category", params.category);
+  }
+
+  const { data: conversations, error: conversationsError } = await conversationsQuery;
+  if (conversationsError || !conversations?.length) {
+    return [];
+  }
+
+  const categoryById = new Map(conversations.map((c) => [c.id as string, (c.category as string | null) || null]));
+  const { data: messages, error: messagesError } = await client
+    .from("messages")
+    .select("conversation_id, direction, actor_type, body, is_internal, created_at")
+    .in("conversation_id", Array.from(categoryById.keys()))
+    .order("created_at", { ascending: true })
+    .limit(400);
+
+  if (messagesError || !messages) {
+    return [];
+  }
+
+  // Pair each human reply with the customer message right before it
+  const lastInbound = new Map<string, string>();
+  const examples: DraftExample[] = [];
+  for (const message of messages) {
+    if (message.is_internal) {
+      continue;
+    }
+    const conversationId = message.conversation_id as string;
+    if (message.direction === "inbound") {
+      lastInbound.set(conversationId, message.body || "");
+    } else if (message.actor_type === "agent" && lastInbound.has(conversationId) && message.body?.trim()) {
+      examples.push({
+        source: "sent_reply",
+        category: categoryById.get(conversationId) || null,
+        customer: clip(lastInbound.get(conversationId)),
+        reply: clip(message.body),
+      });
+      lastInbound.delete(conversationId);
+    }
+  }
+
+  return examples.reverse();
+}
+
+async function draftEditExamples(client: SupabaseClient, params: {
+  workspaceId: string;
+  category: string | null;
+}): Promise<DraftExample[]> {
+  const { data, error } = await client
+    .from("draft_edits")
+    .select("original_draft, edited_draft, created_at, conversations(category)")
+    .eq("workspace_id", params.workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data
+    .map((row) => {
+      const conversation = row.conversations as { category?: string | null } | null;
+      return {
+        source: "draft_edit" as const,
+        category: conversation?.category || null,
+        ai_draft: clip(row.original_draft),
+        reply: clip(row.edited_draft),
+      };
+    })
+    .filter((example) => example.reply && example.reply !== example.ai_draft)
+    // Same category first; other edits still carry general style corrections
+    .sort((a, b) => Number(b.category === params.category) - Number(a.category === params.category));
+}
+
+async function playbookExamples(client: SupabaseClient, params: {
+  workspaceId: string;
+  category: string | null;
+}): Promise<DraftExample[]> {
+  const { data } = await client
+    .from("voice_profiles")
+    .select("playbook")
+    .eq("workspace_id", params.workspaceId)
+    .maybeSingle();
+
+  const playbook = Array.isArray(data?.playbook) ? data.playbook as Array<Record<string, unknown>> : [];
+  return playbook
+    .map((entry) => {
+      const golden = (entry.golden_example || {}) as Record<string, unknown>;
+      return {
+        source: "playbook" as const,
+        category: typeof entry.category === "string" ? entry.category : null,
+        customer: clip(golden.customer as string),
+        reply: clip(golden.owner as string),
+      };
+    })
+    .filter((example) => example.reply && (!params.category || example.category === params.category));
+}
+
+/**
+ * Few-shot examples for a draft: human-sent replies from conversations in
+ * the same category (ranked by word overlap with the inbound message), the
+ * most recent owner rewrites of AI drafts, and the onboarding playbook as a
+ * fallback for new workspaces.
+ */
+export async function selectDraftExamples(client: SupabaseClient, params: {
+  workspaceId: string;
+  conversationId: string;
+  category: string | null;
+  inboundText: string;
+  limit?: number;
+}): Promise<DraftExample[]> {
+  const limit = params.limit ?? 4;
+  const query = new Set(tokenize(params.inboundText));
+
+  const [sent, edits, playbook] = await Promise.all([
+    sentReplyExamples(client, {
+      workspaceId: params.workspaceId,
+      category: params.category,
+      excludeConversationId: params.conversationId,
+    }),
+    draftEditExamples(client, params),
+    playbookExamples(client, params),
+  ]);
+
+  const editSlots = Math.min(edits.length, Math.ceil(limit / 2));
+  const chosen = [
+    ...edits.slice(0, editSlots),
+    ...rankByQuery(sent, query, (example) => example.customer || "", limit - editSlots),
+  ];
+  if (chosen.length < limit) {
+    chosen.push(...rankByQuery(playbook, query, (example) => example.customer || "", limit - chosen.length));
+  }
+
+  return chosen;
+}
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAuth, AuthError, authErrorResponse } from "../_shared/auth.ts";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -32,22 +33,11 @@ serve(async (req) => {
     console.log('Checking consent for:', customer_identifier, 'on channel:', channel);
 
     // Find customer by email or phone, scoped to workspace
-    let { data: customer } = await supabase
-      .from('customers')
-      .select('id')
-      .eq('workspace_id', workspaceId)
-      .eq('email', customer_identifier)
-      .maybeSingle();
-
-    if (!customer) {
-      const result = await supabase
-        .from('customers')
-        .select('id')
-        .eq('workspace_id', workspaceId)
-        .eq('phone', customer_identifier)
-        .maybeSingle();
-      customer = result.data;
-    }
+    // A merged-away customer resolves to the customer it was merged into
+    const customer = await findCustomerByIdentifier(supabase, {
+      workspaceId,
+      identifier: customer_identifier,
+    });
 
     if (!customer) {
       console.log('Customer not found');
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
 
 /**
  * CONVERT-EMAILS-TO-CONVERSATIONS
@@ -143,13 +144,12 @@ serve(async (req) => {
         if (customerEmail && customerCache.has(customerEmail)) {
           customerId = customerCache.get(customerEmail)!;
         } else if (customerEmail) {
-          // Try to find existing customer
-          const { data: existing } = await supabase
-            .from('customers')
-            .select('id')
-            .eq('workspace_id', workspace_id)
-            .eq('email', customerEmail)
-            .maybeSingle();
+          // Try to find existing customer; a merged-away one resolves to its survivor
+          const existing = await findCustomerByIdentifier(supabase, {
+            workspaceId: workspace_id,
+            identifier: customerEmail,
+            columns: ['email'],
+          });
 
           if (existing) {
             customerId = existing.id;
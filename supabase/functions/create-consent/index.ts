@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAuth, AuthError, authErrorResponse } from "../_shared/auth.ts";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,7 +21,7 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { customer_identifier, channel, consent_method, customer_name } = await req.json();
+    const { customer_identifier, channel, consent_method, customer_name, purpose } = await req.json();
 
     if (!customer_identifier || !channel || !consent_method) {
       return new Response(
@@ -32,22 +33,11 @@ serve(async (req) => {
     console.log('Creating consent for:', customer_identifier, 'on channel:', channel);
 
     // Find or create customer, scoped to workspace
-    let { data: customer } = await supabase
-      .from('customers')
-      .select('id')
-      .eq('workspace_id', workspaceId)
-      .eq('email', customer_identifier)
-      .maybeSingle();
-
-    if (!customer) {
-      const result = await supabase
-        .from('customers')
-        .select('id')
-        .eq('workspace_id', workspaceId)
-        .eq('phone', customer_identifier)
-        .maybeSingle();
-      customer = result.data;
-    }
+    // A merged-away customer resolves to the customer it was merged into
+    let customer = await findCustomerByIdentifier(supabase, {
+      workspaceId,
+      identifier: customer_identifier,
+    });
 
     if (!customer) {
       console.log('Customer not found, creating new customer');
@@ -87,6 +77,8 @@ serve(async (req) => {
         consent_given: true,
         consent_date: new Date().toISOString(),
         consent_method: consent_method,
+        // Marketing sends are only allowed on an explicit 'marketing' consent
+        purpose: purpose === 'marketing' ? 'marketing' : 'customer_service',
         notes: `Consent captured via ${consent_method} contact`
       })
       .select('id')
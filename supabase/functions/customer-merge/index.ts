@@ -0,0 +1,305 @@
+import {
+  assertAdmin,
+  assertWorkspaceMember,
+  createServiceClient,
+  HttpError,
+  isUuidLike,
+} from "../_shared/pipeline.ts";
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+type MergeAction = "candidates" | "preview" | "merge" | "unmerge" | "history";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const CUSTOMER_COLUMNS = "id, name, email, phone, created_at";
+const PREVIEW_CONVERSATION_LIMIT = 50;
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+function requireUuid(value: unknown, field: string): string {
+  const id = typeof value === "string" ? value.trim() : "";
+  if (!isUuidLike(id)) {
+    throw new HttpError(400, `${field} must be a UUID`);
+  }
+  return id;
+}
+
+async function loadCustomers(supabase: SupabaseClient, workspaceId: string, ids: string[]) {
+  if (ids.length === 0) return new Map<string, Record<string, unknown>>();
+
+  const [{ data: customers, error }, { data: conversations, error: convError }] = await Promise.all([
+    supabase
+      .from("customers")
+      .select(CUSTOMER_COLUMNS)
+      .eq("workspace_id", workspaceId)
+      .in("id", ids),
+    supabase
+      .from("conversations")
+      .select("customer_id")
+      .eq("workspace_id", workspaceId)
+      .in("customer_id", ids),
+  ]);
+
+  if (error || convError) {
+    throw new Error(`customer lookup failed: ${(error || convError)?.message}`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const row of conversations || []) {
+    counts.set(row.customer_id, (counts.get(row.customer_id) ?? 0) + 1);
+  }
+
+  return new Map((customers || []).map((customer) => [
+    customer.id as string,
+    { ...customer, conversation_count: counts.get(customer.id) ?? 0 },
+  ]));
+}
+
+async function listCandidates(supabase: SupabaseClient, workspaceId: string, limit: number) {
+  const { data, error } = await supabase.rpc("bb_customer_merge_candidates", {
+    p_workspace_id: workspaceId,
+    p_limit: limit,
+  });
+  if (error) {
+    throw new Error(`bb_customer_merge_candidates failed: ${error.message}`);
+  }
+
+  const pairs = (data || []) as Array<{ customer_a: string; customer_b: string; reasons: string[]; score: number }>;
+  const customers = await loadCustomers(
+    supabase,
+    workspaceId,
+    [...new Set(pairs.flatMap((pair) => [pair.customer_a, pair.customer_b]))],
+  );
+
+  return pairs
+    .filter((pair) => customers.has(pair.customer_a) && customers.has(pair.customer_b))
+    .map((pair) => ({
+      reasons: pair.reasons,
+      score: Number(pair.score),
+      customers: [customers.get(pair.customer_a), customers.get(pair.customer_b)],
+    }));
+}
+
+async function previewMerge(supabase: SupabaseClient, workspaceId: string, winnerId: string, loserId: string) {
+  const [{ data: customers, error }, { data: conversations, count, error: convError }, { data: identities }] =
+    await Promise.all([
+      supabase
+        .from("customers")
+        .select(`${CUSTOMER_COLUMNS}, notes, merged_into_id`)
+        .eq("workspace_id", workspaceId)
+        .in("id", [winnerId, loserId]),
+      supabase
+        .from("conversations")
+        .select("id, title, channel, status, updated_at", { count: "exact" })
+        .eq("workspace_id", workspaceId)
+        .eq("customer_id", loserId)
+        .order("updated_at", { ascending: false })
+        .limit(PREVIEW_CONVERSATION_LIMIT),
+      supabase
+        .from("customer_identities")
+        .select("identifier_type, identifier_value")
+        .eq("workspace_id", workspaceId)
+        .eq("customer_id", loserId),
+    ]);
+
+  if (error || convError) {
+    throw new Error(`merge preview failed: ${(error || convError)?.message}`);
+  }
+
+  const winner = customers?.find((customer) => customer.id === winnerId);
+  const loser = customers?.find((customer) => customer.id === loserId);
+  if (!winner || !loser) {
+    throw new HttpError(404, "Customer not found");
+  }
+  if (winner.merged_into_id || loser.merged_into_id) {
+    throw new HttpError(409, "Customer has already been merged");
+  }
+
+  return {
+    winner,
+    loser,
+    // Mirrors the gap-filling in bb_merge_customers
+    result: {
+      name: winner.name ?? loser.name,
+      email: winner.email ?? loser.email,
+      phone: winner.phone ?? loser.phone,
+    },
+    conversations: conversations || [],
+    conversation_count: count ?? (conversations || []).length,
+    identities: identities || [],
+  };
+}
+
+async function listHistory(supabase: SupabaseClient, workspaceId: string) {
+  const { data, error } = await supabase
+    .from("customer_merges")
+    .select("id, winner_id, loser_id, merged_by, match_reason, moved, created_at, unmerged_at")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    throw new Error(`customer_merges lookup failed: ${error.message}`);
+  }
+
+  const merges = data || [];
+  const customers = await loadCustomers(
+    supabase,
+    workspaceId,
+    [...new Set(merges.flatMap((merge) => [merge.winner_id, merge.loser_id]))],
+  );
+
+  return merges.map((merge) => ({
+    id: merge.id,
+    match_reason: merge.match_reason,
+    created_at: merge.created_at,
+    unmerged_at: merge.unmerged_at,
+    moved_conversations: Array.isArray(merge.moved?.conversations) ? merge.moved.conversations.length : 0,
+    winner: customers.get(merge.winner_id) ?? { id: merge.winner_id },
+    loser: customers.get(merge.loser_id) ?? { id: merge.loser_id },
+  }));
+}
+
+async function logMergeAction(
+  supabase: SupabaseClient,
+  userId: string,
+  customerIds: string[],
+  metadata: Record<string, unknown>,
+) {
+  const { error } = await supabase.from("data_access_logs").insert(
+    customerIds.map((customerId) => ({
+      action: "edit",
+      customer_id: customerId,
+      user_id: userId,
+      metadata,
+    })),
+  );
+
+  if (error) {
+    console.error("data_access_logs insert failed", error.message, metadata);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json().catch(() => ({})) as {
+      workspace_id?: string;
+      action?: MergeAction;
+      winner_id?: string;
+      loser_id?: string;
+      merge_id?: string;
+      reason?: string;
+      limit?: number;
+    };
+
+    const workspaceId = requireUuid(body.workspace_id, "workspace_id");
+    const action = body.action ?? "candidates";
+    const { userId } = await assertWorkspaceMember(req, workspaceId);
+    const supabase = createServiceClient();
+
+    if (action === "candidates") {
+      const limit = Math.min(Math.max(Number(body.limit) || 50, 1), 200);
+      return corsResponse({ ok: true, candidates: await listCandidates(supabase, workspaceId, limit) });
+    }
+
+    if (action === "history") {
+      return corsResponse({ ok: true, merges: await listHistory(supabase, workspaceId) });
+    }
+
+    if (action === "preview") {
+      const winnerId = requireUuid(body.winner_id, "winner_id");
+      const loserId = requireUuid(body.loser_id, "loser_id");
+      return corsResponse({ ok: true, preview: await previewMerge(supabase, workspaceId, winnerId, loserId) });
+    }
+
+    if (action === "merge") {
+      await assertAdmin(supabase, userId, "Only admins can merge customers");
+      const winnerId = requireUuid(body.winner_id, "winner_id");
+      const loserId = requireUuid(body.loser_id, "loser_id");
+
+      const { data, error } = await supabase.rpc("bb_merge_customers", {
+        p_workspace_id: workspaceId,
+        p_winner_id: winnerId,
+        p_loser_id: loserId,
+        p_merged_by: userId,
+        p_reason: body.reason?.trim() || null,
+      });
+      if (error) {
+        throw new Error(`bb_merge_customers failed: ${error.message}`);
+      }
+      if (data?.error) {
+        throw new HttpError(409, data.error);
+      }
+
+      await logMergeAction(supabase, userId, [winnerId, loserId], {
+        operation: "customer_merge",
+        merge_id: data.merge_id,
+        winner_id: winnerId,
+        loser_id: loserId,
+      });
+      return corsResponse({ ...data, ok: true });
+    }
+
+    if (action === "unmerge") {
+      await assertAdmin(supabase, userId, "Only admins can undo a merge");
+      const mergeId = requireUuid(body.merge_id, "merge_id");
+
+      const { data: merge } = await supabase
+        .from("customer_merges")
+        .select("id")
+        .eq("id", mergeId)
+        .eq("workspace_id", workspaceId)
+        .maybeSingle();
+      if (!merge) {
+        throw new HttpError(404, "Merge not found");
+      }
+
+      const { data, error } = await supabase.rpc("bb_unmerge_customers", {
+        p_merge_id: mergeId,
+        p_unmerged_by: userId,
+      });
+      if (error) {
+        throw new Error(`bb_unmerge_customers failed: ${error.message}`);
+      }
+      if (data?.error) {
+        throw new HttpError(409, data.error);
+      }
+
+      await logMergeAction(supabase, userId, [data.winner_id, data.loser_id], {
+        operation: "customer_unmerge",
+        merge_id: mergeId,
+      });
+      return corsResponse({ ...data, ok: true });
+    }
+
+    throw new HttpError(400, `Unknown action: ${action}`);
+  } catch (error) {
+    console.error("customer-merge error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
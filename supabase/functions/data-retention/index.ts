@@ -0,0 +1,135 @@
+import {
+  assertAdmin,
+  assertWorkerToken,
+  assertWorkspaceMember,
+  createServiceClient,
+  DEFAULT_TIME_BUDGET_MS,
+  getOptionalEnv,
+  HttpError,
+  isUuidLike,
+  nowIso,
+  withinBudget,
+} from "../_shared/pipeline.ts";
+import { type RetentionPolicy, type RetentionReport, runRetention } from "../_shared/retention.ts";
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const POLICY_COLUMNS =
+  "workspace_id, retention_days, auto_delete_enabled, anonymize_instead_of_delete, exclude_vip_customers";
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+async function runPolicy(
+  supabase: SupabaseClient,
+  policy: RetentionPolicy,
+  dryRun: boolean,
+): Promise<RetentionReport> {
+  const limit = Math.max(1, Number(getOptionalEnv("BB_RETENTION_BATCH_SIZE", "200")));
+  const report = await runRetention(supabase, policy, { dryRun, limit });
+
+  const update = dryRun
+    ? { last_dry_run_report: report }
+    : { last_run_at: nowIso(), last_run_report: report };
+  const { error } = await supabase
+    .from("data_retention_policies")
+    .update(update)
+    .eq("workspace_id", policy.workspace_id);
+
+  if (error) {
+    console.error("data_retention_policies report update failed", error.message);
+  }
+  return report;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  const startMs = Date.now();
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const supabase = createServiceClient();
+    const body = await req.json().catch(() => ({})) as { workspace_id?: string; dry_run?: boolean | string };
+    const reports: RetentionReport[] = [];
+
+    if (req.headers.get("x-bb-worker-token")) {
+      // Nightly run: every workspace that has switched automatic deletion on
+      assertWorkerToken(req);
+      const dryRun = getOptionalEnv("BB_RETENTION_DRY_RUN") === "true";
+      const { data: policies, error } = await supabase
+        .from("data_retention_policies")
+        .select(POLICY_COLUMNS)
+        .eq("auto_delete_enabled", true)
+        .not("workspace_id", "is", null);
+
+      if (error) {
+        throw new Error(`data_retention_policies load failed: ${error.message}`);
+      }
+
+      for (const policy of (policies || []) as RetentionPolicy[]) {
+        if (!withinBudget(startMs, DEFAULT_TIME_BUDGET_MS)) {
+          break;
+        }
+        try {
+          reports.push(await runPolicy(supabase, policy, dryRun));
+        } catch (error) {
+          console.error("data-retention workspace error", { workspace_id: policy.workspace_id, error });
+        }
+      }
+
+      return corsResponse({ ok: true, dry_run: dryRun, reports, elapsed_ms: Date.now() - startMs });
+    }
+
+    // GDPR dashboard: preview by default, an explicit dry_run=false applies the policy
+    const workspaceId = body.workspace_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+    const { userId } = await assertWorkspaceMember(req, workspaceId);
+    const dryRun = body.dry_run !== false && body.dry_run !== "false";
+    if (!dryRun) {
+      await assertAdmin(supabase, userId, "Only admins can run the retention policy");
+    }
+
+    const { data: policy, error } = await supabase
+      .from("data_retention_policies")
+      .select(POLICY_COLUMNS)
+      .eq("workspace_id", workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`data_retention_policies load failed: ${error.message}`);
+    }
+    if (!policy) {
+      throw new HttpError(404, "No retention policy saved for this workspace");
+    }
+
+    reports.push(await runPolicy(supabase, policy as RetentionPolicy, dryRun));
+    return corsResponse({ ok: true, dry_run: dryRun, reports, elapsed_ms: Date.now() - startMs });
+  } catch (error) {
+    console.error("data-retention error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
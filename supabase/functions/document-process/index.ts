@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chunkDocument, documentText, extractDocument, normalizeFileType } from "../_shared/document-extract.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,31 +13,6 @@ interface ProcessRequest {
   action: 'process' | 'extract_faqs' | 'delete' | 'list';
 }
 
-// Helper function to chunk text
-function chunkText(text: string, chunkSize: number, overlap: number): { text: string; page: number }[] {
-  const chunks: { text: string; page: number }[] = [];
-  let start = 0;
-  let page = 1;
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    const chunkText = text.slice(start, end);
-    
-    if (chunkText.trim().length > 50) { // Only add meaningful chunks
-      chunks.push({
-        text: chunkText,
-        page
-      });
-    }
-    
-    start = end - overlap;
-    if (start >= text.length - overlap) break;
-    page++;
-  }
-
-  return chunks;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -126,29 +102,24 @@ serve(async (req) => {
         }
 
         // Extract text based on file type
-        let extractedText = '';
-        const fileType = document.file_type?.toLowerCase() || '';
-        
-        if (['txt', 'md', 'text', 'markdown'].includes(fileType)) {
-          extractedText = await fileData.text();
-        } else if (fileType === 'json') {
-          const json = await fileData.text();
-          extractedText = JSON.stringify(JSON.parse(json), null, 2);
-        } else if (fileType === 'csv') {
-          extractedText = await fileData.text();
-        } else {
-          // For PDF and other formats, try basic text extraction
-          try {
-            extractedText = await fileData.text();
-          } catch {
-            extractedText = 'Unable to extract text from this file format';
-          }
+        const fileType = normalizeFileType(document.file_type, document.name);
+        let extracted;
+        try {
+          extracted = await extractDocument(new Uint8Array(await fileData.arrayBuffer()), fileType);
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          await supabase.from('documents').update({
+            status: 'failed',
+            error_message: `Extraction failed: ${message}`
+          }).eq('id', body.document_id);
+          throw new Error(`Extraction failed: ${message}`);
         }
+        const extractedText = documentText(extracted);
 
-        console.log(`[${functionName}] Extracted ${extractedText.length} characters from ${document.name}`);
+        console.log(`[${functionName}] Extracted ${extractedText.length} characters (${extracted.pageCount} pages) from ${document.name}`);
 
-        // Chunk the text (roughly 500 tokens per chunk with overlap)
-        const chunks = chunkText(extractedText, 2000, 200);
+        // Chunk on headings, ~500 tokens max per chunk, page of each chunk preserved
+        const chunks = chunkDocument(extracted, { maxChars: 2000, overlap: 200 });
         console.log(`[${functionName}] Created ${chunks.length} chunks`);
 
         // Delete existing chunks for this document
@@ -211,7 +182,7 @@ serve(async (req) => {
           .update({
             status: 'processed',
             extracted_text: extractedText.slice(0, 50000), // Store truncated
-            page_count: chunks.length,
+            page_count: extracted.pageCount,
             processed_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           })
@@ -220,7 +191,8 @@ serve(async (req) => {
         result = { 
           chunks_created: chunks.length,
           chunks_with_embeddings: chunksWithEmbeddings,
-          text_length: extractedText.length
+          text_length: extractedText.length,
+          page_count: extracted.pageCount
         };
         break;
       }
@@ -0,0 +1,274 @@
+import {
+  assertWorkerToken,
+  assertWorkspaceMember,
+  createServiceClient,
+  getOptionalEnv,
+  HttpError,
+  isUuidLike,
+  nowIso,
+} from "../_shared/pipeline.ts";
+
+type StyleRuleKind = "greeting" | "signoff" | "avoid_phrase" | "add_phrase" | "include_link" | "price_correction";
+
+// Shape written by src/lib/draftDiff.ts
+interface DraftDiff {
+  version: number;
+  hunks: Array<{ removed: string; added: string }>;
+  greeting: { before: string | null; after: string | null };
+  signoff: { before: string | null; after: string | null };
+  links_added: string[];
+  prices: Array<{ before: string; after: string }>;
+}
+
+interface EditRow {
+  id: string;
+  diff: DraftDiff;
+  category: string | null;
+}
+
+interface Candidate {
+  kind: StyleRuleKind;
+  rule_key: string;
+  instruction: string;
+  pattern: Record<string, unknown>;
+  editIds: Set<string>;
+  categories: Map<string, number>;
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const LOOKBACK_DAYS = 90;
+const MAX_EDITS = 300;
+const MAX_PHRASE_WORDS = 12;
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+function normalize(text: string | null | undefined): string {
+  return String(text || "").toLowerCase().replace(/[^\p{L}\p{N}£€$@:/.\s-]/gu, "").replace(/\s+/g, " ").trim();
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function mostCommon(counts: Map<string, number>): string | null {
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Groups recurring edits into rule candidates. Each candidate counts distinct
+ * edits, so one reply that repeats a phrase only counts once.
+ */
+function collectCandidates(edits: EditRow[]): Candidate[] {
+  const candidates = new Map<string, Candidate>();
+  const add = (
+    edit: EditRow,
+    kind: StyleRuleKind,
+    ruleKey: string,
+    instruction: string,
+    pattern: Record<string, unknown>,
+  ) => {
+    const key = `${kind}:${ruleKey}`;
+    let candidate = candidates.get(key);
+    if (!candidate) {
+      candidate = { kind, rule_key: ruleKey, instruction, pattern, editIds: new Set(), categories: new Map() };
+      candidates.set(key, candidate);
+    }
+    candidate.editIds.add(edit.id);
+    if (edit.category) {
+      candidate.categories.set(edit.category, (candidate.categories.get(edit.category) || 0) + 1);
+    }
+  };
+
+  for (const edit of edits) {
+    const diff = edit.diff;
+    const greetingBefore = normalize(diff.greeting?.before);
+    const greetingAfter = normalize(diff.greeting?.after);
+    if (greetingAfter && greetingAfter !== greetingBefore) {
+      add(edit, "greeting", greetingAfter, `Open replies with "${diff.greeting.after}"`, {
+        to: diff.greeting.after,
+        from: diff.greeting.before,
+      });
+    }
+
+    const signoffBefore = normalize(diff.signoff?.before);
+    const signoffAfter = normalize(diff.signoff?.after);
+    if (signoffAfter && signoffAfter !== signoffBefore) {
+      add(edit, "signoff", signoffAfter, `Sign off with "${diff.signoff.after}"`, {
+        to: diff.signoff.after,
+        from: diff.signoff.before,
+      });
+    }
+
+    for (const url of diff.links_added || []) {
+      add(edit, "include_link", url.toLowerCase(), `Include the link ${url}`, { url });
+    }
+
+    for (const price of diff.prices || []) {
+      add(edit, "price_correction", `${price.before}->${price.after}`, `Quote ${price.after}, not ${price.before}`, price);
+    }
+
+    const framing = [greetingBefore, greetingAfter, signoffBefore, signoffAfter].filter(Boolean);
+    const touchesFraming = (text: string) => Boolean(text) && framing.some((line) => line.includes(text));
+    for (const hunk of diff.hunks || []) {
+      const removed = normalize(hunk.removed);
+      const added = normalize(hunk.added);
+      // Greeting/sign-off swaps and prices are covered above
+      if (touchesFraming(removed) || touchesFraming(added) || /£\d/.test(removed + added)) {
+        continue;
+      }
+
+      if (removed && wordCount(removed) <= MAX_PHRASE_WORDS && wordCount(removed) >= 2) {
+        add(edit, "avoid_phrase", removed, `Don't write "${hunk.removed.trim()}"`, { phrase: hunk.removed.trim() });
+      }
+      if (added && !removed && !/https?:\/\//.test(added) && wordCount(added) <= MAX_PHRASE_WORDS * 2 && wordCount(added) >= 2) {
+        add(edit, "add_phrase", added, `Add "${hunk.added.trim()}"`, { phrase: hunk.added.trim() });
+      }
+    }
+  }
+
+  return Array.from(candidates.values());
+}
+
+async function mineWorkspace(supabase: ReturnType<typeof createServiceClient>, workspaceId: string) {
+  const minSupport = Math.max(2, Number(getOptionalEnv("BB_STYLE_RULE_MIN_SUPPORT", "3")));
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("draft_edits")
+    .select("id, diff, conversations(category)")
+    .eq("workspace_id", workspaceId)
+    .not("diff", "is", null)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(MAX_EDITS);
+
+  if (error) {
+    throw new Error(`draft_edits load failed: ${error.message}`);
+  }
+
+  const edits: EditRow[] = (data || []).map((row) => ({
+    id: row.id as string,
+    diff: row.diff as DraftDiff,
+    category: ((row.conversations as { category?: string | null } | null)?.category) || null,
+  }));
+
+  // Price corrections are rarer but high-value, so they need less evidence
+  const proposals = collectCandidates(edits).filter((candidate) =>
+    candidate.editIds.size >= (candidate.kind === "price_correction" ? 2 : minSupport)
+  );
+
+  if (proposals.length === 0) {
+    return { edits: edits.length, proposals: 0 };
+  }
+
+  const now = nowIso();
+  const rows = proposals.map((candidate) => {
+    const category = mostCommon(candidate.categories);
+    const instruction = candidate.kind === "include_link" && category
+      ? `${candidate.instruction} in ${category.replace(/_/g, " ")} replies`
+      : candidate.instruction;
+    // status is left out so re-mining never reopens an accepted or dismissed rule
+    return {
+      workspace_id: workspaceId,
+      kind: candidate.kind,
+      rule_key: candidate.rule_key,
+      instruction,
+      pattern: { ...candidate.pattern, category },
+      support_count: candidate.editIds.size,
+      example_edit_ids: Array.from(candidate.editIds).slice(0, 5),
+      last_seen_at: now,
+      updated_at: now,
+    };
+  });
+
+  const { error: upsertError } = await supabase
+    .from("style_rules")
+    .upsert(rows, { onConflict: "workspace_id,kind,rule_key" });
+
+  if (upsertError) {
+    throw new Error(`style_rules upsert failed: ${upsertError.message}`);
+  }
+
+  return { edits: edits.length, proposals: rows.length };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const supabase = createServiceClient();
+    const body = await req.json().catch(() => ({})) as { workspace_id?: string };
+
+    let workspaceIds: string[];
+    if (req.headers.get("x-bb-worker-token")) {
+      // Scheduled run: every workspace with recent edits
+      assertWorkerToken(req);
+      const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from("draft_edits")
+        .select("workspace_id")
+        .not("diff", "is", null)
+        .gte("created_at", since)
+        .limit(5000);
+
+      if (error) {
+        throw new Error(`draft_edits scan failed: ${error.message}`);
+      }
+      workspaceIds = Array.from(new Set((data || []).map((row) => row.workspace_id as string).filter(Boolean)));
+    } else {
+      // "Look for patterns" in the Learning page
+      const workspaceId = body.workspace_id?.trim();
+      if (!workspaceId || !isUuidLike(workspaceId)) {
+        throw new HttpError(400, "workspace_id must be a UUID");
+      }
+      await assertWorkspaceMember(req, workspaceId);
+      workspaceIds = [workspaceId];
+    }
+
+    const results: Record<string, unknown> = {};
+    for (const workspaceId of workspaceIds) {
+      try {
+        results[workspaceId] = await mineWorkspace(supabase, workspaceId);
+      } catch (error) {
+        console.error("draft-style-miner workspace error", { workspace_id: workspaceId, error });
+        results[workspaceId] = { error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    return corsResponse({ ok: true, workspaces: workspaceIds.length, results });
+  } catch (error) {
+    console.error("draft-style-miner error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
@@ -0,0 +1,75 @@
+import { createServiceClient, HttpError, isUuidLike, nowIso } from "../_shared/pipeline.ts";
+import { DSAR_BUCKET, dsarTokenHash } from "../_shared/dsar.ts";
+
+// The storage link only has to survive the redirect
+const SIGNED_URL_SECONDS = 300;
+
+function textResponse(message: string, status: number) {
+  return new Response(message, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+}
+
+// Opened straight from an email or the dashboard, so it authenticates with the link token, not a JWT
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== "GET") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const url = new URL(req.url);
+    const exportId = url.searchParams.get("id") || "";
+    const token = url.searchParams.get("token") || "";
+    if (!isUuidLike(exportId) || !token) {
+      throw new HttpError(400, "This download link is incomplete");
+    }
+
+    const supabase = createServiceClient();
+    const { data: bundle, error } = await supabase
+      .from("dsar_exports")
+      .select("id, customer_id, storage_path, token_hash, expires_at, download_count, created_at")
+      .eq("id", exportId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`dsar_exports lookup failed: ${error.message}`);
+    }
+    if (!bundle || bundle.token_hash !== await dsarTokenHash(token)) {
+      throw new HttpError(404, "This download link is not valid");
+    }
+    if (!bundle.storage_path || new Date(bundle.expires_at) < new Date()) {
+      throw new HttpError(410, "This download link has expired. Please request a new export.");
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from(DSAR_BUCKET)
+      .createSignedUrl(bundle.storage_path, SIGNED_URL_SECONDS, {
+        download: `personal-data-${String(bundle.created_at).slice(0, 10)}.zip`,
+      });
+    if (signError || !signed?.signedUrl) {
+      throw new Error(`signed URL failed: ${signError?.message}`);
+    }
+
+    await supabase
+      .from("dsar_exports")
+      .update({ download_count: (bundle.download_count ?? 0) + 1, last_downloaded_at: nowIso() })
+      .eq("id", bundle.id);
+
+    const { error: logError } = await supabase.from("data_access_logs").insert({
+      action: "export",
+      customer_id: bundle.customer_id,
+      ip_address: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || null,
+      user_agent: req.headers.get("user-agent"),
+      metadata: { source: "dsar_export", event: "downloaded", dsar_export_id: bundle.id },
+    });
+    if (logError) {
+      console.error("data_access_logs insert failed", logError.message);
+    }
+
+    return Response.redirect(signed.signedUrl, 302);
+  } catch (error) {
+    console.error("dsar-download error", error);
+    if (error instanceof HttpError) {
+      return textResponse(error.message, error.status);
+    }
+    return textResponse("Something went wrong preparing your download", 500);
+  }
+});
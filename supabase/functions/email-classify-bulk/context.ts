@@ -3,6 +3,8 @@
  * Fetches business profile, sender rules, classification corrections, and FAQs.
  */
 
+import { ruleMatches, triageRuleFromRow } from '../_shared/triage-rules.ts';
+
 export interface BusinessContext {
   companyName: string;
   businessType: string;
@@ -15,6 +17,8 @@ export interface SenderRule {
   default_classification: string;
   default_requires_reply: boolean | null;
   skip_llm: boolean | null;
+  conditions: unknown | null;
+  priority: number | null;
 }
 
 export interface ClassificationCorrection {
@@ -45,9 +49,10 @@ export async function fetchBusinessContext(supabase: any, workspace_id: string):
 export async function fetchSenderRules(supabase: any, workspace_id: string): Promise<SenderRule[]> {
   const { data } = await supabase
     .from('sender_rules')
-    .select('id, sender_pattern, default_classification, default_requires_reply, skip_llm')
+    .select('id, sender_pattern, default_classification, default_requires_reply, skip_llm, conditions, priority')
     .eq('workspace_id', workspace_id)
-    .eq('is_active', true);
+    .eq('is_active', true)
+    .order('priority', { ascending: true });
 
   return data || [];
 }
@@ -75,27 +80,24 @@ export async function fetchFAQs(supabase: any, workspace_id: string): Promise<FA
 }
 
 /**
- * Match an email against sender rules. Returns the matching rule or null.
- * Supports exact match, domain match (@domain.com), and wildcard (*@domain.com).
+ * Match an email against sender rules (in priority order) using the shared triage rules engine.
+ * Only rules marked skip_llm apply here; built-in rules are left to the live pipeline.
  */
-export function matchSenderRule(fromEmail: string, rules: SenderRule[]): SenderRule | null {
-  if (!fromEmail) return null;
-  const email = fromEmail.toLowerCase().trim();
-  const domain = email.split('@')[1] || '';
+export function matchSenderRule(
+  email: { from_email: string; subject?: string | null; body?: string | null },
+  rules: SenderRule[],
+): SenderRule | null {
+  if (!email.from_email) return null;
 
   for (const rule of rules) {
     if (!rule.skip_llm) continue;
-    const pattern = rule.sender_pattern.toLowerCase().trim();
-
-    // Exact match
-    if (pattern === email) return rule;
-    // Domain match: @domain.com or *@domain.com
-    if (pattern.startsWith('@') && domain === pattern.slice(1)) return rule;
-    if (pattern.startsWith('*@') && domain === pattern.slice(2)) return rule;
-    // Wildcard contains
-    if (pattern.includes('*')) {
-      const regex = new RegExp('^' + pattern.replace(/\*/g, '.*') + '$');
-      if (regex.test(email)) return rule;
+    try {
+      const triageRule = triageRuleFromRow(rule as unknown as Record<string, unknown>);
+      if (ruleMatches(triageRule, { sender: email.from_email, subject: email.subject || '', body: email.body || '' })) {
+        return rule;
+      }
+    } catch (e) {
+      console.warn('Skipping invalid sender rule', rule.id, e);
     }
   }
 
@@ -135,7 +135,7 @@ serve(async (req) => {
     const needsAI: any[] = [];
 
     for (const email of emails) {
-      const rule = matchSenderRule(email.from_email, senderRules);
+      const rule = matchSenderRule(email, senderRules);
       if (rule) {
         ruleMatched.push({ email, rule });
       } else {
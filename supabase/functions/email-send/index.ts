@@ -10,6 +10,8 @@ interface SendEmailRequest {
   conversation_id: string;
   workspace_id: string;
   message_body: string;
+  purpose?: string;
+  acknowledge_consent_warning?: boolean;
 }
 
 interface SendEmailResponse {
@@ -20,6 +22,7 @@ interface SendEmailResponse {
   function?: string;
   step?: string;
   duration_ms?: number;
+  consent?: unknown;
 }
 
 serve(async (req) => {
@@ -119,6 +122,23 @@ serve(async (req) => {
       throw new Error(`Customer has no email address for conversation: ${body.conversation_id}`);
     }
 
+    // ========================================
+    // STEP 3b: Consent gate
+    // ========================================
+    currentStep = 'checking_consent';
+
+    const { assertSendConsent, normalizeSendPurpose } = await import('../_shared/consent.ts');
+    const consent = await assertSendConsent(supabase, {
+      workspaceId: body.workspace_id,
+      customerId: customer.id,
+      channel: 'email',
+      purpose: normalizeSendPurpose(body.purpose),
+      acknowledged: body.acknowledge_consent_warning === true,
+    });
+    if (consent.decision === 'warn') {
+      console.warn(`[${functionName}] Sending after acknowledged consent warning:`, consent.reason);
+    }
+
     const threadId = conversation.source_id;
     const recipientEmail = customer.email;
     const recipientName = customer.name || '';
@@ -286,6 +306,23 @@ serve(async (req) => {
     
     console.error(`[${functionName}] Error at step "${currentStep}":`, errorMessage);
 
+    // 403 when consent blocks the send, 409 when the caller must acknowledge a warning
+    const { ConsentError } = await import('../_shared/consent.ts');
+    if (error instanceof ConsentError) {
+      const response: SendEmailResponse = {
+        success: false,
+        error: errorMessage,
+        function: functionName,
+        step: currentStep,
+        duration_ms: duration,
+        consent: error.check,
+      };
+      return new Response(
+        JSON.stringify(response),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const response: SendEmailResponse = {
       success: false,
       error: errorMessage,
@@ -0,0 +1,203 @@
+import {
+  assertAdmin,
+  assertWorkspaceMember,
+  createServiceClient,
+  DEFAULT_TIME_BUDGET_MS,
+  getOptionalEnv,
+  getRequiredEnv,
+  HttpError,
+  isUuidLike,
+  nowIso,
+  withinBudget,
+} from "../_shared/pipeline.ts";
+import { eraseCustomer, loadErasureSubject, signCertificate, verifyCertificate } from "../_shared/erasure.ts";
+import { logRetentionAction, type RetentionMode } from "../_shared/retention.ts";
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+function certificateSecret(): string {
+  return getOptionalEnv("GDPR_CERTIFICATE_SECRET") || getRequiredEnv("GDPR_TOKEN_SECRET");
+}
+
+// data_deletion_requests has no workspace_id; the customer decides which workspace it belongs to
+async function loadRequest(supabase: SupabaseClient, workspaceId: string, requestId: string) {
+  const { data: request, error } = await supabase
+    .from("data_deletion_requests")
+    .select(
+      "id, customer_id, status, deletion_type, requested_at, reviewed_at, certificate, certificate_signature, customer:customers(workspace_id)",
+    )
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`data_deletion_requests lookup failed: ${error.message}`);
+  }
+
+  const customer = request?.customer as { workspace_id?: string } | null;
+  if (!request || !request.customer_id || customer?.workspace_id !== workspaceId) {
+    throw new HttpError(404, "Deletion request not found");
+  }
+  return request;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  const startMs = Date.now();
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json().catch(() => ({})) as {
+      workspace_id?: string;
+      request_id?: string;
+      action?: "execute" | "verify";
+      erase_remote?: boolean;
+      certificate?: Record<string, unknown>;
+      signature?: string;
+    };
+
+    const workspaceId = body.workspace_id?.trim();
+    const requestId = body.request_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+    if (!requestId || !isUuidLike(requestId)) {
+      throw new HttpError(400, "request_id must be a UUID");
+    }
+
+    const { userId } = await assertWorkspaceMember(req, workspaceId);
+    const supabase = createServiceClient();
+    const request = await loadRequest(supabase, workspaceId, requestId);
+
+    if (body.action === "verify") {
+      // Checks a downloaded copy when one is passed, otherwise the stored certificate
+      const certificate = body.certificate ?? request.certificate;
+      const signature = body.signature ?? request.certificate_signature;
+      if (!certificate || !signature) {
+        throw new HttpError(404, "This request has no completion certificate");
+      }
+      return corsResponse({ ok: true, valid: await verifyCertificate(certificate, signature, certificateSecret()) });
+    }
+
+    await assertAdmin(supabase, userId, "Only admins can execute deletion requests");
+    if (request.status === "completed" || request.status === "rejected") {
+      throw new HttpError(409, `Request is already ${request.status}`);
+    }
+
+    // Erasure also covers customers merged into this one, so their holds count too
+    const subject = await loadErasureSubject(supabase, workspaceId, request.customer_id);
+    const { data: hold, error: holdError } = await supabase
+      .from("legal_holds")
+      .select("id, reason")
+      .eq("workspace_id", workspaceId)
+      .in("customer_id", subject.ids.length > 0 ? subject.ids : [request.customer_id])
+      .is("released_at", null)
+      .limit(1)
+      .maybeSingle();
+    if (holdError) {
+      throw new Error(`legal_holds load failed: ${holdError.message}`);
+    }
+    if (hold) {
+      throw new HttpError(409, `Customer is under a legal hold: ${hold.reason}`);
+    }
+
+    const mode: RetentionMode = request.deletion_type === "anonymize" ? "anonymize" : "delete";
+    const eraseRemote = body.erase_remote === true;
+    const { error: startError } = await supabase
+      .from("data_deletion_requests")
+      .update({
+        status: "approved",
+        reviewed_at: request.reviewed_at ?? nowIso(),
+        executed_by: userId,
+        erase_remote: eraseRemote,
+      })
+      .eq("id", requestId);
+    if (startError) {
+      throw new Error(`data_deletion_requests update failed: ${startError.message}`);
+    }
+
+    const report = await eraseCustomer(supabase, {
+      workspaceId,
+      customerId: request.customer_id,
+      mode,
+      eraseRemote,
+      shouldContinue: () => withinBudget(startMs, DEFAULT_TIME_BUDGET_MS),
+    });
+
+    if (report.truncated || report.errors.length > 0) {
+      // Stays approved; running it again picks up what is left
+      await supabase.from("data_deletion_requests").update({ last_report: report }).eq("id", requestId);
+      return corsResponse({ ok: true, completed: false, report });
+    }
+
+    const completedAt = nowIso();
+    const certificate = {
+      type: "gdpr_erasure_certificate",
+      version: 1,
+      request_id: requestId,
+      workspace_id: workspaceId,
+      customer_id: request.customer_id,
+      customer_ids: report.customer_ids,
+      deletion_type: request.deletion_type ?? "full",
+      mode,
+      requested_at: request.requested_at,
+      executed_by: userId,
+      completed_at: completedAt,
+      counts: report.counts,
+      held_conversations: report.held_conversations,
+      remote: report.remote,
+    };
+    const signature = await signCertificate(certificate, certificateSecret());
+
+    const { error: completeError } = await supabase
+      .from("data_deletion_requests")
+      .update({
+        status: "completed",
+        completed_at: completedAt,
+        last_report: report,
+        certificate,
+        certificate_signature: signature,
+      })
+      .eq("id", requestId);
+    if (completeError) {
+      throw new Error(`data_deletion_requests update failed: ${completeError.message}`);
+    }
+
+    await logRetentionAction(supabase, {
+      action: mode,
+      conversationId: null,
+      customerId: request.customer_id,
+      userId,
+      metadata: { source: "gdpr_erasure", request_id: requestId, certificate, signature },
+    });
+
+    return corsResponse({ ok: true, completed: true, report, certificate, signature });
+  } catch (error) {
+    console.error("execute-deletion error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
@@ -0,0 +1,112 @@
+import {
+  assertWorkspaceMember,
+  createServiceClient,
+  getOptionalEnv,
+  HttpError,
+  isUuidLike,
+} from "../_shared/pipeline.ts";
+import { embedConversation, embedText } from "../_shared/retrieval.ts";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json().catch(() => ({})) as {
+      workspace_id?: string;
+      conversation_id?: string;
+      query?: string;
+      limit?: number;
+    };
+    const workspaceId = body.workspace_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+    if (!body.conversation_id && !body.query?.trim()) {
+      throw new HttpError(400, "conversation_id or query is required");
+    }
+    await assertWorkspaceMember(req, workspaceId);
+
+    if (!getOptionalEnv("OPENAI_API_KEY")) {
+      throw new HttpError(503, "Semantic search needs OPENAI_API_KEY");
+    }
+
+    const supabase = createServiceClient();
+    let embedding: number[] | null = null;
+
+    if (body.conversation_id) {
+      if (!isUuidLike(body.conversation_id)) {
+        throw new HttpError(400, "conversation_id must be a UUID");
+      }
+      const { data: conversation, error } = await supabase
+        .from("conversations")
+        .select("id, title, summary_for_human, embedding")
+        .eq("id", body.conversation_id)
+        .eq("workspace_id", workspaceId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`conversation lookup failed: ${error.message}`);
+      }
+      if (!conversation) {
+        throw new HttpError(404, "Conversation not found");
+      }
+
+      embedding = conversation.embedding
+        ? (typeof conversation.embedding === "string" ? JSON.parse(conversation.embedding) : conversation.embedding)
+        : await embedConversation(supabase, conversation);
+    } else {
+      embedding = await embedText(String(body.query));
+    }
+
+    if (!embedding) {
+      throw new Error("Embedding request failed");
+    }
+
+    // Other conversations are matched on stored embeddings only; pipeline-worker-embeddings fills them in
+    const { data: matches, error: matchError } = await supabase.rpc("bb_similar_conversations", {
+      p_workspace_id: workspaceId,
+      p_embedding: JSON.stringify(embedding),
+      p_match_count: Math.min(Math.max(Number(body.limit) || 10, 1), 50),
+      p_exclude_id: body.conversation_id || null,
+    });
+
+    if (matchError) {
+      throw new Error(`bb_similar_conversations failed: ${matchError.message}`);
+    }
+
+    const minSimilarity = Number(getOptionalEnv("BB_SEARCH_MIN_SIMILARITY", "0.3"));
+    return corsResponse({
+      ok: true,
+      results: (matches || []).filter((m: { similarity: number }) => m.similarity >= minSimilarity),
+    });
+  } catch (error) {
+    console.error("find-similar-conversations error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
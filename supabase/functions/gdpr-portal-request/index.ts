@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -90,12 +91,12 @@ serve(async (req) => {
       workspaceId = workspace?.id || null;
     }
 
-    // Find customer by email
-    const { data: customer } = await supabase
-      .from('customers')
-      .select('id, name, workspace_id')
-      .eq('email', email.toLowerCase())
-      .maybeSingle();
+    // Find customer by email; a merged-away customer resolves to its survivor
+    const customer = await findCustomerByIdentifier(supabase, {
+      identifier: email.toLowerCase(),
+      columns: ['email'],
+      select: 'id, name, workspace_id',
+    });
 
     // Generate verification token with expiration
     const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
+import { createDsarExport } from "../_shared/dsar.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -119,33 +121,31 @@ serve(async (req) => {
 
     console.log('Verified GDPR request:', { email: requestData.email, action });
 
-    // Find customer by email
-    const { data: customer } = await supabase
-      .from('customers')
-      .select('id, name, email, phone, workspace_id')
-      .eq('email', requestData.email as string)
-      .maybeSingle();
+    // Find customer by email; a merged-away customer resolves to its survivor
+    const customer = await findCustomerByIdentifier(supabase, {
+      identifier: requestData.email as string,
+      columns: ['email'],
+      select: 'id, name, email, phone, workspace_id',
+    });
 
     if (action === 'export') {
       // Process data export
       if (customer) {
-        // Invoke the existing export function
-        const { data: exportData, error: exportError } = await supabase.functions.invoke('export-customer-data', {
-          body: {
-            customer_identifier: requestData.email,
-            delivery_method: 'email'
-          }
+        // Build the full DSAR bundle; the email only carries a time-limited link to it
+        const bundle = await createDsarExport(supabase, {
+          workspaceId: customer.workspace_id as string,
+          customerId: customer.id,
+          requestedBy: null,
+          source: 'portal'
         });
 
-        if (exportError) {
-          console.error('Export error:', exportError);
+        if (!bundle) {
           throw new Error('Failed to generate export');
         }
 
-        // Send export via email
-        if (postmarkApiKey && exportData?.data) {
-          const exportJson = JSON.stringify(exportData.data, null, 2);
-          
+        if (postmarkApiKey) {
+          const expiresAt = new Date(bundle.expires_at);
+
           await fetch('https://api.postmarkapp.com/email', {
             method: 'POST',
             headers: {
@@ -160,36 +160,22 @@ serve(async (req) => {
               HtmlBody: `
                 <h2>Your Data Export</h2>
                 <p>Hello${customer.name ? ` ${customer.name}` : ''},</p>
-                <p>As requested, here is a copy of all your personal data we have on file.</p>
-                <p>Your data is attached as a JSON file for portability.</p>
+                <p>As requested, we have prepared a copy of all the personal data we hold about you.</p>
+                <p><a href="${bundle.download_url}">Download your data (ZIP)</a></p>
+                <p>The link works until ${expiresAt.toLocaleString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' })}. Open <strong>summary.html</strong> inside the ZIP for a readable overview; the JSON and CSV files are for portability.</p>
                 <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;" />
                 <h3>Your Rights</h3>
                 <ul>
                   <li><strong>Right to Access:</strong> You can request your data at any time</li>
                   <li><strong>Right to Erasure:</strong> You can request deletion of your data</li>
                   <li><strong>Right to Rectification:</strong> You can request corrections to your data</li>
-                  <li><strong>Right to Portability:</strong> This export is in JSON format for portability</li>
+                  <li><strong>Right to Portability:</strong> This export includes JSON and CSV files for portability</li>
                 </ul>
               `,
-              Attachments: [{
-                Name: 'my-data-export.json',
-                Content: btoa(exportJson),
-                ContentType: 'application/json'
-              }],
               MessageStream: 'outbound'
             })
           });
         }
-
-        // Log the completed export
-        await supabase.from('data_access_logs').insert({
-          action: 'gdpr_export_completed',
-          customer_id: customer.id,
-          metadata: {
-            email: requestData.email,
-            export_size: JSON.stringify(exportData?.data || {}).length
-          }
-        });
       } else {
         // No customer found - send email saying no data
         if (postmarkApiKey) {
@@ -0,0 +1,72 @@
+import {
+  ingestChannelMessages,
+  messengerToUnifiedMessages,
+  metaVerificationChallenge,
+  resolveChannelConfig,
+  verifyMetaSignature,
+} from "../_shared/inbound.ts";
+import { createServiceClient, HttpError, jsonResponse } from "../_shared/pipeline.ts";
+
+Deno.serve(async (req) => {
+  try {
+    const challenge = metaVerificationChallenge(req);
+    if (challenge) {
+      return challenge;
+    }
+
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const rawBody = await req.text();
+    await verifyMetaSignature(rawBody, req);
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody) as Record<string, unknown>;
+    } catch {
+      throw new HttpError(400, "Invalid JSON body");
+    }
+
+    const grouped = messengerToUnifiedMessages(payload);
+    const supabase = createServiceClient();
+
+    let receivedCount = 0;
+    const skippedPageIds: string[] = [];
+    for (const [pageId, messages] of grouped.entries()) {
+      let config;
+      try {
+        config = await resolveChannelConfig(supabase, {
+          channel: "facebook",
+          configKey: "page_id",
+          value: pageId,
+        });
+      } catch (error) {
+        // Same as whatsapp-webhook: acknowledge the batch rather than have Meta retry all of it
+        if (error instanceof HttpError && error.status === 404) {
+          console.warn("messenger-webhook skipping unconfigured page_id", pageId);
+          skippedPageIds.push(pageId);
+          continue;
+        }
+        throw error;
+      }
+
+      await ingestChannelMessages(supabase, config, messages);
+      receivedCount += messages.length;
+    }
+
+    // Delivery, read and postback events carry no message and are acknowledged as-is
+    return jsonResponse({ ok: true, received_count: receivedCount, skipped_page_ids: skippedPageIds });
+  } catch (error) {
+    console.error("messenger-webhook error", error);
+
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
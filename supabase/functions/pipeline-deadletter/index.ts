@@ -0,0 +1,245 @@
+import {
+  assertWorkspaceMember,
+  auditJob,
+  createServiceClient,
+  HttpError,
+  isUuidLike,
+  queueArchive,
+  queueSend,
+} from "../_shared/pipeline.ts";
+
+type DeadletterAction = "list" | "replay" | "discard";
+
+interface DeadletterPayload {
+  workspace_id?: string;
+  action?: DeadletterAction;
+  msg_ids?: number[];
+  // Edit-and-replay: replaces the original job payload for a single msg_id
+  payload?: Record<string, unknown>;
+  limit?: number;
+}
+
+interface DeadletterRecord {
+  msg_id: number;
+  enqueued_at: string;
+  message: Record<string, unknown>;
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DEADLETTER_QUEUE = "bb_deadletter_jobs";
+const REPLAYABLE_QUEUES = new Set([
+  "bb_import_jobs",
+  "bb_ingest_jobs",
+  "bb_classify_jobs",
+  "bb_draft_jobs",
+  "bb_attachment_jobs",
+  "bb_sla_jobs",
+]);
+const DEADLETTER_KEYS = [
+  "deadlettered_from",
+  "deadlettered_msg_id",
+  "deadlettered_attempts",
+  "deadlettered_error",
+  "deadlettered_at",
+];
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+/**
+ * Collapses ids, numbers and quoted values so the same failure across
+ * different jobs groups together.
+ */
+function errorSignature(error: unknown): string {
+  return String(error || "unknown error")
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/"[^"]*"|'[^']*'/g, "<value>")
+    .replace(/\d+/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 160);
+}
+
+function originalJob(message: Record<string, unknown>): Record<string, unknown> {
+  const job = { ...message };
+  for (const key of DEADLETTER_KEYS) {
+    delete job[key];
+  }
+  return job;
+}
+
+async function loadDeadletters(workspaceId: string, limit: number): Promise<DeadletterRecord[]> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc("bb_deadletter_peek", {
+    p_workspace_id: workspaceId,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to read ${DEADLETTER_QUEUE}: ${error.message}`);
+  }
+
+  return (data || []) as DeadletterRecord[];
+}
+
+function selectRecords(records: DeadletterRecord[], msgIds: number[] | undefined): DeadletterRecord[] {
+  if (!Array.isArray(msgIds) || msgIds.length === 0) {
+    throw new HttpError(400, "msg_ids must be a non-empty array");
+  }
+
+  const wanted = new Set(msgIds.map(Number));
+  const selected = records.filter((record) => wanted.has(Number(record.msg_id)));
+  if (selected.length !== wanted.size) {
+    throw new HttpError(404, "Some msg_ids are not in this workspace's dead-letter queue");
+  }
+  return selected;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json() as DeadletterPayload;
+    const workspaceId = body.workspace_id?.trim();
+    const action = body.action || "list";
+
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+
+    if (!["list", "replay", "discard"].includes(action)) {
+      throw new HttpError(400, "action must be list, replay or discard");
+    }
+
+    await assertWorkspaceMember(req, workspaceId);
+
+    const limit = Math.max(1, Math.min(1000, Math.floor(Number(body.limit) || 500)));
+    const records = await loadDeadletters(workspaceId, action === "list" ? limit : 1000);
+
+    if (action === "list") {
+      const groups = new Map<string, {
+        queue: string;
+        signature: string;
+        count: number;
+        latest_at: string;
+        msg_ids: number[];
+      }>();
+
+      const items = records.map((record) => {
+        const queue = String(record.message.deadlettered_from || "unknown");
+        const signature = errorSignature(record.message.deadlettered_error);
+        const key = `${queue}::${signature}`;
+        const group = groups.get(key) || { queue, signature, count: 0, latest_at: record.enqueued_at, msg_ids: [] };
+        group.count += 1;
+        group.msg_ids.push(record.msg_id);
+        if (record.enqueued_at > group.latest_at) {
+          group.latest_at = record.enqueued_at;
+        }
+        groups.set(key, group);
+
+        return {
+          msg_id: record.msg_id,
+          enqueued_at: record.enqueued_at,
+          queue,
+          signature,
+          error: record.message.deadlettered_error || null,
+          attempts: Number(record.message.deadlettered_attempts || 0),
+          job_type: record.message.job_type || null,
+          run_id: record.message.run_id || null,
+          job: originalJob(record.message),
+        };
+      });
+
+      return corsResponse({
+        ok: true,
+        total: items.length,
+        groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+        items,
+      });
+    }
+
+    const selected = selectRecords(records, body.msg_ids);
+    const supabase = createServiceClient();
+
+    if (action === "replay") {
+      if (body.payload && selected.length !== 1) {
+        throw new HttpError(400, "Edit-and-replay takes exactly one msg_id");
+      }
+      if (body.payload && body.payload.workspace_id !== workspaceId) {
+        throw new HttpError(400, "Edited payload must keep the same workspace_id");
+      }
+
+      // Validate every target before sending anything, so a bad selection replays nothing
+      for (const record of selected) {
+        const queue = String(record.message.deadlettered_from || "");
+        if (!REPLAYABLE_QUEUES.has(queue)) {
+          throw new HttpError(400, `Message ${record.msg_id} came from unknown queue ${queue || "(none)"}`);
+        }
+      }
+
+      const replayed: Array<{ msg_id: number; queue: string; new_msg_id: number }> = [];
+      for (const record of selected) {
+        const queue = String(record.message.deadlettered_from);
+        const job = body.payload ? originalJob(body.payload) : originalJob(record.message);
+        const newMsgId = await queueSend(supabase, queue, job, 0);
+        await queueArchive(supabase, DEADLETTER_QUEUE, record.msg_id);
+        await auditJob(supabase, {
+          workspaceId,
+          runId: typeof job.run_id === "string" ? job.run_id : null,
+          queueName: queue,
+          jobPayload: {
+            ...job,
+            replayed_from_deadletter_msg_id: record.msg_id,
+            replay_edited: Boolean(body.payload),
+          },
+          outcome: "requeued",
+          error: String(record.message.deadlettered_error || "") || null,
+          attempts: Number(record.message.deadlettered_attempts || 0),
+        });
+        replayed.push({ msg_id: record.msg_id, queue, new_msg_id: newMsgId });
+      }
+
+      return corsResponse({ ok: true, replayed });
+    }
+
+    for (const record of selected) {
+      await queueArchive(supabase, DEADLETTER_QUEUE, record.msg_id);
+      await auditJob(supabase, {
+        workspaceId,
+        runId: typeof record.message.run_id === "string" ? record.message.run_id : null,
+        queueName: String(record.message.deadlettered_from || DEADLETTER_QUEUE),
+        jobPayload: { ...originalJob(record.message), discarded_deadletter_msg_id: record.msg_id },
+        outcome: "discarded",
+        error: String(record.message.deadlettered_error || "") || null,
+        attempts: Number(record.message.deadlettered_attempts || 0),
+      });
+    }
+
+    return corsResponse({ ok: true, discarded: selected.map((record) => record.msg_id) });
+  } catch (error) {
+    console.error("pipeline-deadletter error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
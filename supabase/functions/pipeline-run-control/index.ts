@@ -0,0 +1,200 @@
+import {
+  assertWorkspaceMember,
+  createServiceClient,
+  HttpError,
+  isUuidLike,
+  nowIso,
+  queueSend,
+} from "../_shared/pipeline.ts";
+import type { RunState } from "../_shared/types.ts";
+
+type RunControlAction = "pause" | "resume" | "cancel" | "rerun";
+
+interface RunControlPayload {
+  workspace_id?: string;
+  run_id?: string;
+  action?: RunControlAction;
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const ACTIONS: RunControlAction[] = ["pause", "resume", "cancel", "rerun"];
+
+// Which states each action may start from
+const ALLOWED_FROM: Record<RunControlAction, RunState[]> = {
+  pause: ["running"],
+  resume: ["paused"],
+  cancel: ["running", "paused"],
+  rerun: ["failed", "cancelled", "completed"],
+};
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json() as RunControlPayload;
+    const workspaceId = body.workspace_id?.trim();
+    const runId = body.run_id?.trim();
+    const action = body.action;
+
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+
+    if (!runId || !isUuidLike(runId)) {
+      throw new HttpError(400, "run_id must be a UUID");
+    }
+
+    if (!action || !ACTIONS.includes(action)) {
+      throw new HttpError(400, "action must be pause, resume, cancel or rerun");
+    }
+
+    const { userId } = await assertWorkspaceMember(req, workspaceId);
+
+    const supabase = createServiceClient();
+    const { data: run, error: runError } = await supabase
+      .from("pipeline_runs")
+      .select("id, workspace_id, config_id, channel, mode, state, params")
+      .eq("id", runId)
+      .eq("workspace_id", workspaceId)
+      .maybeSingle();
+
+    if (runError) {
+      throw new Error(`Failed to load pipeline run: ${runError.message}`);
+    }
+    if (!run) {
+      throw new HttpError(404, "Pipeline run not found");
+    }
+
+    if (!ALLOWED_FROM[action].includes(run.state as RunState)) {
+      throw new HttpError(409, `Cannot ${action} a run that is ${run.state}`);
+    }
+
+    if (action !== "rerun") {
+      const nextState: RunState = action === "pause" ? "paused" : action === "resume" ? "running" : "cancelled";
+      const update: Record<string, unknown> = {
+        state: nextState,
+        updated_at: nowIso(),
+        // Resume restarts the heartbeat so the supervisor doesn't flag the run as stalled straight away
+        last_heartbeat_at: nowIso(),
+      };
+      if (action === "cancel") {
+        update.completed_at = nowIso();
+        update.last_error = "Cancelled by user";
+      }
+
+      // Guard on the state we validated so a concurrent action can't be overwritten
+      const { data: updated, error: updateError } = await supabase
+        .from("pipeline_runs")
+        .update(update)
+        .eq("id", runId)
+        .eq("state", run.state)
+        .select("id, state")
+        .maybeSingle();
+
+      if (updateError) {
+        throw new Error(`Failed to ${action} pipeline run: ${updateError.message}`);
+      }
+      if (!updated) {
+        throw new HttpError(409, "Run state changed, refresh and try again");
+      }
+
+      console.log("pipeline-run-control", { action, run_id: runId, user_id: userId });
+      return corsResponse({ ok: true, run_id: runId, state: updated.state });
+    }
+
+    // Re-run starts a fresh import with the same config and params; only email imports are re-runnable
+    if (run.channel !== "email" || !run.config_id || !["onboarding", "backfill"].includes(run.mode)) {
+      throw new HttpError(400, "Only email onboarding or backfill runs can be re-run");
+    }
+
+    const { data: activeRun, error: activeRunError } = await supabase
+      .from("pipeline_runs")
+      .select("id, state")
+      .eq("workspace_id", workspaceId)
+      .eq("config_id", run.config_id)
+      .in("state", ["running", "paused"])
+      .limit(1)
+      .maybeSingle();
+
+    if (activeRunError) {
+      throw new Error(`Failed to check for active runs: ${activeRunError.message}`);
+    }
+    if (activeRun) {
+      return corsResponse({
+        ok: false,
+        error: `Another import is ${activeRun.state} for this config`,
+        existing_run_id: activeRun.id,
+      }, 409);
+    }
+
+    const params = (run.params || {}) as Record<string, unknown>;
+    const cap = Number(params.cap) || (run.mode === "onboarding" ? 2500 : 5000);
+
+    const { data: newRun, error: insertError } = await supabase
+      .from("pipeline_runs")
+      .insert({
+        workspace_id: workspaceId,
+        config_id: run.config_id,
+        channel: run.channel,
+        mode: run.mode,
+        state: "running",
+        params: { ...params, cap, rerun_of: run.id },
+        metrics: {
+          fetched_so_far: 0,
+          pages: 0,
+          rate_limit_count: 0,
+          import_done: false,
+        },
+      })
+      .select("id")
+      .single();
+
+    if (insertError || !newRun?.id) {
+      throw new Error(`Failed to create pipeline run: ${insertError?.message || "unknown"}`);
+    }
+
+    await queueSend(supabase, "bb_import_jobs", {
+      job_type: "IMPORT_FETCH",
+      workspace_id: workspaceId,
+      run_id: newRun.id,
+      config_id: run.config_id,
+      folder: "SENT",
+      pageToken: null,
+      cap,
+      fetched_so_far: 0,
+      pages: 0,
+      rate_limit_count: 0,
+    }, 0);
+
+    console.log("pipeline-run-control", { action, run_id: runId, new_run_id: newRun.id, user_id: userId });
+    return corsResponse({ ok: true, run_id: newRun.id, rerun_of: runId, state: "running" });
+  } catch (error) {
+    console.error("pipeline-run-control error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
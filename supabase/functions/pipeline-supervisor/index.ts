@@ -71,6 +71,35 @@ async function recordIncidentOnce(params: {
   }
 }
 
+/**
+ * Caches whether a run is paused or cancelled, so the supervisor leaves its
+ * events alone instead of flagging them as stalled or re-enqueuing them.
+ */
+function createHeldRunCheck(supabase: ReturnType<typeof createServiceClient>) {
+  const held = new Map<string, boolean>();
+
+  return async function isRunHeld(runId: string | null | undefined): Promise<boolean> {
+    if (!runId) {
+      return false;
+    }
+
+    if (!held.has(runId)) {
+      const { data, error } = await supabase
+        .from("pipeline_runs")
+        .select("state")
+        .eq("id", runId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("run state lookup failed", runId, error.message);
+      }
+      held.set(runId, data?.state === "paused" || data?.state === "cancelled");
+    }
+
+    return held.get(runId) || false;
+  };
+}
+
 Deno.serve(async (req) => {
   const startMs = Date.now();
   try {
@@ -80,6 +109,7 @@ Deno.serve(async (req) => {
 
     assertWorkerToken(req);
     const supabase = createServiceClient();
+    const isRunHeld = createHeldRunCheck(supabase);
 
     const stalledRunMinutes = Number(Deno.env.get("BB_STALLED_RUN_MINUTES") || "6");
     const stalledEventMinutes = Number(Deno.env.get("BB_STALLED_EVENT_MINUTES") || "10");
@@ -137,7 +167,13 @@ Deno.serve(async (req) => {
     }
 
     let nudgedMaterialize = 0;
+    let heldEvents = 0;
     for (const event of stalledEvents || []) {
+      if (await isRunHeld(event.run_id)) {
+        heldEvents += 1;
+        continue;
+      }
+
       await recordIncidentOnce({
         workspaceId: event.workspace_id,
         runId: event.run_id,
@@ -223,6 +259,10 @@ Deno.serve(async (req) => {
         continue;
       }
 
+      if (await isRunHeld(event.run_id)) {
+        continue;
+      }
+
       const { error: markEnqueuedError } = await supabase
         .from("conversations")
         .update({
@@ -270,6 +310,7 @@ Deno.serve(async (req) => {
       ok: true,
       stalled_runs: (stalledRuns || []).length,
       stalled_events: (stalledEvents || []).length,
+      held_events: heldEvents,
       nudged_materialize: nudgedMaterialize,
       nudged_classify: nudgedClassify,
       elapsed_ms: Date.now() - startMs,
@@ -0,0 +1,454 @@
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_QUEUE,
+  maxAttachmentBytes,
+  scanAttachment,
+  syncMessageAttachments,
+} from "../_shared/attachments.ts";
+import { fetchAurinkoAttachment } from "../_shared/aurinko.ts";
+import {
+  documentText,
+  extractDocument,
+  normalizeFileType,
+  UnsupportedDocumentError,
+} from "../_shared/document-extract.ts";
+import {
+  assertWorkerToken,
+  auditJob,
+  calculateBackoffSeconds,
+  createRunGate,
+  createServiceClient,
+  deadletterJob,
+  DEFAULT_TIME_BUDGET_MS,
+  fetchWithTimeout,
+  getRequiredEnv,
+  HttpError,
+  isUuidLike,
+  jsonResponse,
+  nowIso,
+  queueDelete,
+  queueSend,
+  RateLimitError,
+  readQueue,
+  withinBudget,
+} from "../_shared/pipeline.ts";
+import type { AttachmentJob, QueueRecord } from "../_shared/types.ts";
+
+const QUEUE_NAME = ATTACHMENT_QUEUE;
+const VT_SECONDS = 180;
+const MAX_ATTEMPTS = 6;
+const MAX_EXTRACTED_CHARS = 20_000;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Providers often send documents as application/octet-stream, which the bucket rejects
+const DOCUMENT_CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+  csv: "text/csv",
+  txt: "text/plain",
+  text: "text/plain",
+  md: "text/plain",
+  html: "text/html",
+  htm: "text/html",
+};
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+interface AttachmentRow {
+  id: string;
+  workspace_id: string;
+  conversation_id: string | null;
+  message_id: string;
+  config_id: string | null;
+  external_message_id: string;
+  external_attachment_id: string;
+  filename: string;
+  content_type: string | null;
+  kind: "image" | "audio" | "document" | "other";
+  status: string;
+  storage_path: string | null;
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 120) || "attachment";
+}
+
+async function updateAttachment(supabase: SupabaseClient, id: string, patch: Record<string, unknown>) {
+  const { error } = await supabase
+    .from("message_attachments")
+    .update({ ...patch, updated_at: nowIso() })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update message_attachments ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * Downloads the file from Aurinko, applies the size limit and virus-scan
+ * hook, and stores it in the message-attachments bucket. Returns null when
+ * the file was skipped or quarantined instead.
+ */
+async function fetchAndStore(supabase: SupabaseClient, row: AttachmentRow): Promise<Uint8Array | null> {
+  const { data: config, error: configError } = await supabase
+    .from("email_provider_configs")
+    .select("id")
+    .eq("id", row.config_id)
+    .eq("workspace_id", row.workspace_id)
+    .maybeSingle();
+
+  if (configError) {
+    throw new Error(`email_provider_configs lookup failed: ${configError.message}`);
+  }
+
+  let accessToken = "";
+  if (config) {
+    const { data: token, error: tokenError } = await supabase.rpc("get_decrypted_access_token", {
+      p_config_id: config.id,
+    });
+    if (tokenError) {
+      throw new Error(`access token decryption failed: ${tokenError.message}`);
+    }
+    accessToken = String(token || "").trim();
+  }
+
+  if (!accessToken) {
+    await updateAttachment(supabase, row.id, { status: "skipped", skip_reason: "mailbox_disconnected" });
+    return null;
+  }
+
+  const bytes = await fetchAurinkoAttachment({
+    accessToken,
+    messageId: row.external_message_id,
+    attachmentId: row.external_attachment_id,
+  });
+
+  // The listed size is advisory; enforce the limit on what actually arrived
+  if (bytes.byteLength > maxAttachmentBytes()) {
+    await updateAttachment(supabase, row.id, {
+      status: "skipped",
+      skip_reason: "too_large",
+      size_bytes: bytes.byteLength,
+    });
+    return null;
+  }
+
+  const scan = await scanAttachment(bytes, { filename: row.filename, contentType: row.content_type });
+  if (!scan.clean) {
+    await updateAttachment(supabase, row.id, {
+      status: "quarantined",
+      skip_reason: scan.threat || "scanner_rejected",
+      size_bytes: bytes.byteLength,
+    });
+    return null;
+  }
+
+  const format = normalizeFileType(row.content_type, row.filename);
+  const contentType = row.kind === "document"
+    ? DOCUMENT_CONTENT_TYPES[format] || row.content_type || "application/octet-stream"
+    : row.content_type || "application/octet-stream";
+  const storagePath = `${row.conversation_id || row.workspace_id}/${row.message_id}/${row.id}-${
+    safeFileName(row.filename)
+  }`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(storagePath, bytes, { contentType, upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Attachment upload failed: ${uploadError.message}`);
+  }
+
+  await updateAttachment(supabase, row.id, {
+    status: "stored",
+    storage_path: storagePath,
+    size_bytes: bytes.byteLength,
+    last_error: null,
+  });
+  row.status = "stored";
+  row.storage_path = storagePath;
+  await syncMessageAttachments(supabase, row.message_id);
+
+  return bytes;
+}
+
+async function signedUrl(supabase: SupabaseClient, path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error || !data?.signedUrl) {
+    throw new Error(`Failed to sign attachment URL: ${error?.message || "no url"}`);
+  }
+  return data.signedUrl;
+}
+
+async function callAnalysisFunction(name: "image-analyze" | "audio-process", body: Record<string, unknown>) {
+  const url = `${getRequiredEnv("SUPABASE_URL").replace(/\/$/, "")}/functions/v1/${name}`;
+  const response = await fetchWithTimeout(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-bb-worker-token": getRequiredEnv("BB_WORKER_TOKEN"),
+    },
+    body: JSON.stringify(body),
+  }, 90_000);
+
+  const payload = await response.json().catch(() => null) as Record<string, unknown> | null;
+  if (!response.ok || !payload?.success) {
+    throw new Error(`${name} failed (${response.status}): ${String(payload?.error || "no response body")}`);
+  }
+  return payload;
+}
+
+/**
+ * Turns a stored attachment into text for classification: image description,
+ * voicemail/audio transcript, or extracted document text.
+ */
+async function analyseAttachment(
+  supabase: SupabaseClient,
+  row: AttachmentRow,
+  bytes: Uint8Array | null,
+): Promise<{ extracted_text: string | null; analysis: Record<string, unknown> | null; skip_reason?: string }> {
+  const path = row.storage_path!;
+
+  if (row.kind === "image") {
+    const payload = await callAnalysisFunction("image-analyze", {
+      workspace_id: row.workspace_id,
+      image_url: await signedUrl(supabase, path),
+      analysis_type: "general",
+      message_id: row.message_id,
+    });
+    const result = (payload.result || {}) as Record<string, unknown>;
+    return {
+      extracted_text: typeof result.description === "string" ? result.description : null,
+      analysis: { analysis_id: payload.analysis_id || null, ...result },
+    };
+  }
+
+  if (row.kind === "audio") {
+    // No message_id: that would flag the email itself as a voicemail
+    const payload = await callAnalysisFunction("audio-process", {
+      workspace_id: row.workspace_id,
+      audio_url: await signedUrl(supabase, path),
+    });
+    return {
+      extracted_text: typeof payload.transcript === "string" ? payload.transcript : null,
+      analysis: {
+        transcript_id: payload.transcript_id || null,
+        ...((payload.analysis || {}) as Record<string, unknown>),
+      },
+    };
+  }
+
+  let content = bytes;
+  if (!content) {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(path);
+    if (error || !data) {
+      throw new Error(`Attachment download failed: ${error?.message || "no data"}`);
+    }
+    content = new Uint8Array(await data.arrayBuffer());
+  }
+
+  try {
+    const doc = await extractDocument(content, normalizeFileType(row.content_type, row.filename));
+    return {
+      extracted_text: documentText(doc).slice(0, MAX_EXTRACTED_CHARS),
+      analysis: { format: doc.format, page_count: doc.pageCount },
+    };
+  } catch (error) {
+    if (error instanceof UnsupportedDocumentError) {
+      return { extracted_text: null, analysis: null, skip_reason: error.message };
+    }
+    throw error;
+  }
+}
+
+async function processJob(supabase: SupabaseClient, record: QueueRecord<AttachmentJob>) {
+  const job = record.message;
+
+  const { data: attachment, error: attachmentError } = await supabase
+    .from("message_attachments")
+    .select(
+      "id, workspace_id, conversation_id, message_id, config_id, external_message_id, external_attachment_id, filename, content_type, kind, status, storage_path",
+    )
+    .eq("id", job.attachment_id)
+    .maybeSingle();
+
+  if (attachmentError) {
+    throw new Error(`message_attachments lookup failed: ${attachmentError.message}`);
+  }
+
+  const row = attachment as AttachmentRow | null;
+  if (!row || !["pending", "stored", "failed"].includes(row.status)) {
+    await queueDelete(supabase, QUEUE_NAME, record.msg_id);
+    await auditJob(supabase, {
+      workspaceId: job.workspace_id,
+      runId: job.run_id,
+      queueName: QUEUE_NAME,
+      jobPayload: job as unknown as Record<string, unknown>,
+      outcome: "discarded",
+      error: row ? `Attachment already ${row.status}` : "Attachment no longer exists",
+      attempts: record.read_ct,
+    });
+    return;
+  }
+
+  // A retry after a successful upload goes straight to analysis
+  let bytes: Uint8Array | null = null;
+  if (!row.storage_path) {
+    bytes = await fetchAndStore(supabase, row);
+  }
+
+  if (row.storage_path) {
+    const result = await analyseAttachment(supabase, row, bytes);
+    await updateAttachment(supabase, row.id, {
+      status: result.skip_reason ? "skipped" : "processed",
+      skip_reason: result.skip_reason || null,
+      extracted_text: result.extracted_text,
+      analysis: result.analysis,
+      last_error: null,
+      processed_at: nowIso(),
+    });
+  }
+
+  await queueDelete(supabase, QUEUE_NAME, record.msg_id);
+  await auditJob(supabase, {
+    workspaceId: job.workspace_id,
+    runId: job.run_id,
+    queueName: QUEUE_NAME,
+    jobPayload: job as unknown as Record<string, unknown>,
+    outcome: "processed",
+    attempts: record.read_ct,
+  });
+}
+
+Deno.serve(async (req) => {
+  const startMs = Date.now();
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    assertWorkerToken(req);
+    const supabase = createServiceClient();
+    const holdForRunState = createRunGate(supabase);
+    const batchSize = Number(Deno.env.get("BB_ATTACHMENT_BATCH_SIZE") || "5");
+
+    const jobs = await readQueue<AttachmentJob>(
+      supabase,
+      QUEUE_NAME,
+      VT_SECONDS,
+      Math.max(1, Math.min(20, batchSize)),
+    );
+
+    let processed = 0;
+    for (const record of jobs) {
+      if (!withinBudget(startMs, DEFAULT_TIME_BUDGET_MS)) {
+        break;
+      }
+
+      const job = record.message;
+      if (!job || job.job_type !== "ATTACHMENT_FETCH" || !isUuidLike(job.attachment_id)) {
+        await queueDelete(supabase, QUEUE_NAME, record.msg_id);
+        await auditJob(supabase, {
+          workspaceId: job?.workspace_id,
+          runId: job?.run_id,
+          queueName: QUEUE_NAME,
+          jobPayload: (job || {}) as unknown as Record<string, unknown>,
+          outcome: "discarded",
+          error: "Invalid ATTACHMENT_FETCH job",
+          attempts: record.read_ct,
+        });
+        continue;
+      }
+
+      try {
+        if (await holdForRunState(QUEUE_NAME, record)) {
+          continue;
+        }
+
+        await processJob(supabase, record);
+        processed += 1;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("pipeline-worker-attachments job error", {
+          msg_id: record.msg_id,
+          attempts: record.read_ct,
+          attachment_id: job.attachment_id,
+          error: message,
+        });
+
+        if (error instanceof RateLimitError && record.read_ct < MAX_ATTEMPTS) {
+          const delaySeconds = Math.max(error.retryAfterSeconds, calculateBackoffSeconds(record.read_ct, 5, 300));
+          await queueSend(supabase, QUEUE_NAME, job as unknown as Record<string, unknown>, delaySeconds);
+          await queueDelete(supabase, QUEUE_NAME, record.msg_id);
+          await auditJob(supabase, {
+            workspaceId: job.workspace_id,
+            runId: job.run_id,
+            queueName: QUEUE_NAME,
+            jobPayload: job as unknown as Record<string, unknown>,
+            outcome: "requeued",
+            error: `rate_limited delay=${delaySeconds}`,
+            attempts: record.read_ct,
+          });
+          continue;
+        }
+
+        if (record.read_ct >= MAX_ATTEMPTS) {
+          await deadletterJob(supabase, {
+            fromQueue: QUEUE_NAME,
+            msgId: record.msg_id,
+            attempts: record.read_ct,
+            workspaceId: job.workspace_id,
+            runId: job.run_id,
+            jobPayload: job as unknown as Record<string, unknown>,
+            error: message,
+            scope: "pipeline-worker-attachments",
+          });
+
+          await supabase
+            .from("message_attachments")
+            .update({ status: "failed", last_error: message, updated_at: nowIso() })
+            .eq("id", job.attachment_id);
+        } else {
+          await auditJob(supabase, {
+            workspaceId: job.workspace_id,
+            runId: job.run_id,
+            queueName: QUEUE_NAME,
+            jobPayload: job as unknown as Record<string, unknown>,
+            outcome: "failed",
+            error: message,
+            attempts: record.read_ct,
+          });
+
+          await supabase
+            .from("message_attachments")
+            .update({ last_error: message, updated_at: nowIso() })
+            .eq("id", job.attachment_id);
+        }
+      }
+    }
+
+    return jsonResponse({
+      ok: true,
+      queue: QUEUE_NAME,
+      fetched_jobs: jobs.length,
+      processed,
+      elapsed_ms: Date.now() - startMs,
+    });
+  } catch (error) {
+    console.error("pipeline-worker-attachments fatal", error);
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+      elapsed_ms: Date.now() - startMs,
+    }, 500);
+  }
+});
@@ -1,7 +1,12 @@
-import { classifyBatchWithLovable, type ClassifyItemInput, type WorkspaceAiContext } from "../_shared/ai.ts";
+import { type AssignmentRule, applyAssignmentRules, loadAssignmentRules } from "../_shared/assignment.ts";
+import { type AttachmentContext, loadAttachmentContext, parseAurinkoAttachments } from "../_shared/attachments.ts";
+import { classifyBatch, type ClassifyItemInput, type WorkspaceAiContext } from "../_shared/ai.ts";
+import { isWithinBusinessHours, loadBusinessHours, type BusinessHours } from "../_shared/business-hours.ts";
+import { recordLlmUsage, resolveLlmClient } from "../_shared/llm.ts";
 import {
   assertWorkerToken,
   auditJob,
+  createRunGate,
   createServiceClient,
   deadletterJob,
   DEFAULT_TIME_BUDGET_MS,
@@ -13,11 +18,26 @@ import {
   touchPipelineRun,
   withinBudget,
 } from "../_shared/pipeline.ts";
+import {
+  decideRoute,
+  isVipSender,
+  loadRoutingPolicy,
+  type DecisionBucket,
+  type RoutingPolicy,
+} from "../_shared/routing.ts";
+import {
+  evaluateTriageRules,
+  loadTriageRules,
+  recordTriageRuleHit,
+  triageRuleEntities,
+  type TriageRule,
+} from "../_shared/triage-rules.ts";
 import type { ClassificationResult, ClassifyJob } from "../_shared/types.ts";
 
 const QUEUE_NAME = "bb_classify_jobs";
 const VT_SECONDS = 180;
 const MAX_ATTEMPTS = 6;
+const ATTACHMENT_WAIT_RETRY_SECONDS = 20;
 
 interface PendingAiJob {
   record: {
@@ -31,6 +51,7 @@ interface PendingAiJob {
     subject: string | null;
     body: string | null;
     channel: string;
+    timestamp: string | null;
   };
   conversation: {
     id: string;
@@ -42,126 +63,31 @@ interface PendingAiJob {
     last_draft_enqueued_message_id: string | null;
   };
   recentMessages: Array<{ direction: string; body: string }>;
+  attachments: AttachmentContext["items"];
 }
 
-interface SenderRuleMatch {
-  classification: ClassificationResult;
-  forcedDecisionBucket?: "auto_handled" | "needs_human" | "act_now" | "quick_win";
-  forcedStatus?: string;
-}
-
-function normalizeText(value: unknown): string {
-  return String(value || "").trim();
-}
-
-function toBool(value: unknown, fallback: boolean): boolean {
-  if (typeof value === "boolean") {
-    return value;
-  }
-  if (typeof value === "string") {
-    const lowered = value.trim().toLowerCase();
-    if (lowered === "true") {
-      return true;
-    }
-    if (lowered === "false") {
-      return false;
-    }
-  }
-  return fallback;
-}
-
-function classifyFromSenderRule(params: {
-  senderRules: Array<Record<string, unknown>>;
-  sender: string;
-  subject: string;
-  body: string;
-}): SenderRuleMatch | null {
-  const haystack = `${params.sender}\n${params.subject}\n${params.body}`.toLowerCase();
-
-  for (const rule of params.senderRules) {
-    const pattern = String(rule.pattern || rule.match_pattern || "").trim();
-    if (!pattern) {
-      continue;
-    }
-
-    const type = String(rule.pattern_type || rule.match_type || "contains").toLowerCase();
-    let matched = false;
-
-    try {
-      if (type === "regex") {
-        matched = new RegExp(pattern, "i").test(haystack);
-      } else {
-        matched = haystack.includes(pattern.toLowerCase());
-      }
-    } catch {
-      continue;
-    }
-
-    if (!matched) {
-      continue;
-    }
-
-    const forcedDecisionBucket = normalizeText(rule.decision_bucket || "").toLowerCase();
-    const forcedStatus = normalizeText(rule.status || "");
-
-    return {
-      classification: {
-        category: normalizeText(rule.category || "general").toLowerCase(),
-        requires_reply: toBool(rule.requires_reply, false),
-        confidence: 1,
-        entities: {
-          sender_rule_id: rule.id || null,
-          sender_rule_pattern: pattern,
-        },
-      },
-      forcedDecisionBucket: ["auto_handled", "needs_human", "act_now", "quick_win"].includes(forcedDecisionBucket)
-        ? forcedDecisionBucket as "auto_handled" | "needs_human" | "act_now" | "quick_win"
-        : undefined,
-      forcedStatus: forcedStatus || undefined,
-    };
-  }
-
-  return null;
+interface WorkspaceRouting {
+  policy: RoutingPolicy;
+  businessHours: BusinessHours;
+  vipDomains: string[];
+  assignmentRules: AssignmentRule[];
 }
 
-function decisionForClassification(
-  result: ClassificationResult,
-  forcedDecisionBucket?: "auto_handled" | "needs_human" | "act_now" | "quick_win",
-  forcedStatus?: string,
-): {
-  decisionBucket: "auto_handled" | "needs_human" | "act_now" | "quick_win";
-  status: string;
-} {
-  if (forcedDecisionBucket) {
-    const statusByBucket: Record<"auto_handled" | "needs_human" | "act_now" | "quick_win", string> = {
-      auto_handled: "resolved",
-      needs_human: "escalated",
-      act_now: "ai_handling",
-      quick_win: "open",
-    };
-
-    return {
-      decisionBucket: forcedDecisionBucket,
-      status: forcedStatus || statusByBucket[forcedDecisionBucket],
-    };
-  }
-
-  const noiseCategories = new Set(["notification", "newsletter", "spam"]);
-  const category = (result.category || "").toLowerCase();
-
-  if (noiseCategories.has(category)) {
-    return { decisionBucket: "auto_handled", status: "resolved" };
-  }
-
-  if (result.confidence < 0.7) {
-    return { decisionBucket: "needs_human", status: "escalated" };
-  }
-
-  if (result.requires_reply) {
-    return { decisionBucket: "act_now", status: "ai_handling" };
-  }
-
-  return { decisionBucket: "quick_win", status: "open" };
+async function loadWorkspaceRouting(workspaceId: string): Promise<WorkspaceRouting> {
+  const supabase = createServiceClient();
+  const [policy, businessHours, { data: workspace }, assignmentRules] = await Promise.all([
+    loadRoutingPolicy(supabase, workspaceId),
+    loadBusinessHours(supabase, workspaceId),
+    supabase.from("workspaces").select("vip_domains").eq("id", workspaceId).maybeSingle(),
+    loadAssignmentRules(supabase, workspaceId),
+  ]);
+
+  return {
+    policy,
+    businessHours,
+    vipDomains: Array.isArray(workspace?.vip_domains) ? workspace.vip_domains.map(String) : [],
+    assignmentRules,
+  };
 }
 
 async function loadWorkspaceContext(workspaceId: string): Promise<WorkspaceAiContext> {
@@ -225,7 +151,10 @@ async function loadWorkspaceContext(workspaceId: string): Promise<WorkspaceAiCon
 async function applyClassification(params: {
   job: ClassifyJob;
   result: ClassificationResult;
-  forcedDecisionBucket?: "auto_handled" | "needs_human" | "act_now" | "quick_win";
+  routing: WorkspaceRouting;
+  sender: string;
+  receivedAt: string | null;
+  forcedDecisionBucket?: DecisionBucket;
   forcedStatus?: string;
 }): Promise<void> {
   const supabase = createServiceClient();
@@ -233,7 +162,7 @@ async function applyClassification(params: {
   const { data: conversation, error: conversationError } = await supabase
     .from("conversations")
     .select(
-      "id, channel, status, metadata, last_inbound_message_id, last_classified_message_id, last_draft_enqueued_message_id",
+      "id, channel, status, assigned_to, metadata, last_inbound_message_id, last_classified_message_id, last_draft_enqueued_message_id, customer:customers(vip_status, tier)",
     )
     .eq("id", params.job.conversation_id)
     .single();
@@ -250,15 +179,29 @@ async function applyClassification(params: {
     return;
   }
 
-  const decision = decisionForClassification(
+  const customer = Array.isArray(conversation.customer) ? conversation.customer[0] : conversation.customer;
+  const decision = decideRoute(
     params.result,
-    params.forcedDecisionBucket,
-    params.forcedStatus,
+    params.routing.policy,
+    {
+      isVip: isVipSender({
+        sender: params.sender,
+        customerVip: Boolean(customer?.vip_status),
+        policy: params.routing.policy,
+        vipDomains: params.routing.vipDomains,
+      }),
+      withinBusinessHours: isWithinBusinessHours(
+        params.receivedAt ? new Date(params.receivedAt) : new Date(),
+        params.routing.businessHours,
+      ),
+    },
+    { bucket: params.forcedDecisionBucket, status: params.forcedStatus },
   );
   const mergedMetadata = {
     ...(conversation.metadata || {}),
     entities: params.result.entities || {},
     last_decision_bucket: decision.decisionBucket,
+    last_decision_reason: decision.reason,
   };
 
   const updatePayload: Record<string, unknown> = {
@@ -297,6 +240,31 @@ async function applyClassification(params: {
     throw new Error(`message_events decision update failed: ${eventError.message}`);
   }
 
+  // Assignment runs after the bucket decision; a failure must not undo the classification
+  if (!conversation.assigned_to && decision.decisionBucket !== "auto_handled" && params.routing.assignmentRules.length > 0) {
+    try {
+      const assignment = await applyAssignmentRules(supabase, {
+        conversationId: params.job.conversation_id,
+        rules: params.routing.assignmentRules,
+        facts: {
+          category: params.result.category,
+          channel: conversation.channel,
+          customerTier: customer?.vip_status ? "vip" : customer?.tier ?? null,
+          sender: params.sender,
+          decisionBucket: decision.decisionBucket,
+        },
+      });
+      if (assignment && !assignment.userId) {
+        console.warn("assignment rule matched but nobody is available", {
+          conversation_id: params.job.conversation_id,
+          rule: assignment.ruleName,
+        });
+      }
+    } catch (e) {
+      console.warn("assignment rules failed (non-fatal):", e);
+    }
+  }
+
   // Fire-and-forget: trigger customer intelligence enrichment
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
@@ -405,6 +373,7 @@ Deno.serve(async (req) => {
 
     assertWorkerToken(req);
     const supabase = createServiceClient();
+    const holdForRunState = createRunGate(supabase);
     const batchSize = Number(Deno.env.get("BB_CLASSIFY_BATCH_SIZE") || "40");
 
     const queueRecords = await readQueue<ClassifyJob>(
@@ -416,7 +385,14 @@ Deno.serve(async (req) => {
 
     let processed = 0;
     const aiCandidates: PendingAiJob[] = [];
-    const senderRulesByWorkspace = new Map<string, Array<Record<string, unknown>>>();
+    const triageRulesByWorkspace = new Map<string, TriageRule[]>();
+    const routingByWorkspace = new Map<string, WorkspaceRouting>();
+    const routingFor = async (workspaceId: string): Promise<WorkspaceRouting> => {
+      if (!routingByWorkspace.has(workspaceId)) {
+        routingByWorkspace.set(workspaceId, await loadWorkspaceRouting(workspaceId));
+      }
+      return routingByWorkspace.get(workspaceId)!;
+    };
 
     for (const record of queueRecords) {
       if (!withinBudget(startMs, DEFAULT_TIME_BUDGET_MS)) {
@@ -439,6 +415,10 @@ Deno.serve(async (req) => {
           continue;
         }
 
+        if (await holdForRunState(QUEUE_NAME, record)) {
+          continue;
+        }
+
         const { data: conversation, error: conversationError } = await supabase
           .from("conversations")
           .select("id, status, channel, metadata, last_inbound_message_id, last_classified_message_id, last_draft_enqueued_message_id")
@@ -481,7 +461,7 @@ Deno.serve(async (req) => {
 
         const { data: event, error: eventError } = await supabase
           .from("message_events")
-          .select("id, from_identifier, subject, body, channel")
+          .select("id, from_identifier, subject, body, channel, timestamp, metadata, created_at")
           .eq("id", job.event_id)
           .single();
 
@@ -489,34 +469,35 @@ Deno.serve(async (req) => {
           throw new Error(`message_events fetch failed for ${job.event_id}: ${eventError?.message || "not found"}`);
         }
 
-        if (!senderRulesByWorkspace.has(job.workspace_id)) {
-          const { data: senderRules, error: senderRulesError } = await supabase
-            .from("sender_rules")
-            .select("*")
-            .eq("workspace_id", job.workspace_id);
-
-          if (senderRulesError) {
-            console.warn("sender_rules load failed (table may not exist):", senderRulesError.message);
-          }
-
-          senderRulesByWorkspace.set(job.workspace_id, (senderRules || []) as Array<Record<string, unknown>>);
+        if (!triageRulesByWorkspace.has(job.workspace_id)) {
+          triageRulesByWorkspace.set(job.workspace_id, await loadTriageRules(supabase, job.workspace_id));
         }
 
-        const senderRules = senderRulesByWorkspace.get(job.workspace_id) || [];
-        const senderMatch = classifyFromSenderRule({
-          senderRules,
+        // Only workspace rules and the header/no-reply built-ins skip the model; subject and
+        // body built-ins are hints (skip_llm false) and are reported by pre-triage only
+        const eventMetadata = (event.metadata || {}) as Record<string, unknown>;
+        const ruleMatch = evaluateTriageRules(triageRulesByWorkspace.get(job.workspace_id) || [], {
           sender: event.from_identifier || "",
           subject: event.subject || "",
           body: event.body || "",
+          headers: eventMetadata.headers as Record<string, string> | undefined,
         });
 
-        if (senderMatch) {
+        if (ruleMatch?.skip_llm) {
           await applyClassification({
             job,
-            result: senderMatch.classification,
-            forcedDecisionBucket: senderMatch.forcedDecisionBucket,
-            forcedStatus: senderMatch.forcedStatus,
+            result: {
+              category: ruleMatch.classification,
+              requires_reply: ruleMatch.requires_reply,
+              confidence: ruleMatch.confidence,
+              entities: triageRuleEntities(ruleMatch),
+            },
+            routing: await routingFor(job.workspace_id),
+            sender: event.from_identifier || "",
+            receivedAt: event.timestamp || null,
+            forcedDecisionBucket: ruleMatch.decision_bucket,
           });
+          await recordTriageRuleHit(supabase, ruleMatch);
 
           await queueDelete(supabase, QUEUE_NAME, record.msg_id);
           await auditJob(supabase, {
@@ -533,7 +514,7 @@ Deno.serve(async (req) => {
             metricsPatch: {
               last_classified_event_id: job.event_id,
               last_classified_at: new Date().toISOString(),
-              classify_source: "sender_rule",
+              classify_source: ruleMatch.rule.source === "workspace" ? "sender_rule" : "system_rule",
             },
           });
 
@@ -541,6 +522,30 @@ Deno.serve(async (req) => {
           continue;
         }
 
+        // Give pipeline-worker-attachments a head start so file contents can inform the category
+        const attachmentContext = await loadAttachmentContext(supabase, {
+          messageId: job.target_message_id,
+          expectedCount: event.channel === "email"
+            ? parseAurinkoAttachments(eventMetadata.attachments).length
+            : 0,
+          eventCreatedAt: event.created_at || null,
+        });
+
+        if (attachmentContext.pending) {
+          await queueSend(supabase, QUEUE_NAME, job as unknown as Record<string, unknown>, ATTACHMENT_WAIT_RETRY_SECONDS);
+          await queueDelete(supabase, QUEUE_NAME, record.msg_id);
+          await auditJob(supabase, {
+            workspaceId: job.workspace_id,
+            runId: job.run_id,
+            queueName: QUEUE_NAME,
+            jobPayload: job as unknown as Record<string, unknown>,
+            outcome: "requeued",
+            error: `waiting_for_attachments delay=${ATTACHMENT_WAIT_RETRY_SECONDS}`,
+            attempts: record.read_ct,
+          });
+          continue;
+        }
+
         const { data: recentMessages, error: recentMessagesError } = await supabase
           .from("messages")
           .select("direction, body")
@@ -560,6 +565,7 @@ Deno.serve(async (req) => {
             subject: event.subject || null,
             body: event.body || null,
             channel: event.channel || "email",
+            timestamp: event.timestamp || null,
           },
           conversation: {
             id: conversation.id,
@@ -571,6 +577,7 @@ Deno.serve(async (req) => {
             last_draft_enqueued_message_id: conversation.last_draft_enqueued_message_id,
           },
           recentMessages: (recentMessages || []) as Array<{ direction: string; body: string }>,
+          attachments: attachmentContext.items,
         });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -630,9 +637,16 @@ Deno.serve(async (req) => {
           subject: row.event.subject || "",
           body: row.event.body || "",
           recent_messages: row.recentMessages,
+          ...(row.attachments.length > 0 ? { attachments: row.attachments } : {}),
         }));
 
-        const classifications = await classifyBatchWithLovable({ items, context });
+        const llm = await resolveLlmClient(supabase, { workspaceId, task: "classify" });
+        const classifications = await classifyBatch({ llm, items, context });
+        await recordLlmUsage(supabase, {
+          workspaceId,
+          functionName: "pipeline-worker-classify",
+          llm,
+        });
 
         for (const row of group) {
           const job = row.record.message;
@@ -644,7 +658,13 @@ Deno.serve(async (req) => {
               entities: {},
             };
 
-            await applyClassification({ job, result });
+            await applyClassification({
+              job,
+              result,
+              routing: await routingFor(workspaceId),
+              sender: row.event.from_identifier,
+              receivedAt: row.event.timestamp,
+            });
             await queueDelete(supabase, QUEUE_NAME, row.record.msg_id);
             await auditJob(supabase, {
               workspaceId: job.workspace_id,
@@ -661,6 +681,7 @@ Deno.serve(async (req) => {
                 last_classified_event_id: job.event_id,
                 last_classified_at: new Date().toISOString(),
                 classify_source: "ai",
+                classify_provider: llm.lastUsage?.provider || null,
               },
             });
 
@@ -1,7 +1,9 @@
-import { generateDraftWithAnthropic } from "../_shared/ai.ts";
+import { generateDraft } from "../_shared/ai.ts";
+import { recordLlmUsage, resolveLlmClient } from "../_shared/llm.ts";
 import {
   assertWorkerToken,
   auditJob,
+  createRunGate,
   createServiceClient,
   deadletterJob,
   DEFAULT_TIME_BUDGET_MS,
@@ -12,21 +14,19 @@ import {
   touchPipelineRun,
   withinBudget,
 } from "../_shared/pipeline.ts";
+import { retrieveKnowledge } from "../_shared/retrieval.ts";
 import type { DraftJob } from "../_shared/types.ts";
+import { loadStyleRules, loadVoiceProfile, selectDraftExamples } from "../_shared/voice.ts";
 
 const QUEUE_NAME = "bb_draft_jobs";
 const VT_SECONDS = 180;
 const MAX_ATTEMPTS = 6;
+const RETRIEVAL_TOP_K = Number(Deno.env.get("BB_DRAFT_RETRIEVAL_K") || "5");
+const STYLE_EXAMPLES = Number(Deno.env.get("BB_DRAFT_STYLE_EXAMPLES") || "4");
 
-async function loadDraftContext(workspaceId: string): Promise<{
-  businessContext: Record<string, unknown> | null;
-  faqEntries: Array<Record<string, unknown>>;
-}> {
+async function loadBusinessContext(workspaceId: string): Promise<Record<string, unknown> | null> {
   const supabase = createServiceClient();
 
-  let businessContext: Record<string, unknown> | null = null;
-  let faqEntries: Array<Record<string, unknown>> = [];
-
   try {
     const res = await supabase
       .from("business_context")
@@ -35,31 +35,14 @@ async function loadDraftContext(workspaceId: string): Promise<{
       .order("created_at", { ascending: false })
       .limit(1);
     if (!res.error) {
-      businessContext = res.data?.[0] || null;
-    } else {
-      console.warn("business_context query failed (table may not exist):", res.error.message);
+      return res.data?.[0] || null;
     }
+    console.warn("business_context query failed (table may not exist):", res.error.message);
   } catch (e) {
     console.warn("business_context load error:", e);
   }
 
-  try {
-    const res = await supabase
-      .from("faq_database")
-      .select("*")
-      .eq("workspace_id", workspaceId)
-      .order("created_at", { ascending: false })
-      .limit(60);
-    if (!res.error) {
-      faqEntries = (res.data || []) as Array<Record<string, unknown>>;
-    } else {
-      console.warn("faq_database query failed (table may not exist):", res.error.message);
-    }
-  } catch (e) {
-    console.warn("faq_database load error:", e);
-  }
-
-  return { businessContext, faqEntries };
+  return null;
 }
 
 Deno.serve(async (req) => {
@@ -71,6 +54,7 @@ Deno.serve(async (req) => {
 
     assertWorkerToken(req);
     const supabase = createServiceClient();
+    const holdForRunState = createRunGate(supabase);
     const batchSize = Number(Deno.env.get("BB_DRAFT_BATCH_SIZE") || "20");
 
     const records = await readQueue<DraftJob>(
@@ -102,9 +86,13 @@ Deno.serve(async (req) => {
           continue;
         }
 
+        if (await holdForRunState(QUEUE_NAME, record)) {
+          continue;
+        }
+
         const { data: conversation, error: conversationError } = await supabase
           .from("conversations")
-          .select("id, workspace_id, title, status, channel, last_inbound_message_id, last_draft_message_id")
+          .select("id, workspace_id, title, status, channel, category, last_inbound_message_id, last_draft_message_id")
           .eq("id", job.conversation_id)
           .single();
 
@@ -182,20 +170,47 @@ Deno.serve(async (req) => {
           continue;
         }
 
-        const draftContext = await loadDraftContext(job.workspace_id);
-        const draftText = await generateDraftWithAnthropic({
+        const [businessContext, knowledge, voice, examples, styleRules] = await Promise.all([
+          loadBusinessContext(job.workspace_id),
+          retrieveKnowledge(supabase, {
+            workspaceId: job.workspace_id,
+            query: `${conversation.title || ""}\n${targetMessage.body || ""}`,
+            k: RETRIEVAL_TOP_K,
+          }),
+          loadVoiceProfile(supabase, job.workspace_id),
+          selectDraftExamples(supabase, {
+            workspaceId: job.workspace_id,
+            conversationId: job.conversation_id,
+            category: conversation.category || null,
+            inboundText: targetMessage.body || "",
+            limit: STYLE_EXAMPLES,
+          }),
+          loadStyleRules(supabase, job.workspace_id),
+        ]);
+        const llm = await resolveLlmClient(supabase, { workspaceId: job.workspace_id, task: "draft" });
+        const draft = await generateDraft({
+          llm,
           conversationId: job.conversation_id,
           subject: conversation.title || "",
           latestInboundBody: targetMessage.body || "",
           recentMessages: (recentMessages || []) as Array<{ direction: string; body: string }>,
-          businessContext: draftContext.businessContext,
-          faqEntries: draftContext.faqEntries,
+          businessContext,
+          knowledge,
+          voice,
+          examples,
+          styleRules,
+        });
+        await recordLlmUsage(supabase, {
+          workspaceId: job.workspace_id,
+          functionName: "pipeline-worker-draft",
+          llm,
         });
 
         const { error: updateConversationError } = await supabase
           .from("conversations")
           .update({
-            ai_draft_response: draftText,
+            ai_draft_response: draft.text,
+            ai_draft_citations: draft.citations,
             last_draft_message_id: job.target_message_id,
             updated_at: new Date().toISOString(),
           })
@@ -233,6 +248,9 @@ Deno.serve(async (req) => {
           metricsPatch: {
             last_draft_message_id: job.target_message_id,
             last_drafted_at: new Date().toISOString(),
+            draft_provider: llm.lastUsage?.provider || null,
+            draft_citations: draft.citations.length,
+            draft_style_examples: examples.length,
           },
         });
 
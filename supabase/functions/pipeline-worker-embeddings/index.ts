@@ -0,0 +1,86 @@
+import {
+  assertWorkerToken,
+  createServiceClient,
+  DEFAULT_TIME_BUDGET_MS,
+  getOptionalEnv,
+  HttpError,
+  jsonResponse,
+  nowIso,
+  withinBudget,
+} from "../_shared/pipeline.ts";
+import { embedConversation } from "../_shared/retrieval.ts";
+
+// Conversations that could not be embedded (no text yet, provider error) are retried after this
+const RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Fills conversations.embedding for "find similar conversations", most recently
+// updated first, so a search only ever embeds the conversation it starts from
+Deno.serve(async (req) => {
+  const startMs = Date.now();
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    assertWorkerToken(req);
+    if (!getOptionalEnv("OPENAI_API_KEY")) {
+      return jsonResponse({ ok: true, skipped: "OPENAI_API_KEY is not set", embedded: 0 });
+    }
+
+    const supabase = createServiceClient();
+    const batchSize = Math.max(1, Math.min(200, Number(getOptionalEnv("BB_EMBED_BATCH_SIZE", "50"))));
+    const retryBefore = new Date(Date.now() - RETRY_AFTER_MS).toISOString();
+
+    const { data: conversations, error } = await supabase
+      .from("conversations")
+      .select("id, title, summary_for_human")
+      .is("embedding", null)
+      .or(`embedding_attempted_at.is.null,embedding_attempted_at.lt.${retryBefore}`)
+      .order("updated_at", { ascending: false })
+      .limit(batchSize);
+
+    if (error) {
+      throw new Error(`conversations load failed: ${error.message}`);
+    }
+
+    let embedded = 0;
+    let failed = 0;
+    for (const conversation of conversations || []) {
+      if (!withinBudget(startMs, DEFAULT_TIME_BUDGET_MS)) {
+        break;
+      }
+
+      if (await embedConversation(supabase, conversation)) {
+        embedded += 1;
+      } else {
+        failed += 1;
+      }
+
+      const { error: markError } = await supabase
+        .from("conversations")
+        .update({ embedding_attempted_at: nowIso() })
+        .eq("id", conversation.id);
+      if (markError) {
+        console.warn("embedding_attempted_at update failed", conversation.id, markError.message);
+      }
+    }
+
+    return jsonResponse({
+      ok: true,
+      fetched: conversations?.length ?? 0,
+      embedded,
+      failed,
+      elapsed_ms: Date.now() - startMs,
+    });
+  } catch (error) {
+    console.error("pipeline-worker-embeddings fatal", error);
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
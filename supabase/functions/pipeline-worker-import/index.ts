@@ -1,8 +1,10 @@
 import { aurinkoToUnifiedMessage, fetchAurinkoMessagesPage } from "../_shared/aurinko.ts";
+import { processDeltaSyncJob } from "../_shared/delta-sync.ts";
 import {
   assertWorkerToken,
   auditJob,
   calculateBackoffSeconds,
+  createRunGate,
   createServiceClient,
   deadletterJob,
   DEFAULT_TIME_BUDGET_MS,
@@ -16,7 +18,7 @@ import {
   touchPipelineRun,
   withinBudget,
 } from "../_shared/pipeline.ts";
-import type { ImportFetchJob } from "../_shared/types.ts";
+import type { DeltaSyncJob, ImportFetchJob, ImportJob, QueueRecord } from "../_shared/types.ts";
 
 const QUEUE_NAME = "bb_import_jobs";
 const VT_SECONDS = 180;
@@ -220,9 +222,10 @@ Deno.serve(async (req) => {
 
     assertWorkerToken(req);
     const supabase = createServiceClient();
+    const holdForRunState = createRunGate(supabase);
 
     const batchSize = Number(Deno.env.get("BB_IMPORT_BATCH_SIZE") || "6");
-    const jobs = await readQueue<ImportFetchJob>(supabase, QUEUE_NAME, VT_SECONDS, Math.max(1, Math.min(20, batchSize)));
+    const jobs = await readQueue<ImportJob>(supabase, QUEUE_NAME, VT_SECONDS, Math.max(1, Math.min(20, batchSize)));
 
     let processed = 0;
     for (const record of jobs) {
@@ -231,7 +234,15 @@ Deno.serve(async (req) => {
       }
 
       try {
-        await processJob(record, startMs);
+        if (await holdForRunState(QUEUE_NAME, record)) {
+          continue;
+        }
+
+        if (record.message?.job_type === "DELTA_SYNC") {
+          await processDeltaSyncJob(supabase, record as QueueRecord<DeltaSyncJob>);
+        } else {
+          await processJob(record as QueueRecord<ImportFetchJob>, startMs);
+        }
         processed += 1;
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -1,9 +1,12 @@
+import { parseAurinkoAttachments, registerAttachments } from "../_shared/attachments.ts";
 import {
   assertWorkerToken,
   auditJob,
+  createRunGate,
   createServiceClient,
   deadletterJob,
   DEFAULT_TIME_BUDGET_MS,
+  getOptionalEnv,
   HttpError,
   isUuidLike,
   jsonResponse,
@@ -18,6 +21,49 @@ const QUEUE_NAME = "bb_ingest_jobs";
 const VT_SECONDS = 150;
 const MAX_ATTEMPTS = 6;
 
+/**
+ * Records the attachments of a materialised inbound email and queues them for
+ * pipeline-worker-attachments. Historical imports only record them unless
+ * BB_ATTACHMENT_FETCH_ON_IMPORT=true, to keep onboarding cheap.
+ */
+async function registerEventAttachments(
+  supabase: ReturnType<typeof createServiceClient>,
+  job: MaterializeJob,
+  result: { channel?: string | null; conversation_id?: string | null; message_id?: string | null } | null,
+) {
+  if (result?.channel !== "email" || !result.message_id) {
+    return null;
+  }
+
+  const { data: event, error } = await supabase
+    .from("message_events")
+    .select("direction, external_id, config_id, metadata")
+    .eq("id", job.event_id)
+    .single();
+
+  if (error || !event) {
+    throw new Error(`message_events fetch failed for ${job.event_id}: ${error?.message || "not found"}`);
+  }
+
+  const metadata = (event.metadata || {}) as Record<string, unknown>;
+  const attachments = parseAurinkoAttachments(metadata.attachments);
+  if (event.direction !== "inbound" || attachments.length === 0) {
+    return null;
+  }
+
+  return await registerAttachments(supabase, {
+    workspaceId: job.workspace_id,
+    runId: job.run_id,
+    configId: event.config_id,
+    eventId: job.event_id,
+    conversationId: result.conversation_id || null,
+    messageId: result.message_id,
+    externalMessageId: event.external_id,
+    attachments,
+    fetch: !job.run_id || getOptionalEnv("BB_ATTACHMENT_FETCH_ON_IMPORT", "false") === "true",
+  });
+}
+
 Deno.serve(async (req) => {
   const startMs = Date.now();
   try {
@@ -27,6 +73,7 @@ Deno.serve(async (req) => {
 
     assertWorkerToken(req);
     const supabase = createServiceClient();
+    const holdForRunState = createRunGate(supabase);
     const batchSize = Number(Deno.env.get("BB_INGEST_BATCH_SIZE") || "25");
 
     const jobs = await readQueue<MaterializeJob>(
@@ -58,6 +105,10 @@ Deno.serve(async (req) => {
       }
 
       try {
+        if (await holdForRunState(QUEUE_NAME, record)) {
+          continue;
+        }
+
         const { data, error } = await supabase.rpc("bb_materialize_event", {
           p_event_id: job.event_id,
         });
@@ -67,6 +118,8 @@ Deno.serve(async (req) => {
         }
 
         const result = Array.isArray(data) ? data[0] : data;
+        // Runs on re-delivery too (did_work=false) in case the first attempt failed after materialising
+        const attachments = await registerEventAttachments(supabase, job, result);
 
         if (job.run_id) {
           await touchPipelineRun(supabase, {
@@ -75,6 +128,7 @@ Deno.serve(async (req) => {
               last_materialize_event_id: job.event_id,
               last_materialized_at: new Date().toISOString(),
               materialize_did_work: Boolean(result?.did_work),
+              ...(attachments ? { last_attachments_registered: attachments.registered } : {}),
             },
           });
         }
@@ -0,0 +1,213 @@
+import {
+  assertWorkerToken,
+  auditJob,
+  createServiceClient,
+  deadletterJob,
+  DEFAULT_TIME_BUDGET_MS,
+  HttpError,
+  isUuidLike,
+  jsonResponse,
+  nowIso,
+  queueDelete,
+  readQueue,
+  withinBudget,
+} from "../_shared/pipeline.ts";
+import {
+  computeConversationSla,
+  findAwaitingReplySince,
+  loadSlaContext,
+  refreshBankHolidays,
+  type SlaContext,
+} from "../_shared/sla.ts";
+import type { QueueRecord, SlaJob } from "../_shared/types.ts";
+
+const QUEUE_NAME = "bb_sla_jobs";
+const VT_SECONDS = 60;
+const MAX_ATTEMPTS = 5;
+const HOLIDAY_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+async function recalculate(
+  supabase: SupabaseClient,
+  job: SlaJob,
+  contexts: Map<string, SlaContext>,
+): Promise<boolean> {
+  const { data: conversation, error } = await supabase
+    .from("conversations")
+    .select("id, workspace_id, priority, status, created_at")
+    .eq("id", job.conversation_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`conversation load failed: ${error.message}`);
+  }
+  if (!conversation) {
+    return false;
+  }
+
+  let context = contexts.get(conversation.workspace_id);
+  if (!context) {
+    context = await loadSlaContext(supabase, conversation.workspace_id);
+    contexts.set(conversation.workspace_id, context);
+  }
+
+  const awaitingSince = await findAwaitingReplySince(supabase, conversation.id);
+  const sla = computeConversationSla(context, conversation, awaitingSince);
+
+  const { error: updateError } = await supabase
+    .from("conversations")
+    .update({ ...sla, sla_calculated_at: nowIso() })
+    .eq("id", conversation.id);
+
+  if (updateError) {
+    throw new Error(`conversation SLA update failed: ${updateError.message}`);
+  }
+  return true;
+}
+
+async function refreshHolidaysIfStale(supabase: SupabaseClient) {
+  const { data } = await supabase
+    .from("bank_holidays")
+    .select("fetched_at")
+    .order("fetched_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const lastFetched = data?.fetched_at ? new Date(data.fetched_at).getTime() : 0;
+  if (Date.now() - lastFetched < HOLIDAY_REFRESH_MS) {
+    return;
+  }
+
+  try {
+    await refreshBankHolidays(supabase);
+  } catch (error) {
+    // Seeded dates keep working; try again next tick
+    console.warn("bank holiday refresh failed", error);
+  }
+}
+
+Deno.serve(async (req) => {
+  const startMs = Date.now();
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    assertWorkerToken(req);
+    const supabase = createServiceClient();
+    const batchSize = Number(Deno.env.get("BB_SLA_BATCH_SIZE") || "50");
+
+    await refreshHolidaysIfStale(supabase);
+
+    const jobs = await readQueue<SlaJob>(
+      supabase,
+      QUEUE_NAME,
+      VT_SECONDS,
+      Math.max(1, Math.min(100, batchSize)),
+    );
+
+    // One message can enqueue several jobs (insert + status change); recalculate once
+    const byConversation = new Map<string, QueueRecord<SlaJob>[]>();
+    for (const record of jobs) {
+      const job = record.message;
+      if (!job || job.job_type !== "SLA_RECALC" || !isUuidLike(job.conversation_id)) {
+        await queueDelete(supabase, QUEUE_NAME, record.msg_id);
+        await auditJob(supabase, {
+          workspaceId: job?.workspace_id,
+          queueName: QUEUE_NAME,
+          jobPayload: (job || {}) as unknown as Record<string, unknown>,
+          outcome: "discarded",
+          error: "Invalid SLA_RECALC job",
+          attempts: record.read_ct,
+        });
+        continue;
+      }
+      const group = byConversation.get(job.conversation_id) || [];
+      group.push(record);
+      byConversation.set(job.conversation_id, group);
+    }
+
+    const contexts = new Map<string, SlaContext>();
+    let processed = 0;
+    for (const records of byConversation.values()) {
+      if (!withinBudget(startMs, DEFAULT_TIME_BUDGET_MS)) {
+        break;
+      }
+
+      const record = records[0];
+      const job = record.message;
+      try {
+        const found = await recalculate(supabase, job, contexts);
+        for (const duplicate of records) {
+          await queueDelete(supabase, QUEUE_NAME, duplicate.msg_id);
+        }
+        await auditJob(supabase, {
+          workspaceId: job.workspace_id,
+          queueName: QUEUE_NAME,
+          jobPayload: job as unknown as Record<string, unknown>,
+          outcome: found ? "processed" : "discarded",
+          error: found ? undefined : "Conversation not found",
+          attempts: record.read_ct,
+        });
+        processed += 1;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("pipeline-worker-sla job error", {
+          msg_id: record.msg_id,
+          attempts: record.read_ct,
+          conversation_id: job.conversation_id,
+          error: message,
+        });
+
+        if (record.read_ct >= MAX_ATTEMPTS) {
+          await deadletterJob(supabase, {
+            fromQueue: QUEUE_NAME,
+            msgId: record.msg_id,
+            attempts: record.read_ct,
+            workspaceId: job.workspace_id,
+            jobPayload: job as unknown as Record<string, unknown>,
+            error: message,
+            scope: "pipeline-worker-sla",
+          });
+          for (const duplicate of records.slice(1)) {
+            await queueDelete(supabase, QUEUE_NAME, duplicate.msg_id);
+          }
+        } else {
+          await auditJob(supabase, {
+            workspaceId: job.workspace_id,
+            queueName: QUEUE_NAME,
+            jobPayload: job as unknown as Record<string, unknown>,
+            outcome: "failed",
+            error: message,
+            attempts: record.read_ct,
+          });
+        }
+      }
+    }
+
+    const { data: statusChanges, error: refreshError } = await supabase.rpc("bb_refresh_sla_statuses");
+    if (refreshError) {
+      console.error("bb_refresh_sla_statuses failed", refreshError.message);
+    }
+
+    return jsonResponse({
+      ok: true,
+      queue: QUEUE_NAME,
+      fetched_jobs: jobs.length,
+      processed,
+      status_changes: statusChanges ?? 0,
+      elapsed_ms: Date.now() - startMs,
+    });
+  } catch (error) {
+    console.error("pipeline-worker-sla fatal", error);
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
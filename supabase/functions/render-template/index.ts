@@ -0,0 +1,109 @@
+import { assertWorkspaceMember, createServiceClient, HttpError, isUuidLike, nowIso } from "../_shared/pipeline.ts";
+import {
+  loadTemplateValues,
+  renderTemplateText,
+  templateTextForChannel,
+  type TemplateRow,
+} from "../_shared/templates.ts";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json().catch(() => ({})) as {
+      workspace_id?: string;
+      template_id?: string;
+      conversation_id?: string;
+      channel?: string;
+      // Renders unsaved text from the template editor instead of a stored template
+      text?: string;
+      preview?: boolean;
+    };
+
+    const workspaceId = body.workspace_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+    if (body.conversation_id && !isUuidLike(body.conversation_id)) {
+      throw new HttpError(400, "conversation_id must be a UUID");
+    }
+    const { userId } = await assertWorkspaceMember(req, workspaceId);
+    const supabase = createServiceClient();
+
+    let template: TemplateRow | null = null;
+    if (body.template_id) {
+      const { data, error } = await supabase
+        .from("templates")
+        .select("id, workspace_id, name, subject, body, channel_variants, usage_count")
+        .eq("id", body.template_id)
+        .eq("workspace_id", workspaceId)
+        .is("archived_at", null)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`template lookup failed: ${error.message}`);
+      }
+      if (!data) {
+        throw new HttpError(404, "Template not found");
+      }
+      template = data as TemplateRow;
+    } else if (typeof body.text !== "string") {
+      throw new HttpError(400, "template_id or text is required");
+    }
+
+    const values = await loadTemplateValues(supabase, {
+      workspaceId,
+      conversationId: body.conversation_id,
+      userId,
+    });
+
+    const channel = body.channel?.trim() || (values["conversation.channel"] ?? null);
+    const rendered = renderTemplateText(template ? templateTextForChannel(template, channel) : String(body.text), values);
+    const subject = template?.subject ? renderTemplateText(template.subject, values) : null;
+
+    if (template && !body.preview) {
+      await supabase
+        .from("templates")
+        .update({ usage_count: (template.usage_count ?? 0) + 1, last_used_at: nowIso() })
+        .eq("id", template.id);
+    }
+
+    return corsResponse({
+      ok: true,
+      body: rendered.text,
+      subject: subject?.text ?? null,
+      channel,
+      missing: [...new Set([...rendered.missing, ...(subject?.missing ?? [])])],
+      unknown: [...new Set([...rendered.unknown, ...(subject?.unknown ?? [])])],
+    });
+  } catch (error) {
+    console.error("render-template error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -78,25 +79,14 @@ serve(async (req) => {
     // =============================================
     // SECURITY: Only find customers in user's workspace
     // =============================================
-    let { data: customer, error: customerError } = await supabase
-      .from('customers')
-      .select('id, name, email')
-      .eq('workspace_id', workspaceId)
-      .eq('email', customer_identifier)
-      .maybeSingle();
+    // A merged-away customer resolves to the customer it was merged into
+    const customer = await findCustomerByIdentifier(supabase, {
+      workspaceId,
+      identifier: customer_identifier,
+      select: 'id, name, email',
+    });
 
     if (!customer) {
-      const result = await supabase
-        .from('customers')
-        .select('id, name, email')
-        .eq('workspace_id', workspaceId)
-        .eq('phone', customer_identifier)
-        .maybeSingle();
-      customer = result.data;
-      customerError = result.error;
-    }
-
-    if (customerError || !customer) {
       return new Response(
         JSON.stringify({ error: 'Customer not found' }),
         { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
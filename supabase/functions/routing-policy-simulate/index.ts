@@ -0,0 +1,174 @@
+import { businessHoursFromWorkspace, isWithinBusinessHours } from "../_shared/business-hours.ts";
+import {
+  assertWorkspaceMember,
+  createServiceClient,
+  HttpError,
+  isUuidLike,
+} from "../_shared/pipeline.ts";
+import {
+  DECISION_BUCKETS,
+  type DecisionBucket,
+  decideRoute,
+  isVipSender,
+  loadRoutingPolicy,
+  normalizeRoutingPolicy,
+} from "../_shared/routing.ts";
+import type { ClassificationResult } from "../_shared/types.ts";
+
+interface SimulatePayload {
+  workspace_id?: string;
+  policy?: Record<string, unknown>;
+  limit?: number;
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const MAX_SAMPLES = 25;
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+function emptyCounts(): Record<DecisionBucket, number> {
+  return Object.fromEntries(DECISION_BUCKETS.map((bucket) => [bucket, 0])) as Record<DecisionBucket, number>;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json() as SimulatePayload;
+    const workspaceId = body.workspace_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+
+    await assertWorkspaceMember(req, workspaceId);
+
+    const limit = Math.max(1, Math.min(500, Math.floor(Number(body.limit) || 500)));
+    const supabase = createServiceClient();
+
+    const [currentPolicy, { data: workspace }, { data: conversations, error: conversationsError }] = await Promise
+      .all([
+        loadRoutingPolicy(supabase, workspaceId),
+        supabase
+          .from("workspaces")
+          .select("timezone, business_hours_start, business_hours_end, business_days, vip_domains")
+          .eq("id", workspaceId)
+          .maybeSingle(),
+        supabase
+          .from("conversations")
+          .select(
+            "id, title, category, requires_reply, triage_confidence, decision_bucket, metadata, created_at, last_inbound_message_at, customer:customers(email, vip_status)",
+          )
+          .eq("workspace_id", workspaceId)
+          .not("category", "is", null)
+          .order("created_at", { ascending: false })
+          .limit(limit),
+      ]);
+
+    if (conversationsError) {
+      throw new Error(`Conversation load failed: ${conversationsError.message}`);
+    }
+
+    const proposed = body.policy ? normalizeRoutingPolicy(body.policy) : currentPolicy;
+    const businessHours = businessHoursFromWorkspace(workspace as Record<string, unknown> | null);
+    const vipDomains = Array.isArray(workspace?.vip_domains) ? workspace.vip_domains.map(String) : [];
+
+    const before = emptyCounts();
+    const after = emptyCounts();
+    const samples: Array<Record<string, unknown>> = [];
+    let evaluated = 0;
+    let changed = 0;
+    let skippedSenderRule = 0;
+
+    for (const conversation of conversations || []) {
+      const metadata = (conversation.metadata || {}) as Record<string, unknown>;
+      const entities = (metadata.entities || {}) as Record<string, unknown>;
+
+      // Triage-rule decisions bypass the policy, so re-scoring them would be misleading
+      if (entities.triage_rule_id || entities.sender_rule_id) {
+        skippedSenderRule += 1;
+        continue;
+      }
+
+      const customer = Array.isArray(conversation.customer) ? conversation.customer[0] : conversation.customer;
+      const result = {
+        category: conversation.category,
+        requires_reply: Boolean(conversation.requires_reply),
+        confidence: Number(conversation.triage_confidence ?? 0),
+        entities,
+      } as ClassificationResult;
+      const receivedAt = conversation.last_inbound_message_at || conversation.created_at;
+
+      const decision = decideRoute(result, proposed, {
+        isVip: isVipSender({
+          sender: String(customer?.email || ""),
+          customerVip: Boolean(customer?.vip_status),
+          policy: proposed,
+          vipDomains,
+        }),
+        withinBusinessHours: isWithinBusinessHours(new Date(receivedAt), businessHours),
+      });
+
+      const previous = DECISION_BUCKETS.includes(conversation.decision_bucket as DecisionBucket)
+        ? conversation.decision_bucket as DecisionBucket
+        : null;
+
+      evaluated += 1;
+      if (previous) {
+        before[previous] += 1;
+      }
+      after[decision.decisionBucket] += 1;
+
+      if (previous !== decision.decisionBucket) {
+        changed += 1;
+        if (samples.length < MAX_SAMPLES) {
+          samples.push({
+            conversation_id: conversation.id,
+            title: conversation.title,
+            category: conversation.category,
+            confidence: result.confidence,
+            from_bucket: previous,
+            to_bucket: decision.decisionBucket,
+            reason: decision.reason,
+          });
+        }
+      }
+    }
+
+    return corsResponse({
+      ok: true,
+      evaluated,
+      changed,
+      skipped_sender_rule: skippedSenderRule,
+      before,
+      after,
+      samples,
+      policy: proposed,
+    });
+  } catch (error) {
+    console.error("routing-policy-simulate error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
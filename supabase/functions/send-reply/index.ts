@@ -15,7 +15,13 @@ Deno.serve(async (req) => {
   try {
     // --- Auth validation ---
     const { validateAuth, AuthError, authErrorResponse } = await import('../_shared/auth.ts');
-    let body: { conversation_id?: string; content?: string; workspace_id?: string };
+    let body: {
+      conversation_id?: string;
+      content?: string;
+      workspace_id?: string;
+      purpose?: string;
+      acknowledge_consent_warning?: boolean;
+    };
     try {
       body = await req.clone().json();
     } catch {
@@ -46,7 +52,7 @@ Deno.serve(async (req) => {
       .from('conversations')
       .select(`
         id, title, status, channel, workspace_id, external_conversation_id, metadata,
-        customer:customers(id, email, name)
+        customer:customers(id, email, name, phone)
       `)
       .eq('id', conversationId)
       .eq('workspace_id', workspaceId)
@@ -61,6 +67,19 @@ Deno.serve(async (req) => {
 
     if (!customer) throw new Error(`No customer associated with conversation ${conversationId}`);
 
+    // --- Consent gate: withdrawals and STOP keywords apply to the very next send ---
+    const { assertSendConsent, normalizeSendPurpose } = await import('../_shared/consent.ts');
+    const consent = await assertSendConsent(supabase, {
+      workspaceId,
+      customerId: customer.id,
+      channel,
+      purpose: normalizeSendPurpose(body.purpose),
+      acknowledged: body.acknowledge_consent_warning === true,
+    });
+    if (consent.decision === 'warn') {
+      console.warn('[send-reply] Sending after acknowledged consent warning:', consent.reason);
+    }
+
     // --- Channel-specific send ---
     switch (channel) {
       case 'email': {
@@ -81,7 +100,7 @@ Deno.serve(async (req) => {
 
         // Get access token
         const { data: accessToken, error: tokenError } = await supabase
-          .rpc('get_decrypted_access_token', { config_id: emailConfig.id });
+          .rpc('get_decrypted_access_token', { p_config_id: emailConfig.id });
 
         if (tokenError || !accessToken) {
           throw new Error('Email access token missing. Please reconnect your email.');
@@ -196,10 +215,87 @@ Deno.serve(async (req) => {
       }
 
       case 'sms':
-        throw new Error('SMS sending is not yet implemented. Coming soon via Twilio.');
+      case 'whatsapp': {
+        const { resolveOutboundProvider } = await import('../_shared/outbound.ts');
+
+        // Prefer a channel-specific identity (e.g. a WhatsApp number) over the generic phone
+        const { data: identities } = await supabase
+          .from('customer_identities')
+          .select('identifier_type, identifier_value')
+          .eq('workspace_id', workspaceId)
+          .eq('customer_id', customer.id)
+          .in('identifier_type', [channel === 'whatsapp' ? 'whatsapp' : 'phone', 'phone']);
+
+        const recipient = identities?.find((i) => i.identifier_type === channel)?.identifier_value
+          || identities?.find((i) => i.identifier_type === 'phone')?.identifier_value
+          || customer.phone;
+
+        if (!recipient) {
+          throw new Error(`Customer has no phone number for conversation ${conversationId}`);
+        }
+
+        const { data: channelRow } = await supabase
+          .from('workspace_channels')
+          .select('enabled, config')
+          .eq('workspace_id', workspaceId)
+          .eq('channel', channel)
+          .maybeSingle();
+
+        if (channelRow && channelRow.enabled === false) {
+          throw new Error(`The ${channel} channel is disabled for this workspace`);
+        }
+
+        const channelConfig = (channelRow?.config || {}) as Record<string, unknown>;
+        const provider = resolveOutboundProvider(channel);
+        const sendResult = await provider.send({ channel, to: recipient, body: content, channelConfig });
+
+        const threadId = conversation.external_conversation_id || recipient;
+        const { data: savedMessage, error: messageError } = await supabase
+          .from('messages')
+          .insert({
+            conversation_id: conversationId,
+            direction: 'outbound',
+            channel,
+            body: content,
+            actor_type: 'agent',
+            actor_name: String(channelConfig.from_number || channelConfig.display_name || provider.name),
+            external_id: sendResult.external_id || null,
+            external_thread_id: String(threadId),
+            raw_payload: {
+              provider: sendResult.provider,
+              provider_status: sendResult.status,
+              to: recipient,
+              response: sendResult.raw,
+            },
+            created_at: new Date().toISOString(),
+          })
+          .select('id')
+          .single();
 
-      case 'whatsapp':
-        throw new Error('WhatsApp sending is not yet implemented. Coming soon via Twilio/WhatsApp Business API.');
+        if (messageError) {
+          console.error('[send-reply] Warning: Failed to save message:', messageError);
+        }
+
+        await supabase
+          .from('conversations')
+          .update({
+            status: 'resolved',
+            last_message_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', conversationId);
+
+        return new Response(JSON.stringify({
+          success: true,
+          message_id: savedMessage?.id || null,
+          external_id: sendResult.external_id || null,
+          provider: sendResult.provider,
+          provider_status: sendResult.status,
+          duration_ms: Date.now() - startTime,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
 
       default:
         throw new Error(`Unsupported channel: ${channel}`);
@@ -207,6 +303,37 @@ Deno.serve(async (req) => {
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('[send-reply] Error:', errorMessage);
+
+    // 403 when consent blocks the send, 409 when the caller must acknowledge a warning
+    const { ConsentError } = await import('../_shared/consent.ts');
+    if (error instanceof ConsentError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+        consent: error.check,
+        duration_ms: Date.now() - startTime,
+      }), {
+        status: error.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Delivery failures reported by SMS/WhatsApp providers come back as 502 with the vendor code
+    const { OutboundProviderError } = await import('../_shared/outbound.ts');
+    if (error instanceof OutboundProviderError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+        provider: error.provider,
+        provider_status: error.status,
+        provider_code: error.providerCode,
+        duration_ms: Date.now() - startTime,
+      }), {
+        status: 502,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     return new Response(JSON.stringify({
       success: false,
       error: errorMessage,
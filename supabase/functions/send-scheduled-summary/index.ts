@@ -0,0 +1,308 @@
+import {
+  buildDigest,
+  type Digest,
+  type DigestChannel,
+  digestTitle,
+  dueSummarySlots,
+  isEmptyDigest,
+  renderDigestHtml,
+  renderDigestSms,
+  renderDigestText,
+  resolveDigestSender,
+} from "../_shared/digest.ts";
+import {
+  assertWorkerToken,
+  assertWorkspaceMember,
+  createServiceClient,
+  DEFAULT_TIME_BUDGET_MS,
+  getOptionalEnv,
+  HttpError,
+  isUuidLike,
+  nowIso,
+  withinBudget,
+} from "../_shared/pipeline.ts";
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+interface PreferencesRow {
+  workspace_id: string;
+  summary_channels: string[] | null;
+  summary_times: string[] | null;
+  summary_email: string | null;
+  summary_phone: string | null;
+  timezone: string | null;
+}
+
+interface SlotOutcome {
+  workspace_id: string;
+  slot_key: string;
+  status: "sent" | "already_sent" | "dry_run";
+  title?: string;
+  deliveries?: Array<{ channel: string; recipient: string | null; status: string; error?: string }>;
+  preview?: { text: string; sms: string; digest: Digest };
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DEFAULT_PERIOD_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIOD_MS = 7 * DEFAULT_PERIOD_MS;
+// Test sends use their own slot keys and never move the scheduled window
+const MANUAL_SLOT_PREFIX = "manual:";
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+// Digests cover everything since the previous scheduled one, at most a week back
+async function periodStart(supabase: SupabaseClient, workspaceId: string, now: Date): Promise<Date> {
+  const { data } = await supabase
+    .from("digest_deliveries")
+    .select("period_end")
+    .eq("workspace_id", workspaceId)
+    .eq("channel", "in_app")
+    .eq("status", "sent")
+    .not("slot_key", "like", `${MANUAL_SLOT_PREFIX}%`)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const previous = data?.period_end ? new Date(data.period_end).getTime() : now.getTime() - DEFAULT_PERIOD_MS;
+  return new Date(Math.max(previous, now.getTime() - MAX_PERIOD_MS));
+}
+
+function recipientFor(prefs: PreferencesRow, channel: DigestChannel): string | null {
+  const value = channel === "email" ? prefs.summary_email : prefs.summary_phone;
+  return value?.trim() || null;
+}
+
+async function deliverSlot(
+  supabase: SupabaseClient,
+  prefs: PreferencesRow,
+  slotKey: string,
+  options: { dryRun: boolean; now: Date },
+): Promise<SlotOutcome> {
+  const appUrl = getOptionalEnv("APP_URL");
+  const start = await periodStart(supabase, prefs.workspace_id, options.now);
+  const digest = await buildDigest(supabase, prefs.workspace_id, start, options.now);
+  const title = digestTitle(digest);
+  const text = renderDigestText(digest, appUrl);
+  const channels = (prefs.summary_channels || []).filter((c): c is DigestChannel => c === "email" || c === "sms");
+
+  if (options.dryRun) {
+    const deliveries = [];
+    for (const channel of channels) {
+      const recipient = recipientFor(prefs, channel);
+      if (recipient) {
+        await resolveDigestSender(channel, true).send({
+          to: recipient,
+          subject: title,
+          text: channel === "sms" ? renderDigestSms(digest, appUrl) : text,
+          html: renderDigestHtml(digest, appUrl),
+        });
+      }
+      deliveries.push({ channel, recipient, status: recipient ? "dry_run" : "skipped" });
+    }
+    return {
+      workspace_id: prefs.workspace_id,
+      slot_key: slotKey,
+      status: "dry_run",
+      title,
+      deliveries,
+      preview: { text, sms: renderDigestSms(digest, appUrl), digest },
+    };
+  }
+
+  // The in_app row is the claim on the slot; a concurrent run gets nothing back
+  const { data: claimed, error: claimError } = await supabase
+    .from("digest_deliveries")
+    .upsert({
+      workspace_id: prefs.workspace_id,
+      slot_key: slotKey,
+      channel: "in_app",
+      period_start: digest.period_start,
+      period_end: digest.period_end,
+    }, { onConflict: "workspace_id,slot_key,channel", ignoreDuplicates: true })
+    .select("id");
+
+  if (claimError) {
+    throw new Error(`digest_deliveries claim failed: ${claimError.message}`);
+  }
+  if (!claimed || claimed.length === 0) {
+    return { workspace_id: prefs.workspace_id, slot_key: slotKey, status: "already_sent" };
+  }
+
+  const { data: notification, error: notificationError } = await supabase
+    .from("notifications")
+    .insert({
+      workspace_id: prefs.workspace_id,
+      type: "ai_summary",
+      title,
+      body: text,
+      metadata: { slot_key: slotKey, digest },
+    })
+    .select("id")
+    .single();
+
+  if (notificationError) {
+    throw new Error(`notification insert failed: ${notificationError.message}`);
+  }
+
+  await supabase
+    .from("digest_deliveries")
+    .update({ status: "sent", notification_id: notification.id, sent_at: nowIso() })
+    .eq("id", claimed[0].id);
+
+  const deliveries: NonNullable<SlotOutcome["deliveries"]> = [{ channel: "in_app", recipient: null, status: "sent" }];
+  const skipEmpty = isEmptyDigest(digest) && !isTrue(getOptionalEnv("BB_DIGEST_SEND_EMPTY"));
+
+  for (const channel of channels) {
+    const recipient = recipientFor(prefs, channel);
+    const skipReason = !recipient ? "no recipient configured" : skipEmpty ? "nothing to report" : null;
+    const base = {
+      workspace_id: prefs.workspace_id,
+      slot_key: slotKey,
+      channel,
+      recipient,
+      period_start: digest.period_start,
+      period_end: digest.period_end,
+    };
+
+    if (skipReason) {
+      await supabase
+        .from("digest_deliveries")
+        .upsert({ ...base, status: "skipped", error: skipReason }, {
+          onConflict: "workspace_id,slot_key,channel",
+          ignoreDuplicates: true,
+        });
+      deliveries.push({ channel, recipient, status: "skipped", error: skipReason });
+      continue;
+    }
+
+    try {
+      const result = await resolveDigestSender(channel).send({
+        to: recipient as string,
+        subject: title,
+        text: channel === "sms" ? renderDigestSms(digest, appUrl) : text,
+        html: renderDigestHtml(digest, appUrl),
+      });
+      await supabase.from("digest_deliveries").upsert({
+        ...base,
+        status: "sent",
+        provider: result.provider,
+        external_id: result.external_id,
+        sent_at: nowIso(),
+      }, { onConflict: "workspace_id,slot_key,channel" });
+      deliveries.push({ channel, recipient, status: "sent" });
+    } catch (error) {
+      // One failed channel should not block the others
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("digest delivery failed", { workspace_id: prefs.workspace_id, channel, error: message });
+      await supabase.from("digest_deliveries").upsert({ ...base, status: "failed", error: message }, {
+        onConflict: "workspace_id,slot_key,channel",
+      });
+      deliveries.push({ channel, recipient, status: "failed", error: message });
+    }
+  }
+
+  return { workspace_id: prefs.workspace_id, slot_key: slotKey, status: "sent", title, deliveries };
+}
+
+async function loadPreferences(supabase: SupabaseClient, workspaceId?: string): Promise<PreferencesRow[]> {
+  let query = supabase
+    .from("notification_preferences")
+    .select("workspace_id, summary_channels, summary_times, summary_email, summary_phone, timezone, workspaces(timezone)")
+    .not("workspace_id", "is", null);
+
+  query = workspaceId ? query.eq("workspace_id", workspaceId) : query.eq("summary_enabled", true);
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`notification_preferences load failed: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const workspace = row.workspaces as { timezone?: string | null } | null;
+    return {
+      ...row,
+      timezone: row.timezone || workspace?.timezone || "Europe/London",
+    } as PreferencesRow;
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  const startMs = Date.now();
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const supabase = createServiceClient();
+    const body = await req.json().catch(() => ({})) as { workspace_id?: string; dry_run?: boolean | string };
+    const dryRun = isTrue(body.dry_run) || isTrue(getOptionalEnv("BB_DIGEST_DRY_RUN"));
+    const now = new Date();
+    const outcomes: SlotOutcome[] = [];
+
+    if (req.headers.get("x-bb-worker-token")) {
+      // Scheduled run: every workspace whose summary time has just passed
+      assertWorkerToken(req);
+      const windowMinutes = Math.max(5, Number(getOptionalEnv("BB_DIGEST_WINDOW_MINUTES", "30")));
+      const preferences = await loadPreferences(supabase);
+
+      for (const prefs of preferences) {
+        if (!withinBudget(startMs, DEFAULT_TIME_BUDGET_MS)) {
+          break;
+        }
+        const slots = dueSummarySlots(prefs.summary_times || [], prefs.timezone || "Europe/London", now, windowMinutes);
+        // Overlapping windows collapse into the latest slot
+        const slotKey = slots.sort().at(-1);
+        if (!slotKey) {
+          continue;
+        }
+        try {
+          outcomes.push(await deliverSlot(supabase, prefs, slotKey, { dryRun, now }));
+        } catch (error) {
+          console.error("send-scheduled-summary workspace error", { workspace_id: prefs.workspace_id, error });
+        }
+      }
+    } else {
+      // "Send test summary" in settings, or the DevOps manual trigger
+      const workspaceId = body.workspace_id?.trim();
+      if (!workspaceId || !isUuidLike(workspaceId)) {
+        throw new HttpError(400, "workspace_id must be a UUID");
+      }
+      await assertWorkspaceMember(req, workspaceId);
+
+      const [prefs] = await loadPreferences(supabase, workspaceId);
+      if (!prefs) {
+        throw new HttpError(404, "No notification preferences saved for this workspace");
+      }
+      outcomes.push(await deliverSlot(supabase, prefs, `${MANUAL_SLOT_PREFIX}${now.toISOString().slice(0, 16)}`, { dryRun, now }));
+    }
+
+    return corsResponse({ ok: true, dry_run: dryRun, results: outcomes, elapsed_ms: Date.now() - startMs });
+  } catch (error) {
+    console.error("send-scheduled-summary error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
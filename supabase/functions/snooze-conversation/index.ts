@@ -0,0 +1,141 @@
+import { assertWorkspaceMember, createServiceClient, HttpError, isUuidLike, nowIso } from "../_shared/pipeline.ts";
+import { nextBusinessOpening } from "../_shared/business-hours.ts";
+import { loadSlaContext } from "../_shared/sla.ts";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// "Until the customer replies" still resurfaces eventually
+const REPLY_SNOOZE_MAX_DAYS = 30;
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json().catch(() => ({})) as {
+      workspace_id?: string;
+      conversation_id?: string;
+      until?: string;
+      preset?: "next_business_morning";
+      until_reply?: boolean;
+      unsnooze?: boolean;
+    };
+
+    const workspaceId = body.workspace_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+    if (!body.conversation_id || !isUuidLike(body.conversation_id)) {
+      throw new HttpError(400, "conversation_id must be a UUID");
+    }
+    const { userId } = await assertWorkspaceMember(req, workspaceId);
+    const supabase = createServiceClient();
+
+    const { data: conversation, error } = await supabase
+      .from("conversations")
+      .select("id, decision_bucket, snoozed_until, snoozed_from_bucket")
+      .eq("id", body.conversation_id)
+      .eq("workspace_id", workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`conversation lookup failed: ${error.message}`);
+    }
+    if (!conversation) {
+      throw new HttpError(404, "Conversation not found");
+    }
+
+    const now = new Date();
+
+    if (body.unsnooze) {
+      const previousBucket = conversation.snoozed_until ? conversation.snoozed_from_bucket : conversation.decision_bucket;
+      const { error: updateError } = await supabase
+        .from("conversations")
+        .update({
+          snoozed_until: null,
+          snooze_until_reply: false,
+          snoozed_at: null,
+          snoozed_by: null,
+          snoozed_from_bucket: null,
+          decision_bucket: previousBucket || conversation.decision_bucket,
+          updated_at: nowIso(),
+        })
+        .eq("id", conversation.id);
+
+      if (updateError) {
+        throw new Error(`unsnooze failed: ${updateError.message}`);
+      }
+      return corsResponse({ ok: true, snoozed_until: null });
+    }
+
+    let until: Date;
+    if (body.preset === "next_business_morning") {
+      const context = await loadSlaContext(supabase, workspaceId);
+      until = nextBusinessOpening(now, context.hours, context.closedDates);
+    } else if (body.until) {
+      until = new Date(body.until);
+      if (Number.isNaN(until.getTime())) {
+        throw new HttpError(400, "until must be an ISO timestamp");
+      }
+      if (until.getTime() <= now.getTime()) {
+        throw new HttpError(400, "Snooze time must be in the future");
+      }
+    } else if (body.until_reply) {
+      until = new Date(now.getTime() + REPLY_SNOOZE_MAX_DAYS * 24 * 60 * 60_000);
+    } else {
+      throw new HttpError(400, "until, preset or until_reply is required");
+    }
+
+    const { error: updateError } = await supabase
+      .from("conversations")
+      .update({
+        snoozed_until: until.toISOString(),
+        snooze_until_reply: body.until_reply === true,
+        snoozed_at: now.toISOString(),
+        snoozed_by: userId,
+        // Re-snoozing keeps the bucket from before the first snooze
+        snoozed_from_bucket: conversation.snoozed_until
+          ? conversation.snoozed_from_bucket
+          : conversation.decision_bucket,
+        decision_bucket: "wait",
+        updated_at: nowIso(),
+      })
+      .eq("id", conversation.id);
+
+    if (updateError) {
+      throw new Error(`snooze failed: ${updateError.message}`);
+    }
+
+    return corsResponse({
+      ok: true,
+      snoozed_until: until.toISOString(),
+      until_reply: body.until_reply === true,
+    });
+  } catch (error) {
+    console.error("snooze-conversation error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
@@ -83,14 +83,14 @@ Deno.serve(async (req) => {
       throw new HttpError(403, "Not allowed to start pipeline run for this workspace");
     }
 
-    // Double-import prevention: check for existing running pipeline_run
+    // Double-import prevention: check for an existing running or paused pipeline_run
     const supabase = createServiceClient();
     const { data: existingRun, error: existingRunError } = await supabase
       .from("pipeline_runs")
       .select("id, state, created_at")
       .eq("workspace_id", workspaceId)
       .eq("config_id", configId)
-      .eq("state", "running")
+      .in("state", ["running", "paused"])
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -102,7 +102,7 @@ Deno.serve(async (req) => {
     if (existingRun) {
       return corsResponse({
         ok: false,
-        error: "An import is already running for this workspace and config",
+        error: `An import is already ${existingRun.state} for this workspace and config`,
         existing_run_id: existingRun.id,
         existing_run_state: existingRun.state,
       }, 409);
@@ -0,0 +1,168 @@
+// Mapping tests for the channel webhook adapters in _shared/inbound.ts.
+// Run with: deno test --allow-read supabase/functions/tests
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  messengerToUnifiedMessages,
+  twilioSmsToUnifiedMessage,
+  twilioVoiceRecordingToUnifiedMessage,
+  whatsAppCloudToUnifiedMessages,
+} from "../_shared/inbound.ts";
+import { normalizePhone } from "../_shared/outbound.ts";
+
+async function fixture(name: string): Promise<Record<string, unknown>> {
+  return JSON.parse(await Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url)));
+}
+
+// Twilio posts form-encoded bodies; the fixtures keep the fields as JSON for readability
+async function formFixture(name: string): Promise<URLSearchParams> {
+  return new URLSearchParams(await fixture(name) as Record<string, string>);
+}
+
+Deno.test("normalizePhone returns an empty string when there are no digits", () => {
+  assertEquals(normalizePhone(""), "");
+  assertEquals(normalizePhone("whatsapp:"), "");
+  assertEquals(normalizePhone("07700 900456"), "+447700900456");
+  assertEquals(normalizePhone("0044 7700 900456"), "+447700900456");
+  assertEquals(normalizePhone("447700900456"), "+447700900456");
+});
+
+Deno.test("twilioSmsToUnifiedMessage maps an inbound SMS with media", async () => {
+  const message = twilioSmsToUnifiedMessage(await formFixture("twilio-sms.json"));
+
+  assertEquals(message.external_id, "SM0f5e2a9b7c6d4e3f2a1b0c9d8e7f6a5b");
+  assertEquals(message.channel, "sms");
+  assertEquals(message.direction, "inbound");
+  assertEquals(message.from_identifier, "+447700900456");
+  assertEquals(message.thread_id, "+447700900456");
+  assertEquals(message.to_identifier, "+447700900123");
+  assertEquals(message.body, "Hi, can you come Thursday instead?");
+  assertEquals(message.subject, null);
+  assertEquals(message.is_read, false);
+  assertEquals(message.metadata, {
+    provider: "twilio",
+    account_sid: "AC00000000000000000000000000000000",
+    from_country: "GB",
+    attachments: [{
+      url:
+        "https://api.twilio.com/2010-04-01/Accounts/AC00000000000000000000000000000000/Messages/SM0f5e2a9b7c6d4e3f2a1b0c9d8e7f6a5b/Media/ME1",
+      content_type: "image/jpeg",
+    }],
+  });
+});
+
+Deno.test("twilioSmsToUnifiedMessage maps whatsapp: senders to the whatsapp channel", async () => {
+  const message = twilioSmsToUnifiedMessage(await formFixture("twilio-whatsapp.json"));
+
+  assertEquals(message.channel, "whatsapp");
+  assertEquals(message.from_identifier, "+447700900456");
+  assertEquals(message.to_identifier, "+447700900123");
+  assertEquals(message.from_name, "Jane Customer");
+  assertEquals(message.metadata.attachments, []);
+});
+
+Deno.test("twilioSmsToUnifiedMessage leaves From empty when it is missing", async () => {
+  const form = await formFixture("twilio-sms.json");
+  form.delete("From");
+
+  assertEquals(twilioSmsToUnifiedMessage(form).from_identifier, "");
+});
+
+Deno.test("twilioVoiceRecordingToUnifiedMessage maps a transcribed voicemail", async () => {
+  const message = twilioVoiceRecordingToUnifiedMessage(await formFixture("twilio-voice-recording.json"));
+
+  assertEquals(message.external_id, "RE6e5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b");
+  assertEquals(message.channel, "voice");
+  assertEquals(message.from_identifier, "+447700900456");
+  assertEquals(message.thread_id, "+447700900456");
+  assertEquals(message.to_identifier, "+447700900123");
+  assertEquals(message.from_name, "JANE CUSTOMER");
+  assertEquals(message.body, "Hi, it's Jane, please call me back about the quote.");
+  assertEquals(message.metadata, {
+    provider: "twilio",
+    call_sid: "CA1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e",
+    is_voicemail: true,
+    audio_url:
+      "https://api.twilio.com/2010-04-01/Accounts/AC00000000000000000000000000000000/Recordings/RE6e5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b.mp3",
+    duration_seconds: 23,
+    has_transcript: true,
+  });
+});
+
+Deno.test("twilioVoiceRecordingToUnifiedMessage falls back to a placeholder body without a transcript", async () => {
+  const form = await formFixture("twilio-voice-recording.json");
+  form.delete("TranscriptionText");
+  form.delete("From");
+  const message = twilioVoiceRecordingToUnifiedMessage(form);
+
+  assertEquals(message.body, "Voicemail received (23s)");
+  assertEquals(message.metadata.has_transcript, false);
+  // Caller is used when From is absent
+  assertEquals(message.from_identifier, "+447700900456");
+});
+
+Deno.test("whatsAppCloudToUnifiedMessages groups messages by phone_number_id and ignores statuses", async () => {
+  const grouped = whatsAppCloudToUnifiedMessages(await fixture("whatsapp-cloud.json"));
+
+  assertEquals([...grouped.keys()], ["106540352242922"]);
+  const [text, image] = grouped.get("106540352242922")!;
+
+  assertEquals(text.external_id, "wamid.HBgMNDQ3NzAwOTAwNDU2FQIAEhggQTEB");
+  assertEquals(text.channel, "whatsapp");
+  assertEquals(text.direction, "inbound");
+  assertEquals(text.from_identifier, "+447700900456");
+  assertEquals(text.thread_id, "+447700900456");
+  assertEquals(text.from_name, "Jane Customer");
+  assertEquals(text.to_identifier, "+447700900123");
+  assertEquals(text.body, "Can I move my booking?");
+  assertEquals(text.timestamp, "2026-02-24T10:40:00.000Z");
+  assertEquals(text.metadata, {
+    provider: "whatsapp_cloud",
+    phone_number_id: "106540352242922",
+    message_type: "text",
+    reply_to_external_id: null,
+    attachments: [],
+  });
+
+  assertEquals(image.body, "This is the stain");
+  assertEquals(image.metadata.message_type, "image");
+  assertEquals(image.metadata.reply_to_external_id, "wamid.HBgMNDQ3NzAwOTAwMTIzFQIAERgS");
+  assertEquals(image.metadata.attachments, [{ media_id: "1479537139650973", content_type: "image/jpeg" }]);
+});
+
+Deno.test("whatsAppCloudToUnifiedMessages returns nothing for a payload without entries", () => {
+  assertEquals(whatsAppCloudToUnifiedMessages({}).size, 0);
+});
+
+Deno.test("messengerToUnifiedMessages maps page messages and echoes, skipping delivery events", async () => {
+  const grouped = messengerToUnifiedMessages(await fixture("messenger.json"));
+
+  assertEquals([...grouped.keys()], ["110584932271634"]);
+  assertEquals(grouped.get("110584932271634")!.length, 3);
+  const [text, image, echo] = grouped.get("110584932271634")!;
+
+  assertEquals(text.external_id, "m_AG5Hz2Uq7tbQ3nMt1Vx8kPQ");
+  assertEquals(text.channel, "facebook");
+  assertEquals(text.direction, "inbound");
+  assertEquals(text.from_identifier, "6523417790012345");
+  assertEquals(text.thread_id, "6523417790012345");
+  assertEquals(text.to_identifier, "110584932271634");
+  assertEquals(text.body, "Are you open on Saturday?");
+  assertEquals(text.timestamp, "2026-02-24T10:40:00.000Z");
+  assertEquals(text.is_read, false);
+  assertEquals(text.metadata, { provider: "messenger", page_id: "110584932271634", attachments: [] });
+
+  assertEquals(image.body, "[image]");
+  assertEquals(image.metadata.attachments, [
+    { type: "image", url: "https://scontent.xx.fbcdn.net/v/t1.15752-9/photo.jpg" },
+  ]);
+
+  // Replies sent from Meta's inbox thread on the customer, not the page
+  assertEquals(echo.direction, "outbound");
+  assertEquals(echo.thread_id, "6523417790012345");
+  assertEquals(echo.from_identifier, "110584932271634");
+  assertEquals(echo.is_read, true);
+});
+
+Deno.test("messengerToUnifiedMessages ignores payloads that are not page events", () => {
+  assertEquals(messengerToUnifiedMessages({ object: "instagram", entry: [] }).size, 0);
+});
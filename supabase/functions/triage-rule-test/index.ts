@@ -0,0 +1,192 @@
+import {
+  assertWorkspaceMember,
+  createServiceClient,
+  HttpError,
+  isUuidLike,
+} from "../_shared/pipeline.ts";
+import {
+  evaluateTriageRules,
+  loadTriageRules,
+  ruleMatches,
+  RuleValidationError,
+  sortTriageRules,
+  type TriageRule,
+  triageRuleFromRow,
+} from "../_shared/triage-rules.ts";
+
+interface RuleTestPayload {
+  workspace_id?: string;
+  // Unsaved rule from the editor, in sender_rules row shape
+  rule?: Record<string, unknown>;
+  rule_id?: string;
+  limit?: number;
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DEFAULT_LIMIT = 300;
+const MAX_LIMIT = 1000;
+const MAX_SAMPLES = 50;
+
+function corsResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+function snippet(value: string | null): string {
+  const text = (value || "").replace(/\s+/g, " ").trim();
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await req.json() as RuleTestPayload;
+    const workspaceId = body.workspace_id?.trim();
+    if (!workspaceId || !isUuidLike(workspaceId)) {
+      throw new HttpError(400, "workspace_id must be a UUID");
+    }
+    if (!body.rule && !body.rule_id) {
+      throw new HttpError(400, "rule or rule_id is required");
+    }
+
+    await assertWorkspaceMember(req, workspaceId);
+
+    const limit = Math.max(1, Math.min(MAX_LIMIT, Math.floor(Number(body.limit) || DEFAULT_LIMIT)));
+    const supabase = createServiceClient();
+
+    let row = body.rule ? { ...body.rule, id: body.rule.id || body.rule_id || "draft" } : null;
+    if (!row) {
+      if (!isUuidLike(String(body.rule_id))) {
+        throw new HttpError(400, "rule_id must be a UUID");
+      }
+      const { data, error } = await supabase
+        .from("sender_rules")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .eq("id", body.rule_id)
+        .maybeSingle();
+      if (error) {
+        throw new Error(`sender_rules lookup failed: ${error.message}`);
+      }
+      if (!data) {
+        throw new HttpError(404, "Rule not found");
+      }
+      row = data as Record<string, unknown>;
+    }
+
+    let tested: TriageRule;
+    try {
+      tested = triageRuleFromRow(row);
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        throw new HttpError(400, error.message);
+      }
+      throw error;
+    }
+
+    // The tested rule replaces its saved version so won_by reflects the edit
+    const otherRules = (await loadTriageRules(supabase, workspaceId)).filter((rule) => rule.id !== tested.id);
+    const rules = sortTriageRules([tested, ...otherRules]);
+
+    const { data: events, error: eventsError } = await supabase
+      .from("message_events")
+      .select("id, from_identifier, subject, body, metadata, timestamp, materialized_conversation_id")
+      .eq("workspace_id", workspaceId)
+      .eq("direction", "inbound")
+      .order("timestamp", { ascending: false })
+      .limit(limit);
+
+    if (eventsError) {
+      throw new Error(`message_events lookup failed: ${eventsError.message}`);
+    }
+
+    let matched = 0;
+    let shadowed = 0;
+    const samples: Array<Record<string, unknown>> = [];
+
+    for (const event of events || []) {
+      const metadata = (event.metadata || {}) as Record<string, unknown>;
+      const input = {
+        sender: event.from_identifier || "",
+        subject: event.subject || "",
+        body: event.body || "",
+        headers: metadata.headers as Record<string, string> | undefined,
+      };
+      if (!ruleMatches(tested, input)) {
+        continue;
+      }
+
+      matched += 1;
+      const winner = evaluateTriageRules(rules, input);
+      const wonBy = winner && winner.rule.id !== tested.id
+        ? { id: winner.rule.id, name: winner.rule.name, source: winner.rule.source }
+        : null;
+      if (wonBy) {
+        shadowed += 1;
+      }
+
+      if (samples.length < MAX_SAMPLES) {
+        samples.push({
+          event_id: event.id,
+          conversation_id: event.materialized_conversation_id,
+          from: event.from_identifier,
+          subject: event.subject,
+          timestamp: event.timestamp,
+          snippet: snippet(event.body),
+          won_by: wonBy,
+        });
+      }
+    }
+
+    // Current triage state, so the panel can show what the rule would change
+    const conversationIds = [...new Set(samples.map((s) => s.conversation_id).filter(Boolean))] as string[];
+    if (conversationIds.length > 0) {
+      const { data: conversations, error: conversationsError } = await supabase
+        .from("conversations")
+        .select("id, category, decision_bucket")
+        .in("id", conversationIds);
+      if (conversationsError) {
+        throw new Error(`conversations lookup failed: ${conversationsError.message}`);
+      }
+      const byId = new Map((conversations || []).map((c) => [c.id, c]));
+      for (const sample of samples) {
+        const conversation = byId.get(sample.conversation_id as string);
+        sample.current_category = conversation?.category ?? null;
+        sample.current_bucket = conversation?.decision_bucket ?? null;
+      }
+    }
+
+    return corsResponse({
+      ok: true,
+      scanned: (events || []).length,
+      matched,
+      shadowed,
+      rule: { id: tested.id, name: tested.name, priority: tested.priority },
+      samples,
+    });
+  } catch (error) {
+    console.error("triage-rule-test error", error);
+    if (error instanceof HttpError) {
+      return corsResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return corsResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
@@ -0,0 +1,53 @@
+import {
+  ingestChannelMessages,
+  publicWebhookUrl,
+  resolveChannelConfig,
+  twilioSmsToUnifiedMessage,
+  twimlResponse,
+  verifyTwilioSignature,
+} from "../_shared/inbound.ts";
+import { createServiceClient, HttpError, jsonResponse } from "../_shared/pipeline.ts";
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const form = new URLSearchParams(await req.text());
+    await verifyTwilioSignature({
+      req,
+      url: publicWebhookUrl(req, "TWILIO_SMS_WEBHOOK_URL"),
+      form,
+    });
+
+    const message = twilioSmsToUnifiedMessage(form);
+    // normalizePhone returns "" for an absent or digit-less number
+    if (!message.external_id || !message.from_identifier || !message.to_identifier) {
+      throw new HttpError(400, "Twilio payload is missing MessageSid, From or To");
+    }
+
+    const supabase = createServiceClient();
+    const config = await resolveChannelConfig(supabase, {
+      channel: message.channel,
+      configKey: "from_number",
+      value: message.to_identifier,
+    });
+
+    await ingestChannelMessages(supabase, config, [message]);
+
+    // Twilio expects TwiML; an empty <Response/> means "no auto-reply"
+    return twimlResponse();
+  } catch (error) {
+    console.error("twilio-sms-webhook error", error);
+
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
@@ -0,0 +1,59 @@
+import {
+  ingestChannelMessages,
+  publicWebhookUrl,
+  resolveChannelConfig,
+  twilioVoiceRecordingToUnifiedMessage,
+  twimlResponse,
+  verifyTwilioSignature,
+} from "../_shared/inbound.ts";
+import { createServiceClient, HttpError, jsonResponse } from "../_shared/pipeline.ts";
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const form = new URLSearchParams(await req.text());
+    await verifyTwilioSignature({
+      req,
+      url: publicWebhookUrl(req, "TWILIO_VOICE_WEBHOOK_URL"),
+      form,
+    });
+
+    // Only completed recordings carry audio; in-progress/failed callbacks are acknowledged and dropped
+    const recordingStatus = (form.get("RecordingStatus") || "completed").toLowerCase();
+    if (recordingStatus !== "completed" || !form.get("RecordingUrl")) {
+      return twimlResponse();
+    }
+
+    const message = twilioVoiceRecordingToUnifiedMessage(form);
+    // normalizePhone returns "" for an absent or digit-less number
+    if (!message.external_id || !message.from_identifier || !message.to_identifier) {
+      throw new HttpError(400, "Twilio recording payload is missing RecordingSid, From or To");
+    }
+
+    const supabase = createServiceClient();
+    const config = await resolveChannelConfig(supabase, {
+      channel: "voice",
+      workspaceChannel: "phone",
+      configKey: "from_number",
+      value: message.to_identifier,
+    });
+
+    await ingestChannelMessages(supabase, config, [message]);
+
+    return twimlResponse();
+  } catch (error) {
+    console.error("twilio-voice-webhook error", error);
+
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
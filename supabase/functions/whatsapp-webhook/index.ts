@@ -0,0 +1,72 @@
+import {
+  ingestChannelMessages,
+  metaVerificationChallenge,
+  resolveChannelConfig,
+  verifyMetaSignature,
+  whatsAppCloudToUnifiedMessages,
+} from "../_shared/inbound.ts";
+import { createServiceClient, HttpError, jsonResponse } from "../_shared/pipeline.ts";
+
+Deno.serve(async (req) => {
+  try {
+    const challenge = metaVerificationChallenge(req);
+    if (challenge) {
+      return challenge;
+    }
+
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const rawBody = await req.text();
+    await verifyMetaSignature(rawBody, req);
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody) as Record<string, unknown>;
+    } catch {
+      throw new HttpError(400, "Invalid JSON body");
+    }
+
+    const grouped = whatsAppCloudToUnifiedMessages(payload);
+    const supabase = createServiceClient();
+
+    let receivedCount = 0;
+    const skippedPhoneNumberIds: string[] = [];
+    for (const [phoneNumberId, messages] of grouped.entries()) {
+      let config;
+      try {
+        config = await resolveChannelConfig(supabase, {
+          channel: "whatsapp",
+          configKey: "phone_number_id",
+          value: phoneNumberId,
+        });
+      } catch (error) {
+        // An unconfigured number would otherwise fail the whole batch and Meta retries all of it
+        if (error instanceof HttpError && error.status === 404) {
+          console.warn("whatsapp-webhook skipping unconfigured phone_number_id", phoneNumberId);
+          skippedPhoneNumberIds.push(phoneNumberId);
+          continue;
+        }
+        throw error;
+      }
+
+      await ingestChannelMessages(supabase, config, messages);
+      receivedCount += messages.length;
+    }
+
+    // Delivery/read status callbacks carry no messages and are acknowledged as-is
+    return jsonResponse({ ok: true, received_count: receivedCount, skipped_phone_number_ids: skippedPhoneNumberIds });
+  } catch (error) {
+    console.error("whatsapp-webhook error", error);
+
+    if (error instanceof HttpError) {
+      return jsonResponse({ ok: false, error: error.message }, error.status);
+    }
+
+    return jsonResponse({
+      ok: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    }, 500);
+  }
+});
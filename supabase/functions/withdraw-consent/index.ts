@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAuth, AuthError, authErrorResponse } from "../_shared/auth.ts";
+import { findCustomerByIdentifier } from "../_shared/customers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -35,17 +36,14 @@ serve(async (req) => {
     let customerId = body.customer_id;
     
     if (!customerId && (body.customer_email || body.customer_phone)) {
-      const query = supabase.from('customers').select('id').eq('workspace_id', workspaceId);
-      
-      if (body.customer_email) {
-        query.eq('email', body.customer_email);
-      } else if (body.customer_phone) {
-        query.eq('phone', body.customer_phone);
-      }
-      
-      const { data: customer, error: customerError } = await query.single();
+      // A merged-away customer resolves to the customer it was merged into
+      const customer = await findCustomerByIdentifier(supabase, {
+        workspaceId,
+        identifier: (body.customer_email || body.customer_phone)!,
+        columns: [body.customer_email ? 'email' : 'phone'],
+      });
       
-      if (customerError || !customer) {
+      if (!customer) {
         console.log('❌ [withdraw-consent] Customer not found');
         return new Response(
           JSON.stringify({ error: 'Customer not found' }),
@@ -135,9 +133,10 @@ serve(async (req) => {
     await supabase
       .from('data_access_logs')
       .insert({
-        action: 'consent_withdrawal',
+        action: 'edit',
         customer_id: customerId,
         metadata: {
+          operation: 'consent_withdrawal',
           channel: body.channel,
           reason: body.reason,
           method: 'api',
@@ -0,0 +1,15 @@
+-- Per-workspace, per-task LLM provider routing
+-- Read by _shared/llm.ts resolveLlmClient(). Shape:
+--   {"classify": [{"provider": "openai_compatible", "model": "gemini-2.5-flash"}, {"provider": "anthropic"}],
+--    "draft":    [{"provider": "anthropic", "model": "claude-3-5-sonnet-latest"}]}
+-- Routes are tried in order; later entries are fallbacks. Empty = built-in defaults.
+
+begin;
+
+alter table public.automation_settings
+  add column if not exists ai_model_routing jsonb not null default '{}'::jsonb;
+
+comment on column public.automation_settings.ai_model_routing is
+  'Per-task LLM provider chain (classify/draft). Providers: openai_compatible, anthropic, stub.';
+
+commit;
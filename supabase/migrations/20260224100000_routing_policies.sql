@@ -0,0 +1,52 @@
+-- Per-workspace decision routing policy for pipeline-worker-classify
+-- Replaces the hardcoded noise categories, 0.7 confidence cutoff and
+-- bucket → status mapping. Missing row = built-in defaults (_shared/routing.ts).
+
+begin;
+
+create table if not exists public.routing_policies (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null unique references public.workspaces(id) on delete cascade,
+  noise_categories text[] not null default array['notification', 'newsletter', 'spam'],
+  default_confidence_threshold numeric(3, 2) not null default 0.70
+    check (default_confidence_threshold between 0 and 1),
+  category_thresholds jsonb not null default '{}'::jsonb,
+  category_buckets jsonb not null default '{}'::jsonb,
+  bucket_statuses jsonb not null default '{}'::jsonb,
+  vip_escalation boolean not null default false,
+  vip_bucket text not null default 'needs_human'
+    check (vip_bucket in ('auto_handled', 'needs_human', 'act_now', 'quick_win')),
+  vip_senders text[] not null default '{}'::text[],
+  after_hours_bucket text
+    check (after_hours_bucket is null or after_hours_bucket in ('auto_handled', 'needs_human', 'act_now', 'quick_win')),
+  updated_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.routing_policies enable row level security;
+
+drop policy if exists routing_policies_select on public.routing_policies;
+create policy routing_policies_select
+  on public.routing_policies
+  for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists routing_policies_write on public.routing_policies;
+create policy routing_policies_write
+  on public.routing_policies
+  for all
+  using (public.bb_user_in_workspace(workspace_id))
+  with check (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists routing_policies_service_write on public.routing_policies;
+create policy routing_policies_service_write
+  on public.routing_policies
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select, insert, update on public.routing_policies to authenticated;
+grant all privileges on public.routing_policies to service_role;
+
+commit;
@@ -0,0 +1,39 @@
+-- Read-only view into bb_deadletter_jobs for the DLQ browser (pipeline-deadletter).
+-- pgmq.read would bump read_ct and hide messages behind a VT, so peek the
+-- queue table directly instead.
+
+begin;
+
+create or replace function public.bb_deadletter_peek(
+  p_workspace_id uuid,
+  p_limit integer default 200
+)
+returns table (
+  msg_id bigint,
+  enqueued_at timestamptz,
+  message jsonb
+)
+language plpgsql
+security definer
+set search_path = public, pgmq, pg_catalog
+as $$
+begin
+  if to_regclass('pgmq.q_bb_deadletter_jobs') is null then
+    return;
+  end if;
+
+  return query
+  select q.msg_id, q.enqueued_at, q.message
+  from pgmq.q_bb_deadletter_jobs q
+  where q.message->>'workspace_id' = p_workspace_id::text
+  order by q.enqueued_at desc
+  limit greatest(least(coalesce(p_limit, 200), 1000), 1);
+end;
+$$;
+
+revoke all on function public.bb_deadletter_peek(uuid, integer)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_deadletter_peek(uuid, integer) to service_role;
+
+commit;
@@ -0,0 +1,48 @@
+-- Retrieval-augmented drafting: citations for the knowledge a draft used.
+-- Also fixes match_faq_database, which selected a non-existent faq_database.source
+-- column, and ranks by similarity so it can serve top-k retrieval.
+
+begin;
+
+alter table public.conversations
+  add column if not exists ai_draft_citations jsonb not null default '[]'::jsonb;
+
+create or replace function public.match_faq_database(
+  query_embedding vector,
+  match_workspace_id uuid,
+  match_threshold float default 0.5,
+  match_count int default 5
+)
+returns table (
+  id uuid,
+  question text,
+  answer text,
+  source text,
+  priority int4,
+  similarity float
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  select
+    f.id,
+    f.question,
+    f.answer,
+    coalesce(f.source_type, f.generation_source, f.source_url) as source,
+    f.priority,
+    (1 - (f.embedding <=> query_embedding))::float as similarity
+  from public.faq_database f
+  where f.workspace_id = match_workspace_id
+    and f.embedding is not null
+    and coalesce(f.archived, false) = false
+    and coalesce(f.enabled, true) = true
+    and 1 - (f.embedding <=> query_embedding) > match_threshold
+  order by similarity desc, f.priority desc nulls last
+  limit match_count;
+end;
+$$;
+
+commit;
@@ -0,0 +1,56 @@
+-- Pipeline run control: pause, resume, cancel and re-run (pipeline-run-control).
+-- Adds a terminal 'cancelled' run state and stops worker heartbeats from
+-- flipping a paused or cancelled run back to running.
+
+begin;
+
+alter table public.pipeline_runs
+  drop constraint if exists pipeline_runs_state_check;
+
+alter table public.pipeline_runs
+  add constraint pipeline_runs_state_check
+  check (state in ('running', 'paused', 'failed', 'completed', 'cancelled'));
+
+create or replace function public.bb_touch_pipeline_run(
+  p_run_id uuid,
+  p_metrics_patch jsonb default '{}'::jsonb,
+  p_state text default null,
+  p_last_error text default null,
+  p_mark_completed boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_run_id is null then
+    return;
+  end if;
+
+  update public.pipeline_runs
+  set
+    last_heartbeat_at = now(),
+    metrics = coalesce(public.pipeline_runs.metrics, '{}'::jsonb) || coalesce(p_metrics_patch, '{}'::jsonb),
+    state = case
+      -- Cancelled is terminal; paused only leaves via an explicit resume
+      when public.pipeline_runs.state = 'cancelled' then public.pipeline_runs.state
+      when public.pipeline_runs.state = 'paused' and p_state = 'running' then public.pipeline_runs.state
+      when p_state in ('running', 'paused', 'failed', 'completed', 'cancelled') then p_state
+      else public.pipeline_runs.state
+    end,
+    last_error = coalesce(p_last_error, public.pipeline_runs.last_error),
+    completed_at = case
+      when p_mark_completed then coalesce(public.pipeline_runs.completed_at, now())
+      else public.pipeline_runs.completed_at
+    end,
+    updated_at = now()
+  where id = p_run_id;
+end;
+$$;
+
+revoke all on function public.bb_touch_pipeline_run(uuid, jsonb, text, text, boolean)
+  from public, anon, authenticated;
+grant execute on function public.bb_touch_pipeline_run(uuid, jsonb, text, text, boolean) to service_role;
+
+commit;
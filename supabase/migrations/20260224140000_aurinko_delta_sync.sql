@@ -0,0 +1,180 @@
+-- Incremental Aurinko delta sync per mailbox, as a safety net for lapsed
+-- webhook subscriptions. bb_enqueue_delta_syncs (pg_cron, every 5 minutes)
+-- enqueues DELTA_SYNC jobs on bb_import_jobs; pipeline-worker-import pages
+-- through /email/sync/updated and /email/sync/deleted and stores the next
+-- delta tokens on the config row.
+
+begin;
+
+alter table public.email_provider_configs
+  add column if not exists delta_updated_token text,
+  add column if not exists delta_deleted_token text,
+  add column if not exists delta_synced_at timestamptz,
+  add column if not exists delta_sync_enqueued_at timestamptz,
+  add column if not exists delta_sync_error text;
+
+-- Marks events whose provider message was deleted (or moved to trash) and
+-- resolves untouched conversations that no longer have any live message.
+create or replace function public.bb_reconcile_provider_deletions(
+  p_workspace_id uuid,
+  p_config_id uuid,
+  p_external_ids text[]
+)
+returns table (
+  events_marked integer,
+  conversations_resolved integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_marked integer := 0;
+  v_resolved integer := 0;
+  v_conversation_ids uuid[];
+begin
+  if p_external_ids is null or array_length(p_external_ids, 1) is null then
+    return query select 0, 0;
+    return;
+  end if;
+
+  with marked as (
+    update public.message_events me
+    set
+      metadata = coalesce(me.metadata, '{}'::jsonb) || jsonb_build_object('provider_deleted_at', now()),
+      updated_at = now()
+    where me.workspace_id = p_workspace_id
+      and me.channel = 'email'
+      and me.config_id = p_config_id
+      and me.external_id = any(p_external_ids)
+      and not (coalesce(me.metadata, '{}'::jsonb) ? 'provider_deleted_at')
+    returning me.materialized_conversation_id
+  )
+  select
+    count(*)::integer,
+    array_agg(distinct materialized_conversation_id) filter (where materialized_conversation_id is not null)
+  into v_marked, v_conversation_ids
+  from marked;
+
+  if v_conversation_ids is not null then
+    update public.conversations c
+    set
+      status = 'resolved',
+      resolved_at = coalesce(c.resolved_at, now()),
+      metadata = coalesce(c.metadata, '{}'::jsonb) || jsonb_build_object('resolved_reason', 'deleted_in_mailbox'),
+      updated_at = now()
+    where c.id = any(v_conversation_ids)
+      and c.status = 'new'
+      and not exists (
+        select 1
+        from public.message_events me
+        where me.materialized_conversation_id = c.id
+          and not (coalesce(me.metadata, '{}'::jsonb) ? 'provider_deleted_at')
+      );
+
+    get diagnostics v_resolved = row_count;
+  end if;
+
+  return query select v_marked, v_resolved;
+end;
+$$;
+
+-- Enqueues a DELTA_SYNC job for each connected mailbox that is due, not
+-- already syncing and not in the middle of an onboarding/backfill run.
+-- A job that never finishes (dead-lettered) is retried after 30 minutes.
+create or replace function public.bb_enqueue_delta_syncs(
+  p_min_interval_minutes integer default 5,
+  p_limit integer default 200
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_jobs jsonb[];
+begin
+  with due as (
+    select epc.id
+    from public.email_provider_configs epc
+    where coalesce(btrim(epc.access_token), '') <> ''
+      and (
+        epc.delta_synced_at is null
+        or epc.delta_synced_at < now() - make_interval(mins => greatest(1, p_min_interval_minutes))
+      )
+      and (
+        epc.delta_sync_enqueued_at is null
+        or epc.delta_synced_at >= epc.delta_sync_enqueued_at
+        or epc.delta_sync_enqueued_at < now() - interval '30 minutes'
+      )
+      and not exists (
+        select 1
+        from public.pipeline_runs pr
+        where pr.config_id = epc.id
+          and pr.state in ('running', 'paused')
+      )
+    order by epc.delta_synced_at asc nulls first
+    limit greatest(1, p_limit)
+    for update of epc skip locked
+  ),
+  marked as (
+    update public.email_provider_configs epc
+    set delta_sync_enqueued_at = now()
+    from due
+    where epc.id = due.id
+    returning epc.id, epc.workspace_id
+  )
+  select array_agg(
+    jsonb_build_object(
+      'job_type', 'DELTA_SYNC',
+      'workspace_id', marked.workspace_id,
+      'config_id', marked.id,
+      'phase', 'updated',
+      'pageToken', null,
+      'pages', 0,
+      'rate_limit_count', 0
+    )
+  )
+  into v_jobs
+  from marked;
+
+  if v_jobs is null then
+    return 0;
+  end if;
+
+  perform public.bb_queue_send_batch('bb_import_jobs', v_jobs, 0);
+  return array_length(v_jobs, 1);
+end;
+$$;
+
+revoke all on function public.bb_reconcile_provider_deletions(uuid, uuid, text[])
+  from public, anon, authenticated;
+revoke all on function public.bb_enqueue_delta_syncs(integer, integer)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_reconcile_provider_deletions(uuid, uuid, text[]) to service_role;
+grant execute on function public.bb_enqueue_delta_syncs(integer, integer) to service_role;
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname = 'bb_enqueue_delta_syncs';
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_enqueue_delta_syncs',
+    '*/5 * * * *',
+    'select public.bb_enqueue_delta_syncs()'
+  );
+exception when others then
+  raise notice 'delta sync cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+commit;
@@ -0,0 +1,198 @@
+-- Inbound email attachments: one message_attachments row per file, fetched
+-- from Aurinko by pipeline-worker-attachments (queue bb_attachment_jobs) into
+-- the message-attachments bucket, then routed by kind: images to
+-- image-analyze, audio to audio-process, documents to text extraction.
+-- extracted_text feeds pipeline-worker-classify.
+
+begin;
+
+create table if not exists public.message_attachments (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  conversation_id uuid references public.conversations(id) on delete cascade,
+  message_id uuid not null references public.messages(id) on delete cascade,
+  event_id uuid references public.message_events(id) on delete set null,
+  config_id uuid,
+  external_message_id text not null,
+  external_attachment_id text not null,
+  filename text not null,
+  content_type text,
+  size_bytes bigint,
+  is_inline boolean not null default false,
+  kind text not null default 'other' check (kind in ('image', 'audio', 'document', 'other')),
+  status text not null default 'pending'
+    check (status in ('pending', 'stored', 'processed', 'skipped', 'quarantined', 'failed')),
+  storage_path text,
+  extracted_text text,
+  analysis jsonb,
+  skip_reason text,
+  last_error text,
+  processed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (message_id, external_attachment_id)
+);
+
+create index if not exists message_attachments_message_idx
+  on public.message_attachments (message_id, status);
+
+create index if not exists message_attachments_workspace_idx
+  on public.message_attachments (workspace_id, created_at desc);
+
+alter table public.message_attachments enable row level security;
+
+drop policy if exists message_attachments_select on public.message_attachments;
+create policy message_attachments_select
+  on public.message_attachments
+  for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists message_attachments_service_write on public.message_attachments;
+create policy message_attachments_service_write
+  on public.message_attachments
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select on public.message_attachments to authenticated;
+grant all privileges on public.message_attachments to service_role;
+
+-- Audio and HTML were not allowed in the bucket yet
+update storage.buckets
+set allowed_mime_types = array[
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv',
+  'text/html',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/ogg',
+  'audio/webm'
+]
+where id = 'message-attachments';
+
+do $$
+begin
+  begin
+    perform pgmq.create('bb_attachment_jobs');
+  exception when others then
+    raise notice 'Queue bb_attachment_jobs create skipped: %', sqlerrm;
+  end;
+end;
+$$;
+
+create or replace view public.bb_queue_depths as
+select *
+from (
+  values
+    ('bb_import_jobs'::text),
+    ('bb_ingest_jobs'::text),
+    ('bb_classify_jobs'::text),
+    ('bb_draft_jobs'::text),
+    ('bb_attachment_jobs'::text),
+    ('bb_deadletter_jobs'::text)
+) as q(queue_name)
+cross join lateral (
+  select public.bb_queue_visible_count(q.queue_name) as visible_messages
+) depth;
+
+alter view public.bb_queue_depths set (security_invoker = true);
+
+create or replace function public.bb_unschedule_pipeline_crons()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_removed integer := 0;
+begin
+  for v_job in
+    select jobid
+    from cron.job
+    where jobname in (
+      'bb_pipeline_worker_import',
+      'bb_pipeline_worker_ingest',
+      'bb_pipeline_worker_classify',
+      'bb_pipeline_worker_draft',
+      'bb_pipeline_worker_attachments',
+      'bb_pipeline_supervisor'
+    )
+  loop
+    perform cron.unschedule(v_job.jobid);
+    v_removed := v_removed + 1;
+  end loop;
+
+  return v_removed;
+end;
+$$;
+
+create or replace function public.bb_schedule_pipeline_crons()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.bb_unschedule_pipeline_crons();
+
+  perform cron.schedule(
+    'bb_pipeline_worker_import',
+    '10 seconds',
+    'select public.bb_trigger_worker(''bb_worker_import_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_ingest',
+    '10 seconds',
+    'select public.bb_trigger_worker(''bb_worker_ingest_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_classify',
+    '10 seconds',
+    'select public.bb_trigger_worker(''bb_worker_classify_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_draft',
+    '25 seconds',
+    'select public.bb_trigger_worker(''bb_worker_draft_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_attachments',
+    '15 seconds',
+    'select public.bb_trigger_worker(''bb_worker_attachments_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_supervisor',
+    '2 minutes',
+    'select public.bb_trigger_worker(''bb_worker_supervisor_url'')'
+  );
+end;
+$$;
+
+revoke all on function public.bb_schedule_pipeline_crons()
+  from public, anon, authenticated;
+revoke all on function public.bb_unschedule_pipeline_crons()
+  from public, anon, authenticated;
+
+grant execute on function public.bb_schedule_pipeline_crons() to service_role;
+grant execute on function public.bb_unschedule_pipeline_crons() to service_role;
+
+commit;
@@ -0,0 +1,83 @@
+-- Learning from draft edits. DraftReplyEditor stores a structured diff on
+-- draft_edits; draft-style-miner (pg_cron, daily) turns recurring edits into
+-- proposed style_rules, and accepted rules are added to the draft prompt.
+
+begin;
+
+alter table public.draft_edits
+  add column if not exists diff jsonb;
+
+create index if not exists draft_edits_workspace_created_idx
+  on public.draft_edits (workspace_id, created_at desc);
+
+create table if not exists public.style_rules (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  kind text not null
+    check (kind in ('greeting', 'signoff', 'avoid_phrase', 'add_phrase', 'include_link', 'price_correction')),
+  -- Normalised pattern, so re-mining updates the same proposal
+  rule_key text not null,
+  instruction text not null,
+  pattern jsonb not null default '{}'::jsonb,
+  support_count integer not null default 0,
+  example_edit_ids uuid[] not null default '{}'::uuid[],
+  status text not null default 'proposed' check (status in ('proposed', 'accepted', 'dismissed')),
+  decided_by uuid,
+  decided_at timestamptz,
+  last_seen_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (workspace_id, kind, rule_key)
+);
+
+create index if not exists style_rules_workspace_status_idx
+  on public.style_rules (workspace_id, status);
+
+alter table public.style_rules enable row level security;
+
+drop policy if exists style_rules_select on public.style_rules;
+create policy style_rules_select
+  on public.style_rules
+  for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists style_rules_write on public.style_rules;
+create policy style_rules_write
+  on public.style_rules
+  for update
+  using (public.bb_user_in_workspace(workspace_id))
+  with check (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists style_rules_service_write on public.style_rules;
+create policy style_rules_service_write
+  on public.style_rules
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select, update on public.style_rules to authenticated;
+grant all privileges on public.style_rules to service_role;
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname = 'bb_draft_style_miner';
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_draft_style_miner',
+    '20 3 * * *',
+    'select public.bb_trigger_worker(''bb_worker_style_miner_url'')'
+  );
+exception when others then
+  raise notice 'draft style miner cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+commit;
@@ -0,0 +1,326 @@
+-- Business-hours SLA engine. Inbound/outbound messages and priority or status
+-- changes enqueue bb_sla_jobs; pipeline-worker-sla recalculates the
+-- first-response and resolution targets from sla_configs, pausing the clock
+-- outside workspace business hours and on UK bank holidays, and refreshes
+-- sla_status as deadlines approach.
+
+begin;
+
+alter table public.sla_configs
+  add column if not exists resolution_minutes integer;
+
+alter table public.workspaces
+  add column if not exists bank_holiday_region text not null default 'england-and-wales';
+
+alter table public.conversations
+  add column if not exists sla_response_due_at timestamptz,
+  add column if not exists sla_resolution_due_at timestamptz,
+  add column if not exists sla_warning_at timestamptz,
+  add column if not exists sla_calculated_at timestamptz;
+
+create index if not exists conversations_sla_refresh_idx
+  on public.conversations (sla_due_at)
+  where sla_due_at is not null;
+
+-- Regions match the gov.uk bank holidays feed
+create table if not exists public.bank_holidays (
+  region text not null check (region in ('england-and-wales', 'scotland', 'northern-ireland')),
+  holiday_date date not null,
+  title text not null,
+  fetched_at timestamptz not null default now(),
+  primary key (region, holiday_date)
+);
+
+alter table public.bank_holidays enable row level security;
+
+drop policy if exists bank_holidays_select on public.bank_holidays;
+create policy bank_holidays_select
+  on public.bank_holidays
+  for select
+  using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+
+drop policy if exists bank_holidays_service_write on public.bank_holidays;
+create policy bank_holidays_service_write
+  on public.bank_holidays
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select on public.bank_holidays to authenticated;
+grant all privileges on public.bank_holidays to service_role;
+
+-- Seed so the engine works before the first gov.uk refresh
+insert into public.bank_holidays (region, holiday_date, title)
+values
+  ('england-and-wales', '2025-01-01', 'New Year’s Day'),
+  ('england-and-wales', '2025-04-18', 'Good Friday'),
+  ('england-and-wales', '2025-04-21', 'Easter Monday'),
+  ('england-and-wales', '2025-05-05', 'Early May bank holiday'),
+  ('england-and-wales', '2025-05-26', 'Spring bank holiday'),
+  ('england-and-wales', '2025-08-25', 'Summer bank holiday'),
+  ('england-and-wales', '2025-12-25', 'Christmas Day'),
+  ('england-and-wales', '2025-12-26', 'Boxing Day'),
+  ('england-and-wales', '2026-01-01', 'New Year’s Day'),
+  ('england-and-wales', '2026-04-03', 'Good Friday'),
+  ('england-and-wales', '2026-04-06', 'Easter Monday'),
+  ('england-and-wales', '2026-05-04', 'Early May bank holiday'),
+  ('england-and-wales', '2026-05-25', 'Spring bank holiday'),
+  ('england-and-wales', '2026-08-31', 'Summer bank holiday'),
+  ('england-and-wales', '2026-12-25', 'Christmas Day'),
+  ('england-and-wales', '2026-12-28', 'Boxing Day'),
+  ('england-and-wales', '2027-01-01', 'New Year’s Day'),
+  ('england-and-wales', '2027-03-26', 'Good Friday'),
+  ('england-and-wales', '2027-03-29', 'Easter Monday'),
+  ('england-and-wales', '2027-05-03', 'Early May bank holiday'),
+  ('england-and-wales', '2027-05-31', 'Spring bank holiday'),
+  ('england-and-wales', '2027-08-30', 'Summer bank holiday'),
+  ('england-and-wales', '2027-12-27', 'Christmas Day'),
+  ('england-and-wales', '2027-12-28', 'Boxing Day')
+on conflict (region, holiday_date) do nothing;
+
+do $$
+begin
+  begin
+    perform pgmq.create('bb_sla_jobs');
+  exception when others then
+    raise notice 'Queue bb_sla_jobs create skipped: %', sqlerrm;
+  end;
+end;
+$$;
+
+create or replace function public.bb_enqueue_sla_recalc(
+  p_workspace_id uuid,
+  p_conversation_id uuid,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_workspace_id is null or p_conversation_id is null then
+    return;
+  end if;
+
+  perform public.bb_queue_send(
+    'bb_sla_jobs',
+    jsonb_build_object(
+      'job_type', 'SLA_RECALC',
+      'workspace_id', p_workspace_id,
+      'conversation_id', p_conversation_id,
+      'reason', p_reason
+    ),
+    0
+  );
+end;
+$$;
+
+-- Older messages (historical imports) do not start an SLA clock
+create or replace function public.bb_sla_on_message_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace_id uuid;
+begin
+  if new.is_internal is true or new.conversation_id is null
+     or new.created_at < now() - interval '2 days' then
+    return new;
+  end if;
+
+  select workspace_id into v_workspace_id
+  from public.conversations
+  where id = new.conversation_id;
+
+  perform public.bb_enqueue_sla_recalc(
+    v_workspace_id,
+    new.conversation_id,
+    case when new.direction = 'inbound' then 'inbound_message' else 'reply' end
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists bb_sla_on_message_insert on public.messages;
+create trigger bb_sla_on_message_insert
+  after insert on public.messages
+  for each row
+  execute function public.bb_sla_on_message_insert();
+
+create or replace function public.bb_sla_on_conversation_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.bb_enqueue_sla_recalc(
+    new.workspace_id,
+    new.id,
+    case when new.priority is distinct from old.priority then 'priority_changed' else 'status_changed' end
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists bb_sla_on_conversation_update on public.conversations;
+create trigger bb_sla_on_conversation_update
+  after update of priority, status on public.conversations
+  for each row
+  when (old.priority is distinct from new.priority or old.status is distinct from new.status)
+  execute function public.bb_sla_on_conversation_update();
+
+-- Time-driven transitions; the worker stores sla_warning_at so this stays plain SQL
+create or replace function public.bb_refresh_sla_statuses()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  update public.conversations c
+  set sla_status = s.next_status
+  from (
+    select
+      id,
+      case
+        when sla_due_at <= now() then 'breached'
+        when sla_warning_at is not null and sla_warning_at <= now() then 'warning'
+        else 'safe'
+      end as next_status
+    from public.conversations
+    where sla_due_at is not null
+      and sla_due_at <= now() + interval '1 day'
+  ) s
+  where c.id = s.id
+    and c.sla_status is distinct from s.next_status;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke all on function public.bb_enqueue_sla_recalc(uuid, uuid, text)
+  from public, anon, authenticated;
+revoke all on function public.bb_refresh_sla_statuses()
+  from public, anon, authenticated;
+
+grant execute on function public.bb_enqueue_sla_recalc(uuid, uuid, text) to service_role;
+grant execute on function public.bb_refresh_sla_statuses() to service_role;
+
+create or replace view public.bb_queue_depths as
+select *
+from (
+  values
+    ('bb_import_jobs'::text),
+    ('bb_ingest_jobs'::text),
+    ('bb_classify_jobs'::text),
+    ('bb_draft_jobs'::text),
+    ('bb_attachment_jobs'::text),
+    ('bb_sla_jobs'::text),
+    ('bb_deadletter_jobs'::text)
+) as q(queue_name)
+cross join lateral (
+  select public.bb_queue_visible_count(q.queue_name) as visible_messages
+) depth;
+
+alter view public.bb_queue_depths set (security_invoker = true);
+
+create or replace function public.bb_unschedule_pipeline_crons()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_removed integer := 0;
+begin
+  for v_job in
+    select jobid
+    from cron.job
+    where jobname in (
+      'bb_pipeline_worker_import',
+      'bb_pipeline_worker_ingest',
+      'bb_pipeline_worker_classify',
+      'bb_pipeline_worker_draft',
+      'bb_pipeline_worker_attachments',
+      'bb_pipeline_worker_sla',
+      'bb_pipeline_supervisor'
+    )
+  loop
+    perform cron.unschedule(v_job.jobid);
+    v_removed := v_removed + 1;
+  end loop;
+
+  return v_removed;
+end;
+$$;
+
+create or replace function public.bb_schedule_pipeline_crons()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.bb_unschedule_pipeline_crons();
+
+  perform cron.schedule(
+    'bb_pipeline_worker_import',
+    '10 seconds',
+    'select public.bb_trigger_worker(''bb_worker_import_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_ingest',
+    '10 seconds',
+    'select public.bb_trigger_worker(''bb_worker_ingest_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_classify',
+    '10 seconds',
+    'select public.bb_trigger_worker(''bb_worker_classify_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_draft',
+    '25 seconds',
+    'select public.bb_trigger_worker(''bb_worker_draft_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_attachments',
+    '15 seconds',
+    'select public.bb_trigger_worker(''bb_worker_attachments_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_worker_sla',
+    '30 seconds',
+    'select public.bb_trigger_worker(''bb_worker_sla_url'')'
+  );
+
+  perform cron.schedule(
+    'bb_pipeline_supervisor',
+    '2 minutes',
+    'select public.bb_trigger_worker(''bb_worker_supervisor_url'')'
+  );
+end;
+$$;
+
+revoke all on function public.bb_schedule_pipeline_crons()
+  from public, anon, authenticated;
+revoke all on function public.bb_unschedule_pipeline_crons()
+  from public, anon, authenticated;
+
+grant execute on function public.bb_schedule_pipeline_crons() to service_role;
+grant execute on function public.bb_unschedule_pipeline_crons() to service_role;
+
+commit;
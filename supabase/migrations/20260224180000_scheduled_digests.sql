@@ -0,0 +1,71 @@
+-- Scheduled inbox digests. send-scheduled-summary (pg_cron, every 5 minutes)
+-- checks notification_preferences.summary_times in each workspace's timezone,
+-- writes the digest to notifications and delivers it by email/SMS.
+-- digest_deliveries records one row per slot and channel so a slot is never
+-- sent twice.
+
+begin;
+
+create table if not exists public.digest_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  -- Local date and time of the slot, e.g. 2026-03-02T08:00
+  slot_key text not null,
+  channel text not null check (channel in ('in_app', 'email', 'sms')),
+  recipient text,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed', 'skipped')),
+  provider text,
+  external_id text,
+  notification_id uuid references public.notifications(id) on delete set null,
+  error text,
+  period_start timestamptz,
+  period_end timestamptz,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  unique (workspace_id, slot_key, channel)
+);
+
+create index if not exists digest_deliveries_workspace_idx
+  on public.digest_deliveries (workspace_id, created_at desc);
+
+alter table public.digest_deliveries enable row level security;
+
+drop policy if exists digest_deliveries_select on public.digest_deliveries;
+create policy digest_deliveries_select
+  on public.digest_deliveries
+  for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists digest_deliveries_service_write on public.digest_deliveries;
+create policy digest_deliveries_service_write
+  on public.digest_deliveries
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select on public.digest_deliveries to authenticated;
+grant all privileges on public.digest_deliveries to service_role;
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname = 'bb_send_scheduled_summary';
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_send_scheduled_summary',
+    '*/5 * * * *',
+    'select public.bb_trigger_worker(''bb_worker_summary_url'')'
+  );
+exception when others then
+  raise notice 'scheduled summary cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+commit;
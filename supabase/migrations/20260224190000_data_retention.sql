@@ -0,0 +1,87 @@
+-- Enforce data_retention_policies. The data-retention function (pg_cron,
+-- nightly) anonymises or deletes closed conversations older than the
+-- policy, together with their message_events payloads, attachments,
+-- voicemail transcripts and raw_emails. legal_holds keeps a customer or
+-- conversation out of every run until the hold is released. Each action is
+-- written to data_access_logs.
+
+begin;
+
+create table if not exists public.legal_holds (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  customer_id uuid references public.customers(id) on delete cascade,
+  conversation_id uuid references public.conversations(id) on delete cascade,
+  reason text not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  released_at timestamptz,
+  released_by uuid references auth.users(id) on delete set null,
+  constraint legal_holds_target_check check (customer_id is not null or conversation_id is not null)
+);
+
+create index if not exists legal_holds_active_idx
+  on public.legal_holds (workspace_id)
+  where released_at is null;
+
+alter table public.legal_holds enable row level security;
+
+drop policy if exists legal_holds_select on public.legal_holds;
+create policy legal_holds_select
+  on public.legal_holds
+  for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists legal_holds_write on public.legal_holds;
+create policy legal_holds_write
+  on public.legal_holds
+  for all
+  using (public.bb_user_in_workspace(workspace_id))
+  with check (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists legal_holds_service_write on public.legal_holds;
+create policy legal_holds_service_write
+  on public.legal_holds
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select, insert, update on public.legal_holds to authenticated;
+grant all privileges on public.legal_holds to service_role;
+
+alter table public.data_retention_policies
+  add column if not exists last_run_at timestamptz,
+  add column if not exists last_run_report jsonb,
+  add column if not exists last_dry_run_report jsonb;
+
+-- Set once a conversation has been anonymised so later runs skip it
+alter table public.conversations
+  add column if not exists retention_processed_at timestamptz;
+
+create index if not exists conversations_retention_candidates_idx
+  on public.conversations (workspace_id, updated_at)
+  where retention_processed_at is null and status in ('resolved', 'closed');
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname = 'bb_data_retention';
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_data_retention',
+    '40 2 * * *',
+    'select public.bb_trigger_worker(''bb_worker_retention_url'')'
+  );
+exception when others then
+  raise notice 'data retention cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+commit;
@@ -0,0 +1,193 @@
+-- Full-text search over conversations. Message bodies, conversation titles
+-- and summaries, and attachment text get stored tsvector columns with GIN
+-- indexes; customer names/emails are matched through the conversation.
+-- bb_search_conversations ranks conversations by their best hits and
+-- returns a highlighted snippet (matches wrapped in « »).
+-- bb_similar_conversations is the workspace-scoped embedding lookup behind
+-- "find similar conversations".
+
+begin;
+
+alter table public.messages
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', left(coalesce(body, ''), 100000))) stored;
+
+create index if not exists messages_search_vector_idx
+  on public.messages using gin (search_vector);
+
+alter table public.conversations
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(summary_for_human, '')), 'B')
+  ) stored;
+
+create index if not exists conversations_search_vector_idx
+  on public.conversations using gin (search_vector);
+
+alter table public.message_attachments
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(filename, '')), 'A')
+    || setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 100000)), 'C')
+  ) stored;
+
+create index if not exists message_attachments_search_vector_idx
+  on public.message_attachments using gin (search_vector);
+
+create or replace function public.bb_search_conversations(
+  p_workspace_id uuid,
+  p_query text default null,
+  p_from text default null,
+  p_channels text[] default null,
+  p_categories text[] default null,
+  p_statuses text[] default null,
+  p_priorities text[] default null,
+  p_before timestamptz default null,
+  p_after timestamptz default null,
+  p_limit integer default 50,
+  p_offset integer default 0
+)
+returns table (
+  conversation_id uuid,
+  rank real,
+  matched_in text,
+  snippet text,
+  total_count bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select case
+      when coalesce(trim(p_query), '') = '' then null
+      else websearch_to_tsquery('english', p_query)
+    end as tsq
+  ),
+  scoped as (
+    select c.id, c.title, c.summary_for_human, c.search_vector, c.updated_at, cu.name as customer_name, cu.email as customer_email
+    from public.conversations c
+    left join public.customers cu on cu.id = c.customer_id
+    where c.workspace_id = p_workspace_id
+      and (auth.role() = 'service_role' or public.bb_user_in_workspace(p_workspace_id))
+      and (p_channels is null or c.channel = any(p_channels))
+      and (p_categories is null or c.category = any(p_categories) or c.email_classification = any(p_categories))
+      and (p_statuses is null or c.status = any(p_statuses))
+      and (p_priorities is null or c.priority = any(p_priorities))
+      and (p_before is null or c.created_at < p_before)
+      and (p_after is null or c.created_at >= p_after)
+      and (
+        coalesce(trim(p_from), '') = ''
+        or cu.email ilike '%' || trim(p_from) || '%'
+        or cu.name ilike '%' || trim(p_from) || '%'
+      )
+  ),
+  hits as (
+    select s.id as conversation_id, ts_rank(s.search_vector, q.tsq) * 1.5 as rank, 'conversation'::text as matched_in,
+      concat_ws(' - ', s.title, s.summary_for_human) as doc
+    from scoped s, q
+    where q.tsq is not null and s.search_vector @@ q.tsq
+    union all
+    select m.conversation_id, ts_rank(m.search_vector, q.tsq), 'message', m.body
+    from public.messages m
+    join scoped s on s.id = m.conversation_id, q
+    where q.tsq is not null and m.search_vector @@ q.tsq and coalesce(m.is_internal, false) = false
+    union all
+    select a.conversation_id, ts_rank(a.search_vector, q.tsq) * 0.8, 'attachment',
+      concat_ws(': ', a.filename, a.extracted_text)
+    from public.message_attachments a
+    join scoped s on s.id = a.conversation_id, q
+    where q.tsq is not null and a.search_vector @@ q.tsq
+    union all
+    select s.id, ts_rank(to_tsvector('simple', concat_ws(' ', s.customer_name, s.customer_email)), q.tsq), 'customer',
+      concat_ws(' ', s.customer_name, s.customer_email)
+    from scoped s, q
+    where q.tsq is not null
+      and to_tsvector('simple', concat_ws(' ', s.customer_name, s.customer_email)) @@ q.tsq
+  ),
+  best as (
+    select distinct on (h.conversation_id) h.conversation_id, h.matched_in, h.doc
+    from hits h
+    order by h.conversation_id, h.rank desc
+  ),
+  ranked as (
+    select h.conversation_id, sum(h.rank)::real as rank
+    from hits h
+    group by h.conversation_id
+    union all
+    -- Operators without search words: newest first
+    select s.id, 0::real
+    from scoped s, q
+    where q.tsq is null
+  ),
+  page as (
+    select r.conversation_id, r.rank, count(*) over () as total_count, s.updated_at
+    from ranked r
+    join scoped s on s.id = r.conversation_id
+    order by r.rank desc, s.updated_at desc
+    limit least(greatest(coalesce(p_limit, 50), 1), 200)
+    offset greatest(coalesce(p_offset, 0), 0)
+  )
+  select
+    p.conversation_id,
+    p.rank,
+    b.matched_in,
+    case when b.doc is null then null else ts_headline(
+      'english',
+      left(b.doc, 20000),
+      q.tsq,
+      'StartSel=«, StopSel=», MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) end as snippet,
+    p.total_count
+  from page p
+  cross join q
+  left join best b on b.conversation_id = p.conversation_id
+  order by p.rank desc, p.updated_at desc;
+$$;
+
+revoke all on function public.bb_search_conversations(uuid, text, text, text[], text[], text[], text[], timestamptz, timestamptz, integer, integer) from public;
+grant execute on function public.bb_search_conversations(uuid, text, text, text[], text[], text[], text[], timestamptz, timestamptz, integer, integer) to authenticated, service_role;
+
+create or replace function public.bb_similar_conversations(
+  p_workspace_id uuid,
+  p_embedding vector(1536),
+  p_match_count integer default 10,
+  p_exclude_id uuid default null
+)
+returns table (
+  conversation_id uuid,
+  title text,
+  status text,
+  category text,
+  customer_name text,
+  updated_at timestamptz,
+  similarity double precision
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.title,
+    c.status,
+    c.category,
+    coalesce(cu.name, cu.email),
+    c.updated_at,
+    1 - (c.embedding <=> p_embedding)
+  from public.conversations c
+  left join public.customers cu on cu.id = c.customer_id
+  where c.workspace_id = p_workspace_id
+    and c.embedding is not null
+    and (p_exclude_id is null or c.id <> p_exclude_id)
+  order by c.embedding <=> p_embedding
+  limit least(greatest(coalesce(p_match_count, 10), 1), 50);
+$$;
+
+revoke all on function public.bb_similar_conversations(uuid, vector, integer, uuid) from public;
+grant execute on function public.bb_similar_conversations(uuid, vector, integer, uuid) to service_role;
+
+commit;
@@ -0,0 +1,59 @@
+-- Reply templates with merge fields and per-channel variants.
+-- templates.body is the default text; channel_variants holds overrides keyed
+-- by channel (e.g. {"sms": "Short version"}). Merge fields such as
+-- {{customer.first_name}} are filled in server-side by render-template,
+-- which also records usage. Access is scoped with bb_user_in_workspace.
+
+begin;
+
+alter table public.templates
+  add column if not exists folder text,
+  add column if not exists subject text,
+  add column if not exists channel_variants jsonb not null default '{}'::jsonb,
+  add column if not exists created_by uuid references auth.users(id) on delete set null,
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists last_used_at timestamptz,
+  add column if not exists archived_at timestamptz;
+
+do $$
+begin
+  alter table public.templates
+    add constraint templates_channel_variants_object_check
+    check (jsonb_typeof(channel_variants) = 'object');
+exception when duplicate_object then
+  null;
+end;
+$$;
+
+create index if not exists templates_workspace_idx
+  on public.templates (workspace_id, folder)
+  where archived_at is null;
+
+-- Replace the original users.workspace_id policies; updates were never allowed
+drop policy if exists "Users can view workspace templates" on public.templates;
+drop policy if exists "Users can create templates" on public.templates;
+
+drop policy if exists templates_select on public.templates;
+create policy templates_select
+  on public.templates
+  for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists templates_write on public.templates;
+create policy templates_write
+  on public.templates
+  for all
+  using (public.bb_user_in_workspace(workspace_id))
+  with check (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists templates_service_write on public.templates;
+create policy templates_service_write
+  on public.templates
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select, insert, update, delete on public.templates to authenticated;
+grant all privileges on public.templates to service_role;
+
+commit;
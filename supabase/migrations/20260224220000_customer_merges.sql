@@ -0,0 +1,412 @@
+-- ============================================================
+-- Reversible customer merges
+--
+-- bb_merge_customers used to delete the losing customer, which
+-- cascaded away its consents, insights and deletion requests and
+-- left nothing to undo. Merges are now soft: the loser row stays
+-- with merged_into_id set, and customer_merges records exactly
+-- which rows moved so bb_unmerge_customers can put them back.
+--
+-- bb_customer_merge_candidates proposes duplicate pairs from
+-- shared normalized emails/phones (customers + customer_identities)
+-- and identical full names.
+-- ============================================================
+
+begin;
+
+alter table public.customers
+  add column if not exists merged_into_id uuid references public.customers(id) on delete set null,
+  add column if not exists merged_at timestamptz;
+
+create index if not exists customers_merged_into_idx
+  on public.customers (merged_into_id)
+  where merged_into_id is not null;
+
+create table if not exists public.customer_merges (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  winner_id uuid not null references public.customers(id) on delete cascade,
+  loser_id uuid not null references public.customers(id) on delete cascade,
+  merged_by uuid references public.users(id) on delete set null,
+  match_reason text,
+  -- {conversations: [...], identities: [...], message_events: [...], consents: [...], insights: [...]}
+  moved jsonb not null default '{}'::jsonb,
+  -- Winner fields before gap-filling, restored on unmerge
+  winner_before jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  unmerged_at timestamptz,
+  unmerged_by uuid references public.users(id) on delete set null
+);
+
+create index if not exists customer_merges_workspace_idx
+  on public.customer_merges (workspace_id, created_at desc);
+
+create index if not exists customer_merges_loser_idx
+  on public.customer_merges (loser_id)
+  where unmerged_at is null;
+
+alter table public.customer_merges enable row level security;
+
+drop policy if exists customer_merges_select on public.customer_merges;
+create policy customer_merges_select
+  on public.customer_merges for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists customer_merges_service_write on public.customer_merges;
+create policy customer_merges_service_write
+  on public.customer_merges for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select on public.customer_merges to authenticated;
+grant all privileges on public.customer_merges to service_role;
+
+-- ------------------------------------------------------------
+-- Merge
+-- ------------------------------------------------------------
+
+drop function if exists public.bb_merge_customers(uuid, uuid, uuid);
+
+create or replace function public.bb_merge_customers(
+  p_workspace_id uuid,
+  p_winner_id uuid,
+  p_loser_id uuid,
+  p_merged_by uuid default null,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_winner customers%rowtype;
+  v_loser customers%rowtype;
+  v_identities uuid[];
+  v_conversations uuid[];
+  v_events uuid[];
+  v_consents uuid[];
+  v_insights uuid[];
+  v_merge_id uuid;
+begin
+  if p_winner_id = p_loser_id then
+    return jsonb_build_object('error', 'winner and loser are the same customer');
+  end if;
+
+  select * into v_winner from customers
+  where id = p_winner_id and workspace_id = p_workspace_id
+  for update;
+  if not found then
+    return jsonb_build_object('error', 'winner customer not found');
+  end if;
+
+  select * into v_loser from customers
+  where id = p_loser_id and workspace_id = p_workspace_id
+  for update;
+  if not found then
+    return jsonb_build_object('error', 'loser customer not found');
+  end if;
+
+  if v_winner.merged_into_id is not null or v_loser.merged_into_id is not null then
+    return jsonb_build_object('error', 'customer has already been merged');
+  end if;
+
+  -- Identities are unique per workspace, so the loser's never collide
+  -- with the winner's and can all move.
+  with moved as (
+    update customer_identities
+    set customer_id = p_winner_id
+    where customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_identities from moved;
+
+  with moved as (
+    update conversations
+    set customer_id = p_winner_id, updated_at = now()
+    where customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_conversations from moved;
+
+  with moved as (
+    update message_events
+    set materialized_customer_id = p_winner_id
+    where materialized_customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_events from moved;
+
+  with moved as (
+    update customer_consents
+    set customer_id = p_winner_id, updated_at = now()
+    where customer_id = p_loser_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_consents from moved;
+
+  -- One insight per type per customer; the winner's own insight wins
+  with moved as (
+    update customer_insights ci
+    set customer_id = p_winner_id
+    where ci.customer_id = p_loser_id
+      and not exists (
+        select 1 from customer_insights w
+        where w.customer_id = p_winner_id
+          and w.insight_type = ci.insight_type
+      )
+    returning ci.id
+  )
+  select coalesce(array_agg(id), '{}') into v_insights from moved;
+
+  -- Fill gaps on the winner from the loser
+  update customers set
+    name = coalesce(v_winner.name, v_loser.name),
+    email = coalesce(v_winner.email, v_loser.email),
+    phone = coalesce(v_winner.phone, v_loser.phone),
+    notes = case
+      when v_loser.notes is not null and v_winner.notes is not null
+        then v_winner.notes || E'\n[Merged] ' || v_loser.notes
+      else coalesce(v_winner.notes, v_loser.notes)
+    end,
+    updated_at = now()
+  where id = p_winner_id;
+
+  update customers set
+    merged_into_id = p_winner_id,
+    merged_at = now(),
+    updated_at = now()
+  where id = p_loser_id;
+
+  insert into customer_merges (
+    workspace_id, winner_id, loser_id, merged_by, match_reason, moved, winner_before
+  ) values (
+    p_workspace_id,
+    p_winner_id,
+    p_loser_id,
+    p_merged_by,
+    p_reason,
+    jsonb_build_object(
+      'conversations', to_jsonb(v_conversations),
+      'identities', to_jsonb(v_identities),
+      'message_events', to_jsonb(v_events),
+      'consents', to_jsonb(v_consents),
+      'insights', to_jsonb(v_insights)
+    ),
+    jsonb_build_object(
+      'name', v_winner.name,
+      'email', v_winner.email,
+      'phone', v_winner.phone,
+      'notes', v_winner.notes
+    )
+  )
+  returning id into v_merge_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'merge_id', v_merge_id,
+    'winner_id', p_winner_id,
+    'loser_id', p_loser_id,
+    'moved_identities', coalesce(array_length(v_identities, 1), 0),
+    'moved_conversations', coalesce(array_length(v_conversations, 1), 0)
+  );
+end;
+$$;
+
+revoke all on function public.bb_merge_customers(uuid, uuid, uuid, uuid, text)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_merge_customers(uuid, uuid, uuid, uuid, text)
+  to service_role;
+
+-- ------------------------------------------------------------
+-- Unmerge
+-- ------------------------------------------------------------
+
+create or replace function public.bb_unmerge_customers(
+  p_merge_id uuid,
+  p_unmerged_by uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_merge customer_merges%rowtype;
+  v_conversations int := 0;
+  v_identities int := 0;
+begin
+  select * into v_merge from customer_merges
+  where id = p_merge_id
+  for update;
+  if not found then
+    return jsonb_build_object('error', 'merge not found');
+  end if;
+
+  if v_merge.unmerged_at is not null then
+    return jsonb_build_object('error', 'merge has already been undone');
+  end if;
+
+  -- Rows that moved on again (winner merged elsewhere) can't be traced back
+  if exists (
+    select 1 from customers
+    where id = v_merge.winner_id and merged_into_id is not null
+  ) then
+    return jsonb_build_object('error', 'the kept customer was merged again; undo that merge first');
+  end if;
+
+  -- Only rows still on the winner go back; anything reassigned since stays put
+  with moved as (
+    update conversations
+    set customer_id = v_merge.loser_id, updated_at = now()
+    where customer_id = v_merge.winner_id
+      and id in (select jsonb_array_elements_text(v_merge.moved -> 'conversations')::uuid)
+    returning id
+  )
+  select count(*) into v_conversations from moved;
+
+  with moved as (
+    update customer_identities
+    set customer_id = v_merge.loser_id
+    where customer_id = v_merge.winner_id
+      and id in (select jsonb_array_elements_text(v_merge.moved -> 'identities')::uuid)
+    returning id
+  )
+  select count(*) into v_identities from moved;
+
+  update message_events
+  set materialized_customer_id = v_merge.loser_id
+  where materialized_customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(v_merge.moved -> 'message_events')::uuid);
+
+  update customer_consents
+  set customer_id = v_merge.loser_id, updated_at = now()
+  where customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(v_merge.moved -> 'consents')::uuid);
+
+  update customer_insights
+  set customer_id = v_merge.loser_id
+  where customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(v_merge.moved -> 'insights')::uuid);
+
+  update customers set
+    name = v_merge.winner_before ->> 'name',
+    email = v_merge.winner_before ->> 'email',
+    phone = v_merge.winner_before ->> 'phone',
+    notes = v_merge.winner_before ->> 'notes',
+    updated_at = now()
+  where id = v_merge.winner_id;
+
+  update customers set
+    merged_into_id = null,
+    merged_at = null,
+    updated_at = now()
+  where id = v_merge.loser_id;
+
+  update customer_merges set
+    unmerged_at = now(),
+    unmerged_by = p_unmerged_by
+  where id = p_merge_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'merge_id', p_merge_id,
+    'winner_id', v_merge.winner_id,
+    'loser_id', v_merge.loser_id,
+    'restored_conversations', v_conversations,
+    'restored_identities', v_identities
+  );
+end;
+$$;
+
+revoke all on function public.bb_unmerge_customers(uuid, uuid)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_unmerge_customers(uuid, uuid)
+  to service_role;
+
+-- ------------------------------------------------------------
+-- Duplicate candidates
+-- ------------------------------------------------------------
+
+create or replace function public.bb_customer_merge_candidates(
+  p_workspace_id uuid,
+  p_limit int default 50
+)
+returns table (
+  customer_a uuid,
+  customer_b uuid,
+  reasons text[],
+  score numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with active as (
+    select id, email, phone, name
+    from customers
+    where workspace_id = p_workspace_id
+      and merged_into_id is null
+  ),
+  keys as (
+    select id as customer_id, 'email' as key_type, bb_norm_identifier('email', email) as key_value
+    from active
+    union
+    select id, 'phone', bb_norm_identifier('phone', phone)
+    from active
+    union
+    select ci.customer_id,
+      case when ci.identifier_type = 'email' then 'email' else 'phone' end,
+      ci.identifier_value_norm
+    from customer_identities ci
+    join active a on a.id = ci.customer_id
+    where ci.identifier_type in ('email', 'phone', 'whatsapp')
+    union
+    -- Full names only: a first name alone matches far too many people
+    select id, 'name', lower(regexp_replace(btrim(name), '\s+', ' ', 'g'))
+    from active
+    where name ~ '\S+\s+\S+'
+      and name not like '%@%'
+  ),
+  pairs as (
+    select k1.customer_id as customer_a, k2.customer_id as customer_b, k1.key_type
+    from keys k1
+    join keys k2
+      on k2.key_type = k1.key_type
+     and k2.key_value = k1.key_value
+     and k2.customer_id > k1.customer_id
+    where k1.key_value is not null
+  )
+  select
+    p.customer_a,
+    p.customer_b,
+    array_agg(distinct p.key_type order by p.key_type) as reasons,
+    max(case p.key_type when 'email' then 0.9 when 'phone' then 0.85 else 0.5 end)::numeric
+      + (count(distinct p.key_type) - 1) * 0.05 as score
+  from pairs p
+  -- A pair someone already merged and undid has been judged distinct
+  where not exists (
+    select 1 from customer_merges m
+    where m.workspace_id = p_workspace_id
+      and m.unmerged_at is not null
+      and ((m.winner_id = p.customer_a and m.loser_id = p.customer_b)
+        or (m.winner_id = p.customer_b and m.loser_id = p.customer_a))
+  )
+  group by p.customer_a, p.customer_b
+  order by score desc, p.customer_a
+  limit greatest(1, least(coalesce(p_limit, 50), 200));
+$$;
+
+revoke all on function public.bb_customer_merge_candidates(uuid, int)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_customer_merge_candidates(uuid, int)
+  to service_role;
+
+commit;
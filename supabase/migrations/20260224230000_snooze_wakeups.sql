@@ -0,0 +1,167 @@
+-- Server-side snooze wake-ups. Snoozed conversations used to reappear only
+-- because list queries compared snoozed_until with the browser clock, so
+-- nothing told the assignee and the conversation kept whatever bucket it
+-- had. bb_wake_due_snoozes (pg_cron, every minute) and a customer reply
+-- (bb_wake_on_customer_reply) now clear the snooze, put the conversation
+-- back into an actionable decision bucket and notify the assignee.
+
+begin;
+
+alter table public.conversations
+  add column if not exists snoozed_at timestamptz,
+  add column if not exists snoozed_by uuid references public.users(id) on delete set null,
+  add column if not exists snooze_until_reply boolean not null default false,
+  add column if not exists snoozed_from_bucket text;
+
+comment on column public.conversations.snooze_until_reply is
+  'Snoozed until the customer replies; snoozed_until is only the fallback wake time';
+comment on column public.conversations.snoozed_from_bucket is
+  'decision_bucket before snoozing, restored on wake';
+
+create index if not exists conversations_snoozed_until_idx
+  on public.conversations (snoozed_until)
+  where snoozed_until is not null;
+
+create or replace function public.bb_wake_conversation(
+  p_conversation_id uuid,
+  p_reason text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conv conversations%rowtype;
+begin
+  update conversations c
+  set
+    snoozed_until = null,
+    snooze_until_reply = false,
+    snoozed_at = null,
+    snoozed_by = null,
+    snoozed_from_bucket = null,
+    -- Anything that was snoozed needs a human look, so never wake into wait/auto_handled
+    decision_bucket = case
+      when coalesce(c.snoozed_from_bucket, c.decision_bucket) in ('act_now', 'quick_win')
+        then coalesce(c.snoozed_from_bucket, c.decision_bucket)
+      else 'quick_win'
+    end,
+    updated_at = now()
+  where c.id = p_conversation_id
+    and c.snoozed_until is not null
+  returning c.* into v_conv;
+
+  if not found then
+    return false;
+  end if;
+
+  if v_conv.status in ('resolved', 'closed') and p_reason <> 'customer_reply' then
+    return true;
+  end if;
+
+  insert into notifications (workspace_id, user_id, type, title, body, metadata)
+  values (
+    v_conv.workspace_id,
+    v_conv.assigned_to,
+    'snooze_wake',
+    case when p_reason = 'customer_reply'
+      then 'Customer replied to a snoozed conversation'
+      else 'Snoozed conversation is back'
+    end,
+    coalesce(nullif(btrim(v_conv.title), ''), 'Untitled conversation'),
+    jsonb_build_object('conversation_id', v_conv.id, 'reason', p_reason)
+  );
+
+  return true;
+end;
+$$;
+
+create or replace function public.bb_wake_due_snoozes(p_limit integer default 500)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+  v_woken integer := 0;
+begin
+  for v_id in
+    select id
+    from conversations
+    where snoozed_until is not null
+      and snoozed_until <= now()
+    order by snoozed_until
+    limit greatest(1, p_limit)
+  loop
+    if public.bb_wake_conversation(v_id, 'timer') then
+      v_woken := v_woken + 1;
+    end if;
+  end loop;
+
+  return v_woken;
+end;
+$$;
+
+create or replace function public.bb_wake_on_customer_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Imported history must not wake anything
+  if new.direction <> 'inbound' or new.is_internal is true or new.conversation_id is null
+     or new.created_at < now() - interval '2 days' then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from conversations
+    where id = new.conversation_id
+      and snoozed_until is not null
+  ) then
+    perform public.bb_wake_conversation(new.conversation_id, 'customer_reply');
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bb_wake_on_customer_reply on public.messages;
+create trigger bb_wake_on_customer_reply
+  after insert on public.messages
+  for each row
+  execute function public.bb_wake_on_customer_reply();
+
+revoke all on function public.bb_wake_conversation(uuid, text)
+  from public, anon, authenticated;
+revoke all on function public.bb_wake_due_snoozes(integer)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_wake_conversation(uuid, text) to service_role;
+grant execute on function public.bb_wake_due_snoozes(integer) to service_role;
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname = 'bb_wake_snoozed';
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_wake_snoozed',
+    '* * * * *',
+    'select public.bb_wake_due_snoozes()'
+  );
+exception when others then
+  raise notice 'snooze wake cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+commit;
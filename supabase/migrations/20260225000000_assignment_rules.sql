@@ -0,0 +1,191 @@
+-- Team assignment rules. After pipeline-worker-classify decides the bucket
+-- it assigns unassigned conversations using the first enabled rule whose
+-- conditions match (category, channel, customer tier, sender domain,
+-- bucket). bb_pick_assignee distributes round-robin or to the member with
+-- the fewest open conversations, skipping anyone whose users.status is not
+-- 'available'. When a member goes away, their open rule-assigned
+-- conversations are handed to someone else from the same rule.
+
+begin;
+
+create table if not exists public.assignment_rules (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  name text not null,
+  enabled boolean not null default true,
+  -- Lower runs first
+  priority integer not null default 100,
+  -- Empty array = any value
+  categories text[] not null default '{}',
+  channels text[] not null default '{}',
+  customer_tiers text[] not null default '{}',
+  sender_domains text[] not null default '{}',
+  decision_buckets text[] not null default '{act_now,quick_win}',
+  strategy text not null default 'round_robin'
+    check (strategy in ('round_robin', 'load_balanced')),
+  assignee_ids uuid[] not null default '{}',
+  reassign_when_away boolean not null default true,
+  last_assigned_user_id uuid references public.users(id) on delete set null,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists assignment_rules_workspace_idx
+  on public.assignment_rules (workspace_id, priority)
+  where enabled;
+
+alter table public.conversations
+  add column if not exists assigned_by_rule_id uuid references public.assignment_rules(id) on delete set null,
+  add column if not exists assigned_at timestamptz;
+
+create index if not exists conversations_assigned_to_open_idx
+  on public.conversations (assigned_to, status)
+  where assigned_to is not null;
+
+alter table public.assignment_rules enable row level security;
+
+drop policy if exists assignment_rules_select on public.assignment_rules;
+create policy assignment_rules_select
+  on public.assignment_rules for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists assignment_rules_write on public.assignment_rules;
+create policy assignment_rules_write
+  on public.assignment_rules for all
+  using (public.bb_user_in_workspace(workspace_id))
+  with check (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists assignment_rules_service_write on public.assignment_rules;
+create policy assignment_rules_service_write
+  on public.assignment_rules for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select, insert, update, delete on public.assignment_rules to authenticated;
+grant all privileges on public.assignment_rules to service_role;
+
+-- Picks the next available assignee for a rule, or null when nobody in the
+-- rule is available. The rule row lock serialises concurrent classify jobs.
+create or replace function public.bb_pick_assignee(
+  p_rule_id uuid,
+  p_exclude_user_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rule assignment_rules%rowtype;
+  v_user_id uuid;
+begin
+  select * into v_rule from assignment_rules
+  where id = p_rule_id
+  for update;
+  if not found then
+    return null;
+  end if;
+
+  with candidates as (
+    select u.id, array_position(v_rule.assignee_ids, u.id) as pos
+    from users u
+    where u.id = any(v_rule.assignee_ids)
+      and u.workspace_id = v_rule.workspace_id
+      and coalesce(u.status, 'available') = 'available'
+      and u.id is distinct from p_exclude_user_id
+  ),
+  last_pos as (
+    select coalesce(array_position(v_rule.assignee_ids, v_rule.last_assigned_user_id), 0) as pos
+  )
+  select c.id into v_user_id
+  from candidates c, last_pos l
+  order by
+    case when v_rule.strategy = 'load_balanced' then (
+      select count(*) from conversations cv
+      where cv.assigned_to = c.id
+        and cv.workspace_id = v_rule.workspace_id
+        and cv.status not in ('resolved', 'closed')
+    ) else 0 end,
+    -- Round-robin: next position after the last assignee, wrapping around
+    case when c.pos > l.pos then 0 else 1 end,
+    c.pos
+  limit 1;
+
+  if v_user_id is not null then
+    update assignment_rules
+    set last_assigned_user_id = v_user_id
+    where id = p_rule_id;
+  end if;
+
+  return v_user_id;
+end;
+$$;
+
+-- Hands a member's open rule-assigned conversations to someone else from
+-- the same rule; conversations with nobody available become unassigned.
+create or replace function public.bb_reassign_from_user(p_user_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conv record;
+  v_next uuid;
+  v_moved integer := 0;
+begin
+  for v_conv in
+    select c.id, c.assigned_by_rule_id
+    from conversations c
+    join assignment_rules r on r.id = c.assigned_by_rule_id
+    where c.assigned_to = p_user_id
+      and c.status not in ('resolved', 'closed')
+      and r.reassign_when_away
+    order by c.updated_at
+  loop
+    v_next := public.bb_pick_assignee(v_conv.assigned_by_rule_id, p_user_id);
+
+    update conversations
+    set
+      assigned_to = v_next,
+      assigned_by_rule_id = case when v_next is null then null else v_conv.assigned_by_rule_id end,
+      assigned_at = case when v_next is null then null else now() end,
+      updated_at = now()
+    where id = v_conv.id;
+
+    v_moved := v_moved + 1;
+  end loop;
+
+  return v_moved;
+end;
+$$;
+
+create or replace function public.bb_reassign_on_user_away()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.bb_reassign_from_user(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists bb_reassign_on_user_away on public.users;
+create trigger bb_reassign_on_user_away
+  after update of status on public.users
+  for each row
+  when (new.status = 'away' and old.status is distinct from new.status)
+  execute function public.bb_reassign_on_user_away();
+
+revoke all on function public.bb_pick_assignee(uuid, uuid)
+  from public, anon, authenticated;
+revoke all on function public.bb_reassign_from_user(uuid)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_pick_assignee(uuid, uuid) to service_role;
+grant execute on function public.bb_reassign_from_user(uuid) to service_role;
+
+commit;
@@ -0,0 +1,14 @@
+-- Server-side execution of data_deletion_requests (execute-deletion). The
+-- request keeps the last run's report so a partial run can be resumed, and
+-- the HMAC-signed completion certificate once everything is erased.
+
+begin;
+
+alter table public.data_deletion_requests
+  add column if not exists executed_by uuid references public.users(id) on delete set null,
+  add column if not exists erase_remote boolean not null default false,
+  add column if not exists last_report jsonb,
+  add column if not exists certificate jsonb,
+  add column if not exists certificate_signature text;
+
+commit;
@@ -0,0 +1,55 @@
+-- Subject access (DSAR) export bundles. export-customer-data builds a ZIP
+-- (JSON, CSV, original attachments and an HTML summary) into the private
+-- dsar-exports bucket. The link handed out goes through dsar-download, which
+-- checks the token and expiry, logs the download and redirects to a
+-- short-lived signed storage URL.
+
+begin;
+
+insert into storage.buckets (id, name, public)
+values ('dsar-exports', 'dsar-exports', false)
+on conflict (id) do nothing;
+
+create table if not exists public.dsar_exports (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  customer_id uuid references public.customers(id) on delete set null,
+  requested_by uuid references public.users(id) on delete set null,
+  source text not null default 'dashboard'
+    check (source in ('dashboard', 'portal')),
+  -- Null once the file has been removed after expiry
+  storage_path text,
+  size_bytes bigint not null default 0,
+  file_count integer not null default 0,
+  -- sha256 of the download token; the token itself is only in the link
+  token_hash text not null,
+  expires_at timestamptz not null,
+  download_count integer not null default 0,
+  last_downloaded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists dsar_exports_workspace_idx
+  on public.dsar_exports (workspace_id, created_at desc);
+
+create index if not exists dsar_exports_expired_idx
+  on public.dsar_exports (expires_at)
+  where storage_path is not null;
+
+alter table public.dsar_exports enable row level security;
+
+drop policy if exists dsar_exports_select on public.dsar_exports;
+create policy dsar_exports_select
+  on public.dsar_exports for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists dsar_exports_service_write on public.dsar_exports;
+create policy dsar_exports_service_write
+  on public.dsar_exports for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select on public.dsar_exports to authenticated;
+grant all privileges on public.dsar_exports to service_role;
+
+commit;
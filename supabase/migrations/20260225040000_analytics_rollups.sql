@@ -0,0 +1,445 @@
+-- Daily analytics rollups. AnalyticsDashboard used to pull every
+-- conversation in range into the browser; bb_refresh_analytics_rollups
+-- (pg_cron) now writes one row per workspace, local day and dimension
+-- (all / channel / category / decision bucket), and bb_analytics_compare
+-- reads them back for a period and the period before it.
+--
+-- Durations are kept as fixed-bucket histograms so percentiles still work
+-- when days are added together; they are exact to within one bucket.
+
+begin;
+
+create table if not exists public.analytics_daily_rollups (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  -- Day the conversation was created, in the workspace timezone
+  day date not null,
+  dimension text not null check (dimension in ('all', 'channel', 'category', 'bucket')),
+  -- '' for dimension = 'all'
+  dimension_value text not null default '',
+  conversations integer not null default 0,
+  ai_handled integer not null default 0,
+  human_handled integer not null default 0,
+  escalated integer not null default 0,
+  resolved integer not null default 0,
+  first_response_count integer not null default 0,
+  first_response_seconds_sum bigint not null default 0,
+  first_response_histogram integer[] not null default '{}',
+  resolution_count integer not null default 0,
+  resolution_seconds_sum bigint not null default 0,
+  resolution_histogram integer[] not null default '{}',
+  drafts_generated integer not null default 0,
+  drafts_sent integer not null default 0,
+  drafts_edited integer not null default 0,
+  sla_breaches integer not null default 0,
+  csat_count integer not null default 0,
+  csat_sum integer not null default 0,
+  computed_at timestamptz not null default now(),
+  unique (workspace_id, day, dimension, dimension_value)
+);
+
+create index if not exists analytics_daily_rollups_workspace_day_idx
+  on public.analytics_daily_rollups (workspace_id, dimension, day);
+
+create index if not exists conversations_workspace_created_idx
+  on public.conversations (workspace_id, created_at);
+
+alter table public.analytics_daily_rollups enable row level security;
+
+drop policy if exists analytics_daily_rollups_select on public.analytics_daily_rollups;
+create policy analytics_daily_rollups_select
+  on public.analytics_daily_rollups for select
+  using (public.bb_user_in_workspace(workspace_id));
+
+drop policy if exists analytics_daily_rollups_service_write on public.analytics_daily_rollups;
+create policy analytics_daily_rollups_service_write
+  on public.analytics_daily_rollups for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+grant select on public.analytics_daily_rollups to authenticated;
+grant all privileges on public.analytics_daily_rollups to service_role;
+
+-- Bucket edges in seconds: the first bucket is under a minute, the last is a week or more
+create or replace function public.bb_analytics_duration_edges()
+returns integer[]
+language sql
+immutable
+as $$
+  select array[60, 120, 300, 600, 900, 1800, 3600, 7200, 14400, 28800, 43200, 86400, 172800, 345600, 604800];
+$$;
+
+create or replace function public.bb_histogram_add(p_state integer[], p_seconds numeric)
+returns integer[]
+language plpgsql
+immutable
+as $$
+declare
+  v_bucket integer;
+begin
+  if cardinality(p_state) = 0 then
+    p_state := array_fill(0, array[cardinality(public.bb_analytics_duration_edges()) + 1]);
+  end if;
+  if p_seconds is null or p_seconds < 0 then
+    return p_state;
+  end if;
+  v_bucket := width_bucket(p_seconds, public.bb_analytics_duration_edges()::numeric[]) + 1;
+  p_state[v_bucket] := p_state[v_bucket] + 1;
+  return p_state;
+end;
+$$;
+
+create or replace function public.bb_histogram_merge(p_state integer[], p_other integer[])
+returns integer[]
+language plpgsql
+immutable
+as $$
+declare
+  i integer;
+begin
+  if p_other is null or cardinality(p_other) = 0 then
+    return p_state;
+  end if;
+  if cardinality(p_state) = 0 then
+    return p_other;
+  end if;
+  for i in 1 .. cardinality(p_other) loop
+    p_state[i] := coalesce(p_state[i], 0) + p_other[i];
+  end loop;
+  return p_state;
+end;
+$$;
+
+-- bb_histogram_agg(seconds) builds a histogram; bb_histogram_sum(histogram) adds them up
+create or replace aggregate public.bb_histogram_agg(numeric) (
+  sfunc = public.bb_histogram_add,
+  stype = integer[],
+  initcond = '{}'
+);
+
+create or replace aggregate public.bb_histogram_sum(integer[]) (
+  sfunc = public.bb_histogram_merge,
+  stype = integer[],
+  initcond = '{}'
+);
+
+-- Interpolates linearly inside the bucket holding the percentile. The open
+-- top bucket reports its lower edge.
+create or replace function public.bb_histogram_percentile(p_histogram integer[], p_fraction numeric)
+returns numeric
+language plpgsql
+immutable
+as $$
+declare
+  v_edges integer[] := public.bb_analytics_duration_edges();
+  v_total integer;
+  v_target numeric;
+  v_seen integer := 0;
+  v_lower numeric;
+  v_upper numeric;
+  i integer;
+begin
+  select coalesce(sum(n), 0) into v_total from unnest(p_histogram) n;
+  if v_total = 0 then
+    return null;
+  end if;
+
+  v_target := v_total * least(greatest(p_fraction, 0), 1);
+  for i in 1 .. cardinality(p_histogram) loop
+    if p_histogram[i] > 0 and v_seen + p_histogram[i] >= v_target then
+      v_lower := case when i = 1 then 0 else v_edges[i - 1] end;
+      if i > cardinality(v_edges) then
+        return v_lower;
+      end if;
+      v_upper := v_edges[i];
+      return round(v_lower + (v_upper - v_lower) * (v_target - v_seen) / p_histogram[i]);
+    end if;
+    v_seen := v_seen + p_histogram[i];
+  end loop;
+  return null;
+end;
+$$;
+
+-- Rebuilds the last p_days local days (today included). Responses,
+-- resolutions and CSAT arrive after the conversation's creation day, so the
+-- hourly run covers two days and the nightly run goes back further.
+create or replace function public.bb_refresh_analytics_rollups(
+  p_days integer default 2,
+  p_workspace_id uuid default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_days integer := greatest(1, least(coalesce(p_days, 2), 400));
+  v_written integer;
+begin
+  delete from analytics_daily_rollups r
+  using workspaces w
+  where r.workspace_id = w.id
+    and (p_workspace_id is null or w.id = p_workspace_id)
+    and r.day > (now() at time zone coalesce(w.timezone, 'Europe/London'))::date - v_days;
+
+  with base as (
+    select
+      c.workspace_id,
+      (c.created_at at time zone coalesce(w.timezone, 'Europe/London'))::date as day,
+      coalesce(nullif(c.channel, ''), 'unknown') as channel,
+      coalesce(nullif(c.category, ''), 'uncategorised') as category,
+      coalesce(nullif(c.decision_bucket, ''), 'none') as bucket,
+      (
+        c.conversation_type = 'ai_handled'
+        or (coalesce(c.auto_responded, false) and not coalesce(c.is_escalated, false))
+      ) is true as ai_handled,
+      coalesce(c.is_escalated, false) as escalated,
+      coalesce(c.status in ('resolved', 'closed'), false) as resolved,
+      extract(epoch from (c.first_response_at - c.created_at)) as first_response_seconds,
+      extract(epoch from (c.resolved_at - c.created_at)) as resolution_seconds,
+      c.ai_draft_response is not null as draft_generated,
+      c.ai_draft_response is not null and (c.final_response is not null or c.first_response_at is not null) as draft_sent,
+      c.ai_draft_response is not null and coalesce(c.human_edited, false) as draft_edited,
+      (
+        c.sla_status = 'breached'
+        or c.first_response_at > c.sla_response_due_at
+        or c.resolved_at > c.sla_resolution_due_at
+      ) is true as sla_breached,
+      c.customer_satisfaction
+    from conversations c
+    join workspaces w on w.id = c.workspace_id
+    where (p_workspace_id is null or c.workspace_id = p_workspace_id)
+      -- A day of slack for timezones ahead of UTC; the day filter below is exact
+      and c.created_at >= (current_date - v_days)::timestamptz
+      and (c.created_at at time zone coalesce(w.timezone, 'Europe/London'))::date
+        > (now() at time zone coalesce(w.timezone, 'Europe/London'))::date - v_days
+  ),
+  grouped as (
+    select
+      workspace_id,
+      day,
+      case
+        when grouping(channel) = 0 then 'channel'
+        when grouping(category) = 0 then 'category'
+        when grouping(bucket) = 0 then 'bucket'
+        else 'all'
+      end as dimension,
+      coalesce(
+        case when grouping(channel) = 0 then channel end,
+        case when grouping(category) = 0 then category end,
+        case when grouping(bucket) = 0 then bucket end,
+        ''
+      ) as dimension_value,
+      count(*) as conversations,
+      count(*) filter (where ai_handled) as ai_handled,
+      count(*) filter (where not ai_handled) as human_handled,
+      count(*) filter (where escalated) as escalated,
+      count(*) filter (where resolved) as resolved,
+      count(first_response_seconds) filter (where first_response_seconds >= 0) as first_response_count,
+      coalesce(sum(first_response_seconds) filter (where first_response_seconds >= 0), 0)::bigint as first_response_seconds_sum,
+      bb_histogram_agg(first_response_seconds::numeric) as first_response_histogram,
+      count(resolution_seconds) filter (where resolution_seconds >= 0) as resolution_count,
+      coalesce(sum(resolution_seconds) filter (where resolution_seconds >= 0), 0)::bigint as resolution_seconds_sum,
+      bb_histogram_agg(resolution_seconds::numeric) as resolution_histogram,
+      count(*) filter (where draft_generated) as drafts_generated,
+      count(*) filter (where draft_sent) as drafts_sent,
+      count(*) filter (where draft_edited) as drafts_edited,
+      count(*) filter (where sla_breached) as sla_breaches,
+      count(customer_satisfaction) as csat_count,
+      coalesce(sum(customer_satisfaction), 0) as csat_sum
+    from base
+    group by grouping sets (
+      (workspace_id, day),
+      (workspace_id, day, channel),
+      (workspace_id, day, category),
+      (workspace_id, day, bucket)
+    )
+  )
+  insert into analytics_daily_rollups (
+    workspace_id, day, dimension, dimension_value,
+    conversations, ai_handled, human_handled, escalated, resolved,
+    first_response_count, first_response_seconds_sum, first_response_histogram,
+    resolution_count, resolution_seconds_sum, resolution_histogram,
+    drafts_generated, drafts_sent, drafts_edited, sla_breaches, csat_count, csat_sum,
+    computed_at
+  )
+  select
+    workspace_id, day, dimension, dimension_value,
+    conversations, ai_handled, human_handled, escalated, resolved,
+    first_response_count, first_response_seconds_sum, first_response_histogram,
+    resolution_count, resolution_seconds_sum, resolution_histogram,
+    drafts_generated, drafts_sent, drafts_edited, sla_breaches, csat_count, csat_sum,
+    now()
+  from grouped;
+
+  get diagnostics v_written = row_count;
+  return v_written;
+end;
+$$;
+
+create or replace function public.bb_analytics_summary(
+  p_workspace_id uuid,
+  p_start date,
+  p_end date
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with totals as (
+    select
+      coalesce(sum(conversations), 0) as conversations,
+      coalesce(sum(ai_handled), 0) as ai_handled,
+      coalesce(sum(human_handled), 0) as human_handled,
+      coalesce(sum(escalated), 0) as escalated,
+      coalesce(sum(resolved), 0) as resolved,
+      coalesce(sum(first_response_count), 0) as first_response_count,
+      coalesce(sum(first_response_seconds_sum), 0) as first_response_seconds_sum,
+      bb_histogram_sum(first_response_histogram) as first_response_histogram,
+      coalesce(sum(resolution_count), 0) as resolution_count,
+      coalesce(sum(resolution_seconds_sum), 0) as resolution_seconds_sum,
+      bb_histogram_sum(resolution_histogram) as resolution_histogram,
+      coalesce(sum(drafts_generated), 0) as drafts_generated,
+      coalesce(sum(drafts_sent), 0) as drafts_sent,
+      coalesce(sum(drafts_edited), 0) as drafts_edited,
+      coalesce(sum(sla_breaches), 0) as sla_breaches,
+      coalesce(sum(csat_count), 0) as csat_count,
+      coalesce(sum(csat_sum), 0) as csat_sum,
+      max(computed_at) as computed_at
+    from analytics_daily_rollups
+    where workspace_id = p_workspace_id
+      and dimension = 'all'
+      and day between p_start and p_end
+  ),
+  breakdown as (
+    select dimension, jsonb_agg(
+      jsonb_build_object('value', dimension_value, 'conversations', total)
+      order by total desc, dimension_value
+    ) as items
+    from (
+      select dimension, dimension_value, sum(conversations) as total
+      from analytics_daily_rollups
+      where workspace_id = p_workspace_id
+        and dimension <> 'all'
+        and day between p_start and p_end
+      group by dimension, dimension_value
+    ) d
+    group by dimension
+  )
+  select jsonb_build_object(
+    'start', p_start,
+    'end', p_end,
+    'computed_at', t.computed_at,
+    'conversations', t.conversations,
+    'ai_handled', t.ai_handled,
+    'human_handled', t.human_handled,
+    'escalated', t.escalated,
+    'resolved', t.resolved,
+    'first_response', jsonb_build_object(
+      'count', t.first_response_count,
+      'avg_seconds', case when t.first_response_count > 0
+        then round(t.first_response_seconds_sum::numeric / t.first_response_count) end,
+      'p50_seconds', bb_histogram_percentile(t.first_response_histogram, 0.5),
+      'p90_seconds', bb_histogram_percentile(t.first_response_histogram, 0.9)
+    ),
+    'resolution', jsonb_build_object(
+      'count', t.resolution_count,
+      'avg_seconds', case when t.resolution_count > 0
+        then round(t.resolution_seconds_sum::numeric / t.resolution_count) end,
+      'p50_seconds', bb_histogram_percentile(t.resolution_histogram, 0.5),
+      'p90_seconds', bb_histogram_percentile(t.resolution_histogram, 0.9)
+    ),
+    'drafts', jsonb_build_object(
+      'generated', t.drafts_generated,
+      'sent', t.drafts_sent,
+      'edited', t.drafts_edited,
+      -- Sent as drafted, out of every draft produced
+      'acceptance_rate', case when t.drafts_generated > 0
+        then round((t.drafts_sent - t.drafts_edited)::numeric / t.drafts_generated, 4) end
+    ),
+    'sla_breaches', t.sla_breaches,
+    'csat', jsonb_build_object(
+      'count', t.csat_count,
+      'avg', case when t.csat_count > 0 then round(t.csat_sum::numeric / t.csat_count, 2) end
+    ),
+    'by_channel', coalesce((select items from breakdown where dimension = 'channel'), '[]'::jsonb),
+    'by_category', coalesce((select items from breakdown where dimension = 'category'), '[]'::jsonb),
+    'by_bucket', coalesce((select items from breakdown where dimension = 'bucket'), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+-- The period p_start..p_end and the equally long period right before it
+create or replace function public.bb_analytics_compare(
+  p_workspace_id uuid,
+  p_start date,
+  p_end date
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_days integer;
+begin
+  if not public.bb_user_in_workspace(p_workspace_id) then
+    raise exception 'not a member of this workspace' using errcode = '42501';
+  end if;
+  if p_start is null or p_end is null or p_end < p_start then
+    raise exception 'p_end must be on or after p_start' using errcode = '22023';
+  end if;
+
+  v_days := p_end - p_start + 1;
+  return jsonb_build_object(
+    'current', public.bb_analytics_summary(p_workspace_id, p_start, p_end),
+    'previous', public.bb_analytics_summary(p_workspace_id, p_start - v_days, p_start - 1)
+  );
+end;
+$$;
+
+revoke all on function public.bb_refresh_analytics_rollups(integer, uuid)
+  from public, anon, authenticated;
+revoke all on function public.bb_analytics_summary(uuid, date, date)
+  from public, anon, authenticated;
+revoke all on function public.bb_analytics_compare(uuid, date, date)
+  from public, anon;
+
+grant execute on function public.bb_refresh_analytics_rollups(integer, uuid) to service_role;
+grant execute on function public.bb_analytics_summary(uuid, date, date) to service_role;
+grant execute on function public.bb_analytics_compare(uuid, date, date) to authenticated, service_role;
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname in ('bb_analytics_rollups_hourly', 'bb_analytics_rollups_nightly');
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_analytics_rollups_hourly',
+    '7 * * * *',
+    'select public.bb_refresh_analytics_rollups(2)'
+  );
+  perform cron.schedule(
+    'bb_analytics_rollups_nightly',
+    '40 2 * * *',
+    'select public.bb_refresh_analytics_rollups(45)'
+  );
+exception when others then
+  raise notice 'analytics rollup cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+-- Backfill so the dashboard has history straight away
+select public.bb_refresh_analytics_rollups(90);
+
+commit;
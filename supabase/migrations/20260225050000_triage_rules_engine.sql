@@ -0,0 +1,42 @@
+-- One deterministic rules engine (_shared/triage-rules.ts) for
+-- pre-triage-rules and pipeline-worker-classify. sender_rules rows can now
+-- carry a condition tree (sender, domain, subject, body and header
+-- conditions combined with all/any) and a priority; rows without
+-- conditions keep matching on sender_pattern. For condition rules
+-- sender_pattern holds a readable summary, because older screens list it.
+
+begin;
+
+alter table public.sender_rules
+  add column if not exists conditions jsonb,
+  add column if not exists priority integer not null default 100,
+  add column if not exists decision_bucket text
+    check (decision_bucket in ('auto_handled', 'needs_human', 'act_now', 'quick_win')),
+  add column if not exists last_hit_at timestamptz;
+
+comment on column public.sender_rules.conditions is
+  '{"match": "all"|"any", "conditions": [{"field", "operator", "value", "header"?, "negate"?} | nested group]}; null = match sender_pattern';
+comment on column public.sender_rules.priority is
+  'Lower runs first; built-in rules start at 1000';
+
+create index if not exists sender_rules_workspace_priority_idx
+  on public.sender_rules (workspace_id, priority)
+  where is_active;
+
+create or replace function public.bb_record_sender_rule_hit(p_rule_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update sender_rules
+  set hit_count = coalesce(hit_count, 0) + 1,
+      last_hit_at = now()
+  where id = p_rule_id;
+$$;
+
+revoke all on function public.bb_record_sender_rule_hit(uuid)
+  from public, anon, authenticated;
+grant execute on function public.bb_record_sender_rule_hit(uuid) to service_role;
+
+commit;
@@ -0,0 +1,20 @@
+-- Placing or releasing a legal hold stops the retention policy and erasure
+-- requests for that customer, so only workspace admins may write holds.
+-- Members keep read access; the service role is unchanged.
+
+begin;
+
+drop policy if exists legal_holds_write on public.legal_holds;
+create policy legal_holds_write
+  on public.legal_holds
+  for all
+  using (
+    public.bb_user_in_workspace(workspace_id)
+    and public.has_role(auth.uid(), 'admin'::public.app_role)
+  )
+  with check (
+    public.bb_user_in_workspace(workspace_id)
+    and public.has_role(auth.uid(), 'admin'::public.app_role)
+  );
+
+commit;
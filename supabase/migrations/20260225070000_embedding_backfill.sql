@@ -0,0 +1,37 @@
+-- Conversation embeddings for "find similar conversations" are filled by the
+-- pipeline-worker-embeddings cron instead of during the search request.
+-- embedding_attempted_at keeps conversations that cannot be embedded yet
+-- (no text, provider error) from being picked again on every run.
+
+begin;
+
+alter table public.conversations
+  add column if not exists embedding_attempted_at timestamptz;
+
+create index if not exists conversations_embedding_backfill_idx
+  on public.conversations (updated_at desc)
+  where embedding is null;
+
+do $$
+begin
+  perform cron.unschedule(jobid)
+  from cron.job
+  where jobname = 'bb_embedding_backfill';
+exception when others then
+  null;
+end;
+$$;
+
+do $$
+begin
+  perform cron.schedule(
+    'bb_embedding_backfill',
+    '*/10 * * * *',
+    'select public.bb_trigger_worker(''bb_worker_embeddings_url'')'
+  );
+exception when others then
+  raise notice 'embedding backfill cron schedule skipped: %', sqlerrm;
+end;
+$$;
+
+commit;
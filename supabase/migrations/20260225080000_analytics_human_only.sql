@@ -0,0 +1,230 @@
+-- The dashboard's AI / human / escalated split subtracted escalated from
+-- human_handled, which went negative when an escalated conversation was also
+-- counted as AI handled. The rollup now keeps the three apart: ai_handled
+-- excludes escalated conversations, human_only is neither, and
+-- human_handled (not AI handled) is kept for the CSV export.
+
+begin;
+
+alter table public.analytics_daily_rollups
+  add column if not exists human_only integer not null default 0;
+
+-- Rebuilds the last p_days local days (today included). Responses,
+-- resolutions and CSAT arrive after the conversation's creation day, so the
+-- hourly run covers two days and the nightly run goes back further.
+create or replace function public.bb_refresh_analytics_rollups(
+  p_days integer default 2,
+  p_workspace_id uuid default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_days integer := greatest(1, least(coalesce(p_days, 2), 400));
+  v_written integer;
+begin
+  delete from analytics_daily_rollups r
+  using workspaces w
+  where r.workspace_id = w.id
+    and (p_workspace_id is null or w.id = p_workspace_id)
+    and r.day > (now() at time zone coalesce(w.timezone, 'Europe/London'))::date - v_days;
+
+  with base as (
+    select
+      c.workspace_id,
+      (c.created_at at time zone coalesce(w.timezone, 'Europe/London'))::date as day,
+      coalesce(nullif(c.channel, ''), 'unknown') as channel,
+      coalesce(nullif(c.category, ''), 'uncategorised') as category,
+      coalesce(nullif(c.decision_bucket, ''), 'none') as bucket,
+      -- ai_handled, escalated and human-only do not overlap
+      (
+        c.conversation_type = 'ai_handled'
+        or coalesce(c.auto_responded, false)
+      ) is true and not coalesce(c.is_escalated, false) as ai_handled,
+      coalesce(c.is_escalated, false) as escalated,
+      coalesce(c.status in ('resolved', 'closed'), false) as resolved,
+      extract(epoch from (c.first_response_at - c.created_at)) as first_response_seconds,
+      extract(epoch from (c.resolved_at - c.created_at)) as resolution_seconds,
+      c.ai_draft_response is not null as draft_generated,
+      c.ai_draft_response is not null and (c.final_response is not null or c.first_response_at is not null) as draft_sent,
+      c.ai_draft_response is not null and coalesce(c.human_edited, false) as draft_edited,
+      (
+        c.sla_status = 'breached'
+        or c.first_response_at > c.sla_response_due_at
+        or c.resolved_at > c.sla_resolution_due_at
+      ) is true as sla_breached,
+      c.customer_satisfaction
+    from conversations c
+    join workspaces w on w.id = c.workspace_id
+    where (p_workspace_id is null or c.workspace_id = p_workspace_id)
+      -- A day of slack for timezones ahead of UTC; the day filter below is exact
+      and c.created_at >= (current_date - v_days)::timestamptz
+      and (c.created_at at time zone coalesce(w.timezone, 'Europe/London'))::date
+        > (now() at time zone coalesce(w.timezone, 'Europe/London'))::date - v_days
+  ),
+  grouped as (
+    select
+      workspace_id,
+      day,
+      case
+        when grouping(channel) = 0 then 'channel'
+        when grouping(category) = 0 then 'category'
+        when grouping(bucket) = 0 then 'bucket'
+        else 'all'
+      end as dimension,
+      coalesce(
+        case when grouping(channel) = 0 then channel end,
+        case when grouping(category) = 0 then category end,
+        case when grouping(bucket) = 0 then bucket end,
+        ''
+      ) as dimension_value,
+      count(*) as conversations,
+      count(*) filter (where ai_handled) as ai_handled,
+      count(*) filter (where not ai_handled) as human_handled,
+      count(*) filter (where not ai_handled and not escalated) as human_only,
+      count(*) filter (where escalated) as escalated,
+      count(*) filter (where resolved) as resolved,
+      count(first_response_seconds) filter (where first_response_seconds >= 0) as first_response_count,
+      coalesce(sum(first_response_seconds) filter (where first_response_seconds >= 0), 0)::bigint as first_response_seconds_sum,
+      bb_histogram_agg(first_response_seconds::numeric) as first_response_histogram,
+      count(resolution_seconds) filter (where resolution_seconds >= 0) as resolution_count,
+      coalesce(sum(resolution_seconds) filter (where resolution_seconds >= 0), 0)::bigint as resolution_seconds_sum,
+      bb_histogram_agg(resolution_seconds::numeric) as resolution_histogram,
+      count(*) filter (where draft_generated) as drafts_generated,
+      count(*) filter (where draft_sent) as drafts_sent,
+      count(*) filter (where draft_edited) as drafts_edited,
+      count(*) filter (where sla_breached) as sla_breaches,
+      count(customer_satisfaction) as csat_count,
+      coalesce(sum(customer_satisfaction), 0) as csat_sum
+    from base
+    group by grouping sets (
+      (workspace_id, day),
+      (workspace_id, day, channel),
+      (workspace_id, day, category),
+      (workspace_id, day, bucket)
+    )
+  )
+  insert into analytics_daily_rollups (
+    workspace_id, day, dimension, dimension_value,
+    conversations, ai_handled, human_handled, human_only, escalated, resolved,
+    first_response_count, first_response_seconds_sum, first_response_histogram,
+    resolution_count, resolution_seconds_sum, resolution_histogram,
+    drafts_generated, drafts_sent, drafts_edited, sla_breaches, csat_count, csat_sum,
+    computed_at
+  )
+  select
+    workspace_id, day, dimension, dimension_value,
+    conversations, ai_handled, human_handled, human_only, escalated, resolved,
+    first_response_count, first_response_seconds_sum, first_response_histogram,
+    resolution_count, resolution_seconds_sum, resolution_histogram,
+    drafts_generated, drafts_sent, drafts_edited, sla_breaches, csat_count, csat_sum,
+    now()
+  from grouped;
+
+  get diagnostics v_written = row_count;
+  return v_written;
+end;
+$$;
+
+create or replace function public.bb_analytics_summary(
+  p_workspace_id uuid,
+  p_start date,
+  p_end date
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with totals as (
+    select
+      coalesce(sum(conversations), 0) as conversations,
+      coalesce(sum(ai_handled), 0) as ai_handled,
+      coalesce(sum(human_handled), 0) as human_handled,
+      coalesce(sum(human_only), 0) as human_only,
+      coalesce(sum(escalated), 0) as escalated,
+      coalesce(sum(resolved), 0) as resolved,
+      coalesce(sum(first_response_count), 0) as first_response_count,
+      coalesce(sum(first_response_seconds_sum), 0) as first_response_seconds_sum,
+      bb_histogram_sum(first_response_histogram) as first_response_histogram,
+      coalesce(sum(resolution_count), 0) as resolution_count,
+      coalesce(sum(resolution_seconds_sum), 0) as resolution_seconds_sum,
+      bb_histogram_sum(resolution_histogram) as resolution_histogram,
+      coalesce(sum(drafts_generated), 0) as drafts_generated,
+      coalesce(sum(drafts_sent), 0) as drafts_sent,
+      coalesce(sum(drafts_edited), 0) as drafts_edited,
+      coalesce(sum(sla_breaches), 0) as sla_breaches,
+      coalesce(sum(csat_count), 0) as csat_count,
+      coalesce(sum(csat_sum), 0) as csat_sum,
+      max(computed_at) as computed_at
+    from analytics_daily_rollups
+    where workspace_id = p_workspace_id
+      and dimension = 'all'
+      and day between p_start and p_end
+  ),
+  breakdown as (
+    select dimension, jsonb_agg(
+      jsonb_build_object('value', dimension_value, 'conversations', total)
+      order by total desc, dimension_value
+    ) as items
+    from (
+      select dimension, dimension_value, sum(conversations) as total
+      from analytics_daily_rollups
+      where workspace_id = p_workspace_id
+        and dimension <> 'all'
+        and day between p_start and p_end
+      group by dimension, dimension_value
+    ) d
+    group by dimension
+  )
+  select jsonb_build_object(
+    'start', p_start,
+    'end', p_end,
+    'computed_at', t.computed_at,
+    'conversations', t.conversations,
+    'ai_handled', t.ai_handled,
+    'human_handled', t.human_handled,
+    'human_only', t.human_only,
+    'escalated', t.escalated,
+    'resolved', t.resolved,
+    'first_response', jsonb_build_object(
+      'count', t.first_response_count,
+      'avg_seconds', case when t.first_response_count > 0
+        then round(t.first_response_seconds_sum::numeric / t.first_response_count) end,
+      'p50_seconds', bb_histogram_percentile(t.first_response_histogram, 0.5),
+      'p90_seconds', bb_histogram_percentile(t.first_response_histogram, 0.9)
+    ),
+    'resolution', jsonb_build_object(
+      'count', t.resolution_count,
+      'avg_seconds', case when t.resolution_count > 0
+        then round(t.resolution_seconds_sum::numeric / t.resolution_count) end,
+      'p50_seconds', bb_histogram_percentile(t.resolution_histogram, 0.5),
+      'p90_seconds', bb_histogram_percentile(t.resolution_histogram, 0.9)
+    ),
+    'drafts', jsonb_build_object(
+      'generated', t.drafts_generated,
+      'sent', t.drafts_sent,
+      'edited', t.drafts_edited,
+      -- Sent as drafted, out of every draft produced
+      'acceptance_rate', case when t.drafts_generated > 0
+        then round((t.drafts_sent - t.drafts_edited)::numeric / t.drafts_generated, 4) end
+    ),
+    'sla_breaches', t.sla_breaches,
+    'csat', jsonb_build_object(
+      'count', t.csat_count,
+      'avg', case when t.csat_count > 0 then round(t.csat_sum::numeric / t.csat_count, 2) end
+    ),
+    'by_channel', coalesce((select items from breakdown where dimension = 'channel'), '[]'::jsonb),
+    'by_category', coalesce((select items from breakdown where dimension = 'category'), '[]'::jsonb),
+    'by_bucket', coalesce((select items from breakdown where dimension = 'bucket'), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+-- Rebuild history with the new split
+select public.bb_refresh_analytics_rollups(90);
+
+commit;
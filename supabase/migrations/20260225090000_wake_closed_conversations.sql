@@ -0,0 +1,85 @@
+-- bb_wake_conversation moved resolved and closed conversations back into
+-- quick_win while leaving their status alone, so finished work showed up as
+-- actionable. A timer wake now only clears the snooze on those; a customer
+-- reply reopens the conversation explicitly before it is woken.
+
+begin;
+
+create or replace function public.bb_wake_conversation(
+  p_conversation_id uuid,
+  p_reason text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conv conversations%rowtype;
+  v_finished boolean;
+begin
+  select c.status in ('resolved', 'closed') into v_finished
+  from conversations c
+  where c.id = p_conversation_id
+    and c.snoozed_until is not null
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  if coalesce(v_finished, false) and p_reason <> 'customer_reply' then
+    update conversations c
+    set
+      snoozed_until = null,
+      snooze_until_reply = false,
+      snoozed_at = null,
+      snoozed_by = null,
+      snoozed_from_bucket = null,
+      updated_at = now()
+    where c.id = p_conversation_id;
+    return true;
+  end if;
+
+  update conversations c
+  set
+    snoozed_until = null,
+    snooze_until_reply = false,
+    snoozed_at = null,
+    snoozed_by = null,
+    snoozed_from_bucket = null,
+    -- The customer wrote again, so a finished conversation is open work once more
+    status = case when coalesce(v_finished, false) then 'open' else c.status end,
+    resolved_at = case when coalesce(v_finished, false) then null else c.resolved_at end,
+    -- Anything that was snoozed needs a human look, so never wake into wait/auto_handled
+    decision_bucket = case
+      when coalesce(c.snoozed_from_bucket, c.decision_bucket) in ('act_now', 'quick_win')
+        then coalesce(c.snoozed_from_bucket, c.decision_bucket)
+      else 'quick_win'
+    end,
+    updated_at = now()
+  where c.id = p_conversation_id
+  returning c.* into v_conv;
+
+  insert into notifications (workspace_id, user_id, type, title, body, metadata)
+  values (
+    v_conv.workspace_id,
+    v_conv.assigned_to,
+    'snooze_wake',
+    case when p_reason = 'customer_reply'
+      then 'Customer replied to a snoozed conversation'
+      else 'Snoozed conversation is back'
+    end,
+    coalesce(nullif(btrim(v_conv.title), ''), 'Untitled conversation'),
+    jsonb_build_object('conversation_id', v_conv.id, 'reason', p_reason, 'reopened', coalesce(v_finished, false))
+  );
+
+  return true;
+end;
+$$;
+
+revoke all on function public.bb_wake_conversation(uuid, text)
+  from public, anon, authenticated;
+grant execute on function public.bb_wake_conversation(uuid, text) to service_role;
+
+commit;
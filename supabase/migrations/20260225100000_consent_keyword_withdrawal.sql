@@ -0,0 +1,102 @@
+-- A STOP keyword only inserted a withdrawal when the channel had no withdrawn
+-- row yet. The gate takes the latest record per purpose across the channel and
+-- 'all', so an old withdrawn sms row plus a newer 'all' grant left the opt-out
+-- ignored. Every STOP now writes fresh withdrawal rows for both purposes.
+
+begin;
+
+create or replace function public.bb_consent_keywords_on_inbound()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_customer_id uuid;
+  v_keyword text;
+  v_opt_out boolean;
+  v_now timestamptz := now();
+begin
+  -- Imported history must not flip consent
+  if new.direction <> 'inbound' or new.is_internal is true or new.conversation_id is null
+     or coalesce(new.channel, '') not in ('sms', 'whatsapp')
+     or new.created_at < v_now - interval '2 days' then
+    return new;
+  end if;
+
+  v_keyword := upper(btrim(regexp_replace(coalesce(new.body, ''), '[^[:alnum:][:space:]]', '', 'g')));
+  if v_keyword in ('STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT') then
+    v_opt_out := true;
+  elsif v_keyword in ('START', 'UNSTOP') then
+    v_opt_out := false;
+  else
+    return new;
+  end if;
+
+  select customer_id into v_customer_id
+  from conversations
+  where id = new.conversation_id;
+
+  if v_customer_id is null then
+    return new;
+  end if;
+
+  if v_opt_out then
+    -- Every purpose on the channel, marketing included
+    update customer_consents
+    set consent_given = false,
+        withdrawn_date = v_now,
+        notes = format('Withdrawn by "%s" keyword received on %s', v_keyword, new.channel),
+        updated_at = v_now
+    where customer_id = v_customer_id
+      and channel = new.channel
+      and withdrawn_date is null;
+
+    -- Always record a fresh withdrawal: the latest record per purpose wins, so
+    -- a newer grant on the channel or on 'all' would otherwise outrank it
+    insert into customer_consents (
+      customer_id, channel, consent_given, consent_method, withdrawn_date, notes, purpose
+    )
+    select
+      v_customer_id, new.channel, false, 'sms_keyword', v_now,
+      format('Withdrawn by "%s" keyword received on %s', v_keyword, new.channel),
+      p.purpose
+    from unnest(array['customer_service', 'marketing']) as p(purpose);
+  else
+    -- START re-opens service messages only; marketing needs a fresh explicit opt-in
+    update customer_consents
+    set consent_given = true,
+        consent_date = v_now,
+        consent_method = 'sms_keyword',
+        withdrawn_date = null,
+        notes = format('Restored by "%s" keyword received on %s', v_keyword, new.channel),
+        updated_at = v_now
+    where customer_id = v_customer_id
+      and channel = new.channel
+      and coalesce(purpose, 'customer_service') <> 'marketing'
+      and withdrawn_date is not null;
+
+    if not found then
+      return new;
+    end if;
+  end if;
+
+  insert into data_access_logs (action, customer_id, conversation_id, metadata)
+  values (
+    'edit',
+    v_customer_id,
+    new.conversation_id,
+    jsonb_build_object(
+      'operation', case when v_opt_out then 'consent_withdrawal' else 'consent_restored' end,
+      'source', 'sms_keyword',
+      'channel', new.channel,
+      'keyword', v_keyword,
+      'message_id', new.id
+    )
+  );
+
+  return new;
+end;
+$$;
+
+commit;
@@ -0,0 +1,321 @@
+-- ============================================================
+-- Legal holds follow customer merges
+--
+-- bb_merge_customers left the loser's legal_holds on the loser,
+-- so retention and erasure runs keyed on the surviving customer
+-- no longer saw them. Holds now move to the winner with the rest
+-- of the loser's rows, are recorded in customer_merges.moved and
+-- go back on unmerge.
+-- ============================================================
+
+begin;
+
+create or replace function public.bb_merge_customers(
+  p_workspace_id uuid,
+  p_winner_id uuid,
+  p_loser_id uuid,
+  p_merged_by uuid default null,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_winner customers%rowtype;
+  v_loser customers%rowtype;
+  v_identities uuid[];
+  v_conversations uuid[];
+  v_events uuid[];
+  v_consents uuid[];
+  v_insights uuid[];
+  v_holds uuid[];
+  v_merge_id uuid;
+begin
+  if p_winner_id = p_loser_id then
+    return jsonb_build_object('error', 'winner and loser are the same customer');
+  end if;
+
+  select * into v_winner from customers
+  where id = p_winner_id and workspace_id = p_workspace_id
+  for update;
+  if not found then
+    return jsonb_build_object('error', 'winner customer not found');
+  end if;
+
+  select * into v_loser from customers
+  where id = p_loser_id and workspace_id = p_workspace_id
+  for update;
+  if not found then
+    return jsonb_build_object('error', 'loser customer not found');
+  end if;
+
+  if v_winner.merged_into_id is not null or v_loser.merged_into_id is not null then
+    return jsonb_build_object('error', 'customer has already been merged');
+  end if;
+
+  -- Identities are unique per workspace, so the loser's never collide
+  -- with the winner's and can all move.
+  with moved as (
+    update customer_identities
+    set customer_id = p_winner_id
+    where customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_identities from moved;
+
+  with moved as (
+    update conversations
+    set customer_id = p_winner_id, updated_at = now()
+    where customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_conversations from moved;
+
+  with moved as (
+    update message_events
+    set materialized_customer_id = p_winner_id
+    where materialized_customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_events from moved;
+
+  with moved as (
+    update customer_consents
+    set customer_id = p_winner_id, updated_at = now()
+    where customer_id = p_loser_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_consents from moved;
+
+  -- One insight per type per customer; the winner's own insight wins
+  with moved as (
+    update customer_insights ci
+    set customer_id = p_winner_id
+    where ci.customer_id = p_loser_id
+      and not exists (
+        select 1 from customer_insights w
+        where w.customer_id = p_winner_id
+          and w.insight_type = ci.insight_type
+      )
+    returning ci.id
+  )
+  select coalesce(array_agg(id), '{}') into v_insights from moved;
+
+  -- A hold on either customer must keep protecting the merged record
+  with moved as (
+    update legal_holds
+    set customer_id = p_winner_id
+    where customer_id = p_loser_id
+      and workspace_id = p_workspace_id
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_holds from moved;
+
+  -- Fill gaps on the winner from the loser
+  update customers set
+    name = coalesce(v_winner.name, v_loser.name),
+    email = coalesce(v_winner.email, v_loser.email),
+    phone = coalesce(v_winner.phone, v_loser.phone),
+    notes = case
+      when v_loser.notes is not null and v_winner.notes is not null
+        then v_winner.notes || E'\n[Merged] ' || v_loser.notes
+      else coalesce(v_winner.notes, v_loser.notes)
+    end,
+    updated_at = now()
+  where id = p_winner_id;
+
+  update customers set
+    merged_into_id = p_winner_id,
+    merged_at = now(),
+    updated_at = now()
+  where id = p_loser_id;
+
+  insert into customer_merges (
+    workspace_id, winner_id, loser_id, merged_by, match_reason, moved, winner_before
+  ) values (
+    p_workspace_id,
+    p_winner_id,
+    p_loser_id,
+    p_merged_by,
+    p_reason,
+    jsonb_build_object(
+      'conversations', to_jsonb(v_conversations),
+      'identities', to_jsonb(v_identities),
+      'message_events', to_jsonb(v_events),
+      'consents', to_jsonb(v_consents),
+      'insights', to_jsonb(v_insights),
+      'legal_holds', to_jsonb(v_holds)
+    ),
+    jsonb_build_object(
+      'name', v_winner.name,
+      'email', v_winner.email,
+      'phone', v_winner.phone,
+      'notes', v_winner.notes
+    )
+  )
+  returning id into v_merge_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'merge_id', v_merge_id,
+    'winner_id', p_winner_id,
+    'loser_id', p_loser_id,
+    'moved_identities', coalesce(array_length(v_identities, 1), 0),
+    'moved_conversations', coalesce(array_length(v_conversations, 1), 0)
+  );
+end;
+$$;
+
+revoke all on function public.bb_merge_customers(uuid, uuid, uuid, uuid, text)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_merge_customers(uuid, uuid, uuid, uuid, text)
+  to service_role;
+
+-- ------------------------------------------------------------
+-- Unmerge
+-- ------------------------------------------------------------
+
+create or replace function public.bb_unmerge_customers(
+  p_merge_id uuid,
+  p_unmerged_by uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_merge customer_merges%rowtype;
+  v_conversations int := 0;
+  v_identities int := 0;
+begin
+  select * into v_merge from customer_merges
+  where id = p_merge_id
+  for update;
+  if not found then
+    return jsonb_build_object('error', 'merge not found');
+  end if;
+
+  if v_merge.unmerged_at is not null then
+    return jsonb_build_object('error', 'merge has already been undone');
+  end if;
+
+  -- Rows that moved on again (winner merged elsewhere) can't be traced back
+  if exists (
+    select 1 from customers
+    where id = v_merge.winner_id and merged_into_id is not null
+  ) then
+    return jsonb_build_object('error', 'the kept customer was merged again; undo that merge first');
+  end if;
+
+  -- Only rows still on the winner go back; anything reassigned since stays put
+  with moved as (
+    update conversations
+    set customer_id = v_merge.loser_id, updated_at = now()
+    where customer_id = v_merge.winner_id
+      and id in (select jsonb_array_elements_text(v_merge.moved -> 'conversations')::uuid)
+    returning id
+  )
+  select count(*) into v_conversations from moved;
+
+  with moved as (
+    update customer_identities
+    set customer_id = v_merge.loser_id
+    where customer_id = v_merge.winner_id
+      and id in (select jsonb_array_elements_text(v_merge.moved -> 'identities')::uuid)
+    returning id
+  )
+  select count(*) into v_identities from moved;
+
+  update message_events
+  set materialized_customer_id = v_merge.loser_id
+  where materialized_customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(v_merge.moved -> 'message_events')::uuid);
+
+  update customer_consents
+  set customer_id = v_merge.loser_id, updated_at = now()
+  where customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(v_merge.moved -> 'consents')::uuid);
+
+  update customer_insights
+  set customer_id = v_merge.loser_id
+  where customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(v_merge.moved -> 'insights')::uuid);
+
+  -- Merges made before holds were tracked have no legal_holds key
+  update legal_holds
+  set customer_id = v_merge.loser_id
+  where customer_id = v_merge.winner_id
+    and id in (select jsonb_array_elements_text(coalesce(v_merge.moved -> 'legal_holds', '[]'::jsonb))::uuid);
+
+  update customers set
+    name = v_merge.winner_before ->> 'name',
+    email = v_merge.winner_before ->> 'email',
+    phone = v_merge.winner_before ->> 'phone',
+    notes = v_merge.winner_before ->> 'notes',
+    updated_at = now()
+  where id = v_merge.winner_id;
+
+  update customers set
+    merged_into_id = null,
+    merged_at = null,
+    updated_at = now()
+  where id = v_merge.loser_id;
+
+  update customer_merges set
+    unmerged_at = now(),
+    unmerged_by = p_unmerged_by
+  where id = p_merge_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'merge_id', p_merge_id,
+    'winner_id', v_merge.winner_id,
+    'loser_id', v_merge.loser_id,
+    'restored_conversations', v_conversations,
+    'restored_identities', v_identities
+  );
+end;
+$$;
+
+revoke all on function public.bb_unmerge_customers(uuid, uuid)
+  from public, anon, authenticated;
+
+grant execute on function public.bb_unmerge_customers(uuid, uuid)
+  to service_role;
+
+-- Holds still sitting on customers merged before this change
+do $$
+declare
+  v_merge record;
+  v_holds uuid[];
+begin
+  for v_merge in
+    select id, workspace_id, winner_id, loser_id
+    from customer_merges
+    where unmerged_at is null
+    order by created_at
+  loop
+    with moved as (
+      update legal_holds
+      set customer_id = v_merge.winner_id
+      where customer_id = v_merge.loser_id
+        and workspace_id = v_merge.workspace_id
+      returning id
+    )
+    select coalesce(array_agg(id), '{}') into v_holds from moved;
+
+    update customer_merges
+    set moved = moved || jsonb_build_object('legal_holds', to_jsonb(v_holds))
+    where id = v_merge.id;
+  end loop;
+end;
+$$;
+
+commit;